@@ -5,18 +5,21 @@ import {
 	backgroundProcessFactory,
 	ProcessFactory,
 } from "@/services/background-jobs/handlers";
+import type { SharedDependencies } from "@/services/background-jobs/handlers/process-factory";
 import { backgroundJob } from "@/services/background-jobs/background-job";
+import { JobDispatcher } from "@/services/background-jobs/job-dispatcher";
 import type { JobNotificationMessage } from "@/services/background-jobs/bridges";
 import type { BaseJob } from "@/services/background-jobs/handlers/types";
 
 // Import process handlers and factory
-import type { ProcessDependencies } from "@/services/background-jobs/handlers/types";
 import type {
 	JobProgressUpdate,
 	JobResult,
 } from "@/services/background-jobs/handlers/types";
 
 import { serviceManager } from "@/services";
+import { sourceRecoveryService } from "@/modules/knowledge/services/source-recovery-service";
+import { graphMaintenanceService } from "@/modules/knowledge/services/graph-maintenance-service";
 import { sharedStorageService } from "@/services/shared-storage";
 import { logger } from "@/utils/logger";
 import { EmbeddingServiceMain } from "@/services/embedding/embedding-service-main";
@@ -83,7 +86,8 @@ class OffscreenProcessor {
 	private ticking = false;
 	private tickRequested = false;
 	private processFactory: ProcessFactory;
-	private dependencies: ProcessDependencies;
+	private dependencies: SharedDependencies;
+	private dispatcher: JobDispatcher;
 
 	constructor() {
 		// Initialize dependencies for dependency injection
@@ -93,6 +97,7 @@ class OffscreenProcessor {
 		);
 		this.processFactory = backgroundProcessFactory;
 		this.processFactory.setDependencies(this.dependencies);
+		this.dispatcher = new JobDispatcher(this.processFactory);
 
 		// Set up message listener for INITIAL command
 		this.setupInitialMessageListener();
@@ -180,6 +185,11 @@ class OffscreenProcessor {
 			// Begin processing queue before announcing readiness so message handlers are live
 			await this.startQueueProcessing();
 			logger.info("offscreen", "queue", "✅ Job queue processing loop started");
+			void this.resumeInterruptedJobs()
+				.then(() => this.recoverStuckSources())
+				.then(() => this.scheduleDuplicateScan());
+			// The scan skips itself until its interval has passed
+			setInterval(() => void this.scheduleDuplicateScan(), 60 * 60 * 1000);
 
 			this.currentProgress.progress = 100;
 			this.currentProgress.status = "Ready";
@@ -353,6 +363,11 @@ class OffscreenProcessor {
 			backgroundJob
 				.getNotificationBridge()
 				.subscribe("JOB_UPDATED", async (message: JobNotificationMessage) => {
+					if (message.jobId && message.job?.control === "cancel") {
+						await this.dispatcher.cancel(message.jobId, message.job);
+						return;
+					}
+
 					// Only trigger queue processing when a pending job update arrives
 					const jobStatus = message.job?.status;
 					if (jobStatus && jobStatus !== "pending") {
@@ -378,9 +393,53 @@ class OffscreenProcessor {
 		}
 	}
 
+	// Jobs that checkpointed their cursor or waited for a retry were cut off
+	// by a restart of this document; hand them to the dispatcher again so
+	// handlers continue from the checkpoint and retries keep their backoff
+	private async resumeInterruptedJobs(): Promise<void> {
+		try {
+			const jobs = await backgroundJob.getResumableJobs();
+			for (const job of jobs) {
+				logger.info("offscreen", "queue", "♻️ Resuming interrupted job", {
+					jobId: job.id,
+					jobType: job.jobType,
+				});
+				void this.processFastJob(job);
+			}
+		} catch (error) {
+			logError("❌ Failed to resume interrupted jobs", error);
+		}
+	}
+
+	// Sources left processing by a conversion that died with the previous
+	// document, or failed long enough ago, get their knowledge graph job
+	// queued again. The jobs are dispatched here as well, in case the
+	// enqueue notification does not reach this document.
+	private async recoverStuckSources(): Promise<void> {
+		try {
+			const { jobIds } = await sourceRecoveryService.reconcile();
+			for (const jobId of jobIds) {
+				const job = await backgroundJob.getJob(jobId);
+				if (job?.status === "pending") void this.processFastJob(job);
+			}
+		} catch (error) {
+			logError("❌ Failed to recover stuck sources", error);
+		}
+	}
+
+	// Duplicate knowledge graph nodes are looked for periodically and kept as
+	// merge suggestions for the knowledge graph page
+	private async scheduleDuplicateScan(): Promise<void> {
+		const jobId = await graphMaintenanceService.scheduleDuplicateScan();
+		if (!jobId) return;
+		const job = await backgroundJob.getJob(jobId);
+		if (job?.status === "pending") void this.processFastJob(job);
+	}
+
 	private async processClaimedJob(job: BaseJob): Promise<void> {
-		// Use the new standardized execution with automatic completion and error handling
-		await this.processFactory.executeJob(job.id, job);
+		// The dispatcher orders jobs by priority, applies concurrency caps and
+		// retries, then runs them through the standardized execution
+		this.dispatcher.dispatch(job);
 	}
 
 	// Helper method to update job progress via background script message
@@ -414,6 +473,8 @@ class OffscreenProcessor {
 			backgroundJob
 				.getNotificationBridge()
 				.notifyJobCompleted(jobId, result, "all");
+			// Keep the outcome in the job store for the jobs dashboard
+			await backgroundJob.recordCompletion(jobId, result);
 		} catch (error) {
 			logger.error(
 				"offscreen",
@@ -17,6 +17,7 @@ import { logError, logInfo } from "./utils/logger";
 import { DatabasePage } from "./pages/DatabasePage";
 import { RememberedContentsPage } from "./pages/RememberedContentsPage";
 import { LogsPage } from "./pages/LogsPage";
+import { JobsPage } from "./pages/JobsPage";
 import { RememberPage } from "./pages/RememberPage";
 import { TopicsPage } from "./pages/TopicsPage";
 import { AppLoadingScreen } from "./components/atoms/AppLoadingScreen";
@@ -29,6 +30,8 @@ import { ThemeProvider } from "./components/molecules/Copilot/ThemeContext";
 import { CopilotProvider, Copilot } from "./components/atoms/copilot";
 import { KnowledgeGraphPage } from "./pages/KnowledgeGraphPage";
 import { DocumentLibraryPage } from "./pages/DocumentLibraryPage";
+import { McpServersPage } from "./pages/McpServersPage";
+import { McpConfirmationDialog } from "./modules/mcp/components/McpConfirmationDialog";
 
 const App: React.FC = () => {
 	const [servicesStatus, setServicesStatus] = useState<
@@ -173,9 +176,12 @@ const App: React.FC = () => {
 								<Route path="/topics" element={<TopicsPage />} />
 								<Route path="/documents" element={<DocumentLibraryPage />} />
 								<Route path="/logs" element={<LogsPage />} />
+								<Route path="/jobs" element={<JobsPage />} />
+								<Route path="/mcp" element={<McpServersPage />} />
 							</Routes>
 						</Layout>
 						<Copilot />
+						<McpConfirmationDialog />
 					</Router>
 				</NiceModal.Provider>
 			</CopilotProvider>
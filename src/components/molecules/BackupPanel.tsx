@@ -0,0 +1,192 @@
+import React, { useRef, useState } from "react";
+import { Archive, Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import { backupService, type BackupSummary } from "@/services/backup";
+import { documentStorageService } from "@/modules/documents/services/document-storage";
+import { logError } from "@/utils/logger";
+
+interface BackupPanelProps {
+	onRestored?: () => void;
+}
+
+const describe = (summary: BackupSummary) =>
+	`${summary.rows} rows in ${summary.tables} tables, ${summary.documents} documents, ${summary.storageKeys} settings${summary.includesSecrets ? ", secrets included" : ""}`;
+
+/**
+ * "Export everything" into one archive and restore from it. Secrets are only
+ * exported when a passphrase is given; the backup job encrypts them with it.
+ */
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+	const [passphrase, setPassphrase] = useState("");
+	const [busy, setBusy] = useState<"export" | "restore" | null>(null);
+	const [status, setStatus] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const fileInput = useRef<HTMLInputElement>(null);
+
+	const run = async (
+		kind: "export" | "restore",
+		action: () => Promise<void>,
+	) => {
+		try {
+			setBusy(kind);
+			setError(null);
+			setStatus(null);
+			await action();
+		} catch (err) {
+			logError(`[BACKUP_PANEL] ${kind} failed:`, err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setBusy(null);
+		}
+	};
+
+	const handleExport = () =>
+		run("export", async () => {
+			const offer = passphrase
+				? backupService.offerPassphrase(passphrase)
+				: undefined;
+			let jobId: string | undefined;
+			let path: string | undefined;
+			try {
+				const job = await backgroundJob.createJob(
+					"create-backup",
+					{ passphraseRequest: offer?.requestId },
+					{ stream: false },
+				);
+				jobId = job.jobId;
+				const result = await job.promise;
+				if (result.status === "failed" || !result.result) {
+					throw new Error(result.error || "Backup failed");
+				}
+
+				path = result.result.path;
+				const url = URL.createObjectURL(
+					new Blob([await backupService.readArchiveFile(path)], {
+						type: "application/json",
+					}),
+				);
+				const link = document.createElement("a");
+				link.href = url;
+				link.download = `memorall-backup-${new Date().toISOString().slice(0, 10)}.json`;
+				link.click();
+				URL.revokeObjectURL(url);
+				setStatus(`Exported ${describe(result.result.summary)}`);
+			} finally {
+				offer?.close();
+				if (path) await backupService.removeArchiveFile(path);
+				if (jobId) await backgroundJob.deleteJob(jobId);
+			}
+		});
+
+	const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) return;
+
+		await run("restore", async () => {
+			const content = await file.text();
+			const archive = backupService.parseArchive(content);
+			// Only checks the passphrase; the restore job opens the secrets itself
+			const secretRows = await backupService.openSecrets(archive, passphrase);
+			if (
+				!confirm(
+					`Replace all current data with the backup from ${new Date(archive.createdAt).toLocaleString()}?`,
+				)
+			)
+				return;
+
+			const offer = secretRows
+				? backupService.offerPassphrase(passphrase)
+				: undefined;
+			const path = await backupService.writeArchiveFile(content);
+			let jobId: string | undefined;
+			try {
+				const job = await backgroundJob.createJob(
+					"restore-backup",
+					{ path, passphraseRequest: offer?.requestId },
+					{ stream: false },
+				);
+				jobId = job.jobId;
+				const result = await job.promise;
+				if (result.status === "failed" || !result.result) {
+					throw new Error(result.error || "Restore failed");
+				}
+
+				await documentStorageService.reload();
+				setStatus(`Restored ${describe(result.result)}`);
+				onRestored?.();
+			} finally {
+				offer?.close();
+				await backupService.removeArchiveFile(path);
+				if (jobId) await backgroundJob.deleteJob(jobId);
+			}
+		});
+	};
+
+	return (
+		<Card className="m-4">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-sm">
+					<Archive size={16} />
+					Backup
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3 text-xs">
+				<p className="text-muted-foreground">
+					Database, documents and settings in one file. API keys and other
+					secrets are only included when you set a passphrase.
+				</p>
+				<Input
+					type="password"
+					value={passphrase}
+					onChange={(e) => setPassphrase(e.target.value)}
+					placeholder="Passphrase for secrets (optional)"
+					className="h-7 text-xs"
+					autoComplete="new-password"
+				/>
+				<div className="flex gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 flex-1 text-xs"
+						onClick={handleExport}
+						disabled={busy !== null}
+					>
+						{busy === "export" ? (
+							<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+						) : (
+							<Download className="h-3 w-3 mr-1" />
+						)}
+						Export everything
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 flex-1 text-xs"
+						onClick={() => fileInput.current?.click()}
+						disabled={busy !== null}
+					>
+						{busy === "restore" ? (
+							<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+						) : (
+							<Upload className="h-3 w-3 mr-1" />
+						)}
+						Restore
+					</Button>
+					<input
+						ref={fileInput}
+						type="file"
+						accept=".json"
+						className="hidden"
+						onChange={handleRestore}
+					/>
+				</div>
+				{status && <p className="text-muted-foreground">{status}</p>}
+				{error && <p className="text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+};
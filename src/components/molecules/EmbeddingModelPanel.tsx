@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from "react";
+import { Cpu, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import type { EmbeddingModelStatusResult } from "@/services/background-jobs/handlers/process-embedding-model";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
+import type { EmbeddingConfig } from "@/services/embedding/interfaces/base-embedding";
+import { logError } from "@/utils/logger";
+
+const STATUS_POLL_INTERVAL = 3000;
+
+/**
+ * Shows which model the stored vectors belong to and guides switching to
+ * another one, which rebuilds the vector columns and re-embeds every row
+ */
+export const EmbeddingModelPanel: React.FC = () => {
+	const [status, setStatus] = useState<EmbeddingModelStatusResult | null>(null);
+	const [embeddingType, setEmbeddingType] =
+		useState<EmbeddingConfig["type"]>("local");
+	const [modelName, setModelName] = useState("");
+	const [apiKey, setApiKey] = useState("");
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const migrating = status?.record?.status === "migrating";
+	const pendingTotal = Object.values(status?.pending ?? {}).reduce(
+		(sum, count) => sum + count,
+		0,
+	);
+
+	useEffect(() => {
+		loadStatus();
+	}, []);
+
+	// Follow the re-embed job while it runs
+	useEffect(() => {
+		if (!migrating) return;
+		const interval = setInterval(loadStatus, STATUS_POLL_INTERVAL);
+		return () => clearInterval(interval);
+	}, [migrating]);
+
+	const loadStatus = async () => {
+		try {
+			const { promise } = await backgroundJob.createJob(
+				"embedding-model-status",
+				{},
+				{ stream: false },
+			);
+			const result = await promise;
+			if (result.status === "failed" || !result.result) {
+				throw new Error(result.error || "Failed to load embedding model");
+			}
+			setStatus(result.result);
+		} catch (err) {
+			logError("[EMBEDDING_MODEL_PANEL] Failed to load status:", err);
+		}
+	};
+
+	const switchModel = async () => {
+		const name = modelName.trim();
+		if (!name) return;
+		if (
+			!confirm(
+				`Switch embeddings to ${name}? All vector columns are rebuilt and every row is re-embedded in the background. Semantic search is paused until that finishes.`,
+			)
+		)
+			return;
+
+		const config: EmbeddingConfig = { type: embeddingType, modelName: name };
+
+		try {
+			setBusy(true);
+			setError(null);
+			// The key goes to the encrypted row, never into the stored job
+			if (embeddingType === "openai" && apiKey) {
+				await embeddingModelService.saveSecrets({
+					type: "openai",
+					modelName: name,
+					apiKey,
+				});
+			}
+			const { promise } = await backgroundJob.createJob(
+				"embedding-model-switch",
+				{ config },
+				{ stream: false },
+			);
+			const result = await promise;
+			if (result.status === "failed" || !result.result) {
+				throw new Error(result.error || "Failed to switch embedding model");
+			}
+			setApiKey("");
+			await loadStatus();
+		} catch (err) {
+			logError("[EMBEDDING_MODEL_PANEL] Failed to switch model:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const record = status?.record;
+
+	return (
+		<Card className="m-4">
+			<CardHeader>
+				<CardTitle className="flex items-center justify-between gap-2 text-sm">
+					<span className="flex items-center gap-2">
+						<Cpu size={16} />
+						Embedding Model
+					</span>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-6 w-6 p-0"
+						onClick={loadStatus}
+						title="Refresh"
+					>
+						<RefreshCw className="h-3 w-3" />
+					</Button>
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3 text-sm">
+				{record ? (
+					<div className="space-y-1">
+						<div className="flex justify-between gap-2">
+							<span className="truncate font-medium" title={record.modelId}>
+								{record.modelId}
+							</span>
+							<Badge
+								variant={
+									record.status === "ready"
+										? "secondary"
+										: record.status === "mismatch"
+											? "destructive"
+											: "default"
+								}
+							>
+								{record.status}
+							</Badge>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							{record.dimensions} dimensions
+							{status?.loadedModelId &&
+								status.loadedModelId !== record.modelId &&
+								` · loaded: ${status.loadedModelId}`}
+						</p>
+						{record.status === "mismatch" && (
+							<p className="text-xs text-destructive">
+								The recorded model isn't loaded, so semantic search is off.
+								Select it again or switch models.
+							</p>
+						)}
+						{migrating && (
+							<p className="flex items-center gap-1 text-xs text-muted-foreground">
+								<Loader2 className="h-3 w-3 animate-spin" />
+								Re-embedding, {pendingTotal} rows left
+							</p>
+						)}
+					</div>
+				) : (
+					<p className="text-xs text-muted-foreground">
+						No embedding model recorded yet
+					</p>
+				)}
+
+				<div className="space-y-2">
+					<Select
+						value={embeddingType}
+						onValueChange={(value) =>
+							setEmbeddingType(value as EmbeddingConfig["type"])
+						}
+					>
+						<SelectTrigger className="h-7 text-xs">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="local">Local (transformers.js)</SelectItem>
+							<SelectItem value="worker">Local worker</SelectItem>
+							<SelectItem value="openai">OpenAI</SelectItem>
+						</SelectContent>
+					</Select>
+					<Input
+						value={modelName}
+						onChange={(e) => setModelName(e.target.value)}
+						placeholder={
+							embeddingType === "openai"
+								? "text-embedding-3-small"
+								: "nomic-ai/nomic-embed-text-v1.5"
+						}
+						className="h-7 text-xs"
+					/>
+					{embeddingType === "openai" && (
+						<Input
+							type="password"
+							value={apiKey}
+							onChange={(e) => setApiKey(e.target.value)}
+							placeholder="API key"
+							className="h-7 text-xs"
+						/>
+					)}
+					<Button
+						size="sm"
+						className="h-7 w-full text-xs"
+						onClick={switchModel}
+						disabled={busy || migrating || !modelName.trim()}
+					>
+						{busy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+						Switch model
+					</Button>
+				</div>
+
+				{error && <p className="text-xs text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+};
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { GitBranch, Loader2, Play, RefreshCw, FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import type {
+	ChecksumStatus,
+	MigrationStep,
+	MigrationsOverview,
+} from "@/services/database/migrations";
+import { logError, logInfo } from "@/utils/logger";
+
+const CHECKSUM_LABELS: Record<ChecksumStatus, string> = {
+	ok: "verified",
+	modified: "modified",
+	unrecorded: "no checksum",
+	pending: "pending",
+};
+
+/**
+ * Applied and pending migrations, with a dry run of the SQL needed to reach a
+ * target version and the actual migrate/rollback
+ */
+export const MigrationsPanel: React.FC = () => {
+	const [overview, setOverview] = useState<MigrationsOverview | null>(null);
+	const [targetVersion, setTargetVersion] = useState<number | null>(null);
+	const [plan, setPlan] = useState<MigrationStep[] | null>(null);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		loadStatus();
+	}, []);
+
+	const run = async <T,>(action: () => Promise<T>): Promise<T | undefined> => {
+		try {
+			setBusy(true);
+			setError(null);
+			return await action();
+		} catch (err) {
+			logError("[MIGRATIONS_PANEL] Migration job failed:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const loadStatus = () =>
+		run(async () => {
+			const { promise } = await backgroundJob.createJob(
+				"database-migrations-status",
+				{},
+				{ stream: false },
+			);
+			const result = await promise;
+			if (result.status === "failed" || !result.result) {
+				throw new Error(result.error || "Failed to load migrations");
+			}
+			setOverview(result.result);
+			setTargetVersion((prev) => prev ?? result.result!.latestVersion);
+		});
+
+	const dryRun = () =>
+		run(async () => {
+			const { promise } = await backgroundJob.createJob(
+				"database-migrations-plan",
+				{ targetVersion: targetVersion ?? undefined },
+				{ stream: false },
+			);
+			const result = await promise;
+			if (result.status === "failed" || !result.result) {
+				throw new Error(result.error || "Failed to plan migrations");
+			}
+			setPlan(result.result.steps);
+		});
+
+	const migrate = () => {
+		if (targetVersion === null || !overview) return;
+		const direction =
+			targetVersion < overview.currentVersion ? "Roll back" : "Migrate";
+		if (!confirm(`${direction} the database to version ${targetVersion}?`))
+			return;
+
+		return run(async () => {
+			const { promise } = await backgroundJob.createJob(
+				"database-migrations-migrate",
+				{ targetVersion },
+				{ stream: false },
+			);
+			const result = await promise;
+			if (result.status === "failed" || !result.result) {
+				throw new Error(result.error || "Migration failed");
+			}
+			logInfo("[MIGRATIONS_PANEL] Migration finished", {
+				steps: result.result.steps.map((step) => step.id),
+			});
+			setOverview(result.result.status);
+			setPlan(null);
+		});
+	};
+
+	return (
+		<Card className="m-4">
+			<CardHeader>
+				<CardTitle className="flex items-center justify-between gap-2 text-sm">
+					<span className="flex items-center gap-2">
+						<GitBranch size={16} />
+						Migrations
+					</span>
+					{overview && (
+						<span className="text-xs font-normal text-muted-foreground">
+							v{overview.currentVersion} / v{overview.latestVersion}
+						</span>
+					)}
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				{overview?.migrations.map((migration) => (
+					<div key={migration.id} className="space-y-1 text-xs">
+						<div className="flex items-center justify-between gap-2">
+							<span className="font-mono truncate">
+								v{migration.version} {migration.id}
+							</span>
+							<div className="flex gap-1">
+								<Badge variant={migration.applied ? "default" : "outline"}>
+									{migration.applied ? "applied" : "pending"}
+								</Badge>
+								{migration.applied && (
+									<Badge
+										variant={
+											migration.checksumStatus === "modified"
+												? "destructive"
+												: "secondary"
+										}
+										title={migration.storedChecksum ?? undefined}
+									>
+										{CHECKSUM_LABELS[migration.checksumStatus]}
+									</Badge>
+								)}
+							</div>
+						</div>
+						<p className="text-muted-foreground">
+							{migration.description}
+							{!migration.reversible && " (no rollback)"}
+						</p>
+						{migration.appliedAt && (
+							<p className="text-muted-foreground">
+								Applied {new Date(migration.appliedAt).toLocaleString()}
+							</p>
+						)}
+					</div>
+				))}
+
+				{overview?.unknownApplied.map((row) => (
+					<p key={row.id} className="text-xs text-destructive">
+						Unknown applied migration v{row.version} {row.id}
+					</p>
+				))}
+
+				{overview && (
+					<div className="flex items-center gap-1">
+						<Select
+							value={targetVersion?.toString()}
+							onValueChange={(value) => {
+								setTargetVersion(Number(value));
+								setPlan(null);
+							}}
+						>
+							<SelectTrigger className="h-7 flex-1 text-xs">
+								<SelectValue placeholder="Target version" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="0">v0 (empty)</SelectItem>
+								{overview.migrations.map((migration) => (
+									<SelectItem
+										key={migration.id}
+										value={migration.version.toString()}
+									>
+										v{migration.version} {migration.id}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-7 w-7 p-0"
+							onClick={loadStatus}
+							disabled={busy}
+							title="Refresh"
+						>
+							<RefreshCw className={`h-3 w-3 ${busy ? "animate-spin" : ""}`} />
+						</Button>
+					</div>
+				)}
+
+				<div className="flex gap-1">
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 flex-1 text-xs"
+						onClick={dryRun}
+						disabled={busy || targetVersion === null}
+					>
+						<FileCode className="h-3 w-3 mr-1" />
+						Dry run
+					</Button>
+					<Button
+						size="sm"
+						className="h-7 flex-1 text-xs"
+						onClick={migrate}
+						disabled={
+							busy ||
+							targetVersion === null ||
+							targetVersion === overview?.currentVersion
+						}
+					>
+						{busy ? (
+							<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+						) : (
+							<Play className="h-3 w-3 mr-1" />
+						)}
+						Apply
+					</Button>
+				</div>
+
+				{error && <p className="text-xs text-destructive">{error}</p>}
+
+				{plan &&
+					(plan.length === 0 ? (
+						<p className="text-xs text-muted-foreground">
+							Nothing to run for this version
+						</p>
+					) : (
+						<div className="space-y-2">
+							{plan.map((step) => (
+								<div key={step.id} className="space-y-1">
+									<p className="text-xs font-medium">
+										{step.direction === "up" ? "▲" : "▼"} v{step.version}{" "}
+										{step.id}
+									</p>
+									<pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-[10px]">
+										{step.sql.join("\n\n")}
+									</pre>
+								</div>
+							))}
+						</div>
+					))}
+			</CardContent>
+		</Card>
+	);
+};
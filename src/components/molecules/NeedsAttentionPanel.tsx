@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+	AlertTriangle,
+	ChevronDown,
+	ChevronRight,
+	RotateCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+	sourceRecoveryService,
+	MAX_SOURCE_ATTEMPTS,
+	type SourceAttention,
+} from "@/modules/knowledge/services/source-recovery-service";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import { logError } from "@/utils/logger";
+
+// Knowledge graph jobs finish in bursts when a batch is retried
+const RELOAD_THROTTLE = 1000;
+
+interface NeedsAttentionPanelProps {
+	onRetried?: () => void;
+}
+
+/**
+ * Lists sources whose knowledge graph conversion failed or got stuck, with
+ * their attempt count and last error, and retries them in bulk. Hidden while
+ * there is nothing to show.
+ */
+export const NeedsAttentionPanel: React.FC<NeedsAttentionPanelProps> = ({
+	onRetried,
+}) => {
+	const [items, setItems] = useState<SourceAttention[]>([]);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [expanded, setExpanded] = useState(false);
+	const [retrying, setRetrying] = useState(false);
+	const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+	const loadItems = async () => {
+		try {
+			const next = await sourceRecoveryService.getSourcesNeedingAttention();
+			setItems(next);
+			setSelected((prev) => {
+				const ids = new Set(next.map((item) => item.source.id));
+				return new Set([...prev].filter((id) => ids.has(id)));
+			});
+		} catch (error) {
+			logError("[NEEDS_ATTENTION] Failed to load sources:", error);
+		}
+	};
+
+	useEffect(() => {
+		loadItems();
+
+		return backgroundJob
+			.getNotificationBridge()
+			.subscribe("JOB_COMPLETED", () => {
+				if (reloadTimer.current) return;
+				reloadTimer.current = setTimeout(() => {
+					reloadTimer.current = null;
+					loadItems();
+				}, RELOAD_THROTTLE);
+			});
+	}, []);
+
+	useEffect(
+		() => () => {
+			if (reloadTimer.current) clearTimeout(reloadTimer.current);
+		},
+		[],
+	);
+
+	if (items.length === 0) return null;
+
+	const toggleSelected = (sourceId: string) => {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (next.has(sourceId)) next.delete(sourceId);
+			else next.add(sourceId);
+			return next;
+		});
+	};
+
+	const retry = async (sourceIds: string[]) => {
+		try {
+			setRetrying(true);
+			await sourceRecoveryService.retrySources(sourceIds);
+			setSelected(new Set());
+			await loadItems();
+			onRetried?.();
+		} catch (error) {
+			logError("[NEEDS_ATTENTION] Failed to retry sources:", error);
+		} finally {
+			setRetrying(false);
+		}
+	};
+
+	return (
+		<div className="border-b border-border bg-amber-50/50 dark:bg-amber-900/10">
+			<div className="flex items-center justify-between px-3 py-2">
+				<button
+					type="button"
+					className="flex items-center gap-1 text-sm font-medium text-amber-700 dark:text-amber-400"
+					onClick={() => setExpanded((prev) => !prev)}
+				>
+					{expanded ? (
+						<ChevronDown className="h-3 w-3" />
+					) : (
+						<ChevronRight className="h-3 w-3" />
+					)}
+					<AlertTriangle className="h-4 w-4" />
+					Needs attention ({items.length})
+				</button>
+				<div className="flex items-center gap-1">
+					{selected.size > 0 && (
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-7 text-xs"
+							onClick={() => retry([...selected])}
+							disabled={retrying}
+						>
+							Retry selected ({selected.size})
+						</Button>
+					)}
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 text-xs"
+						onClick={() => retry(items.map((item) => item.source.id))}
+						disabled={retrying}
+					>
+						<RotateCcw className="h-3 w-3 mr-1" />
+						Retry all
+					</Button>
+				</div>
+			</div>
+
+			{expanded && (
+				<div className="max-h-48 overflow-y-auto px-3 pb-2 space-y-1">
+					{items.map(({ source, attempts, lastError, exhausted }) => (
+						<label
+							key={source.id}
+							className="flex items-start gap-2 rounded p-1 text-xs hover:bg-muted/50 cursor-pointer"
+						>
+							<input
+								type="checkbox"
+								className="mt-0.5"
+								checked={selected.has(source.id)}
+								onChange={() => toggleSelected(source.id)}
+							/>
+							<div className="min-w-0 flex-1 space-y-0.5">
+								<div className="flex items-center gap-1">
+									<span className="truncate font-medium text-foreground">
+										{source.name}
+									</span>
+									{source.targetType === "message" && (
+										<Badge variant="outline" className="text-[10px]">
+											message
+										</Badge>
+									)}
+								</div>
+								<p className="text-muted-foreground">
+									{source.status === "processing"
+										? "Stuck while processing"
+										: "Failed"}
+									{" · "}
+									{attempts}/{MAX_SOURCE_ATTEMPTS} attempts
+									{exhausted && " · no more automatic retries"}
+								</p>
+								{lastError && (
+									<p className="text-destructive line-clamp-2 break-words">
+										{lastError}
+									</p>
+								)}
+							</div>
+						</label>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
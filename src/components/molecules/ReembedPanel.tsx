@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import { Layers, Loader2, Pause, Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import type {
+	ReembedAllProgressMetadata,
+	ReembedAllResult,
+} from "@/services/background-jobs/handlers/process-reembed-all";
+import type { JobControl } from "@/services/background-jobs/handlers/types";
+import type { ReembedCheckpoint } from "@/services/embedding/embedding-model-service";
+import { logError } from "@/utils/logger";
+
+interface ActiveReembed {
+	jobId: string;
+	stage: string;
+	progress: number;
+	checkpoint?: ReembedCheckpoint;
+	control: JobControl;
+}
+
+/**
+ * Starts a `reembed-all` job and follows its streamed progress. The job may
+ * have been started earlier or resumed by the offscreen document, so an
+ * unfinished one is picked up from the job store on mount.
+ */
+export const ReembedPanel: React.FC = () => {
+	const [active, setActive] = useState<ActiveReembed | null>(null);
+	const [lastResult, setLastResult] = useState<ReembedAllResult | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		findRunningJob();
+	}, []);
+
+	const activeJobId = active?.jobId;
+
+	useEffect(() => {
+		if (!activeJobId) return;
+		return backgroundJob.watchJob(activeJobId, {
+			onProgress: (event) => {
+				const metadata = event.metadata as
+					| ReembedAllProgressMetadata
+					| undefined;
+				setActive((prev) =>
+					prev?.jobId === activeJobId
+						? {
+								...prev,
+								stage: event.stage,
+								progress: event.progress,
+								checkpoint: metadata?.checkpoint ?? prev.checkpoint,
+							}
+						: prev,
+				);
+			},
+			onComplete: (result) => {
+				setActive(null);
+				if (result.status === "failed") {
+					setError(result.error || "Re-embedding failed");
+				} else {
+					setLastResult((result.result as ReembedAllResult) ?? null);
+				}
+			},
+		});
+	}, [activeJobId]);
+
+	const findRunningJob = async () => {
+		try {
+			const jobs = await backgroundJob.getAllJobs();
+			const job = jobs.find(
+				(candidate) =>
+					candidate.jobType === "reembed-all" &&
+					candidate.control !== "cancel" &&
+					candidate.status !== "completed" &&
+					candidate.status !== "failed" &&
+					candidate.status !== "cancelled",
+			);
+			if (!job) return;
+
+			const checkpoint = job.checkpoint as ReembedCheckpoint | undefined;
+			setActive({
+				jobId: job.id,
+				stage: checkpoint ? "Re-embedding" : "Waiting to start",
+				progress:
+					checkpoint && checkpoint.total > 0
+						? Math.round((checkpoint.done / checkpoint.total) * 100)
+						: 0,
+				checkpoint,
+				control: job.control ?? "run",
+			});
+		} catch (err) {
+			logError("[REEMBED_PANEL] Failed to read job store:", err);
+		}
+	};
+
+	const start = async (onlyMissing: boolean) => {
+		if (
+			!onlyMissing &&
+			!confirm(
+				"Re-embed every node, edge, message and remembered page with the current model? This can take a while.",
+			)
+		)
+			return;
+
+		try {
+			setError(null);
+			setLastResult(null);
+			const { jobId } = await backgroundJob.createJob(
+				"reembed-all",
+				{ onlyMissing },
+				{ stream: false },
+			);
+			setActive({
+				jobId,
+				stage: "Counting rows",
+				progress: 0,
+				control: "run",
+			});
+		} catch (err) {
+			logError("[REEMBED_PANEL] Failed to start re-embed:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	};
+
+	const setControl = async (control: JobControl) => {
+		if (!active) return;
+		if (control === "cancel" && !confirm("Cancel re-embedding?")) return;
+
+		try {
+			if (control === "cancel") {
+				await backgroundJob.cancelJob(active.jobId);
+			} else {
+				await backgroundJob.setJobControl(active.jobId, control);
+			}
+			setActive((prev) => (prev ? { ...prev, control } : prev));
+		} catch (err) {
+			logError("[REEMBED_PANEL] Failed to update job control:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	};
+
+	const paused = active?.control === "pause";
+
+	return (
+		<Card className="m-4">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-sm">
+					<Layers size={16} />
+					Re-embed Data
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3 text-sm">
+				{active ? (
+					<div className="space-y-2">
+						<p className="flex items-center gap-1 text-xs text-muted-foreground">
+							{!paused && <Loader2 className="h-3 w-3 animate-spin" />}
+							{active.stage}
+						</p>
+						<Progress value={active.progress} className="h-2" />
+						{active.checkpoint && (
+							<p className="text-xs text-muted-foreground">
+								{active.checkpoint.embedded} embedded
+								{active.checkpoint.failed > 0 &&
+									` · ${active.checkpoint.failed} failed`}
+								{active.checkpoint.onlyMissing && " · missing only"}
+							</p>
+						)}
+						<div className="flex gap-1">
+							<Button
+								variant="outline"
+								size="sm"
+								className="h-7 flex-1 text-xs"
+								onClick={() => setControl(paused ? "run" : "pause")}
+								disabled={active.control === "cancel"}
+							>
+								{paused ? (
+									<Play className="h-3 w-3 mr-1" />
+								) : (
+									<Pause className="h-3 w-3 mr-1" />
+								)}
+								{paused ? "Resume" : "Pause"}
+							</Button>
+							<Button
+								variant="outline"
+								size="sm"
+								className="h-7 flex-1 text-xs"
+								onClick={() => setControl("cancel")}
+								disabled={active.control === "cancel"}
+							>
+								<Square className="h-3 w-3 mr-1" />
+								Cancel
+							</Button>
+						</div>
+					</div>
+				) : (
+					<div className="space-y-2">
+						<p className="text-xs text-muted-foreground">
+							Recompute vectors with the current model. Progress is saved after
+							every batch and continues after a restart.
+						</p>
+						<div className="flex gap-1">
+							<Button
+								variant="outline"
+								size="sm"
+								className="h-7 flex-1 text-xs"
+								onClick={() => start(true)}
+							>
+								Fill missing
+							</Button>
+							<Button
+								size="sm"
+								className="h-7 flex-1 text-xs"
+								onClick={() => start(false)}
+							>
+								Re-embed all
+							</Button>
+						</div>
+					</div>
+				)}
+
+				{lastResult && (
+					<p className="text-xs text-muted-foreground">
+						{lastResult.cancelled ? "Cancelled" : "Finished"} after{" "}
+						{lastResult.embedded} rows
+						{lastResult.failed > 0 && `, ${lastResult.failed} failed`}
+					</p>
+				)}
+				{error && <p className="text-xs text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+};
@@ -67,9 +67,19 @@ export type InlineCitationCardTriggerProps = ComponentProps<typeof Badge> & {
 	sources: string[];
 };
 
+// Hostname of a source URL, or the raw value when it is not a valid URL
+const getSourceLabel = (source: string) => {
+	try {
+		return new URL(source).hostname || source;
+	} catch {
+		return source;
+	}
+};
+
 export const InlineCitationCardTrigger = ({
 	sources,
 	className,
+	children,
 	...props
 }: InlineCitationCardTriggerProps) => (
 	<HoverCardTrigger asChild>
@@ -78,14 +88,15 @@ export const InlineCitationCardTrigger = ({
 			variant="secondary"
 			{...props}
 		>
-			{sources.length ? (
-				<>
-					{new URL(sources[0]).hostname}{" "}
-					{sources.length > 1 && `+${sources.length - 1}`}
-				</>
-			) : (
-				"unknown"
-			)}
+			{children ??
+				(sources.length ? (
+					<>
+						{getSourceLabel(sources[0])}{" "}
+						{sources.length > 1 && `+${sources.length - 1}`}
+					</>
+				) : (
+					"unknown"
+				))}
 		</Badge>
 	</HoverCardTrigger>
 );
@@ -285,3 +296,79 @@ export const InlineCitationQuote = ({
 		{children}
 	</blockquote>
 );
+
+// A numbered reference an answer can cite with an [n] marker
+export type InlineCitationReference = {
+	index: number;
+	label?: string;
+	title?: string | null;
+	url?: string | null;
+	quote?: string;
+};
+
+const CITATION_HREF_PREFIX = "#cite-";
+
+/**
+ * Turns [n] markers for known references into markdown links that
+ * InlineCitationMarker can render, leaving code blocks untouched
+ */
+export function linkCitationMarkers(
+	markdown: string,
+	references: InlineCitationReference[],
+): string {
+	if (!references.length) return markdown;
+	const known = new Set(references.map((reference) => reference.index));
+
+	return markdown
+		.split(/(```[\s\S]*?(?:```|$))/)
+		.map((segment, i) =>
+			i % 2 === 1
+				? segment
+				: segment.replace(/\[(\d+)\](?![(:])/g, (marker, value) =>
+						known.has(Number(value))
+							? `[${value}](${CITATION_HREF_PREFIX}${value})`
+							: marker,
+					),
+		)
+		.join("");
+}
+
+/**
+ * Finds the reference a link produced by linkCitationMarkers points to
+ */
+export function getCitationReference(
+	href: string | undefined,
+	references: InlineCitationReference[],
+): InlineCitationReference | undefined {
+	if (!href?.startsWith(CITATION_HREF_PREFIX)) return undefined;
+	const index = Number(href.slice(CITATION_HREF_PREFIX.length));
+	return references.find((reference) => reference.index === index);
+}
+
+export type InlineCitationMarkerProps = {
+	reference: InlineCitationReference;
+};
+
+export const InlineCitationMarker = ({
+	reference,
+}: InlineCitationMarkerProps) => (
+	<InlineCitationCard>
+		<InlineCitationCardTrigger
+			sources={reference.url ? [reference.url] : []}
+			className="h-4 min-w-4 cursor-default px-1 align-super text-[10px]"
+		>
+			{reference.index}
+		</InlineCitationCardTrigger>
+		<InlineCitationCardBody>
+			<div className="space-y-2 p-4">
+				<InlineCitationSource
+					title={reference.title || reference.label}
+					url={reference.url ?? undefined}
+				/>
+				{reference.quote && (
+					<InlineCitationQuote>{reference.quote}</InlineCitationQuote>
+				)}
+			</div>
+		</InlineCitationCardBody>
+	</InlineCitationCard>
+);
@@ -2,12 +2,18 @@
 
 import { cn } from "@/lib/utils";
 import type { ComponentProps, HTMLAttributes } from "react";
-import { isValidElement, memo } from "react";
+import { isValidElement, memo, useMemo } from "react";
 import ReactMarkdown, { type Options } from "react-markdown";
 import rehypeKatex from "rehype-katex";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
 import { CodeBlock, CodeBlockCopyButton } from "./code-block";
+import {
+	getCitationReference,
+	InlineCitationMarker,
+	linkCitationMarkers,
+	type InlineCitationReference,
+} from "./inline-citation";
 import "katex/dist/katex.min.css";
 import hardenReactMarkdown from "harden-react-markdown";
 import { logError, logInfo } from "@/utils/logger";
@@ -172,8 +178,20 @@ export type ResponseProps = HTMLAttributes<HTMLDivElement> & {
 		ReturnType<typeof hardenReactMarkdown>
 	>["defaultOrigin"];
 	parseIncompleteMarkdown?: boolean;
+	citations?: InlineCitationReference[];
 };
 
+const Link = ({ children, className, ...props }: ComponentProps<"a">) => (
+	<a
+		className={cn("font-medium text-primary underline", className)}
+		rel="noreferrer"
+		target="_blank"
+		{...props}
+	>
+		{children}
+	</a>
+);
+
 const components: Options["components"] = {
 	ol: ({ node, children, className, ...props }) => (
 		<ol className={cn("ml-4 list-outside list-decimal", className)} {...props}>
@@ -198,16 +216,7 @@ const components: Options["components"] = {
 			{children}
 		</span>
 	),
-	a: ({ node, children, className, ...props }) => (
-		<a
-			className={cn("font-medium text-primary underline", className)}
-			rel="noreferrer"
-			target="_blank"
-			{...props}
-		>
-			{children}
-		</a>
-	),
+	a: ({ node, ...props }) => <Link {...props} />,
 	h1: ({ node, children, className, ...props }) => (
 		<h1
 			className={cn("mt-6 mb-2 font-semibold text-3xl", className)}
@@ -356,14 +365,35 @@ export const Response = memo(
 		allowedLinkPrefixes,
 		defaultOrigin,
 		parseIncompleteMarkdown: shouldParseIncompleteMarkdown = true,
+		citations,
 		...props
 	}: ResponseProps) => {
 		// Parse the children to remove incomplete markdown tokens if enabled
-		const parsedChildren =
+		const completedChildren =
 			typeof children === "string" && shouldParseIncompleteMarkdown
 				? parseIncompleteMarkdown(children)
 				: children;
 
+		// Render [n] markers as hover cards when references are provided
+		const parsedChildren =
+			typeof completedChildren === "string" && citations?.length
+				? linkCitationMarkers(completedChildren, citations)
+				: completedChildren;
+
+		const citationComponents = useMemo<Options["components"]>(() => {
+			if (!citations?.length) return components;
+			return {
+				...components,
+				a: ({ node, ...anchorProps }) => {
+					const reference = getCitationReference(anchorProps.href, citations);
+					if (reference) {
+						return <InlineCitationMarker reference={reference} />;
+					}
+					return <Link {...anchorProps} />;
+				},
+			};
+		}, [citations]);
+
 		return (
 			<div
 				className={cn(
@@ -375,7 +405,7 @@ export const Response = memo(
 				<HardenedMarkdown
 					allowedImagePrefixes={allowedImagePrefixes ?? ["*"]}
 					allowedLinkPrefixes={allowedLinkPrefixes ?? ["*"]}
-					components={components}
+					components={citationComponents}
 					defaultOrigin={defaultOrigin}
 					rehypePlugins={[rehypeKatex]}
 					remarkPlugins={[remarkGfm, remarkMath]}
@@ -386,7 +416,9 @@ export const Response = memo(
 			</div>
 		);
 	},
-	(prevProps, nextProps) => prevProps.children === nextProps.children,
+	(prevProps, nextProps) =>
+		prevProps.children === nextProps.children &&
+		prevProps.citations === nextProps.citations,
 );
 
 Response.displayName = "Response";
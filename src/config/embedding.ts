@@ -0,0 +1,7 @@
+// Size of the vector columns until an embedding model is recorded
+export const DEFAULT_EMBEDDING_DIMENSIONS = 768;
+
+// pgvector can't build HNSW indexes on vectors wider than this
+export const HNSW_MAX_DIMENSIONS = 2000;
+
+export const EMBEDDING_MODEL_CONFIG_KEY = "embedding_model";
@@ -1,7 +1,14 @@
 import React from "react";
 import type { ChatMessage } from "../types";
+import type { ChatAction } from "@/modules/chat/services/chat-service";
 import { EmbeddedMarkdown } from "./EmbeddedMarkdown";
-import { Task, TaskTrigger, TaskContent, TaskItem } from "./TaskComponents";
+import {
+	Task,
+	TaskTrigger,
+	TaskContent,
+	TaskItem,
+	ToolCallTask,
+} from "./TaskComponents";
 import { Loader } from "./Icons";
 
 export interface EmbeddedMessageRendererProps {
@@ -9,6 +16,32 @@ export interface EmbeddedMessageRendererProps {
 	isLoading: boolean;
 }
 
+// Agent tool calls carry their tool, arguments and result in metadata
+const ActionTask: React.FC<{ action: ChatAction }> = ({ action }) => {
+	const { tool, status, arguments: args, result } = action.metadata;
+	if (typeof tool === "string") {
+		return (
+			<ToolCallTask
+				title={action.name}
+				status={
+					status === "completed" || status === "failed" ? status : "running"
+				}
+				args={String(args ?? "{}")}
+				result={typeof result === "string" ? result : undefined}
+			/>
+		);
+	}
+
+	return (
+		<Task className="w-full" defaultOpen={false}>
+			<TaskTrigger title={action.name} />
+			<TaskContent>
+				<TaskItem>{action.description}</TaskItem>
+			</TaskContent>
+		</Task>
+	);
+};
+
 // Enhanced Message Renderer with Actions
 export const EmbeddedMessageRenderer: React.FC<
 	EmbeddedMessageRendererProps
@@ -21,16 +54,10 @@ export const EmbeddedMessageRenderer: React.FC<
 			<div className="flex flex-col gap-4">
 				{actions.length > 0 &&
 					actions.map((action, index) => (
-						<Task
-							key={`${action.name}_${index}`}
-							className="w-full"
-							defaultOpen={false}
-						>
-							<TaskTrigger title={action.name} />
-							<TaskContent>
-								<TaskItem>{action.description}</TaskItem>
-							</TaskContent>
-						</Task>
+						<ActionTask
+							key={action.id || `${action.name}_${index}`}
+							action={action}
+						/>
 					))}
 				<div className="flex items-center gap-2">
 					<Loader size={14} />
@@ -44,16 +71,10 @@ export const EmbeddedMessageRenderer: React.FC<
 		<div className="flex flex-col gap-4">
 			{actions.length > 0 &&
 				actions.map((action, index) => (
-					<Task
-						key={`${action.name}_${index}`}
-						className="w-full"
-						defaultOpen={false}
-					>
-						<TaskTrigger title={action.name} />
-						<TaskContent>
-							<TaskItem>{action.description}</TaskItem>
-						</TaskContent>
-					</Task>
+					<ActionTask
+						key={action.id || `${action.name}_${index}`}
+						action={action}
+					/>
 				))}
 			{message.content && (
 				<EmbeddedMarkdown
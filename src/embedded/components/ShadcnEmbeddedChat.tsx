@@ -8,7 +8,10 @@ import { createRoot } from "react-dom/client";
 import { nanoid } from "nanoid";
 import type { ChatModalProps, ChatMessage } from "../types";
 import { chatService } from "@/modules/chat/services/chat-service";
-import type { ChatAction } from "@/modules/chat/services/chat-service";
+import type {
+	ChatAction,
+	ChatMode,
+} from "@/modules/chat/services/chat-service";
 import { backgroundJob } from "@/services/background-jobs/background-job";
 import { customStyles } from "./styles/customStyles";
 import { EmbeddedMessageRenderer } from "./EmbeddedMessageRenderer";
@@ -335,6 +338,9 @@ const ShadcnEmbeddedChat: React.FC<ChatModalProps> = ({
 	const [modelAvailable, setModelAvailable] = useState(false);
 	const [isTyping, setIsTyping] = useState(false);
 	const [selectedTopic, setSelectedTopic] = useState<string>("__all__");
+	// Knowledge answers from recalled facts, agent searches and remembers with tools
+	const [chatMode, setChatMode] =
+		useState<Extract<ChatMode, "knowledge" | "agent">>("knowledge");
 	const [, setStreamingMessageId] = useState<string | null>(null);
 	const [abortController, setAbortController] =
 		useState<AbortController | null>(null);
@@ -456,7 +462,7 @@ const ShadcnEmbeddedChat: React.FC<ChatModalProps> = ({
 					{
 						messages: coreMessages,
 						model: selectedModel,
-						mode: mode === "topic" ? "knowledge" : "knowledge",
+						mode: chatMode,
 						topicId:
 							selectedTopic && selectedTopic !== "__all__"
 								? selectedTopic
@@ -555,7 +561,7 @@ const ShadcnEmbeddedChat: React.FC<ChatModalProps> = ({
 				setAbortController(null);
 			}
 		},
-		[inputValue, isTyping, selectedModel, messages, mode],
+		[inputValue, isTyping, selectedModel, messages, mode, chatMode],
 	);
 
 	return (
@@ -684,9 +690,19 @@ const ShadcnEmbeddedChat: React.FC<ChatModalProps> = ({
 						/>
 						<PromptInputToolbar>
 							<PromptInputTools>
-								<span className="text-xs text-muted-foreground">
-									{mode === "topic" ? "Topics" : "Knowledge"}
-								</span>
+								<select
+									value={chatMode}
+									onChange={(e) =>
+										setChatMode(e.target.value as "knowledge" | "agent")
+									}
+									disabled={isTyping}
+									className="text-xs p-1 rounded border bg-background text-foreground border-border"
+								>
+									<option value="knowledge">
+										{mode === "topic" ? "Topics" : "Knowledge"}
+									</option>
+									<option value="agent">Agent</option>
+								</select>
 							</PromptInputTools>
 							<PromptInputSubmit
 								disabled={
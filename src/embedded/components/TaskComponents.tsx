@@ -38,3 +38,35 @@ export const TaskContent: React.FC<{ children: React.ReactNode }> = ({
 export const TaskItem: React.FC<{ children: React.ReactNode }> = ({
 	children,
 }) => <div className="pl-5 text-xs text-muted-foreground">{children}</div>;
+
+// Agent tool call: collapsed to its name and status, open for arguments and result
+export const ToolCallTask: React.FC<{
+	title: string;
+	status: "running" | "completed" | "failed";
+	args: string;
+	result?: string;
+}> = ({ title, status, args, result }) => (
+	<Task className="w-full">
+		<TaskTrigger
+			title={`${status === "running" ? "⏳" : status === "failed" ? "⚠️" : "✓"} ${title}`}
+		/>
+		<TaskContent>
+			<TaskItem>
+				<div className="space-y-2">
+					<div>
+						<div className="font-medium">Arguments</div>
+						<pre className="whitespace-pre-wrap break-words">{args}</pre>
+					</div>
+					{result !== undefined && (
+						<div>
+							<div className="font-medium">Result</div>
+							<pre className="whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+								{result}
+							</pre>
+						</div>
+					)}
+				</div>
+			</TaskItem>
+		</TaskContent>
+	</Task>
+);
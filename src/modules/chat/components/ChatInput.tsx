@@ -8,6 +8,9 @@ import {
 	ChevronDown,
 	Tags,
 	Trash2,
+	CalendarClock,
+	Footprints,
+	X,
 } from "lucide-react";
 import {
 	PromptInput,
@@ -38,6 +41,10 @@ interface ChatInputProps {
 	setChatMode: (mode: ChatMode) => void;
 	selectedTopic: string;
 	setSelectedTopic: (topicId: string) => void;
+	asOf: string;
+	setAsOf: (date: string) => void;
+	maxSteps: number;
+	setMaxSteps: (steps: number) => void;
 	onInsertSeparator: () => void;
 	onStop: () => void;
 	abortController: AbortController | null;
@@ -57,6 +64,10 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 	setChatMode,
 	selectedTopic,
 	setSelectedTopic,
+	asOf,
+	setAsOf,
+	maxSteps,
+	setMaxSteps,
 	onInsertSeparator,
 	onStop,
 	abortController,
@@ -70,6 +81,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 				return <MessageCircle size={14} />;
 			case "knowledge":
 				return <Brain size={14} />;
+			case "agent":
+				return <Bot size={14} />;
 		}
 	};
 
@@ -79,6 +92,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 				return "Chat";
 			case "knowledge":
 				return "Knowledge";
+			case "agent":
+				return "Agent";
 		}
 	};
 	return (
@@ -141,6 +156,13 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 												<Brain size={14} />
 												<span>Knowledge Mode</span>
 											</DropdownMenuItem>
+											<DropdownMenuItem
+												onClick={() => setChatMode("agent")}
+												className="flex items-center gap-2"
+											>
+												<Bot size={14} />
+												<span>Agent Mode</span>
+											</DropdownMenuItem>
 										</DropdownMenuContent>
 									</DropdownMenu>
 									{/* Topic Selector - inline with mode selector */}
@@ -186,6 +208,56 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 											</DropdownMenuContent>
 										</DropdownMenu>
 									)}
+									{/* Point in time - answer from the facts that held at a date */}
+									{chatMode === "knowledge" && (
+										<label
+											className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground whitespace-nowrap"
+											title="Answer as of a date"
+										>
+											<CalendarClock size={14} />
+											<input
+												type="date"
+												value={asOf}
+												max={new Date().toISOString().slice(0, 10)}
+												onChange={(e) => setAsOf(e.target.value)}
+												className="bg-transparent text-xs outline-none"
+											/>
+											{asOf && (
+												<button
+													type="button"
+													onClick={() => setAsOf("")}
+													aria-label="Answer as of now"
+												>
+													<X size={12} />
+												</button>
+											)}
+										</label>
+									)}
+									{/* Step budget - tool-calling turns before the agent answers */}
+									{chatMode === "agent" && (
+										<label
+											className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground whitespace-nowrap"
+											title="Maximum tool-calling steps"
+										>
+											<Footprints size={14} />
+											<input
+												type="number"
+												min={1}
+												max={20}
+												value={maxSteps}
+												onChange={(e) =>
+													setMaxSteps(
+														Math.min(
+															20,
+															Math.max(1, Number(e.target.value) || 1),
+														),
+													)
+												}
+												className="w-10 bg-transparent text-xs outline-none"
+											/>
+											<span>steps</span>
+										</label>
+									)}
 								</PromptInputTools>
 							</div>
 							{/* Sticky send button */}
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import {
+	Check,
+	MessageSquare,
+	Pencil,
+	Plus,
+	Search,
+	Trash2,
+	X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { Conversation } from "@/services/database/db";
+import { logError } from "@/utils/logger";
+
+interface ConversationSidebarProps {
+	conversations: Conversation[];
+	currentConversationId?: string;
+	disabled?: boolean;
+	onSearch: (search: string) => Promise<Conversation[]>;
+	onSelect: (id: string) => void;
+	onNew: () => void;
+	onRename: (id: string, title: string) => Promise<void>;
+	onDelete: (id: string) => Promise<void>;
+}
+
+/**
+ * Chat history: lists conversations and lets the user search, rename,
+ * delete and continue them
+ */
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+	conversations,
+	currentConversationId,
+	disabled = false,
+	onSearch,
+	onSelect,
+	onNew,
+	onRename,
+	onDelete,
+}) => {
+	const [search, setSearch] = useState("");
+	const [searchResults, setSearchResults] = useState<Conversation[] | null>(
+		null,
+	);
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [editingTitle, setEditingTitle] = useState("");
+
+	// Debounced search over titles and message contents
+	useEffect(() => {
+		if (!search.trim()) {
+			setSearchResults(null);
+			return;
+		}
+
+		const timeout = setTimeout(() => {
+			onSearch(search)
+				.then(setSearchResults)
+				.catch((error) => logError("Failed to search conversations:", error));
+		}, 300);
+		return () => clearTimeout(timeout);
+	}, [search, onSearch]);
+
+	const startRename = (conversation: Conversation) => {
+		setEditingId(conversation.id);
+		setEditingTitle(conversation.title || "");
+	};
+
+	const submitRename = async () => {
+		if (!editingId) return;
+		try {
+			await onRename(editingId, editingTitle);
+		} finally {
+			setEditingId(null);
+		}
+	};
+
+	const handleDelete = async (conversation: Conversation) => {
+		if (!confirm(`Delete the conversation "${conversation.title}"?`)) return;
+		await onDelete(conversation.id);
+		setSearchResults(
+			(prev) => prev?.filter((item) => item.id !== conversation.id) ?? null,
+		);
+	};
+
+	const visibleConversations = (searchResults ?? conversations).map(
+		(conversation) =>
+			conversations.find((item) => item.id === conversation.id) ?? conversation,
+	);
+
+	return (
+		<div className="flex h-full w-64 flex-shrink-0 flex-col border-r border-border bg-card">
+			<div className="space-y-2 p-3">
+				<Button
+					onClick={onNew}
+					disabled={disabled}
+					size="sm"
+					className="w-full gap-2"
+				>
+					<Plus className="w-4 h-4" />
+					New Chat
+				</Button>
+				<div className="relative">
+					<Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						value={search}
+						onChange={(e) => setSearch(e.target.value)}
+						placeholder="Search chats..."
+						className="h-8 pl-8 text-sm"
+					/>
+				</div>
+			</div>
+
+			<ScrollArea className="flex-1 min-h-0">
+				<div className="space-y-1 px-2 pb-2">
+					{visibleConversations.length === 0 && (
+						<p className="p-4 text-center text-xs text-muted-foreground">
+							{search.trim() ? "No matching chats" : "No chats yet"}
+						</p>
+					)}
+					{visibleConversations.map((conversation) => {
+						const isActive = conversation.id === currentConversationId;
+
+						if (editingId === conversation.id) {
+							return (
+								<div
+									key={conversation.id}
+									className="flex items-center gap-1 rounded-md bg-accent p-1"
+								>
+									<Input
+										value={editingTitle}
+										onChange={(e) => setEditingTitle(e.target.value)}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") submitRename();
+											if (e.key === "Escape") setEditingId(null);
+										}}
+										className="h-7 text-sm"
+										autoFocus
+									/>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-7 w-7 p-0"
+										onClick={submitRename}
+										title="Save"
+									>
+										<Check className="w-4 h-4" />
+									</Button>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-7 w-7 p-0"
+										onClick={() => setEditingId(null)}
+										title="Cancel"
+									>
+										<X className="w-4 h-4" />
+									</Button>
+								</div>
+							);
+						}
+
+						return (
+							<div
+								key={conversation.id}
+								className={cn(
+									"group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-accent",
+									isActive && "bg-accent",
+									disabled && "pointer-events-none opacity-60",
+								)}
+								onClick={() => !isActive && onSelect(conversation.id)}
+							>
+								<MessageSquare className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+								<div className="min-w-0 flex-1">
+									<p className="truncate">{conversation.title}</p>
+									<p className="text-xs text-muted-foreground">
+										{dayjs(conversation.updatedAt).format("MMM D, h:mm A")}
+									</p>
+								</div>
+								<div className="hidden items-center group-hover:flex">
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-6 w-6 p-0"
+										onClick={(e) => {
+											e.stopPropagation();
+											startRename(conversation);
+										}}
+										title="Rename"
+									>
+										<Pencil className="w-3 h-3" />
+									</Button>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-6 w-6 p-0 text-destructive"
+										onClick={(e) => {
+											e.stopPropagation();
+											handleDelete(conversation);
+										}}
+										title="Delete"
+									>
+										<Trash2 className="w-3 h-3" />
+									</Button>
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
@@ -11,6 +11,12 @@ import {
 import { MermaidRenderer } from "@/components/atoms/MermaidRenderer";
 import "katex/dist/katex.min.css";
 import { cn } from "@/lib/utils";
+import {
+	getCitationReference,
+	InlineCitationMarker,
+	linkCitationMarkers,
+	type InlineCitationReference,
+} from "@/components/ui/shadcn-io/ai/inline-citation";
 
 // Performance optimization: Define plugins and components outside component
 const remarkPlugins = [remarkGfm, remarkMath];
@@ -74,6 +80,7 @@ interface MarkdownMessageProps {
 	content: string;
 	className?: string;
 	isStreaming?: boolean;
+	citations?: InlineCitationReference[];
 }
 
 // Hook to detect theme
@@ -102,6 +109,7 @@ export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
 	content,
 	className,
 	isStreaming = false,
+	citations = [],
 }) => {
 	const isDark = useTheme();
 
@@ -148,6 +156,18 @@ export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
 				</SyntaxHighlighter>
 			);
 		},
+		// Numbered [n] references become hover cards with their source
+		a: ({ children, href, ...props }: any) => {
+			const reference = getCitationReference(href, citations);
+			if (reference) {
+				return <InlineCitationMarker reference={reference} />;
+			}
+			return (
+				<a href={href} {...props}>
+					{children}
+				</a>
+			);
+		},
 	};
 
 	return (
@@ -163,7 +183,7 @@ export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
 				rehypePlugins={rehypePlugins}
 				components={themeAwareComponents}
 			>
-				{content}
+				{linkCitationMarkers(content, citations)}
 			</ReactMarkdown>
 		</div>
 	);
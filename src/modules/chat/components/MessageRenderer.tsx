@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/shadcn-io/ai/task";
 import { MarkdownMessage } from "@/modules/chat/components/MarkdownMessage";
 import { MermaidRenderer } from "@/components/atoms/MermaidRenderer";
+import type { InlineCitationReference } from "@/components/ui/shadcn-io/ai/inline-citation";
 import type { Message as DBMessage } from "@/services/database";
 import dayjs from "dayjs";
 
@@ -55,6 +56,14 @@ interface ActionItem {
 	metadata?: Record<string, unknown>;
 }
 
+// Collect the numbered references knowledge answers cite as [n]
+const getCitations = (actions: ActionItem[]): InlineCitationReference[] =>
+	actions.flatMap((action) =>
+		Array.isArray(action.metadata?.citations)
+			? (action.metadata.citations as InlineCitationReference[])
+			: [],
+	);
+
 // TaskItemRenderer component to properly manage state per task
 interface TaskItemRendererProps {
 	item: ActionItem;
@@ -171,6 +180,7 @@ export const MessageRenderer: React.FC<MessageRendererProps> = ({
 				<MessageContent>
 					<MarkdownMessage
 						content={message.content}
+						citations={getCitations(actions)}
 						isStreaming={
 							isLastMessage && isLoading && message.role === "assistant"
 						}
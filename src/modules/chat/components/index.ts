@@ -2,4 +2,5 @@ export { LoadingScreen } from "./LoadingScreen";
 export { NoModelsScreen } from "./NoModelsScreen";
 export { MessageRenderer } from "./MessageRenderer";
 export { ChatInput } from "./ChatInput";
+export { ConversationSidebar } from "./ConversationSidebar";
 export * from "../hooks";
@@ -1,8 +1,12 @@
 import { useState, useEffect } from "react";
 import { chatService } from "@/modules/chat/services/chat-service";
-import type { ChatMode } from "@/modules/chat/services/chat-service";
+import type {
+	ChatMessageMetadata,
+	ChatMode,
+} from "@/modules/chat/services/chat-service";
 import type { ChatMessage } from "@/types/openai";
-import { useChatStore } from "@/stores/chat";
+import { DEFAULT_MAX_STEPS } from "@/services/flows/graph/simple";
+import { DEFAULT_CONVERSATION_TITLE, useChatStore } from "@/stores/chat";
 import type { ChatStatus } from "ai";
 import { logError, logInfo } from "@/utils/logger";
 
@@ -22,6 +26,10 @@ export const useChat = (model: string) => {
 	const [status, setStatus] = useState<ChatStatus>("ready");
 	const [chatMode, setChatMode] = useState<ChatMode>("knowledge");
 	const [selectedTopic, setSelectedTopic] = useState<string>("__all__");
+	// Date (YYYY-MM-DD) knowledge mode answers as of, empty for now
+	const [asOf, setAsOf] = useState<string>("");
+	// Tool-calling steps agent mode may take before answering
+	const [maxSteps, setMaxSteps] = useState<number>(DEFAULT_MAX_STEPS);
 	const [abortController, setAbortController] =
 		useState<AbortController | null>(null);
 	const [inProgressMessage, setInProgressMessage] =
@@ -29,11 +37,20 @@ export const useChat = (model: string) => {
 
 	const {
 		messages,
+		conversations,
+		currentConversation,
+		hasMoreMessages,
 		isLoading,
 		addMessage,
 		finalizeMessage,
 		setLoading,
-		ensureMainConversation,
+		openLatestConversation,
+		loadConversations,
+		loadConversation,
+		loadOlderMessages,
+		startNewConversation,
+		renameConversation,
+		deleteConversation,
 		deleteMessages,
 	} = useChatStore();
 
@@ -42,15 +59,30 @@ export const useChat = (model: string) => {
 		const initializeConversation = async () => {
 			if (model) {
 				try {
-					await ensureMainConversation();
+					await openLatestConversation();
 				} catch (error) {
-					logError("Failed to initialize main conversation:", error);
+					logError("Failed to open latest conversation:", error);
 				}
 			}
 		};
 
 		initializeConversation();
-	}, [model, ensureMainConversation]);
+	}, [model, openLatestConversation]);
+
+	// Give a new conversation a generated title after its first exchange
+	const generateTitle = async (
+		conversationId: string,
+		history: ChatMessage[],
+	) => {
+		try {
+			const title = await chatService.generateTitle(history);
+			if (title) {
+				await renameConversation(conversationId, title);
+			}
+		} catch (error) {
+			logError("Failed to generate conversation title:", error);
+		}
+	};
 
 	// Stop current chat request
 	const handleStop = () => {
@@ -93,12 +125,23 @@ export const useChat = (model: string) => {
 
 		let assistantMessage: any = null;
 		let currentContent = "";
+		const generationMetadata: ChatMessageMetadata = {
+			mode: chatMode,
+			model,
+			topicId:
+				selectedTopic && selectedTopic !== "__all__"
+					? selectedTopic
+					: undefined,
+			asOf: chatMode === "knowledge" && asOf ? asOf : undefined,
+			maxSteps: chatMode === "agent" ? maxSteps : undefined,
+		};
 
 		try {
 			// Add user message to store and database
 			const userMessage = await addMessage({
 				role: "user",
 				content: userMessageContent,
+				metadata: generationMetadata,
 			});
 
 			setStatus("streaming");
@@ -127,6 +170,7 @@ export const useChat = (model: string) => {
 			assistantMessage = await addMessage({
 				role: "assistant",
 				content: "",
+				metadata: generationMetadata,
 			});
 
 			// Set in-progress message for real-time updates
@@ -142,10 +186,10 @@ export const useChat = (model: string) => {
 					messages: sendMessages,
 					model: model,
 					mode: chatMode,
-					topicId:
-						selectedTopic && selectedTopic !== "__all__"
-							? selectedTopic
-							: undefined,
+					conversationId: assistantMessage.conversationId,
+					topicId: generationMetadata.topicId,
+					asOf: generationMetadata.asOf,
+					maxSteps: generationMetadata.maxSteps,
 					streamConfig: {
 						minWordsToStream: 5,
 						streamToolCallsImmediately: true,
@@ -178,15 +222,28 @@ export const useChat = (model: string) => {
 				const errorContent = `${result.content}\n\n---\n\n❌ **Error:** ${result.error}`;
 				await finalizeMessage(assistantMessage.id, {
 					content: errorContent,
-					metadata: { actions: result.actions },
+					metadata: { ...generationMetadata, actions: result.actions },
 				});
 				throw new Error(result.error || "Chat failed");
 			} else {
 				// Success - finalize with current content and actions
 				await finalizeMessage(assistantMessage.id, {
 					content: result.content,
-					metadata: { actions: result.actions },
+					metadata: { ...generationMetadata, actions: result.actions },
 				});
+
+				// Title the conversation once it has its first reply
+				const conversation = useChatStore.getState().currentConversation;
+				if (
+					conversation &&
+					conversation.id === assistantMessage.conversationId &&
+					conversation.title === DEFAULT_CONVERSATION_TITLE
+				) {
+					void generateTitle(conversation.id, [
+						...sendMessages,
+						{ role: "assistant", content: result.content },
+					]);
+				}
 			}
 
 			// Clear in-progress message
@@ -203,7 +260,10 @@ export const useChat = (model: string) => {
 					try {
 						await finalizeMessage(assistantMessage.id, {
 							content: currentContent,
-							metadata: { actions: inProgressMessage?.actions || [] },
+							metadata: {
+								...generationMetadata,
+								actions: inProgressMessage?.actions || [],
+							},
 						});
 						logInfo("Saved partial content from stopped generation");
 					} catch (saveError) {
@@ -247,7 +307,14 @@ export const useChat = (model: string) => {
 		setChatMode,
 		selectedTopic,
 		setSelectedTopic,
+		asOf,
+		setAsOf,
+		maxSteps,
+		setMaxSteps,
 		messages,
+		conversations,
+		currentConversation,
+		hasMoreMessages,
 		isLoading,
 		abortController,
 		inProgressMessage,
@@ -255,5 +322,11 @@ export const useChat = (model: string) => {
 		handleStop,
 		insertSeparator,
 		deleteMessages,
+		loadConversations,
+		loadConversation,
+		loadOlderMessages,
+		startNewConversation,
+		renameConversation,
+		deleteConversation,
 	};
 };
@@ -3,15 +3,21 @@ import type {
 	ChatResult,
 	ChatStreamConfig,
 } from "@/services/background-jobs/handlers/process-chat";
-import type { ChatMessage } from "@/types/openai";
+import type { ChatCompletionResponse, ChatMessage } from "@/types/openai";
+import { serviceManager } from "@/services";
 
-export type ChatMode = "normal" | "knowledge";
+export type ChatMode = "normal" | "knowledge" | "agent";
 
 export interface ChatServiceOptions {
 	messages: ChatMessage[];
 	model: string;
 	mode: ChatMode;
+	// Conversation the running summary of trimmed history is stored on
+	conversationId?: string;
 	topicId?: string;
+	asOf?: string;
+	// Tool-calling step budget in agent mode
+	maxSteps?: number;
 	streamConfig?: ChatStreamConfig;
 }
 
@@ -28,6 +34,16 @@ export interface ChatStreamCallbacks {
 	onError?: (error: string) => void;
 }
 
+// Per-message metadata recorded while generating a reply
+export interface ChatMessageMetadata {
+	mode: ChatMode;
+	model: string;
+	topicId?: string;
+	asOf?: string;
+	maxSteps?: number;
+	actions?: ChatAction[];
+}
+
 export interface ChatStreamResult {
 	content: string;
 	actions: ChatAction[];
@@ -35,6 +51,24 @@ export interface ChatStreamResult {
 	error?: string;
 }
 
+/**
+ * Add actions, or replace the earlier version of one when a flow reports
+ * progress on the same action (e.g. a tool call that finished)
+ */
+export function upsertActions<T extends { id: string }>(
+	actions: T[],
+	updates: T[],
+): void {
+	for (const action of updates) {
+		const index = actions.findIndex((a) => a.id === action.id);
+		if (index >= 0) {
+			actions[index] = action;
+		} else {
+			actions.push(action);
+		}
+	}
+}
+
 export class ChatService {
 	private static instance: ChatService;
 	private activeJobs = new Map<string, AbortController>();
@@ -56,7 +90,16 @@ export class ChatService {
 		callbacks?: ChatStreamCallbacks,
 		signal?: AbortSignal,
 	): Promise<ChatStreamResult> {
-		const { messages, model, mode, topicId, streamConfig } = options;
+		const {
+			messages,
+			model,
+			mode,
+			conversationId,
+			topicId,
+			asOf,
+			maxSteps,
+			streamConfig,
+		} = options;
 
 		const abortController = new AbortController();
 		const jobId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -86,8 +129,11 @@ export class ChatService {
 					messages,
 					model,
 					mode,
+					conversationId,
 					query,
 					topicId,
+					asOf,
+					maxSteps,
 					streamConfig: streamConfig || {
 						minWordsToStream: 5,
 						streamToolCallsImmediately: true,
@@ -122,11 +168,7 @@ export class ChatService {
 						// Use the final content from the job result
 						currentContent = chatResult.content;
 						if (chatResult.metadata?.actions) {
-							chatResult.metadata.actions.forEach((action) => {
-								if (!actions.find((a) => a.id === action.id)) {
-									actions.push(action);
-								}
-							});
+							upsertActions(actions, chatResult.metadata.actions);
 						}
 					}
 				}
@@ -147,12 +189,8 @@ export class ChatService {
 						}
 					} else if (chatResult.type === "action" && chatResult.actions) {
 						// Handle action updates
-						chatResult.actions.forEach((action) => {
-							if (!actions.find((a) => a.id === action.id)) {
-								actions.push(action);
-							}
-						});
-						callbacks?.onAction?.(actions);
+						upsertActions(actions, chatResult.actions);
+						callbacks?.onAction?.([...actions]);
 					}
 				}
 			}
@@ -174,6 +212,61 @@ export class ChatService {
 		}
 	}
 
+	/**
+	 * Generate a short conversation title from its first exchange
+	 */
+	async generateTitle(messages: ChatMessage[]): Promise<string | null> {
+		const transcript = messages
+			.filter((msg) => msg.role === "user" || msg.role === "assistant")
+			.slice(0, 4)
+			.map((msg) => `${msg.role}: ${msg.content.slice(0, 1000)}`)
+			.join("\n\n");
+		if (!transcript) return null;
+
+		const model = await serviceManager.llmService.resolveModelFor("title");
+		const response = (await serviceManager.llmService.chatCompletionsFor(
+			model.serviceName,
+			{
+				model: model.modelId,
+				messages: [
+					{
+						role: "system",
+						content:
+							"Write a short title (at most 6 words) for the conversation below. Respond with the title only, without quotes or punctuation at the end.",
+					},
+					{ role: "user", content: transcript },
+				],
+				max_tokens: 24,
+				temperature: 0.2,
+				stream: false,
+			},
+		)) as ChatCompletionResponse;
+
+		const title = (response.choices[0]?.message.content || "")
+			.split("\n")[0]
+			.replace(/^["'#*\s]+|["'*.\s]+$/g, "")
+			.slice(0, 80);
+		return title || null;
+	}
+
+	/**
+	 * Run a conversation through the knowledge graph pipeline, message by
+	 * message. Resolves with a short summary of what was remembered.
+	 */
+	async rememberConversation(conversationId: string): Promise<string> {
+		const { promise } = await backgroundJob.createJob(
+			"knowledge-graph-conversation",
+			{ conversationId },
+			{ stream: false },
+		);
+
+		const result = await promise;
+		if (result.status === "failed" || !result.result) {
+			throw new Error(result.error || "Failed to remember conversation");
+		}
+		return result.result.stage;
+	}
+
 	/**
 	 * Stop all active chat requests
 	 */
@@ -1,8 +1,9 @@
-export { chatService } from "./chat-service";
+export { chatService, upsertActions } from "./chat-service";
 export type {
 	ChatMode,
 	ChatServiceOptions,
 	ChatAction,
+	ChatMessageMetadata,
 	ChatStreamCallbacks,
 	ChatStreamResult,
 } from "./chat-service";
@@ -525,6 +525,68 @@ class DocumentStorageService {
 		logInfo(`📝 Updated metadata for: ${file.path}`);
 		return file;
 	}
+
+	/**
+	 * Every file under the documents root, metadata file included, with
+	 * paths relative to the root
+	 */
+	async exportFiles(): Promise<Array<{ path: string; data: Uint8Array }>> {
+		await this.initialize();
+
+		const files: Array<{ path: string; data: Uint8Array }> = [];
+		const walk = async (relativePath: string) => {
+			const entries = await fs.promises.readdir(
+				`${DOCUMENTS_ROOT}${relativePath}`,
+			);
+			for (const entry of entries) {
+				const entryPath = `${relativePath}/${entry}`;
+				const stats = await fs.promises.stat(`${DOCUMENTS_ROOT}${entryPath}`);
+				if (stats.isDirectory()) {
+					await walk(entryPath);
+				} else {
+					files.push({
+						path: entryPath,
+						data: await fs.promises.readFile(`${DOCUMENTS_ROOT}${entryPath}`),
+					});
+				}
+			}
+		};
+		await walk("");
+		return files;
+	}
+
+	/**
+	 * Replace the whole document library with the given files, as returned by
+	 * exportFiles
+	 */
+	async restoreFiles(
+		files: Array<{ path: string; data: Uint8Array }>,
+	): Promise<void> {
+		const outside = files.find((file) => file.path.split("/").includes(".."));
+		if (outside) {
+			throw new Error(`Invalid document path: ${outside.path}`);
+		}
+
+		await fs.promises.rm(DOCUMENTS_ROOT, { recursive: true, force: true });
+		await this.ensureDirectory(DOCUMENTS_ROOT);
+
+		for (const file of files) {
+			const fullPath = `${DOCUMENTS_ROOT}${this.normalizePath(file.path)}`;
+			await this.ensureDirectory(fullPath.slice(0, fullPath.lastIndexOf("/")));
+			await fs.promises.writeFile(fullPath, file.data);
+		}
+
+		await this.reload();
+		logInfo(`📚 Restored ${files.length} document files`);
+	}
+
+	/**
+	 * Re-read the metadata, after another context changed the library
+	 */
+	async reload(): Promise<void> {
+		this.initialized = false;
+		await this.initialize();
+	}
 }
 
 export const documentStorageService = DocumentStorageService.getInstance();
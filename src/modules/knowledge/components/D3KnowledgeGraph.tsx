@@ -3,10 +3,25 @@ import * as d3 from "d3";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, ArrowRight, X, Trash2 } from "lucide-react";
+import {
+	Loader2,
+	ArrowRight,
+	X,
+	Trash2,
+	Pencil,
+	Plus,
+	Link2,
+} from "lucide-react";
 import { serviceManager } from "@/services";
 import type { Node, Edge } from "@/services/database/db";
 import { logError, logInfo } from "@/utils/logger";
+import { graphEditService } from "@/modules/knowledge/services/graph-edit-service";
+import {
+	EdgeEditForm,
+	NodeEditForm,
+	type EdgeFormValues,
+	type NodeFormValues,
+} from "./GraphEditForms";
 import { inArray, eq, and } from "drizzle-orm";
 
 // Hook to detect theme
@@ -36,6 +51,7 @@ interface D3Node extends d3.SimulationNodeDatum {
 	name: string;
 	nodeType: string;
 	summary?: string;
+	attributes: Record<string, unknown>;
 	group: number;
 	radius: number;
 }
@@ -60,6 +76,13 @@ interface ConnectedEdge {
 	direction: "incoming" | "outgoing";
 }
 
+// Form currently open in the node panel
+type GraphEdit =
+	| { kind: "new-node" }
+	| { kind: "node" }
+	| { kind: "new-edge" }
+	| { kind: "edge"; edgeId: string };
+
 interface D3KnowledgeGraphProps {
 	selectedPageId?: string;
 	selectedNodeId?: string;
@@ -70,6 +93,8 @@ interface D3KnowledgeGraphProps {
 	width?: number;
 	height?: number;
 	onNodeDeleted?: () => void;
+	// Enables manual editing; called after every edit to reload the graph
+	onGraphChanged?: () => void;
 }
 
 // Theme-aware color functions
@@ -111,6 +136,7 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 	width = 800,
 	height = 600,
 	onNodeDeleted,
+	onGraphChanged,
 }) => {
 	const svgRef = useRef<SVGSVGElement>(null);
 	const [loading, setLoading] = useState(true);
@@ -122,12 +148,27 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 	const [selectedNode, setSelectedNode] = useState<D3Node | null>(null);
 	const [connectedEdges, setConnectedEdges] = useState<ConnectedEdge[]>([]);
 	const [deleting, setDeleting] = useState(false);
+	const [editing, setEditing] = useState<GraphEdit | null>(null);
+	const [saving, setSaving] = useState(false);
+	const editable = Boolean(onGraphChanged);
 	const isDark = useTheme();
 
 	useEffect(() => {
 		loadGraphData();
 	}, [selectedPageId, externalGraphData]);
 
+	// Keep the selected node in sync with reloaded data, e.g. after an edit
+	useEffect(() => {
+		setSelectedNode((prev) =>
+			prev ? (graphData.nodes.find((n) => n.id === prev.id) ?? null) : prev,
+		);
+	}, [graphData.nodes]);
+
+	// Close the open form when another node is selected
+	useEffect(() => {
+		setEditing((prev) => (prev?.kind === "new-node" ? prev : null));
+	}, [selectedNode?.id]);
+
 	// Handle external selectedNodeId changes
 	useEffect(() => {
 		if (selectedNodeId && graphData.nodes.length > 0) {
@@ -220,6 +261,7 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 						name: node.name,
 						nodeType: node.nodeType,
 						summary: node.summary || undefined,
+						attributes: (node.attributes as Record<string, unknown>) || {},
 						group: hash(node.nodeType) % 6,
 						radius: NODE_RADIUS[node.nodeType] || NODE_RADIUS.default,
 						// Add initial positions in a circle pattern
@@ -326,6 +368,7 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 					name: node.name,
 					nodeType: node.nodeType,
 					summary: node.summary || undefined,
+					attributes: (node.attributes as Record<string, unknown>) || {},
 					group: hash(node.nodeType) % 6,
 					radius: NODE_RADIUS[node.nodeType] || NODE_RADIUS.default,
 					// Add initial positions in a circle pattern
@@ -596,26 +639,8 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 			setDeleting(true);
 			logInfo(`Deleting node: ${selectedNode.name} (${selectedNode.id})`);
 
-			await serviceManager.databaseService.use(async ({ db, schema }) => {
-				// Delete all edges where this node is source or destination
-				await db
-					.delete(schema.edges)
-					.where(eq(schema.edges.sourceId, selectedNode.id));
-
-				await db
-					.delete(schema.edges)
-					.where(eq(schema.edges.destinationId, selectedNode.id));
-
-				// Delete all source_nodes relationships
-				await db
-					.delete(schema.sourceNodes)
-					.where(eq(schema.sourceNodes.nodeId, selectedNode.id));
-
-				// Delete the node itself
-				await db
-					.delete(schema.nodes)
-					.where(eq(schema.nodes.id, selectedNode.id));
-			});
+			// Removes connected edges and source links, and records the deletion
+			await graphEditService.deleteNode(selectedNode.id);
 
 			logInfo(`Successfully deleted node: ${selectedNode.name}`);
 
@@ -650,6 +675,59 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 		}
 	};
 
+	const runEdit = async (label: string, action: () => Promise<unknown>) => {
+		try {
+			setSaving(true);
+			await action();
+			setEditing(null);
+			onGraphChanged?.();
+		} catch (error) {
+			logError(`Failed to ${label}:`, error);
+			alert(
+				`Failed to ${label}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleCreateNode = (values: NodeFormValues) =>
+		runEdit("create node", () => graphEditService.createNode(values));
+
+	const handleUpdateNode = (values: NodeFormValues) => {
+		if (!selectedNode) return;
+		return runEdit("update node", () =>
+			graphEditService.updateNode(selectedNode.id, values),
+		);
+	};
+
+	const handleCreateEdge = (values: EdgeFormValues) => {
+		if (!selectedNode) return;
+		return runEdit("create relation", () =>
+			graphEditService.createEdge({
+				sourceId: selectedNode.id,
+				destinationId: values.targetId,
+				edgeType: values.edgeType,
+				factText: values.factText,
+			}),
+		);
+	};
+
+	const handleUpdateEdge = (edgeId: string, values: EdgeFormValues) =>
+		runEdit("update relation", () =>
+			graphEditService.updateEdge(edgeId, {
+				edgeType: values.edgeType,
+				factText: values.factText,
+			}),
+		);
+
+	const handleDeleteEdge = (edge: D3Edge) => {
+		if (!confirm(`Delete the relation "${edge.edgeType}"?`)) return;
+		return runEdit("delete relation", () =>
+			graphEditService.deleteEdge(edge.id),
+		);
+	};
+
 	const hash = (str: string): number => {
 		let hash = 0;
 		for (let i = 0; i < str.length; i++) {
@@ -729,6 +807,30 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 								</h3>
 							</div>
 							<div className="flex items-center gap-1">
+								{editable && (
+									<>
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() => setEditing({ kind: "node" })}
+											disabled={saving}
+											className="h-7 px-2"
+											title="Edit node"
+										>
+											<Pencil className="h-4 w-4" />
+										</Button>
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() => setEditing({ kind: "new-edge" })}
+											disabled={saving}
+											className="h-7 px-2"
+											title="Add relation"
+										>
+											<Link2 className="h-4 w-4" />
+										</Button>
+									</>
+								)}
 								<Button
 									variant="ghost"
 									size="sm"
@@ -759,20 +861,36 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 								</button>
 							</div>
 						</div>
-						<div className="mt-2 space-y-1">
-							<Badge variant="outline" className="text-xs">
-								{selectedNode.nodeType}
-							</Badge>
-							{selectedNode.summary && (
-								<p
-									className={`text-xs mt-1 ${
-										isDark ? "text-gray-300" : "text-gray-600"
-									}`}
-								>
-									{selectedNode.summary}
-								</p>
-							)}
-						</div>
+						{editing?.kind === "node" ? (
+							<div className="mt-2">
+								<NodeEditForm
+									initial={{
+										name: selectedNode.name,
+										nodeType: selectedNode.nodeType,
+										summary: selectedNode.summary,
+										attributes: selectedNode.attributes,
+									}}
+									saving={saving}
+									onSave={handleUpdateNode}
+									onCancel={() => setEditing(null)}
+								/>
+							</div>
+						) : (
+							<div className="mt-2 space-y-1">
+								<Badge variant="outline" className="text-xs">
+									{selectedNode.nodeType}
+								</Badge>
+								{selectedNode.summary && (
+									<p
+										className={`text-xs mt-1 ${
+											isDark ? "text-gray-300" : "text-gray-600"
+										}`}
+									>
+										{selectedNode.summary}
+									</p>
+								)}
+							</div>
+						)}
 					</div>
 
 					<div className="p-4 max-h-64 overflow-y-auto">
@@ -784,6 +902,19 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 							Connected Edges ({connectedEdges.length})
 						</h4>
 
+						{editing?.kind === "new-edge" && (
+							<div className="mb-3">
+								<EdgeEditForm
+									targets={graphData.nodes
+										.filter((n) => n.id !== selectedNode.id)
+										.map((n) => ({ id: n.id, name: n.name }))}
+									saving={saving}
+									onSave={handleCreateEdge}
+									onCancel={() => setEditing(null)}
+								/>
+							</div>
+						)}
+
 						{connectedEdges.length === 0 ? (
 							<p
 								className={`text-xs italic ${
@@ -802,7 +933,7 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 										}`}
 									>
 										<div className="flex items-center gap-2 mb-2">
-											<div className="flex items-center gap-1 text-xs">
+											<div className="flex flex-1 items-center gap-1 text-xs">
 												{connection.direction === "outgoing" ? (
 													<>
 														<span
@@ -849,45 +980,89 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 													</>
 												)}
 											</div>
-										</div>
-
-										<div className="space-y-1">
-											<div className="flex items-center gap-2">
-												<Badge variant="secondary" className="text-xs">
-													{connection.edge.edgeType}
-												</Badge>
-												<span
-													className={`text-xs ${
-														isDark ? "text-gray-400" : "text-gray-500"
-													}`}
-												>
-													{connection.direction === "outgoing"
-														? "Outgoing"
-														: "Incoming"}
-												</span>
-											</div>
-
-											{connection.edge.factText && (
-												<div className="mt-2">
-													<p
-														className={`text-xs font-medium mb-1 ${
-															isDark ? "text-gray-300" : "text-gray-700"
-														}`}
+											{editable && (
+												<div className="flex items-center">
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={() =>
+															setEditing({
+																kind: "edge",
+																edgeId: connection.edge.id,
+															})
+														}
+														disabled={saving}
+														className="h-6 w-6 p-0"
+														title="Edit relation"
 													>
-														Fact:
-													</p>
-													<p
-														className={`text-xs p-2 rounded border ${
-															isDark
-																? "text-gray-300 bg-gray-800 border-gray-600"
-																: "text-gray-600 bg-white border-gray-200"
-														}`}
+														<Pencil className="h-3 w-3" />
+													</Button>
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={() => handleDeleteEdge(connection.edge)}
+														disabled={saving}
+														className="h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+														title="Delete relation"
 													>
-														{connection.edge.factText}
-													</p>
+														<Trash2 className="h-3 w-3" />
+													</Button>
 												</div>
 											)}
 										</div>
+
+										{editing?.kind === "edge" &&
+										editing.edgeId === connection.edge.id ? (
+											<EdgeEditForm
+												initial={{
+													edgeType: connection.edge.edgeType,
+													factText: connection.edge.factText,
+												}}
+												saving={saving}
+												onSave={(values) =>
+													handleUpdateEdge(connection.edge.id, values)
+												}
+												onCancel={() => setEditing(null)}
+											/>
+										) : (
+											<div className="space-y-1">
+												<div className="flex items-center gap-2">
+													<Badge variant="secondary" className="text-xs">
+														{connection.edge.edgeType}
+													</Badge>
+													<span
+														className={`text-xs ${
+															isDark ? "text-gray-400" : "text-gray-500"
+														}`}
+													>
+														{connection.direction === "outgoing"
+															? "Outgoing"
+															: "Incoming"}
+													</span>
+												</div>
+
+												{connection.edge.factText && (
+													<div className="mt-2">
+														<p
+															className={`text-xs font-medium mb-1 ${
+																isDark ? "text-gray-300" : "text-gray-700"
+															}`}
+														>
+															Fact:
+														</p>
+														<p
+															className={`text-xs p-2 rounded border ${
+																isDark
+																	? "text-gray-300 bg-gray-800 border-gray-600"
+																	: "text-gray-600 bg-white border-gray-200"
+															}`}
+														>
+															{connection.edge.factText}
+														</p>
+													</div>
+												)}
+											</div>
+										)}
 									</div>
 								))}
 							</div>
@@ -896,6 +1071,40 @@ export const D3KnowledgeGraph: React.FC<D3KnowledgeGraphProps> = ({
 				</Card>
 			)}
 
+			{editable &&
+				(editing?.kind === "new-node" ? (
+					<Card
+						className={`absolute top-2 right-2 w-72 p-4 shadow-lg ${
+							isDark
+								? "bg-slate-800 border-gray-600"
+								: "bg-white border-gray-200"
+						}`}
+					>
+						<h4
+							className={`font-medium text-sm mb-3 ${
+								isDark ? "text-gray-200" : "text-gray-800"
+							}`}
+						>
+							New node
+						</h4>
+						<NodeEditForm
+							saving={saving}
+							onSave={handleCreateNode}
+							onCancel={() => setEditing(null)}
+						/>
+					</Card>
+				) : (
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => setEditing({ kind: "new-node" })}
+						className="absolute top-2 right-2 h-7 text-xs"
+					>
+						<Plus className="h-3 w-3 mr-1" />
+						New node
+					</Button>
+				))}
+
 			<div
 				className={`absolute bottom-4 right-4 p-2 rounded shadow text-xs ${
 					isDark
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import {
+	ChevronDown,
+	ChevronRight,
+	Loader2,
+	Plus,
+	Scale,
+	Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { provenanceService } from "@/services/provenance";
+import { logError } from "@/utils/logger";
+
+interface TrustRow {
+	domain: string;
+	weight: string;
+}
+
+/**
+ * Trust weights per domain for provenance scoring. Facts from trusted
+ * domains weigh more when ranking retrieved knowledge.
+ */
+export const DomainTrustPanel: React.FC = () => {
+	const [expanded, setExpanded] = useState(false);
+	const [rows, setRows] = useState<TrustRow[] | null>(null);
+	const [saving, setSaving] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!expanded || rows) return;
+		provenanceService
+			.getDomainTrust()
+			.then((trust) =>
+				setRows(
+					Object.entries(trust).map(([domain, weight]) => ({
+						domain,
+						weight: String(weight),
+					})),
+				),
+			)
+			.catch((error) => {
+				logError("[DOMAIN_TRUST] Failed to load domain trust:", error);
+				setRows([]);
+			});
+	}, [expanded]);
+
+	const updateRow = (index: number, changes: Partial<TrustRow>) =>
+		setRows((prev) =>
+			(prev || []).map((row, i) =>
+				i === index ? { ...row, ...changes } : row,
+			),
+		);
+
+	const handleSave = async () => {
+		try {
+			setSaving(true);
+			setStatus(null);
+			const trust = Object.fromEntries(
+				(rows || [])
+					.filter((row) => row.domain.trim() && row.weight.trim())
+					.map((row) => [row.domain, Number(row.weight)]),
+			);
+			const edges = await provenanceService.setDomainTrust(trust);
+			setStatus(`Rescored ${edges} facts`);
+		} catch (error) {
+			logError("[DOMAIN_TRUST] Failed to save domain trust:", error);
+			setStatus(
+				`Save failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="border-b border-border">
+			<div className="px-3 py-2">
+				<button
+					type="button"
+					className="flex items-center gap-1 text-sm font-medium text-foreground"
+					onClick={() => setExpanded((prev) => !prev)}
+				>
+					{expanded ? (
+						<ChevronDown className="h-3 w-3" />
+					) : (
+						<ChevronRight className="h-3 w-3" />
+					)}
+					<Scale className="h-4 w-4" />
+					Source trust
+				</button>
+			</div>
+
+			{expanded && (
+				<div className="px-3 pb-3 space-y-2 text-xs">
+					<p className="text-muted-foreground">
+						Weight of facts learned from a domain and its subdomains; 1 is
+						neutral.
+					</p>
+					{rows === null ? (
+						<Loader2 className="h-3 w-3 animate-spin" />
+					) : (
+						rows.map((row, index) => (
+							<div key={index} className="flex items-center gap-1">
+								<Input
+									value={row.domain}
+									onChange={(e) => updateRow(index, { domain: e.target.value })}
+									placeholder="example.com"
+									className="h-7 flex-1 text-xs"
+								/>
+								<Input
+									type="number"
+									min={0}
+									step={0.1}
+									value={row.weight}
+									onChange={(e) => updateRow(index, { weight: e.target.value })}
+									className="h-7 w-16 text-xs"
+								/>
+								<Button
+									variant="ghost"
+									size="sm"
+									className="h-7 w-7 p-0"
+									onClick={() =>
+										setRows((prev) =>
+											(prev || []).filter((_, i) => i !== index),
+										)
+									}
+									title="Remove"
+								>
+									<Trash2 className="h-3 w-3" />
+								</Button>
+							</div>
+						))
+					)}
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-7 flex-1 text-xs"
+							onClick={() =>
+								setRows((prev) => [
+									...(prev || []),
+									{ domain: "", weight: "1" },
+								])
+							}
+							disabled={rows === null}
+						>
+							<Plus className="h-3 w-3 mr-1" />
+							Add domain
+						</Button>
+						<Button
+							size="sm"
+							className="h-7 flex-1 text-xs"
+							onClick={handleSave}
+							disabled={rows === null || saving}
+						>
+							{saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+							Save
+						</Button>
+					</div>
+					{status && <p className="text-muted-foreground">{status}</p>}
+				</div>
+			)}
+		</div>
+	);
+};
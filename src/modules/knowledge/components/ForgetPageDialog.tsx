@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from "react";
+import { Eraser, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	forgetService,
+	type ForgetPreview,
+} from "@/modules/knowledge/services/forget-service";
+import type { RememberedContent } from "@/services/database/db";
+import { logError } from "@/utils/logger";
+
+interface ForgetPageDialogProps {
+	// Page to forget; the dialog is closed when absent
+	page: RememberedContent | null;
+	onClose: () => void;
+	onForgotten: (page: RememberedContent) => void;
+}
+
+interface PreviewSectionProps {
+	title: string;
+	items: Array<{ id: string; label: string; detail?: string }>;
+}
+
+const PreviewSection: React.FC<PreviewSectionProps> = ({ title, items }) =>
+	items.length === 0 ? null : (
+		<div className="space-y-1">
+			<p className="text-xs font-medium">
+				{title} ({items.length})
+			</p>
+			<ul className="space-y-0.5 text-xs text-muted-foreground">
+				{items.map((item) => (
+					<li key={item.id} className="truncate">
+						{item.label}
+						{item.detail && (
+							<span className="opacity-70"> · {item.detail}</span>
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+
+/**
+ * Preview of everything forgetting a page removes from the knowledge graph,
+ * and the confirmation that does it
+ */
+export const ForgetPageDialog: React.FC<ForgetPageDialogProps> = ({
+	page,
+	onClose,
+	onForgotten,
+}) => {
+	const [preview, setPreview] = useState<ForgetPreview | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [forgetting, setForgetting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setPreview(null);
+		setError(null);
+		if (!page) return;
+
+		setLoading(true);
+		forgetService
+			.previewPage(page.id)
+			.then(setPreview)
+			.catch((err) => {
+				logError("[FORGET_PAGE] Failed to load preview:", err);
+				setError(err instanceof Error ? err.message : String(err));
+			})
+			.finally(() => setLoading(false));
+	}, [page?.id]);
+
+	const handleForget = async () => {
+		if (!page) return;
+		try {
+			setForgetting(true);
+			await forgetService.forgetPage(page.id);
+			onForgotten(page);
+		} catch (err) {
+			logError("[FORGET_PAGE] Failed to forget page:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setForgetting(false);
+		}
+	};
+
+	return (
+		<Dialog open={!!page} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-lg max-h-[80vh] flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Eraser className="w-5 h-5 text-destructive" />
+						Forget page?
+					</DialogTitle>
+					<DialogDescription>
+						"{page?.title}" and everything only it taught the knowledge graph
+						will be deleted.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex-1 overflow-y-auto space-y-3">
+					{loading && (
+						<div className="flex items-center gap-2 text-xs text-muted-foreground">
+							<Loader2 className="h-3 w-3 animate-spin" />
+							Working out what will be removed...
+						</div>
+					)}
+					{preview && (
+						<>
+							<PreviewSection
+								title="Nodes deleted"
+								items={preview.nodes.map((node) => ({
+									id: node.id,
+									label: node.name,
+									detail: node.nodeType,
+								}))}
+							/>
+							<PreviewSection
+								title="Facts deleted"
+								items={preview.edges.map((edge) => ({
+									id: edge.id,
+									label: edge.factText || edge.edgeType,
+								}))}
+							/>
+							<PreviewSection
+								title="Facts kept, backed by other sources"
+								items={preview.sharedEdges.map((edge) => ({
+									id: edge.id,
+									label: edge.factText || edge.edgeType,
+									detail: `${edge.remainingSources} other source${edge.remainingSources === 1 ? "" : "s"}`,
+								}))}
+							/>
+							<PreviewSection
+								title="Nodes kept"
+								items={preview.sharedNodes.map((node) => ({
+									id: node.id,
+									label: node.name,
+									detail: node.nodeType,
+								}))}
+							/>
+							{preview.sources.length === 0 && (
+								<p className="text-xs text-muted-foreground">
+									Nothing in the knowledge graph came from this page.
+								</p>
+							)}
+						</>
+					)}
+					{error && <p className="text-xs text-destructive">{error}</p>}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={onClose} disabled={forgetting}>
+						Cancel
+					</Button>
+					<Button
+						variant="destructive"
+						onClick={handleForget}
+						disabled={loading || forgetting || !!error}
+					>
+						{forgetting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+						Forget
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
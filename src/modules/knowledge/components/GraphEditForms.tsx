@@ -0,0 +1,205 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+
+export interface NodeFormValues {
+	name: string;
+	nodeType: string;
+	summary: string;
+	attributes: Record<string, unknown>;
+}
+
+export interface EdgeFormValues {
+	targetId: string;
+	edgeType: string;
+	factText: string;
+}
+
+interface FormActionsProps {
+	saving: boolean;
+	onCancel: () => void;
+}
+
+const FormActions: React.FC<FormActionsProps> = ({ saving, onCancel }) => (
+	<div className="flex justify-end gap-2">
+		<Button
+			type="button"
+			variant="ghost"
+			size="sm"
+			className="h-7 text-xs"
+			onClick={onCancel}
+			disabled={saving}
+		>
+			Cancel
+		</Button>
+		<Button type="submit" size="sm" className="h-7 text-xs" disabled={saving}>
+			{saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+			Save
+		</Button>
+	</div>
+);
+
+interface NodeEditFormProps {
+	initial?: Partial<NodeFormValues>;
+	saving: boolean;
+	onSave: (values: NodeFormValues) => void;
+	onCancel: () => void;
+}
+
+/**
+ * Name, type, summary and attributes of a node; attributes are edited as JSON
+ */
+export const NodeEditForm: React.FC<NodeEditFormProps> = ({
+	initial,
+	saving,
+	onSave,
+	onCancel,
+}) => {
+	const [name, setName] = useState(initial?.name ?? "");
+	const [nodeType, setNodeType] = useState(initial?.nodeType ?? "");
+	const [summary, setSummary] = useState(initial?.summary ?? "");
+	const [attributes, setAttributes] = useState(
+		JSON.stringify(initial?.attributes ?? {}, null, 2),
+	);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!name.trim() || !nodeType.trim()) {
+			setError("Name and type are required");
+			return;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(attributes || "{}");
+		} catch {
+			setError("Attributes must be valid JSON");
+			return;
+		}
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+			setError("Attributes must be a JSON object");
+			return;
+		}
+
+		setError(null);
+		onSave({
+			name,
+			nodeType,
+			summary,
+			attributes: parsed as Record<string, unknown>,
+		});
+	};
+
+	return (
+		<form className="space-y-2" onSubmit={handleSubmit}>
+			<Input
+				value={name}
+				onChange={(e) => setName(e.target.value)}
+				placeholder="Name"
+				className="h-7 text-xs"
+			/>
+			<Input
+				value={nodeType}
+				onChange={(e) => setNodeType(e.target.value)}
+				placeholder="Type, e.g. person"
+				className="h-7 text-xs"
+			/>
+			<Textarea
+				value={summary}
+				onChange={(e) => setSummary(e.target.value)}
+				placeholder="Summary"
+				className="min-h-[48px] text-xs"
+			/>
+			<Textarea
+				value={attributes}
+				onChange={(e) => setAttributes(e.target.value)}
+				placeholder="Attributes (JSON)"
+				className="min-h-[48px] font-mono text-xs"
+			/>
+			{error && <p className="text-xs text-destructive">{error}</p>}
+			<FormActions saving={saving} onCancel={onCancel} />
+		</form>
+	);
+};
+
+interface EdgeEditFormProps {
+	initial?: Partial<EdgeFormValues>;
+	// Nodes the relation can point to; the target is fixed when absent
+	targets?: Array<{ id: string; name: string }>;
+	saving: boolean;
+	onSave: (values: EdgeFormValues) => void;
+	onCancel: () => void;
+}
+
+/**
+ * Relation type and fact text of an edge, plus its target for new edges
+ */
+export const EdgeEditForm: React.FC<EdgeEditFormProps> = ({
+	initial,
+	targets,
+	saving,
+	onSave,
+	onCancel,
+}) => {
+	const [targetId, setTargetId] = useState(initial?.targetId ?? "");
+	const [edgeType, setEdgeType] = useState(initial?.edgeType ?? "");
+	const [factText, setFactText] = useState(initial?.factText ?? "");
+	const [error, setError] = useState<string | null>(null);
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		if (targets && !targetId) {
+			setError("Choose the node to connect to");
+			return;
+		}
+		if (!edgeType.trim() || !factText.trim()) {
+			setError("Relation type and fact are required");
+			return;
+		}
+		setError(null);
+		onSave({ targetId, edgeType, factText });
+	};
+
+	return (
+		<form className="space-y-2" onSubmit={handleSubmit}>
+			{targets && (
+				<Select value={targetId} onValueChange={setTargetId}>
+					<SelectTrigger className="h-7 text-xs">
+						<SelectValue placeholder="Connect to..." />
+					</SelectTrigger>
+					<SelectContent>
+						{targets.map((target) => (
+							<SelectItem key={target.id} value={target.id}>
+								{target.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			)}
+			<Input
+				value={edgeType}
+				onChange={(e) => setEdgeType(e.target.value)}
+				placeholder="Relation, e.g. WORKS_AT"
+				className="h-7 text-xs"
+			/>
+			<Textarea
+				value={factText}
+				onChange={(e) => setFactText(e.target.value)}
+				placeholder="Fact, e.g. Alice works at Acme"
+				className="min-h-[48px] text-xs"
+			/>
+			{error && <p className="text-xs text-destructive">{error}</p>}
+			<FormActions saving={saving} onCancel={onCancel} />
+		</form>
+	);
+};
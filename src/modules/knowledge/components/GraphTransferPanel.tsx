@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+	ArrowLeftRight,
+	ChevronDown,
+	ChevronRight,
+	Download,
+	Loader2,
+	Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { graphTransferService } from "@/modules/knowledge/services/graph-transfer-service";
+import {
+	GRAPH_FORMATS,
+	type GraphExportFormat,
+	type GraphImportFormat,
+} from "@/modules/knowledge/utils/graph-formats";
+import { topicService } from "@/modules/topics/services/topic-service";
+import type { Topic } from "@/services/database/db";
+import { logError } from "@/utils/logger";
+
+interface GraphTransferPanelProps {
+	onImported?: () => void;
+}
+
+// Select values for the graph filter; topics use their graph value
+const ALL_GRAPHS = "all";
+const NO_TOPIC = "none";
+
+const IMPORT_FORMAT_BY_EXTENSION: Record<string, GraphImportFormat> = {
+	graphml: "graphml",
+	xml: "graphml",
+	jsonld: "jsonld",
+	json: "jsonld",
+};
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Export of the knowledge graph, optionally limited to a topic and a time
+ * range, and import of GraphML or JSON-LD files shared by others
+ */
+export const GraphTransferPanel: React.FC<GraphTransferPanelProps> = ({
+	onImported,
+}) => {
+	const [expanded, setExpanded] = useState(false);
+	const [topics, setTopics] = useState<Topic[]>([]);
+	const [format, setFormat] = useState<GraphExportFormat>("graphml");
+	const [graph, setGraph] = useState(ALL_GRAPHS);
+	const [from, setFrom] = useState("");
+	const [to, setTo] = useState("");
+	const [exporting, setExporting] = useState(false);
+	const [importing, setImporting] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+	const fileInput = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		if (!expanded || topics.length > 0) return;
+		topicService
+			.getTopics()
+			.then(setTopics)
+			.catch((error) => {
+				logError("[GRAPH_TRANSFER] Failed to load topics:", error);
+			});
+	}, [expanded]);
+
+	const handleExport = async () => {
+		try {
+			setExporting(true);
+			setStatus(null);
+			const file = await graphTransferService.exportGraph(format, {
+				graph:
+					graph === ALL_GRAPHS ? undefined : graph === NO_TOPIC ? "" : graph,
+				from: from ? new Date(`${from}T00:00:00`) : undefined,
+				to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+			});
+			downloadFile(file.content, file.fileName, file.mimeType);
+			setStatus(`Exported ${file.nodeCount} nodes and ${file.edgeCount} edges`);
+		} catch (error) {
+			logError("[GRAPH_TRANSFER] Export failed:", error);
+			setStatus(
+				`Export failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setExporting(false);
+		}
+	};
+
+	const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) return;
+
+		const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+		const importFormat = IMPORT_FORMAT_BY_EXTENSION[extension];
+		if (!importFormat) {
+			setStatus("Only GraphML and JSON-LD files can be imported");
+			return;
+		}
+
+		try {
+			setImporting(true);
+			setStatus(`Importing ${file.name}...`);
+			const { promise } = await graphTransferService.queueImport({
+				content: await file.text(),
+				format: importFormat,
+				name: file.name,
+				// Imports land in the selected topic, if any
+				topicId: graph.startsWith("topic_")
+					? graph.slice("topic_".length)
+					: undefined,
+			});
+			const job = await promise;
+			if (job.status === "failed" || !job.result) {
+				throw new Error(job.error || "Import failed");
+			}
+			setStatus(
+				`Imported ${job.result.entities} nodes and ${job.result.facts} facts: ${job.result.entitiesCreated} new nodes, ${job.result.relationsCreated} new relations`,
+			);
+			onImported?.();
+		} catch (error) {
+			logError("[GRAPH_TRANSFER] Import failed:", error);
+			setStatus(
+				`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setImporting(false);
+		}
+	};
+
+	return (
+		<div className="border-b border-border">
+			<div className="px-3 py-2">
+				<button
+					type="button"
+					className="flex items-center gap-1 text-sm font-medium text-foreground"
+					onClick={() => setExpanded((prev) => !prev)}
+				>
+					{expanded ? (
+						<ChevronDown className="h-3 w-3" />
+					) : (
+						<ChevronRight className="h-3 w-3" />
+					)}
+					<ArrowLeftRight className="h-4 w-4" />
+					Export / import
+				</button>
+			</div>
+
+			{expanded && (
+				<div className="px-3 pb-3 space-y-2 text-xs">
+					<div className="flex gap-2">
+						<Select
+							value={format}
+							onValueChange={(value) => setFormat(value as GraphExportFormat)}
+						>
+							<SelectTrigger className="h-7 text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(GRAPH_FORMATS).map(([key, { label }]) => (
+									<SelectItem key={key} value={key}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select value={graph} onValueChange={setGraph}>
+							<SelectTrigger className="h-7 text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_GRAPHS}>All topics</SelectItem>
+								<SelectItem value={NO_TOPIC}>No topic</SelectItem>
+								{topics.map((topic) => (
+									<SelectItem key={topic.id} value={`topic_${topic.id}`}>
+										{topic.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="flex items-center gap-2">
+						<Input
+							type="date"
+							value={from}
+							onChange={(e) => setFrom(e.target.value)}
+							className="h-7 text-xs"
+							title="From"
+						/>
+						<span className="text-muted-foreground">to</span>
+						<Input
+							type="date"
+							value={to}
+							onChange={(e) => setTo(e.target.value)}
+							className="h-7 text-xs"
+							title="To"
+						/>
+					</div>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-7 flex-1 text-xs"
+							onClick={handleExport}
+							disabled={exporting}
+						>
+							{exporting ? (
+								<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+							) : (
+								<Download className="h-3 w-3 mr-1" />
+							)}
+							Export
+						</Button>
+						<Button
+							variant="outline"
+							size="sm"
+							className="h-7 flex-1 text-xs"
+							onClick={() => fileInput.current?.click()}
+							disabled={importing}
+							title="Import a GraphML or JSON-LD file"
+						>
+							{importing ? (
+								<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+							) : (
+								<Upload className="h-3 w-3 mr-1" />
+							)}
+							Import
+						</Button>
+						<input
+							ref={fileInput}
+							type="file"
+							accept=".graphml,.xml,.jsonld,.json"
+							className="hidden"
+							onChange={handleImport}
+						/>
+					</div>
+					{status && <p className="text-muted-foreground">{status}</p>}
+				</div>
+			)}
+		</div>
+	);
+};
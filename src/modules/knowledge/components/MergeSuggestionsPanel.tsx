@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+	ChevronDown,
+	ChevronRight,
+	GitMerge,
+	RefreshCw,
+	X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+	graphMaintenanceService,
+	type DuplicateCandidate,
+} from "@/modules/knowledge/services/graph-maintenance-service";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import { logError } from "@/utils/logger";
+
+interface MergeSuggestionsPanelProps {
+	onMerged?: () => void;
+}
+
+const candidateKey = (candidate: DuplicateCandidate) =>
+	`${candidate.nodeId}|${candidate.candidateId}`;
+
+/**
+ * Review of the merges suggested by the duplicate node scan. Either node of
+ * a pair can be kept, the other one is merged into it and its name becomes
+ * an alias; rejected pairs are not suggested again.
+ */
+export const MergeSuggestionsPanel: React.FC<MergeSuggestionsPanelProps> = ({
+	onMerged,
+}) => {
+	const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+	const [expanded, setExpanded] = useState(true);
+	const [busyKey, setBusyKey] = useState<string | null>(null);
+	const [scanning, setScanning] = useState(false);
+	const scanJobId = useRef<string | null>(null);
+
+	const loadCandidates = async () => {
+		try {
+			setCandidates(await graphMaintenanceService.getDuplicateCandidates());
+		} catch (error) {
+			logError("[MERGE_SUGGESTIONS] Failed to load candidates:", error);
+		}
+	};
+
+	useEffect(() => {
+		loadCandidates();
+
+		return backgroundJob
+			.getNotificationBridge()
+			.subscribe("JOB_COMPLETED", (message) => {
+				if (
+					message.job?.jobType !== "find-duplicate-nodes" &&
+					message.jobId !== scanJobId.current
+				) {
+					return;
+				}
+				scanJobId.current = null;
+				setScanning(false);
+				loadCandidates();
+			});
+	}, []);
+
+	const runAction = async (
+		candidate: DuplicateCandidate,
+		action: () => Promise<unknown>,
+		label: string,
+	) => {
+		try {
+			setBusyKey(candidateKey(candidate));
+			await action();
+			await loadCandidates();
+		} catch (error) {
+			logError(`[MERGE_SUGGESTIONS] Failed to ${label}:`, error);
+			alert(
+				`Failed to ${label}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const merge = (candidate: DuplicateCandidate, mergeId: string) =>
+		runAction(
+			candidate,
+			async () => {
+				await graphMaintenanceService.acceptCandidate(candidate, mergeId);
+				onMerged?.();
+			},
+			"merge nodes",
+		);
+
+	const reject = (candidate: DuplicateCandidate) =>
+		runAction(
+			candidate,
+			() => graphMaintenanceService.rejectCandidate(candidate),
+			"reject suggestion",
+		);
+
+	const scan = async () => {
+		try {
+			setScanning(true);
+			const { jobId } = await backgroundJob.createJob(
+				"find-duplicate-nodes",
+				{},
+				{ stream: false },
+			);
+			scanJobId.current = jobId;
+		} catch (error) {
+			setScanning(false);
+			logError("[MERGE_SUGGESTIONS] Failed to start scan:", error);
+		}
+	};
+
+	return (
+		<div className="border-b border-border">
+			<div className="flex items-center justify-between px-3 py-2">
+				<button
+					type="button"
+					className="flex items-center gap-1 text-sm font-medium text-foreground"
+					onClick={() => setExpanded((prev) => !prev)}
+				>
+					{expanded ? (
+						<ChevronDown className="h-3 w-3" />
+					) : (
+						<ChevronRight className="h-3 w-3" />
+					)}
+					<GitMerge className="h-4 w-4" />
+					Possible duplicates ({candidates.length})
+				</button>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 w-6 p-0"
+					onClick={scan}
+					disabled={scanning}
+					title="Scan for duplicates"
+				>
+					<RefreshCw className={`h-3 w-3 ${scanning ? "animate-spin" : ""}`} />
+				</Button>
+			</div>
+
+			{expanded && candidates.length > 0 && (
+				<div className="max-h-64 overflow-y-auto px-3 pb-2 space-y-2">
+					{candidates.map((candidate) => {
+						const busy = busyKey === candidateKey(candidate);
+						return (
+							<div
+								key={candidateKey(candidate)}
+								className="rounded border border-border p-2 text-xs space-y-1"
+							>
+								<div className="flex items-center justify-between gap-2">
+									<Badge variant="secondary" className="text-[10px]">
+										{Math.round(candidate.score * 100)}% similar
+									</Badge>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-5 w-5 p-0"
+										onClick={() => reject(candidate)}
+										disabled={busy}
+										title="Not a duplicate"
+									>
+										<X className="h-3 w-3" />
+									</Button>
+								</div>
+								{[
+									[candidate.node, candidate.candidate],
+									[candidate.candidate, candidate.node],
+								].map(([keep, other]) => (
+									<Button
+										key={keep.id}
+										variant="outline"
+										size="sm"
+										className="h-auto w-full justify-start whitespace-normal py-1 text-left text-xs"
+										onClick={() => merge(candidate, other.id)}
+										disabled={busy}
+										title={`Merge "${other.name}" into "${keep.name}"`}
+									>
+										<span className="min-w-0 flex-1">
+											Keep <span className="font-medium">{keep.name}</span>
+											<span className="text-muted-foreground">
+												{" "}
+												({keep.nodeType})
+											</span>
+										</span>
+									</Button>
+								))}
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+};
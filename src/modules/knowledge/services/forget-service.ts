@@ -0,0 +1,270 @@
+import { and, eq, inArray, notInArray, or, sql } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import { provenanceService } from "@/services/provenance";
+import { logInfo } from "@/utils/logger";
+
+export interface ForgetPreview {
+	sources: Array<{ id: string; name: string }>;
+	// Left without provenance, so deleted
+	nodes: Array<{ id: string; name: string; nodeType: string }>;
+	edges: Array<{ id: string; edgeType: string; factText: string | null }>;
+	// Also backed by other sources; they stay with recomputed provenance
+	sharedNodes: Array<{ id: string; name: string; nodeType: string }>;
+	sharedEdges: Array<{
+		id: string;
+		edgeType: string;
+		factText: string | null;
+		remainingSources: number;
+	}>;
+}
+
+export interface ForgetResult {
+	sources: number;
+	nodesDeleted: number;
+	edgesDeleted: number;
+	edgesUpdated: number;
+}
+
+type Context = Parameters<
+	Parameters<typeof serviceManager.databaseService.use>[0]
+>[0];
+
+/**
+ * Retraction of remembered content from the knowledge graph: its sources
+ * and their links go, and so do the nodes and edges nothing else supports.
+ * Shared facts lose this page's support and get their provenance caches
+ * recomputed. The preview lists exactly what forgetting will remove.
+ */
+export class ForgetService {
+	private static instance: ForgetService;
+
+	private constructor() {}
+
+	static getInstance(): ForgetService {
+		if (!ForgetService.instance) {
+			ForgetService.instance = new ForgetService();
+		}
+		return ForgetService.instance;
+	}
+
+	async previewPage(pageId: string): Promise<ForgetPreview> {
+		return serviceManager.databaseService.use(async (ctx) =>
+			this.plan(ctx, await this.getPageSourceIds(ctx, pageId)),
+		);
+	}
+
+	/**
+	 * Delete the page with its chunks and revisions, and everything in the
+	 * graph that only it supported
+	 */
+	async forgetPage(pageId: string): Promise<ForgetResult> {
+		const result = await serviceManager.databaseService.transaction(
+			async (tx) => {
+				const { db, schema } = tx;
+				const sourceIds = await this.getPageSourceIds(tx, pageId);
+				const result = await this.forgetSources(tx, sourceIds);
+
+				await db
+					.delete(schema.contentChunks)
+					.where(eq(schema.contentChunks.contentId, pageId));
+				await db
+					.delete(schema.rememberedContentRevisions)
+					.where(eq(schema.rememberedContentRevisions.contentId, pageId));
+				await db
+					.delete(schema.rememberedContent)
+					.where(eq(schema.rememberedContent.id, pageId));
+				return result;
+			},
+		);
+
+		logInfo("🧹 Forgot remembered page", { pageId, ...result });
+		return result;
+	}
+
+	private async getPageSourceIds(
+		{ db, schema }: Context,
+		pageId: string,
+	): Promise<string[]> {
+		const sources = await db
+			.select({ id: schema.sources.id })
+			.from(schema.sources)
+			.where(
+				and(
+					eq(schema.sources.targetType, "remembered_pages"),
+					eq(schema.sources.targetId, pageId),
+				),
+			);
+		return sources.map((source) => source.id);
+	}
+
+	private async forgetSources(
+		ctx: Context,
+		sourceIds: string[],
+	): Promise<ForgetResult> {
+		const { db, schema } = ctx;
+		const plan = await this.plan(ctx, sourceIds);
+		if (sourceIds.length === 0) {
+			return { sources: 0, nodesDeleted: 0, edgesDeleted: 0, edgesUpdated: 0 };
+		}
+
+		await db
+			.delete(schema.sourceEdges)
+			.where(inArray(schema.sourceEdges.sourceId, sourceIds));
+		await db
+			.delete(schema.sourceNodes)
+			.where(inArray(schema.sourceNodes.sourceId, sourceIds));
+
+		const edgeIds = plan.edges.map((edge) => edge.id);
+		if (edgeIds.length > 0) {
+			await db.delete(schema.edges).where(inArray(schema.edges.id, edgeIds));
+		}
+
+		const nodeIds = plan.nodes.map((node) => node.id);
+		if (nodeIds.length > 0) {
+			await db
+				.delete(schema.nodeMergeCandidates)
+				.where(
+					or(
+						inArray(schema.nodeMergeCandidates.nodeId, nodeIds),
+						inArray(schema.nodeMergeCandidates.candidateId, nodeIds),
+					),
+				);
+			await db.delete(schema.nodes).where(inArray(schema.nodes.id, nodeIds));
+		}
+
+		const sharedEdgeIds = plan.sharedEdges.map((edge) => edge.id);
+		await provenanceService.refreshEdges(db, sharedEdgeIds);
+
+		await db
+			.delete(schema.sources)
+			.where(inArray(schema.sources.id, sourceIds));
+
+		return {
+			sources: sourceIds.length,
+			nodesDeleted: nodeIds.length,
+			edgesDeleted: edgeIds.length,
+			edgesUpdated: sharedEdgeIds.length,
+		};
+	}
+
+	/**
+	 * Edges no other source backs are deleted. Nodes are deleted when no other
+	 * source backs them and no remaining edge touches them.
+	 */
+	private async plan(
+		{ db, schema }: Context,
+		sourceIds: string[],
+	): Promise<ForgetPreview> {
+		if (sourceIds.length === 0) {
+			return {
+				sources: [],
+				nodes: [],
+				edges: [],
+				sharedNodes: [],
+				sharedEdges: [],
+			};
+		}
+
+		const sources = await db
+			.select({ id: schema.sources.id, name: schema.sources.name })
+			.from(schema.sources)
+			.where(inArray(schema.sources.id, sourceIds));
+
+		const linkedEdges = await db
+			.selectDistinct({
+				id: schema.edges.id,
+				edgeType: schema.edges.edgeType,
+				factText: schema.edges.factText,
+			})
+			.from(schema.sourceEdges)
+			.innerJoin(schema.edges, eq(schema.sourceEdges.edgeId, schema.edges.id))
+			.where(inArray(schema.sourceEdges.sourceId, sourceIds));
+
+		const otherEdgeLinks = new Map<string, number>();
+		if (linkedEdges.length > 0) {
+			const rows = await db
+				.select({
+					edgeId: schema.sourceEdges.edgeId,
+					count: sql<number>`count(*)::int`,
+				})
+				.from(schema.sourceEdges)
+				.where(
+					and(
+						inArray(
+							schema.sourceEdges.edgeId,
+							linkedEdges.map((edge) => edge.id),
+						),
+						notInArray(schema.sourceEdges.sourceId, sourceIds),
+					),
+				)
+				.groupBy(schema.sourceEdges.edgeId);
+			for (const row of rows) otherEdgeLinks.set(row.edgeId, row.count);
+		}
+
+		const edges = linkedEdges.filter((edge) => !otherEdgeLinks.has(edge.id));
+		const sharedEdges = linkedEdges
+			.filter((edge) => otherEdgeLinks.has(edge.id))
+			.map((edge) => ({
+				...edge,
+				remainingSources: otherEdgeLinks.get(edge.id) ?? 0,
+			}));
+
+		const linkedNodes = await db
+			.selectDistinct({
+				id: schema.nodes.id,
+				name: schema.nodes.name,
+				nodeType: schema.nodes.nodeType,
+			})
+			.from(schema.sourceNodes)
+			.innerJoin(schema.nodes, eq(schema.sourceNodes.nodeId, schema.nodes.id))
+			.where(inArray(schema.sourceNodes.sourceId, sourceIds));
+
+		const kept = new Set<string>();
+		if (linkedNodes.length > 0) {
+			const nodeIds = linkedNodes.map((node) => node.id);
+			const otherLinks = await db
+				.selectDistinct({ nodeId: schema.sourceNodes.nodeId })
+				.from(schema.sourceNodes)
+				.where(
+					and(
+						inArray(schema.sourceNodes.nodeId, nodeIds),
+						notInArray(schema.sourceNodes.sourceId, sourceIds),
+					),
+				);
+			for (const link of otherLinks) kept.add(link.nodeId);
+
+			const deletedEdgeIds = edges.map((edge) => edge.id);
+			const touching = await db
+				.select({
+					sourceId: schema.edges.sourceId,
+					destinationId: schema.edges.destinationId,
+				})
+				.from(schema.edges)
+				.where(
+					and(
+						or(
+							inArray(schema.edges.sourceId, nodeIds),
+							inArray(schema.edges.destinationId, nodeIds),
+						),
+						deletedEdgeIds.length > 0
+							? notInArray(schema.edges.id, deletedEdgeIds)
+							: undefined,
+					),
+				);
+			for (const edge of touching) {
+				kept.add(edge.sourceId);
+				kept.add(edge.destinationId);
+			}
+		}
+
+		return {
+			sources,
+			nodes: linkedNodes.filter((node) => !kept.has(node.id)),
+			edges,
+			sharedNodes: linkedNodes.filter((node) => kept.has(node.id)),
+			sharedEdges,
+		};
+	}
+}
+
+export const forgetService = ForgetService.getInstance();
@@ -0,0 +1,463 @@
+import { eq, inArray, or } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import type { Edge, Node } from "@/services/database/db";
+import { MANUAL_SOURCE_TYPE, provenanceService } from "@/services/provenance";
+import { logError, logInfo } from "@/utils/logger";
+
+export type ManualEditAction = "create" | "update" | "delete";
+
+export interface NodeInput {
+	name: string;
+	nodeType: string;
+	summary?: string;
+	attributes?: Record<string, unknown>;
+	graph?: string;
+}
+
+export type NodeChanges = Partial<Omit<NodeInput, "graph">>;
+
+export interface EdgeInput {
+	sourceId: string;
+	destinationId: string;
+	edgeType: string;
+	factText: string;
+	attributes?: Record<string, unknown>;
+}
+
+export type EdgeChanges = Partial<
+	Pick<EdgeInput, "edgeType" | "factText" | "attributes">
+>;
+
+type Transaction = Parameters<
+	Parameters<typeof serviceManager.databaseService.transaction>[0]
+>[0];
+
+interface ManualEdit {
+	action: ManualEditAction;
+	targetType: "nodes" | "edges";
+	targetId: string;
+	label: string;
+	graph: string;
+	// Row as it was before the edit, absent for creations
+	before?: Node | Edge;
+	changes?: Record<string, unknown>;
+}
+
+const RELATION_BY_ACTION: Record<ManualEditAction, string> = {
+	create: "CREATED_MANUALLY",
+	update: "EDITED_MANUALLY",
+	delete: "DELETED_MANUALLY",
+};
+
+// Embeddings are left out of the provenance snapshots
+function withoutEmbeddings(row: Node | Edge): Record<string, unknown> {
+	const {
+		nameEmbedding: _name,
+		factEmbedding: _fact,
+		typeEmbedding: _type,
+		...rest
+	} = row as Partial<Node & Edge>;
+	return rest;
+}
+
+/**
+ * Manual editing of the knowledge graph from the graph viewer. Every edit is
+ * recorded as a `manual` source linked to the node or edge it touched, so
+ * hand-made facts keep a provenance like extracted ones; embeddings are
+ * recomputed whenever the text they were computed from changes.
+ */
+export class GraphEditService {
+	private static instance: GraphEditService;
+
+	private constructor() {}
+
+	static getInstance(): GraphEditService {
+		if (!GraphEditService.instance) {
+			GraphEditService.instance = new GraphEditService();
+		}
+		return GraphEditService.instance;
+	}
+
+	async createNode(input: NodeInput): Promise<Node> {
+		const name = input.name.trim();
+		const nodeType = input.nodeType.trim();
+		if (!name || !nodeType) {
+			throw new Error("A node needs a name and a type");
+		}
+
+		const nameEmbedding = await this.embed(name);
+
+		const created = await serviceManager.databaseService.transaction(
+			async (tx) => {
+				const { db, schema } = tx;
+				const [node] = await db
+					.insert(schema.nodes)
+					.values({
+						name,
+						nodeType,
+						summary: input.summary?.trim() ?? "",
+						attributes: input.attributes ?? {},
+						nameEmbedding: nameEmbedding ?? undefined,
+						graph: input.graph ?? "",
+					})
+					.returning();
+
+				await this.recordEdit(tx, {
+					action: "create",
+					targetType: "nodes",
+					targetId: node.id,
+					label: node.name,
+					graph: node.graph,
+					changes: { name, nodeType, summary: node.summary },
+				});
+				return node;
+			},
+		);
+
+		logInfo("✏️ Created knowledge graph node", { nodeId: created.id });
+		return created;
+	}
+
+	/**
+	 * Rename a node, change its type, or replace its summary or attributes.
+	 * The name embedding is recomputed when the name changes.
+	 */
+	async updateNode(nodeId: string, changes: NodeChanges): Promise<Node> {
+		const name = changes.name?.trim();
+		const nodeType = changes.nodeType?.trim();
+		if (name === "" || nodeType === "") {
+			throw new Error("A node needs a name and a type");
+		}
+
+		const current = await this.getNode(nodeId);
+		const renamed = name !== undefined && name !== current.name;
+		const nameEmbedding = renamed ? await this.embed(name) : null;
+
+		const updated = await serviceManager.databaseService.transaction(
+			async (tx) => {
+				const { db, schema } = tx;
+				const [node] = await db
+					.update(schema.nodes)
+					.set({
+						...(name !== undefined && { name }),
+						...(nodeType !== undefined && { nodeType }),
+						...(changes.summary !== undefined && {
+							summary: changes.summary.trim(),
+						}),
+						...(changes.attributes !== undefined && {
+							attributes: changes.attributes,
+						}),
+						...(nameEmbedding && { nameEmbedding }),
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.nodes.id, nodeId))
+					.returning();
+				if (!node) throw new Error("Node does not exist");
+
+				await this.recordEdit(tx, {
+					action: "update",
+					targetType: "nodes",
+					targetId: node.id,
+					label: node.name,
+					graph: node.graph,
+					before: current,
+					changes: { ...changes, name, nodeType },
+				});
+				return node;
+			},
+		);
+
+		logInfo("✏️ Updated knowledge graph node", { nodeId, renamed });
+		return updated;
+	}
+
+	/**
+	 * Delete a node with its edges and source links. The deletion itself is
+	 * recorded as a manual source holding a snapshot of the node.
+	 */
+	async deleteNode(nodeId: string): Promise<void> {
+		await serviceManager.databaseService.transaction(async (tx) => {
+			const { db, schema } = tx;
+			const [node] = await db
+				.select()
+				.from(schema.nodes)
+				.where(eq(schema.nodes.id, nodeId));
+			if (!node) throw new Error("Node does not exist");
+
+			const connected = await db
+				.select({ id: schema.edges.id })
+				.from(schema.edges)
+				.where(
+					or(
+						eq(schema.edges.sourceId, nodeId),
+						eq(schema.edges.destinationId, nodeId),
+					),
+				);
+			const edgeIds = connected.map((edge) => edge.id);
+			if (edgeIds.length > 0) {
+				await db
+					.delete(schema.sourceEdges)
+					.where(inArray(schema.sourceEdges.edgeId, edgeIds));
+				await db.delete(schema.edges).where(inArray(schema.edges.id, edgeIds));
+			}
+
+			await db
+				.delete(schema.sourceNodes)
+				.where(eq(schema.sourceNodes.nodeId, nodeId));
+			await db
+				.delete(schema.nodeMergeCandidates)
+				.where(
+					or(
+						eq(schema.nodeMergeCandidates.nodeId, nodeId),
+						eq(schema.nodeMergeCandidates.candidateId, nodeId),
+					),
+				);
+			await db.delete(schema.nodes).where(eq(schema.nodes.id, nodeId));
+
+			await this.recordEdit(tx, {
+				action: "delete",
+				targetType: "nodes",
+				targetId: nodeId,
+				label: node.name,
+				graph: node.graph,
+				before: node,
+				changes: { deletedEdgeIds: edgeIds },
+			});
+		});
+
+		logInfo("🗑️ Deleted knowledge graph node", { nodeId });
+	}
+
+	/**
+	 * Draw a new relation between two nodes, stated by the fact text
+	 */
+	async createEdge(input: EdgeInput): Promise<Edge> {
+		const edgeType = input.edgeType.trim();
+		const factText = input.factText.trim();
+		if (!edgeType || !factText) {
+			throw new Error("A relation needs a type and a fact");
+		}
+		if (input.sourceId === input.destinationId) {
+			throw new Error("A relation needs two different nodes");
+		}
+
+		const [factEmbedding, typeEmbedding] = await Promise.all([
+			this.embed(factText),
+			this.embed(edgeType),
+		]);
+
+		const created = await serviceManager.databaseService.transaction(
+			async (tx) => {
+				const { db, schema } = tx;
+				const [source] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, input.sourceId));
+				const [destination] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, input.destinationId));
+				if (!source || !destination) {
+					throw new Error("Both nodes must exist to connect them");
+				}
+
+				const [edge] = await db
+					.insert(schema.edges)
+					.values({
+						sourceId: source.id,
+						destinationId: destination.id,
+						edgeType,
+						factText,
+						attributes: input.attributes ?? {},
+						factEmbedding: factEmbedding ?? undefined,
+						typeEmbedding: typeEmbedding ?? undefined,
+						graph: source.graph,
+					})
+					.returning();
+
+				await this.recordEdit(tx, {
+					action: "create",
+					targetType: "edges",
+					targetId: edge.id,
+					label: `${source.name} ${edgeType} ${destination.name}`,
+					graph: edge.graph,
+					changes: { edgeType, factText },
+				});
+				return edge;
+			},
+		);
+
+		logInfo("✏️ Created knowledge graph edge", { edgeId: created.id });
+		return created;
+	}
+
+	/**
+	 * Change the type, fact or attributes of an edge, recomputing the
+	 * embeddings of the text that changed
+	 */
+	async updateEdge(edgeId: string, changes: EdgeChanges): Promise<Edge> {
+		const edgeType = changes.edgeType?.trim();
+		const factText = changes.factText?.trim();
+		if (edgeType === "" || factText === "") {
+			throw new Error("A relation needs a type and a fact");
+		}
+
+		const current = await serviceManager.databaseService.use(
+			async ({ db, schema }) => {
+				const [edge] = await db
+					.select()
+					.from(schema.edges)
+					.where(eq(schema.edges.id, edgeId));
+				return edge;
+			},
+		);
+		if (!current) throw new Error("Edge does not exist");
+
+		const [factEmbedding, typeEmbedding] = await Promise.all([
+			factText !== undefined && factText !== current.factText
+				? this.embed(factText)
+				: null,
+			edgeType !== undefined && edgeType !== current.edgeType
+				? this.embed(edgeType)
+				: null,
+		]);
+
+		const updated = await serviceManager.databaseService.transaction(
+			async (tx) => {
+				const { db, schema } = tx;
+				const [edge] = await db
+					.update(schema.edges)
+					.set({
+						...(edgeType !== undefined && { edgeType }),
+						...(factText !== undefined && { factText }),
+						...(changes.attributes !== undefined && {
+							attributes: changes.attributes,
+						}),
+						...(factEmbedding && { factEmbedding }),
+						...(typeEmbedding && { typeEmbedding }),
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.edges.id, edgeId))
+					.returning();
+				if (!edge) throw new Error("Edge does not exist");
+
+				await this.recordEdit(tx, {
+					action: "update",
+					targetType: "edges",
+					targetId: edge.id,
+					label: edge.edgeType,
+					graph: edge.graph,
+					before: current,
+					changes: { ...changes, edgeType, factText },
+				});
+				return edge;
+			},
+		);
+
+		logInfo("✏️ Updated knowledge graph edge", { edgeId });
+		return updated;
+	}
+
+	async deleteEdge(edgeId: string): Promise<void> {
+		await serviceManager.databaseService.transaction(async (tx) => {
+			const { db, schema } = tx;
+			const [edge] = await db
+				.select()
+				.from(schema.edges)
+				.where(eq(schema.edges.id, edgeId));
+			if (!edge) throw new Error("Edge does not exist");
+
+			await db
+				.delete(schema.sourceEdges)
+				.where(eq(schema.sourceEdges.edgeId, edgeId));
+			await db.delete(schema.edges).where(eq(schema.edges.id, edgeId));
+
+			await this.recordEdit(tx, {
+				action: "delete",
+				targetType: "edges",
+				targetId: edgeId,
+				label: edge.edgeType,
+				graph: edge.graph,
+				before: edge,
+			});
+		});
+
+		logInfo("🗑️ Deleted knowledge graph edge", { edgeId });
+	}
+
+	/**
+	 * Insert the `manual` source for an edit and link it to the node or edge,
+	 * unless the edit deleted it
+	 */
+	private async recordEdit(
+		{ db, schema }: Transaction,
+		edit: ManualEdit,
+	): Promise<void> {
+		const [source] = await db
+			.insert(schema.sources)
+			.values({
+				type: MANUAL_SOURCE_TYPE,
+				targetType: edit.targetType,
+				targetId: edit.targetId,
+				name: `Manual ${edit.action}: ${edit.label}`,
+				raw: JSON.stringify({
+					before: edit.before ? withoutEmbeddings(edit.before) : null,
+					changes: edit.changes ?? {},
+				}),
+				metadata: {
+					action: edit.action,
+					changedFields: Object.keys(edit.changes ?? {}).filter(
+						(key) => edit.changes?.[key] !== undefined,
+					),
+				},
+				referenceTime: new Date(),
+				status: "completed",
+				statusValidFrom: new Date(),
+				graph: edit.graph,
+			})
+			.returning();
+
+		if (edit.action === "delete") return;
+
+		const link = {
+			sourceId: source.id,
+			relation: RELATION_BY_ACTION[edit.action],
+			graph: edit.graph,
+		};
+		if (edit.targetType === "nodes") {
+			await db
+				.insert(schema.sourceNodes)
+				.values({ ...link, nodeId: edit.targetId });
+		} else {
+			await db
+				.insert(schema.sourceEdges)
+				.values({ ...link, edgeId: edit.targetId, linkWeight: 1.0 });
+			await provenanceService.refreshEdges(db, [edit.targetId]);
+		}
+	}
+
+	private async getNode(nodeId: string): Promise<Node> {
+		const node = await serviceManager.databaseService.use(
+			async ({ db, schema }) => {
+				const [row] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, nodeId));
+				return row;
+			},
+		);
+		if (!node) throw new Error("Node does not exist");
+		return node;
+	}
+
+	private async embed(text: string): Promise<number[] | null> {
+		try {
+			return await serviceManager.embeddingService.textToVector(text);
+		} catch (error) {
+			logError("Failed to embed edited graph text, continuing without:", error);
+			return null;
+		}
+	}
+}
+
+export const graphEditService = GraphEditService.getInstance();
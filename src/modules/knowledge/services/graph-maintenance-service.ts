@@ -0,0 +1,524 @@
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import type {
+	Node,
+	NodeMergeCandidate,
+	NodeMergeCandidateStatus,
+} from "@/services/database/db";
+import { getNodeAliases } from "@/services/database/entities/nodes";
+import { logError, logInfo } from "@/utils/logger";
+
+// Pairs scoring below this are not suggested
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+
+// Nearest neighbours by name embedding checked for every node
+const EMBEDDING_NEIGHBOURS = 5;
+
+// How often the offscreen document queues the duplicate scan
+export const DUPLICATE_SCAN_INTERVAL_HOURS = 24;
+
+export interface DuplicateCandidate extends NodeMergeCandidate {
+	node: Node;
+	candidate: Node;
+}
+
+export interface DuplicateScanResult extends Record<string, unknown> {
+	scannedPairs: number;
+	suggested: number;
+	removedStale: number;
+}
+
+export interface SplitPart {
+	name: string;
+	nodeType?: string;
+	summary?: string;
+	// Edges of the original node that move to the new node
+	edgeIds: string[];
+}
+
+function uniqueAliases(aliases: string[], name: string): string[] {
+	const seen = new Set([name.toLowerCase().trim()]);
+	const result: string[] = [];
+	for (const alias of aliases) {
+		const key = alias.toLowerCase().trim();
+		if (!key || seen.has(key)) continue;
+		seen.add(key);
+		result.push(alias.trim());
+	}
+	return result;
+}
+
+/**
+ * Maintenance of the knowledge graph after ingestion: merging duplicate
+ * nodes, splitting nodes that mix several entities, managing aliases, and
+ * the duplicate scan that suggests merges for review.
+ */
+export class GraphMaintenanceService {
+	private static instance: GraphMaintenanceService;
+
+	private constructor() {}
+
+	static getInstance(): GraphMaintenanceService {
+		if (!GraphMaintenanceService.instance) {
+			GraphMaintenanceService.instance = new GraphMaintenanceService();
+		}
+		return GraphMaintenanceService.instance;
+	}
+
+	/**
+	 * Merge `mergeId` into `keepId`. Edges and source links move to the kept
+	 * node, edges between the two nodes are dropped, and the merged node's
+	 * name and aliases become aliases of the kept node.
+	 */
+	async mergeNodes(keepId: string, mergeId: string): Promise<Node> {
+		if (keepId === mergeId) {
+			throw new Error("Cannot merge a node into itself");
+		}
+
+		const merged = await serviceManager.databaseService.transaction(
+			async ({ db, schema }) => {
+				const [keep] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, keepId));
+				const [merge] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, mergeId));
+				if (!keep || !merge) {
+					throw new Error("Both nodes must exist to merge them");
+				}
+
+				// Facts between the two nodes would become self loops
+				const between = await db
+					.select({ id: schema.edges.id })
+					.from(schema.edges)
+					.where(
+						or(
+							and(
+								eq(schema.edges.sourceId, keepId),
+								eq(schema.edges.destinationId, mergeId),
+							),
+							and(
+								eq(schema.edges.sourceId, mergeId),
+								eq(schema.edges.destinationId, keepId),
+							),
+						),
+					);
+				const betweenIds = between.map((edge) => edge.id);
+				if (betweenIds.length > 0) {
+					await db
+						.delete(schema.sourceEdges)
+						.where(inArray(schema.sourceEdges.edgeId, betweenIds));
+					await db
+						.delete(schema.edges)
+						.where(inArray(schema.edges.id, betweenIds));
+				}
+
+				await db
+					.update(schema.edges)
+					.set({ sourceId: keepId, updatedAt: new Date() })
+					.where(eq(schema.edges.sourceId, mergeId));
+				await db
+					.update(schema.edges)
+					.set({ destinationId: keepId, updatedAt: new Date() })
+					.where(eq(schema.edges.destinationId, mergeId));
+
+				// Source links: (source_id, node_id) is the primary key
+				const links = await db
+					.select()
+					.from(schema.sourceNodes)
+					.where(eq(schema.sourceNodes.nodeId, mergeId));
+				if (links.length > 0) {
+					await db
+						.insert(schema.sourceNodes)
+						.values(
+							links.map(({ createdAt: _createdAt, ...link }) => ({
+								...link,
+								nodeId: keepId,
+							})),
+						)
+						.onConflictDoNothing();
+					await db
+						.delete(schema.sourceNodes)
+						.where(eq(schema.sourceNodes.nodeId, mergeId));
+				}
+
+				const attributes = {
+					...((merge.attributes as Record<string, unknown>) || {}),
+					...((keep.attributes as Record<string, unknown>) || {}),
+					aliases: uniqueAliases(
+						[...getNodeAliases(keep), merge.name, ...getNodeAliases(merge)],
+						keep.name,
+					),
+				};
+				const [updated] = await db
+					.update(schema.nodes)
+					.set({
+						attributes,
+						summary: keep.summary || merge.summary,
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.nodes.id, keepId))
+					.returning();
+
+				await db
+					.delete(schema.nodeMergeCandidates)
+					.where(
+						or(
+							eq(schema.nodeMergeCandidates.nodeId, mergeId),
+							eq(schema.nodeMergeCandidates.candidateId, mergeId),
+						),
+					);
+				await db.delete(schema.nodes).where(eq(schema.nodes.id, mergeId));
+
+				return updated;
+			},
+		);
+
+		logInfo("🔗 Merged knowledge graph nodes", { keepId, mergeId });
+		return merged;
+	}
+
+	/**
+	 * Split entities out of a node. Each part becomes a new node that takes
+	 * over the listed edges and shares the source links of the original, which
+	 * keeps the edges that were not moved.
+	 */
+	async splitNode(nodeId: string, parts: SplitPart[]): Promise<Node[]> {
+		const named = parts.filter((part) => part.name.trim().length > 0);
+		if (named.length === 0) {
+			throw new Error("A split needs at least one named part");
+		}
+
+		const embeddings = await Promise.all(
+			named.map((part) => this.embedName(part.name)),
+		);
+
+		const created = await serviceManager.databaseService.transaction(
+			async ({ db, schema }) => {
+				const [original] = await db
+					.select()
+					.from(schema.nodes)
+					.where(eq(schema.nodes.id, nodeId));
+				if (!original) throw new Error("Node to split does not exist");
+
+				const links = await db
+					.select()
+					.from(schema.sourceNodes)
+					.where(eq(schema.sourceNodes.nodeId, nodeId));
+
+				const nodes: Node[] = [];
+				for (const [index, part] of named.entries()) {
+					const [node] = await db
+						.insert(schema.nodes)
+						.values({
+							name: part.name.trim(),
+							nodeType: part.nodeType || original.nodeType,
+							summary: part.summary ?? "",
+							attributes: { splitFrom: nodeId },
+							nameEmbedding: embeddings[index] ?? undefined,
+							graph: original.graph,
+						})
+						.returning();
+					nodes.push(node);
+
+					if (part.edgeIds.length > 0) {
+						await db
+							.update(schema.edges)
+							.set({ sourceId: node.id, updatedAt: new Date() })
+							.where(
+								and(
+									inArray(schema.edges.id, part.edgeIds),
+									eq(schema.edges.sourceId, nodeId),
+								),
+							);
+						await db
+							.update(schema.edges)
+							.set({ destinationId: node.id, updatedAt: new Date() })
+							.where(
+								and(
+									inArray(schema.edges.id, part.edgeIds),
+									eq(schema.edges.destinationId, nodeId),
+								),
+							);
+					}
+
+					if (links.length > 0) {
+						await db
+							.insert(schema.sourceNodes)
+							.values(
+								links.map(({ createdAt: _createdAt, ...link }) => ({
+									...link,
+									nodeId: node.id,
+								})),
+							)
+							.onConflictDoNothing();
+					}
+				}
+
+				// Names split out are no longer aliases of the original
+				const splitNames = new Set(
+					named.map((part) => part.name.toLowerCase().trim()),
+				);
+				await db
+					.update(schema.nodes)
+					.set({
+						attributes: {
+							...((original.attributes as Record<string, unknown>) || {}),
+							aliases: getNodeAliases(original).filter(
+								(alias) => !splitNames.has(alias.toLowerCase().trim()),
+							),
+						},
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.nodes.id, nodeId));
+
+				return nodes;
+			},
+		);
+
+		logInfo("✂️ Split knowledge graph node", {
+			nodeId,
+			parts: created.map((node) => node.name),
+		});
+		return created;
+	}
+
+	async addAlias(nodeId: string, alias: string): Promise<string[]> {
+		return this.updateAliases(nodeId, (aliases) => [...aliases, alias]);
+	}
+
+	async removeAlias(nodeId: string, alias: string): Promise<string[]> {
+		const key = alias.toLowerCase().trim();
+		return this.updateAliases(nodeId, (aliases) =>
+			aliases.filter((existing) => existing.toLowerCase().trim() !== key),
+		);
+	}
+
+	/**
+	 * Suggested merges, with both nodes loaded. Suggestions whose nodes were
+	 * deleted or merged in the meantime are left out.
+	 */
+	async getDuplicateCandidates(
+		status: NodeMergeCandidateStatus = "pending",
+	): Promise<DuplicateCandidate[]> {
+		return serviceManager.databaseService.use(async ({ db, schema }) => {
+			const candidates = await db
+				.select()
+				.from(schema.nodeMergeCandidates)
+				.where(eq(schema.nodeMergeCandidates.status, status))
+				.orderBy(sql`${schema.nodeMergeCandidates.score} DESC`);
+			if (candidates.length === 0) return [];
+
+			const nodeIds = [
+				...new Set(candidates.flatMap((c) => [c.nodeId, c.candidateId])),
+			];
+			const nodes = await db
+				.select()
+				.from(schema.nodes)
+				.where(inArray(schema.nodes.id, nodeIds));
+			const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+			return candidates.flatMap((candidate) => {
+				const node = nodesById.get(candidate.nodeId);
+				const other = nodesById.get(candidate.candidateId);
+				return node && other ? [{ ...candidate, node, candidate: other }] : [];
+			});
+		});
+	}
+
+	/**
+	 * Accept a suggestion by merging `mergeId`, one of the pair, into the other
+	 */
+	async acceptCandidate(
+		candidate: Pick<NodeMergeCandidate, "nodeId" | "candidateId">,
+		mergeId: string = candidate.candidateId,
+	): Promise<Node> {
+		const keepId =
+			mergeId === candidate.candidateId
+				? candidate.nodeId
+				: candidate.candidateId;
+		return this.mergeNodes(keepId, mergeId);
+	}
+
+	async rejectCandidate(
+		candidate: Pick<NodeMergeCandidate, "nodeId" | "candidateId">,
+	): Promise<void> {
+		await serviceManager.databaseService.use(async ({ db, schema }) => {
+			await db
+				.update(schema.nodeMergeCandidates)
+				.set({ status: "rejected", updatedAt: new Date() })
+				.where(
+					and(
+						eq(schema.nodeMergeCandidates.nodeId, candidate.nodeId),
+						eq(schema.nodeMergeCandidates.candidateId, candidate.candidateId),
+					),
+				);
+		});
+	}
+
+	/**
+	 * Find pairs of nodes in the same graph that likely name the same entity.
+	 * Pairs come from trigram matches on the name and from the nearest
+	 * neighbours by name embedding; each pair is scored on both similarities.
+	 * Pairs already suggested, accepted or rejected are left as they are.
+	 */
+	async findDuplicateCandidates(
+		threshold: number = DUPLICATE_SCORE_THRESHOLD,
+	): Promise<DuplicateScanResult> {
+		return serviceManager.databaseService.use(async ({ db, schema, raw }) => {
+			const removed = (await raw(
+				`DELETE FROM node_merge_candidates c
+				WHERE NOT EXISTS (SELECT 1 FROM nodes n WHERE n.id = c.node_id)
+					OR NOT EXISTS (SELECT 1 FROM nodes n WHERE n.id = c.candidate_id)
+				RETURNING c.node_id`,
+			)) as { rows: unknown[] };
+
+			const result = (await raw(
+				`WITH pairs AS (
+					SELECT a.id AS node_id, b.id AS candidate_id
+					FROM nodes a
+					JOIN nodes b ON a.id < b.id AND a.graph = b.graph AND a.name % b.name
+					UNION
+					SELECT LEAST(a.id, n.id), GREATEST(a.id, n.id)
+					FROM nodes a
+					CROSS JOIN LATERAL (
+						SELECT b.id FROM nodes b
+						WHERE b.id <> a.id
+							AND b.graph = a.graph
+							AND b.name_embedding IS NOT NULL
+						ORDER BY b.name_embedding <=> a.name_embedding
+						LIMIT $1
+					) n
+					WHERE a.name_embedding IS NOT NULL
+				)
+				SELECT p.node_id, p.candidate_id, a.graph,
+					similarity(lower(a.name), lower(b.name)) AS name_similarity,
+					CASE WHEN a.name_embedding IS NOT NULL AND b.name_embedding IS NOT NULL
+						THEN 1 - (a.name_embedding <=> b.name_embedding)
+					END AS embedding_similarity
+				FROM pairs p
+				JOIN nodes a ON a.id = p.node_id
+				JOIN nodes b ON b.id = p.candidate_id`,
+				[EMBEDDING_NEIGHBOURS],
+			)) as {
+				rows: Array<{
+					node_id: string;
+					candidate_id: string;
+					graph: string;
+					name_similarity: number;
+					embedding_similarity: number | null;
+				}>;
+			};
+
+			const suggestions = result.rows
+				.map((row) => {
+					const nameSimilarity = Number(row.name_similarity);
+					const embeddingSimilarity =
+						row.embedding_similarity === null
+							? null
+							: Number(row.embedding_similarity);
+					return {
+						nodeId: row.node_id,
+						candidateId: row.candidate_id,
+						graph: row.graph,
+						nameSimilarity,
+						embeddingSimilarity,
+						score:
+							embeddingSimilarity === null
+								? nameSimilarity
+								: (nameSimilarity + embeddingSimilarity) / 2,
+					};
+				})
+				.filter((suggestion) => suggestion.score >= threshold);
+
+			let suggested = 0;
+			if (suggestions.length > 0) {
+				const inserted = await db
+					.insert(schema.nodeMergeCandidates)
+					.values(suggestions)
+					.onConflictDoNothing()
+					.returning({ nodeId: schema.nodeMergeCandidates.nodeId });
+				suggested = inserted.length;
+			}
+
+			const scan = {
+				scannedPairs: result.rows.length,
+				suggested,
+				removedStale: removed.rows.length,
+			};
+			logInfo("🧹 Duplicate node scan finished", scan);
+			return scan;
+		});
+	}
+
+	/**
+	 * Queue the duplicate scan unless one is waiting, running, or finished
+	 * within the scan interval. The last run is read from the job store, so
+	 * purging finished jobs brings the next scan forward.
+	 */
+	async scheduleDuplicateScan(): Promise<string | null> {
+		const since = Date.now() - DUPLICATE_SCAN_INTERVAL_HOURS * 60 * 60 * 1000;
+		try {
+			const jobs = await backgroundJob.getAllJobs();
+			const recent = jobs.some(
+				(job) =>
+					job.jobType === "find-duplicate-nodes" &&
+					(job.status === "pending" ||
+						job.status === "processing" ||
+						(job.status === "completed" &&
+							new Date(job.completedAt ?? job.createdAt).getTime() > since)),
+			);
+			if (recent) return null;
+
+			const { jobId } = await backgroundJob.createJob(
+				"find-duplicate-nodes",
+				{},
+				{ stream: false },
+			);
+			return jobId;
+		} catch (error) {
+			logError("Failed to schedule the duplicate node scan:", error);
+			return null;
+		}
+	}
+
+	private async updateAliases(
+		nodeId: string,
+		update: (aliases: string[]) => string[],
+	): Promise<string[]> {
+		return serviceManager.databaseService.use(async ({ db, schema }) => {
+			const [node] = await db
+				.select()
+				.from(schema.nodes)
+				.where(eq(schema.nodes.id, nodeId));
+			if (!node) throw new Error("Node does not exist");
+
+			const aliases = uniqueAliases(update(getNodeAliases(node)), node.name);
+			await db
+				.update(schema.nodes)
+				.set({
+					attributes: {
+						...((node.attributes as Record<string, unknown>) || {}),
+						aliases,
+					},
+					updatedAt: new Date(),
+				})
+				.where(eq(schema.nodes.id, nodeId));
+			return aliases;
+		});
+	}
+
+	private async embedName(name: string): Promise<number[] | null> {
+		try {
+			return await serviceManager.embeddingService.textToVector(name);
+		} catch (error) {
+			logError("Failed to embed split node name, continuing without:", error);
+			return null;
+		}
+	}
+}
+
+export const graphMaintenanceService = GraphMaintenanceService.getInstance();
@@ -0,0 +1,318 @@
+import { and, eq, gte, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import { knowledgeGraphService } from "@/modules/knowledge/services/knowledge-graph-service";
+import type {
+	ExtractedEntity,
+	ExtractedFact,
+} from "@/services/flows/graph/knowledge/state";
+import {
+	GRAPH_FORMATS,
+	parseGraph,
+	serializeGraph,
+	type GraphExportFormat,
+	type GraphImportFormat,
+	type PortableGraph,
+	type ProvenanceRecord,
+} from "@/modules/knowledge/utils/graph-formats";
+import { logInfo } from "@/utils/logger";
+
+export interface GraphExportFilter {
+	// Graph value to export, e.g. `topic_<id>`; every graph when absent
+	graph?: string;
+	// Only nodes created and edges recorded within the range
+	from?: Date;
+	to?: Date;
+}
+
+export interface GraphExportFile {
+	content: string;
+	fileName: string;
+	mimeType: string;
+	nodeCount: number;
+	edgeCount: number;
+}
+
+export interface GraphImportRequest {
+	content: string;
+	format: GraphImportFormat;
+	name: string;
+	topicId?: string;
+}
+
+export interface GraphImportResult extends Record<string, unknown> {
+	importId: string;
+	entities: number;
+	facts: number;
+	entitiesCreated: number;
+	relationsCreated: number;
+}
+
+const toIso = (date: Date | null | undefined) => date?.toISOString();
+
+/**
+ * Export of the knowledge graph to standard graph formats with provenance,
+ * and import of shared graphs, merged into the existing graph through the
+ * entity and fact resolution of the knowledge flow.
+ */
+export class GraphTransferService {
+	private static instance: GraphTransferService;
+
+	private constructor() {}
+
+	static getInstance(): GraphTransferService {
+		if (!GraphTransferService.instance) {
+			GraphTransferService.instance = new GraphTransferService();
+		}
+		return GraphTransferService.instance;
+	}
+
+	async exportGraph(
+		format: GraphExportFormat,
+		filter: GraphExportFilter = {},
+	): Promise<GraphExportFile> {
+		const graph = await this.loadGraph(filter);
+		const { extension, mimeType } = GRAPH_FORMATS[format];
+		const date = new Date().toISOString().slice(0, 10);
+
+		logInfo("📤 Exported knowledge graph", {
+			format,
+			nodes: graph.nodes.length,
+			edges: graph.edges.length,
+		});
+		return {
+			content: serializeGraph(graph, format),
+			fileName: `knowledge-graph-${date}.${extension}`,
+			mimeType,
+			nodeCount: graph.nodes.length,
+			edgeCount: graph.edges.length,
+		};
+	}
+
+	/**
+	 * Queue the import of a GraphML or JSON-LD file. Resolution needs the
+	 * LLM, so the merge runs as a background job; the returned promise
+	 * settles when it is done.
+	 */
+	async queueImport(request: GraphImportRequest) {
+		// Fail early on files that cannot be read
+		const graph = parseGraph(request.content, request.format);
+		if (graph.nodes.length === 0) {
+			throw new Error("The file contains no nodes");
+		}
+
+		return backgroundJob.createJob("import-knowledge-graph", request, {
+			stream: false,
+		});
+	}
+
+	async importGraph(
+		request: GraphImportRequest,
+		onProgress?: (stage: string, progress: number) => void,
+	): Promise<GraphImportResult> {
+		const graph = parseGraph(request.content, request.format);
+		const importId = crypto.randomUUID();
+
+		const entities: ExtractedEntity[] = graph.nodes.map((node) => ({
+			uuid: node.id,
+			name: node.name,
+			nodeType: node.nodeType,
+			summary: node.summary,
+			attributes: node.attributes,
+		}));
+
+		const namesById = new Map(graph.nodes.map((node) => [node.id, node.name]));
+		const facts: ExtractedFact[] = graph.edges.map((edge) => ({
+			uuid: crypto.randomUUID(),
+			sourceEntityId: edge.sourceId,
+			destinationEntityId: edge.destinationId,
+			relationType: edge.edgeType,
+			factText:
+				edge.factText ||
+				`${namesById.get(edge.sourceId)} ${edge.edgeType} ${namesById.get(edge.destinationId)}`,
+			attributes: edge.attributes,
+			temporal: {
+				validAt: edge.validAt,
+				invalidAt: edge.invalidAt,
+				isCurrent: edge.isCurrent,
+			},
+		}));
+
+		const stats = await knowledgeGraphService.importKnowledgeGraph(
+			{
+				importId,
+				name: request.name,
+				entities,
+				facts,
+				topicId: request.topicId,
+				metadata: { format: request.format },
+			},
+			(progress) => onProgress?.(progress.stage, progress.progress),
+		);
+
+		const result = {
+			importId,
+			entities: entities.length,
+			facts: facts.length,
+			entitiesCreated: stats.entitiesCreated,
+			relationsCreated: stats.relationsCreated,
+		};
+		logInfo("📥 Imported knowledge graph", result);
+		return result;
+	}
+
+	/**
+	 * Edges recorded in range, the nodes created in range, and the endpoints
+	 * of the exported edges, each with the sources it was learned from
+	 */
+	private async loadGraph(filter: GraphExportFilter): Promise<PortableGraph> {
+		return serviceManager.databaseService.use(async ({ db, schema }) => {
+			const edgeConditions: SQL[] = [];
+			const nodeConditions: SQL[] = [];
+			if (filter.graph !== undefined) {
+				edgeConditions.push(eq(schema.edges.graph, filter.graph));
+				nodeConditions.push(eq(schema.nodes.graph, filter.graph));
+			}
+			if (filter.from) {
+				edgeConditions.push(gte(schema.edges.recordedAt, filter.from));
+				nodeConditions.push(gte(schema.nodes.createdAt, filter.from));
+			}
+			if (filter.to) {
+				edgeConditions.push(lte(schema.edges.recordedAt, filter.to));
+				nodeConditions.push(lte(schema.nodes.createdAt, filter.to));
+			}
+
+			const edges = await db
+				.select()
+				.from(schema.edges)
+				.where(and(...edgeConditions));
+
+			const endpointIds = [
+				...new Set(edges.flatMap((e) => [e.sourceId, e.destinationId])),
+			];
+			// No conditions means every node, endpoints included
+			const nodeFilter = and(...nodeConditions);
+			const nodes = await db
+				.select()
+				.from(schema.nodes)
+				.where(
+					nodeFilter && endpointIds.length > 0
+						? or(nodeFilter, inArray(schema.nodes.id, endpointIds))
+						: nodeFilter,
+				);
+
+			const provenanceColumns = {
+				sourceId: schema.sources.id,
+				name: schema.sources.name,
+				type: schema.sources.type,
+				targetType: schema.sources.targetType,
+				targetId: schema.sources.targetId,
+				referenceTime: schema.sources.referenceTime,
+				url: schema.rememberedContent.sourceUrl,
+			};
+			const joinsPage = and(
+				eq(schema.sources.targetType, "remembered_pages"),
+				sql`${schema.sources.targetId} = ${schema.rememberedContent.id}::text`,
+			);
+
+			const nodeIds = nodes.map((node) => node.id);
+			const nodeLinks =
+				nodeIds.length > 0
+					? await db
+							.select({
+								itemId: schema.sourceNodes.nodeId,
+								relation: schema.sourceNodes.relation,
+								...provenanceColumns,
+							})
+							.from(schema.sourceNodes)
+							.innerJoin(
+								schema.sources,
+								eq(schema.sourceNodes.sourceId, schema.sources.id),
+							)
+							.leftJoin(schema.rememberedContent, joinsPage)
+							.where(inArray(schema.sourceNodes.nodeId, nodeIds))
+					: [];
+
+			const edgeIds = edges.map((edge) => edge.id);
+			const edgeLinks =
+				edgeIds.length > 0
+					? await db
+							.select({
+								itemId: schema.sourceEdges.edgeId,
+								relation: schema.sourceEdges.relation,
+								linkWeight: schema.sourceEdges.linkWeight,
+								...provenanceColumns,
+							})
+							.from(schema.sourceEdges)
+							.innerJoin(
+								schema.sources,
+								eq(schema.sourceEdges.sourceId, schema.sources.id),
+							)
+							.leftJoin(schema.rememberedContent, joinsPage)
+							.where(inArray(schema.sourceEdges.edgeId, edgeIds))
+					: [];
+
+			const groupProvenance = (
+				links: Array<
+					{
+						itemId: string;
+						referenceTime: Date | null;
+						url: string | null;
+						linkWeight?: number | null;
+					} & Omit<ProvenanceRecord, "referenceTime" | "url" | "linkWeight">
+				>,
+			) => {
+				const byItem = new Map<string, ProvenanceRecord[]>();
+				for (const {
+					itemId,
+					referenceTime,
+					url,
+					linkWeight,
+					...link
+				} of links) {
+					byItem.set(itemId, [
+						...(byItem.get(itemId) || []),
+						{
+							...link,
+							url: url ?? undefined,
+							linkWeight: linkWeight ?? undefined,
+							referenceTime: toIso(referenceTime),
+						},
+					]);
+				}
+				return byItem;
+			};
+			const nodeProvenance = groupProvenance(nodeLinks);
+			const edgeProvenance = groupProvenance(edgeLinks);
+
+			return {
+				nodes: nodes.map((node) => ({
+					id: node.id,
+					name: node.name,
+					nodeType: node.nodeType,
+					summary: node.summary ?? undefined,
+					attributes: (node.attributes as Record<string, unknown>) || {},
+					graph: node.graph,
+					createdAt: toIso(node.createdAt),
+					provenance: nodeProvenance.get(node.id) || [],
+				})),
+				edges: edges.map((edge) => ({
+					id: edge.id,
+					sourceId: edge.sourceId,
+					destinationId: edge.destinationId,
+					edgeType: edge.edgeType,
+					factText: edge.factText ?? undefined,
+					validAt: toIso(edge.validAt),
+					invalidAt: toIso(edge.invalidAt),
+					isCurrent: edge.isCurrent ?? true,
+					recordedAt: toIso(edge.recordedAt),
+					attributes: (edge.attributes as Record<string, unknown>) || {},
+					graph: edge.graph,
+					provenance: edgeProvenance.get(edge.id) || [],
+				})),
+			};
+		});
+	}
+}
+
+export const graphTransferService = GraphTransferService.getInstance();
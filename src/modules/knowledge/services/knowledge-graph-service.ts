@@ -1,7 +1,7 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, desc, inArray, sql } from "drizzle-orm";
 import { serviceManager } from "@/services";
 import { logError, logInfo } from "@/utils/logger";
-import type { RememberedContent } from "@/services/database/db";
+import type { Message, RememberedContent } from "@/services/database/db";
 import type {
 	KnowledgeGraphData,
 	ConversionProgress,
@@ -9,7 +9,11 @@ import type {
 	KnowledgeGraphEntity,
 	KnowledgeGraphRelation,
 } from "@/types/knowledge-graph";
-import type { KnowledgeGraphState } from "@/services/flows/graph/knowledge/state";
+import type {
+	ExtractedEntity,
+	ExtractedFact,
+	KnowledgeGraphState,
+} from "@/services/flows/graph/knowledge/state";
 
 // Helper function to get URL from the new data structure
 function getContentUrl(content: RememberedContent): string {
@@ -18,6 +22,75 @@ function getContentUrl(content: RememberedContent): string {
 	return `content://${content.id}`;
 }
 
+// Number of earlier messages passed as context when remembering a message
+const CONVERSATION_CONTEXT_MESSAGES = 6;
+
+type ConversionStats = NonNullable<ConversionProgress["stats"]>;
+
+// Map a knowledge graph flow step to conversion progress
+function getStepProgress(
+	stepName: string,
+): Pick<ConversionProgress, "status" | "stage" | "progress"> {
+	switch (stepName) {
+		case "load_entities":
+			return {
+				status: "loading_existing_data",
+				stage: "Loading related entities...",
+				progress: 25,
+			};
+		case "extract_entities":
+			return {
+				status: "extracting_entities",
+				stage: "Extracting entities...",
+				progress: 30,
+			};
+		case "resolve_entities":
+			return {
+				status: "resolving_entities",
+				stage: "Resolving entities...",
+				progress: 45,
+			};
+		case "extract_facts":
+			return {
+				status: "extracting_facts",
+				stage: "Extracting facts...",
+				progress: 60,
+			};
+		case "load_facts":
+			return {
+				status: "loading_existing_data",
+				stage: "Loading related facts...",
+				progress: 70,
+			};
+		case "resolve_facts":
+			return {
+				status: "resolving_facts",
+				stage: "Resolving facts...",
+				progress: 75,
+			};
+		case "detect_contradictions":
+			return {
+				status: "resolving_facts",
+				stage: "Checking for contradicting facts...",
+				progress: 80,
+			};
+		case "extract_temporal":
+			return {
+				status: "extracting_temporal",
+				stage: "Extracting temporal information...",
+				progress: 85,
+			};
+		case "save_to_database":
+			return {
+				status: "saving_to_database",
+				stage: "Saving to database...",
+				progress: 95,
+			};
+		default:
+			return { status: "pending", stage: "Processing...", progress: 20 };
+	}
+}
+
 export class KnowledgeGraphService {
 	private static instance: KnowledgeGraphService;
 	private conversions = new Map<string, ConversionProgress>();
@@ -187,8 +260,12 @@ export class KnowledgeGraphService {
 				throw new Error("LLM service not ready");
 			}
 
-			// Update source status to processing
-			await this.updateSourceStatus(page.id, "processing");
+			await this.startSourceAttempt({
+				targetType: "remembered_pages",
+				targetId: page.id,
+				type: "page",
+				name: page.title,
+			});
 
 			this.updateConversion(conversionId, {
 				status: "extracting_entities",
@@ -196,16 +273,6 @@ export class KnowledgeGraphService {
 				progress: 10,
 			});
 
-			// Create knowledge graph flow
-			const knowledgeGraph = serviceManager.flowsService.createGraph(
-				"knowledge",
-				{
-					llm: serviceManager.getLLMService(),
-					embedding: serviceManager.getEmbeddingService(),
-					database: serviceManager.getDatabaseService(),
-				},
-			);
-
 			// Prepare input state
 			const initialState: Partial<KnowledgeGraphState> = {
 				content: page.content,
@@ -220,118 +287,12 @@ export class KnowledgeGraphService {
 			};
 
 			// Execute the knowledge graph flow with progress tracking
-			const stream = await knowledgeGraph.stream(initialState);
-
-			// Calculate stats
-			const stats: {
-				entitiesExtracted: number;
-				entitiesResolved: number;
-				factsExtracted: number;
-				factsResolved: number;
-				entitiesCreated: number;
-				relationsCreated: number;
-			} = {
-				entitiesExtracted: 0,
-				entitiesResolved: 0,
-				factsExtracted: 0,
-				factsResolved: 0,
-				entitiesCreated: 0,
-				relationsCreated: 0,
-			};
-			for await (const partial of stream) {
-				const stepName = Object.keys(partial)[0];
-
-				if (
-					"extract_entities" in partial &&
-					Array.isArray(partial.extract_entities.extractedEntities)
-				) {
-					stats.entitiesExtracted =
-						partial.extract_entities.extractedEntities.length;
-				} else if (
-					"resolve_entities" in partial &&
-					Array.isArray(partial.resolve_entities.resolvedEntities)
-				) {
-					stats.entitiesResolved =
-						partial.resolve_entities.resolvedEntities.length;
-				} else if (
-					"extract_facts" in partial &&
-					Array.isArray(partial.extract_facts.extractedFacts)
-				) {
-					stats.factsExtracted = partial.extract_facts.extractedFacts.length;
-				} else if (
-					"resolve_facts" in partial &&
-					Array.isArray(partial.resolve_facts.resolvedFacts)
-				) {
-					stats.factsResolved = partial.resolve_facts.resolvedFacts.length;
-				} else if (
-					"save_to_database" in partial &&
-					typeof partial.save_to_database === "object" &&
-					partial.save_to_database.entitiesCreated
-				) {
-					if (Array.isArray(partial.save_to_database.entitiesCreated)) {
-						stats.entitiesCreated =
-							partial.save_to_database.entitiesCreated.length;
-					}
-					if (Array.isArray(partial.save_to_database.relationsCreated)) {
-						stats.relationsCreated =
-							partial.save_to_database.relationsCreated.length;
-					}
-				}
-
-				// Update progress based on step
-				let status: ConversionStatus = "pending";
-				let stage = "Processing...";
-				let progress = 20;
-
-				switch (stepName) {
-					case "load_entities":
-						status = "loading_existing_data";
-						stage = "Loading related entities...";
-						progress = 25;
-						break;
-					case "extract_entities":
-						status = "extracting_entities";
-						stage = "Extracting entities...";
-						progress = 30;
-						break;
-					case "resolve_entities":
-						status = "resolving_entities";
-						stage = "Resolving entities...";
-						progress = 45;
-						break;
-					case "extract_facts":
-						status = "extracting_facts";
-						stage = "Extracting facts...";
-						progress = 60;
-						break;
-					case "load_facts":
-						status = "loading_existing_data";
-						stage = "Loading related facts...";
-						progress = 70;
-						break;
-					case "resolve_facts":
-						status = "resolving_facts";
-						stage = "Resolving facts...";
-						progress = 75;
-						break;
-					case "extract_temporal":
-						status = "extracting_temporal";
-						stage = "Extracting temporal information...";
-						progress = 85;
-						break;
-					case "save_to_database":
-						status = "saving_to_database";
-						stage = "Saving to database...";
-						progress = 95;
-						break;
-				}
-
-				this.updateConversion(conversionId, {
-					status,
-					stage,
-					progress,
-				});
-			}
+			const stats = await this.runKnowledgeGraphFlow(
+				initialState,
+				(stepName) => {
+					this.updateConversion(conversionId, getStepProgress(stepName));
+				},
+			);
 
 			// Update source status to completed
 			await this.updateSourceStatus(page.id, "completed");
@@ -352,7 +313,12 @@ export class KnowledgeGraphService {
 			logError("Knowledge graph conversion failed:", error);
 
 			// Update source status to failed
-			await this.updateSourceStatus(page.id, "failed");
+			await this.updateSourceStatus(
+				page.id,
+				"failed",
+				"remembered_pages",
+				error instanceof Error ? error.message : "Unknown error",
+			);
 
 			this.updateConversion(conversionId, {
 				status: "failed",
@@ -364,9 +330,423 @@ export class KnowledgeGraphService {
 		}
 	}
 
+	/**
+	 * Remember a chat conversation: every message runs through the knowledge
+	 * graph flow with the messages before it as context, and gets its own
+	 * source (targetType "message") so facts link back to the exact message.
+	 * Messages remembered before are skipped.
+	 */
+	async convertConversationToKnowledgeGraph(
+		conversationId: string,
+	): Promise<ConversionProgress> {
+		const { conversation, messages, rememberedIds } =
+			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				const [conversation] = await db
+					.select()
+					.from(schema.conversations)
+					.where(eq(schema.conversations.id, conversationId));
+				const messages = await db
+					.select()
+					.from(schema.messages)
+					.where(eq(schema.messages.conversationId, conversationId))
+					.orderBy(asc(schema.messages.createdAt));
+				const remembered =
+					messages.length > 0
+						? await db
+								.select({ targetId: schema.sources.targetId })
+								.from(schema.sources)
+								.where(
+									and(
+										eq(schema.sources.targetType, "message"),
+										eq(schema.sources.status, "completed"),
+										inArray(
+											schema.sources.targetId,
+											messages.map((message) => message.id),
+										),
+									),
+								)
+						: [];
+				return {
+					conversation,
+					messages,
+					rememberedIds: new Set(remembered.map((row) => row.targetId)),
+				};
+			});
+
+		if (!conversation) {
+			throw new Error("Conversation not found");
+		}
+
+		const title = conversation.title || "Conversation";
+		this.conversions.set(conversationId, {
+			pageId: conversationId,
+			pageTitle: title,
+			pageUrl: `conversation://${conversationId}`,
+			status: "pending",
+			stage: "Initializing...",
+			progress: 0,
+			startedAt: new Date(),
+		});
+		this.notifyListeners();
+
+		// Separators start a fresh context, like they do when chatting
+		const pending: Array<{ message: Message; context: Message[] }> = [];
+		let context: Message[] = [];
+		for (const message of messages) {
+			if (message.type === "separator") {
+				context = [];
+				continue;
+			}
+			if (
+				(message.role !== "user" && message.role !== "assistant") ||
+				!message.content.trim()
+			) {
+				continue;
+			}
+			if (!rememberedIds.has(message.id)) {
+				pending.push({
+					message,
+					context: context.slice(-CONVERSATION_CONTEXT_MESSAGES),
+				});
+			}
+			context.push(message);
+		}
+
+		const stats: ConversionStats = {
+			entitiesExtracted: 0,
+			entitiesResolved: 0,
+			factsExtracted: 0,
+			factsResolved: 0,
+			entitiesCreated: 0,
+			relationsCreated: 0,
+		};
+		let failedCount = 0;
+
+		try {
+			if (!serviceManager.getLLMService().isReady()) {
+				throw new Error("LLM service not ready");
+			}
+
+			for (const [index, { message, context }] of pending.entries()) {
+				const label = `Message ${index + 1}/${pending.length}`;
+				const initialState: Partial<KnowledgeGraphState> = {
+					content: message.content,
+					title: `${title} (${message.role} message)`,
+					url: `conversation://${conversationId}#${message.id}`,
+					pageId: message.id,
+					targetType: "message",
+					sourceType: "conversation",
+					referenceTimestamp: new Date(message.createdAt).toISOString(),
+					metadata: {
+						conversationId,
+						messageId: message.id,
+						role: message.role,
+					},
+					topicId: (message.metadata as { topicId?: string } | null)?.topicId,
+					currentMessage: `${message.role}: ${message.content}`,
+					previousMessages:
+						context.length > 0
+							? context
+									.map((item) => `${item.role}: ${item.content}`)
+									.join("\n\n")
+							: undefined,
+				};
+
+				try {
+					await this.startSourceAttempt({
+						targetType: "message",
+						targetId: message.id,
+						type: "message",
+						name: initialState.title!,
+						metadata: initialState.metadata,
+					});
+					const messageStats = await this.runKnowledgeGraphFlow(
+						initialState,
+						(stepName) => {
+							const step = getStepProgress(stepName);
+							this.updateConversion(conversationId, {
+								status: step.status,
+								stage: `${label}: ${step.stage}`,
+								progress: Math.round(
+									((index + step.progress / 100) / pending.length) * 100,
+								),
+							});
+						},
+					);
+					for (const key of Object.keys(stats) as Array<
+						keyof ConversionStats
+					>) {
+						stats[key] += messageStats[key];
+					}
+					await this.updateSourceStatus(message.id, "completed", "message");
+				} catch (error) {
+					failedCount++;
+					logError(`Failed to remember message ${message.id}:`, error);
+					await this.updateSourceStatus(
+						message.id,
+						"failed",
+						"message",
+						error instanceof Error ? error.message : "Unknown error",
+					);
+				}
+			}
+
+			if (pending.length > 0 && failedCount === pending.length) {
+				throw new Error("No message of the conversation could be remembered");
+			}
+
+			this.updateConversion(conversationId, {
+				status: "completed",
+				stage:
+					pending.length === 0
+						? "Already remembered"
+						: `Remembered ${pending.length - failedCount} of ${pending.length} messages`,
+				progress: 100,
+				completedAt: new Date(),
+				stats,
+			});
+
+			logInfo("Conversation knowledge graph conversion completed:", {
+				conversationId,
+				messages: pending.length,
+				failedCount,
+				stats,
+			});
+		} catch (error) {
+			logError("Conversation knowledge graph conversion failed:", error);
+
+			this.updateConversion(conversationId, {
+				status: "failed",
+				stage: "Failed",
+				progress: 0,
+				completedAt: new Date(),
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+
+		return this.conversions.get(conversationId)!;
+	}
+
+	/**
+	 * Merge the entities and facts of an imported graph into the knowledge
+	 * graph. They skip extraction but go through entity and fact resolution
+	 * like extracted ones, and are recorded under one `import` source.
+	 */
+	async importKnowledgeGraph(
+		input: {
+			importId: string;
+			name: string;
+			entities: ExtractedEntity[];
+			facts: ExtractedFact[];
+			topicId?: string;
+			metadata?: Record<string, unknown>;
+		},
+		onProgress?: (
+			progress: Pick<ConversionProgress, "status" | "stage" | "progress">,
+		) => void,
+	): Promise<ConversionStats> {
+		if (!serviceManager.getLLMService().isReady()) {
+			throw new Error("LLM service not ready");
+		}
+
+		await this.startSourceAttempt({
+			targetType: "graph_import",
+			targetId: input.importId,
+			type: "import",
+			name: input.name,
+			metadata: input.metadata,
+		});
+
+		try {
+			const stats = await this.runKnowledgeGraphFlow(
+				{
+					content: "",
+					title: input.name,
+					url: `import://${input.importId}`,
+					pageId: input.importId,
+					targetType: "graph_import",
+					referenceTimestamp: new Date().toISOString(),
+					metadata: input.metadata,
+					topicId: input.topicId,
+					currentMessage: `Imported knowledge graph "${input.name}" with ${input.entities.length} entities and ${input.facts.length} facts`,
+					sourceType: "graph_import",
+					extractedEntities: input.entities,
+					extractedFacts: input.facts,
+				},
+				(stepName) => onProgress?.(getStepProgress(stepName)),
+				"knowledge-import",
+			);
+
+			await this.updateSourceStatus(
+				input.importId,
+				"completed",
+				"graph_import",
+			);
+			return {
+				...stats,
+				entitiesExtracted: input.entities.length,
+				factsExtracted: input.facts.length,
+			};
+		} catch (error) {
+			await this.updateSourceStatus(
+				input.importId,
+				"failed",
+				"graph_import",
+				error instanceof Error ? error.message : String(error),
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Run the knowledge graph flow for one input, reporting each step
+	 */
+	private async runKnowledgeGraphFlow(
+		initialState: Partial<KnowledgeGraphState>,
+		onStep: (stepName: string) => void,
+		flowType: "knowledge" | "knowledge-import" = "knowledge",
+	): Promise<ConversionStats> {
+		// Create knowledge graph flow
+		const knowledgeGraph = serviceManager.flowsService.createGraph(flowType, {
+			llm: serviceManager.getLLMService(),
+			embedding: serviceManager.getEmbeddingService(),
+			database: serviceManager.getDatabaseService(),
+		});
+
+		const stream = await knowledgeGraph.stream(initialState);
+
+		// Calculate stats
+		const stats: ConversionStats = {
+			entitiesExtracted: 0,
+			entitiesResolved: 0,
+			factsExtracted: 0,
+			factsResolved: 0,
+			entitiesCreated: 0,
+			relationsCreated: 0,
+		};
+		for await (const partial of stream) {
+			const stepName = Object.keys(partial)[0];
+
+			// The save step reports failures in its state instead of throwing
+			if (
+				"save_to_database" in partial &&
+				!partial.save_to_database.createdSource
+			) {
+				const errors = partial.save_to_database.errors;
+				throw new Error(
+					Array.isArray(errors) && errors.length > 0
+						? errors.join("; ")
+						: "Failed to save knowledge graph",
+				);
+			}
+
+			if (
+				"extract_entities" in partial &&
+				Array.isArray(partial.extract_entities.extractedEntities)
+			) {
+				stats.entitiesExtracted =
+					partial.extract_entities.extractedEntities.length;
+			} else if (
+				"resolve_entities" in partial &&
+				Array.isArray(partial.resolve_entities.resolvedEntities)
+			) {
+				stats.entitiesResolved =
+					partial.resolve_entities.resolvedEntities.length;
+			} else if (
+				"extract_facts" in partial &&
+				Array.isArray(partial.extract_facts.extractedFacts)
+			) {
+				stats.factsExtracted = partial.extract_facts.extractedFacts.length;
+			} else if (
+				"resolve_facts" in partial &&
+				Array.isArray(partial.resolve_facts.resolvedFacts)
+			) {
+				stats.factsResolved = partial.resolve_facts.resolvedFacts.length;
+			} else if (
+				"save_to_database" in partial &&
+				typeof partial.save_to_database === "object" &&
+				partial.save_to_database.entitiesCreated
+			) {
+				if (Array.isArray(partial.save_to_database.entitiesCreated)) {
+					stats.entitiesCreated =
+						partial.save_to_database.entitiesCreated.length;
+				}
+				if (Array.isArray(partial.save_to_database.relationsCreated)) {
+					stats.relationsCreated =
+						partial.save_to_database.relationsCreated.length;
+				}
+			}
+
+			onStep(stepName);
+		}
+
+		return stats;
+	}
+
+	/**
+	 * Mark the source of a conversion as processing and count the attempt in
+	 * its metadata. The source is created up front when this is the first
+	 * attempt, so a crash during the flow still leaves a row for the startup
+	 * recovery to find.
+	 */
+	private async startSourceAttempt(target: {
+		targetType: string;
+		targetId: string;
+		type: string;
+		name: string;
+		metadata?: Record<string, unknown>;
+	}): Promise<void> {
+		try {
+			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				const now = new Date();
+				const [existing] = await db
+					.select({ id: schema.sources.id })
+					.from(schema.sources)
+					.where(
+						and(
+							eq(schema.sources.targetType, target.targetType),
+							eq(schema.sources.targetId, target.targetId),
+						),
+					)
+					.orderBy(desc(schema.sources.createdAt))
+					.limit(1);
+
+				if (!existing) {
+					await db.insert(schema.sources).values({
+						type: target.type,
+						targetType: target.targetType,
+						targetId: target.targetId,
+						name: target.name,
+						metadata: { ...(target.metadata || {}), attempts: 1 },
+						status: "processing",
+						statusValidFrom: now,
+					});
+					return;
+				}
+
+				await db
+					.update(schema.sources)
+					.set({
+						status: "processing",
+						statusValidFrom: now,
+						updatedAt: now,
+						metadata: sql`jsonb_set(coalesce(${schema.sources.metadata}, '{}'::jsonb), '{attempts}', to_jsonb(coalesce((${schema.sources.metadata}->>'attempts')::int, 0) + 1))`,
+					})
+					.where(eq(schema.sources.id, existing.id));
+			});
+		} catch (error) {
+			logError(
+				`Failed to start source attempt for ${target.targetType} ${target.targetId}:`,
+				error,
+			);
+		}
+	}
+
 	private async updateSourceStatus(
-		pageId: string,
+		targetId: string,
 		status: "pending" | "processing" | "completed" | "failed",
+		targetType = "remembered_pages",
+		error?: string,
 	): Promise<void> {
 		try {
 			await serviceManager.databaseService.use(async ({ db, schema }) => {
@@ -377,17 +757,33 @@ export class KnowledgeGraphService {
 						status,
 						statusValidFrom: now,
 						updatedAt: now,
+						// Keep the last error for the recovery list; a success
+						// starts the attempt count over
+						...(status === "failed"
+							? {
+									metadata: sql`coalesce(${schema.sources.metadata}, '{}'::jsonb) || jsonb_build_object('lastError', ${error ?? "Unknown error"}::text)`,
+								}
+							: status === "completed"
+								? {
+										metadata: sql`coalesce(${schema.sources.metadata}, '{}'::jsonb) - 'lastError' - 'attempts'`,
+									}
+								: {}),
 					})
 					.where(
 						and(
-							eq(schema.sources.targetType, "remembered_pages"),
-							eq(schema.sources.targetId, pageId),
+							eq(schema.sources.targetType, targetType),
+							eq(schema.sources.targetId, targetId),
 						),
 					);
 			});
-			logInfo(`Source status updated to ${status} for page ${pageId}`);
+			logInfo(
+				`Source status updated to ${status} for ${targetType} ${targetId}`,
+			);
 		} catch (error) {
-			logError(`Failed to update source status for page ${pageId}:`, error);
+			logError(
+				`Failed to update source status for ${targetType} ${targetId}:`,
+				error,
+			);
 		}
 	}
 
@@ -0,0 +1,246 @@
+import { and, inArray, sql } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import type { Source } from "@/services/database/db";
+import { getEffectiveSourceStatus } from "@/services/database/entities/sources";
+import { logError, logInfo } from "@/utils/logger";
+
+// Same timeout getEffectiveSourceStatus applies when showing a source
+export const SOURCE_TIMEOUT_MINUTES = 30;
+
+// Conversions started for a source before it is left for the user to retry
+export const MAX_SOURCE_ATTEMPTS = 5;
+
+// Sources that are converted by the knowledge-graph jobs
+const RECOVERABLE_TARGET_TYPES = ["remembered_pages", "message"];
+
+export interface SourceAttention {
+	source: Source;
+	effectiveStatus: string;
+	attempts: number;
+	lastError?: string;
+	// Retrying is left to the user once the attempts are used up
+	exhausted: boolean;
+}
+
+export interface ReconcileResult {
+	jobIds: string[];
+	skipped: number;
+}
+
+interface SourceRecoveryMetadata {
+	attempts?: number;
+	lastError?: string;
+	conversationId?: string;
+}
+
+function getRecoveryMetadata(source: Source): SourceRecoveryMetadata {
+	return (source.metadata as SourceRecoveryMetadata | null) || {};
+}
+
+/**
+ * Finds sources whose knowledge graph conversion never finished, because the
+ * offscreen document went away mid-flow or every attempt failed, and queues
+ * their conversion again. Attempts are counted in `sources.metadata` by the
+ * knowledge graph service, so a source that keeps failing is eventually left
+ * for the user to retry from the remembered contents page.
+ */
+export class SourceRecoveryService {
+	private static instance: SourceRecoveryService;
+
+	private constructor() {}
+
+	static getInstance(): SourceRecoveryService {
+		if (!SourceRecoveryService.instance) {
+			SourceRecoveryService.instance = new SourceRecoveryService();
+		}
+		return SourceRecoveryService.instance;
+	}
+
+	/**
+	 * Sources that are failed, or processing for longer than the timeout
+	 */
+	async getSourcesNeedingAttention(
+		targetType?: string,
+	): Promise<SourceAttention[]> {
+		const sources = await serviceManager.databaseService.use(
+			async ({ db, schema }) =>
+				db
+					.select()
+					.from(schema.sources)
+					.where(
+						and(
+							inArray(
+								schema.sources.targetType,
+								targetType ? [targetType] : RECOVERABLE_TARGET_TYPES,
+							),
+							inArray(schema.sources.status, ["processing", "failed"]),
+						),
+					),
+		);
+
+		return sources
+			.map((source) => ({
+				source,
+				effectiveStatus: getEffectiveSourceStatus(
+					source,
+					SOURCE_TIMEOUT_MINUTES,
+				),
+			}))
+			.filter(({ effectiveStatus }) => effectiveStatus === "failed")
+			.map(({ source, effectiveStatus }) => {
+				const metadata = getRecoveryMetadata(source);
+				const attempts = metadata.attempts ?? 0;
+				return {
+					source,
+					effectiveStatus,
+					attempts,
+					lastError: metadata.lastError,
+					exhausted: attempts >= MAX_SOURCE_ATTEMPTS,
+				};
+			});
+	}
+
+	/**
+	 * Run once the offscreen document is up. Nothing converts sources before
+	 * that, so every `processing` source belongs to a conversion that died
+	 * with the previous document; failed sources get another attempt once
+	 * they are older than the timeout.
+	 */
+	async reconcile(): Promise<ReconcileResult> {
+		const threshold = new Date(Date.now() - SOURCE_TIMEOUT_MINUTES * 60 * 1000);
+		const sources = await serviceManager.databaseService.use(
+			async ({ db, schema }) =>
+				db
+					.select()
+					.from(schema.sources)
+					.where(
+						and(
+							inArray(schema.sources.targetType, RECOVERABLE_TARGET_TYPES),
+							inArray(schema.sources.status, ["processing", "failed"]),
+						),
+					),
+		);
+
+		const candidates = sources.filter((source) => {
+			if ((getRecoveryMetadata(source).attempts ?? 0) >= MAX_SOURCE_ATTEMPTS) {
+				return false;
+			}
+			if (source.status === "processing") return true;
+			return !source.statusValidFrom || source.statusValidFrom < threshold;
+		});
+
+		const jobIds = await this.enqueue(candidates);
+		const result = {
+			jobIds,
+			skipped: sources.length - candidates.length,
+		};
+		if (sources.length > 0) {
+			logInfo("🩺 Reconciled unfinished sources", {
+				found: sources.length,
+				queued: jobIds.length,
+				skipped: result.skipped,
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * Retry sources picked by the user; their attempts start over
+	 */
+	async retrySources(sourceIds: string[]): Promise<string[]> {
+		if (sourceIds.length === 0) return [];
+
+		const sources = await serviceManager.databaseService.use(
+			async ({ db, schema }) => {
+				await db
+					.update(schema.sources)
+					.set({
+						metadata: sql`coalesce(${schema.sources.metadata}, '{}'::jsonb) - 'attempts'`,
+						updatedAt: new Date(),
+					})
+					.where(inArray(schema.sources.id, sourceIds));
+				return db
+					.select()
+					.from(schema.sources)
+					.where(inArray(schema.sources.id, sourceIds));
+			},
+		);
+
+		return this.enqueue(sources);
+	}
+
+	/**
+	 * Queue the conversion job of each source, unless one is already waiting.
+	 * Messages are converted per conversation, which skips the messages that
+	 * are already remembered.
+	 */
+	private async enqueue(sources: Source[]): Promise<string[]> {
+		const queued = await this.getQueuedTargets();
+		const jobIds: string[] = [];
+
+		const pageIds = sources
+			.filter((source) => source.targetType === "remembered_pages")
+			.map((source) => source.targetId)
+			.filter((pageId) => !queued.has(pageId));
+		const pages =
+			pageIds.length > 0
+				? await serviceManager.databaseService.use(async ({ db, schema }) =>
+						db
+							.select()
+							.from(schema.rememberedContent)
+							.where(inArray(schema.rememberedContent.id, pageIds)),
+					)
+				: [];
+		for (const page of pages) {
+			const { jobId } = await backgroundJob.createJob("knowledge-graph", page, {
+				stream: false,
+			});
+			jobIds.push(jobId);
+		}
+
+		const conversationIds = new Set(
+			sources
+				.filter((source) => source.targetType === "message")
+				.map((source) => getRecoveryMetadata(source).conversationId)
+				.filter((id): id is string => !!id && !queued.has(id)),
+		);
+		for (const conversationId of conversationIds) {
+			const { jobId } = await backgroundJob.createJob(
+				"knowledge-graph-conversation",
+				{ conversationId },
+				{ stream: false },
+			);
+			jobIds.push(jobId);
+		}
+
+		return jobIds;
+	}
+
+	/**
+	 * Pages and conversations with a knowledge graph job still to run
+	 */
+	private async getQueuedTargets(): Promise<Set<string>> {
+		const targets = new Set<string>();
+		try {
+			const jobs = await backgroundJob.getAllJobs();
+			for (const job of jobs) {
+				if (job.status !== "pending") continue;
+				const payload = job.payload as { id?: string; conversationId?: string };
+				if (job.jobType === "knowledge-graph" && payload?.id) {
+					targets.add(payload.id);
+				} else if (
+					job.jobType === "knowledge-graph-conversation" &&
+					payload?.conversationId
+				) {
+					targets.add(payload.conversationId);
+				}
+			}
+		} catch (error) {
+			logError("Failed to read queued knowledge graph jobs:", error);
+		}
+		return targets;
+	}
+}
+
+export const sourceRecoveryService = SourceRecoveryService.getInstance();
@@ -0,0 +1,549 @@
+/**
+ * Serialization of the knowledge graph to standard graph formats, and
+ * parsing of the formats that can be imported back (GraphML and JSON-LD).
+ * Attributes and provenance are nested structures, so formats with flat
+ * properties carry them as JSON strings.
+ */
+
+export type GraphExportFormat = "graphml" | "gexf" | "jsonld" | "cypher";
+export type GraphImportFormat = "graphml" | "jsonld";
+
+// A source the node or edge was learned from
+export interface ProvenanceRecord {
+	sourceId: string;
+	name: string;
+	type: string;
+	targetType: string;
+	targetId: string;
+	url?: string;
+	relation: string;
+	linkWeight?: number;
+	referenceTime?: string;
+}
+
+export interface PortableNode {
+	id: string;
+	name: string;
+	nodeType: string;
+	summary?: string;
+	attributes: Record<string, unknown>;
+	graph?: string;
+	createdAt?: string;
+	provenance?: ProvenanceRecord[];
+}
+
+export interface PortableEdge {
+	id: string;
+	sourceId: string;
+	destinationId: string;
+	edgeType: string;
+	factText?: string;
+	validAt?: string;
+	invalidAt?: string;
+	isCurrent?: boolean;
+	recordedAt?: string;
+	attributes: Record<string, unknown>;
+	graph?: string;
+	provenance?: ProvenanceRecord[];
+}
+
+export interface PortableGraph {
+	nodes: PortableNode[];
+	edges: PortableEdge[];
+}
+
+export const GRAPH_FORMATS: Record<
+	GraphExportFormat,
+	{ label: string; extension: string; mimeType: string }
+> = {
+	graphml: {
+		label: "GraphML",
+		extension: "graphml",
+		mimeType: "application/graphml+xml",
+	},
+	gexf: { label: "GEXF", extension: "gexf", mimeType: "application/gexf+xml" },
+	jsonld: {
+		label: "JSON-LD",
+		extension: "jsonld",
+		mimeType: "application/ld+json",
+	},
+	cypher: { label: "Cypher", extension: "cypher", mimeType: "text/plain" },
+};
+
+// Default type of imported nodes that have none
+const DEFAULT_NODE_TYPE = "concept";
+// Default relation of imported edges that have none
+const DEFAULT_EDGE_TYPE = "RELATED_TO";
+
+const JSON_LD_CONTEXT = {
+	"@vocab": "urn:memorall:kg:",
+	schema: "https://schema.org/",
+	xsd: "http://www.w3.org/2001/XMLSchema#",
+	name: "schema:name",
+	summary: "schema:description",
+	source: { "@type": "@id" },
+	target: { "@type": "@id" },
+	attributes: { "@type": "@json" },
+	provenance: { "@type": "@json" },
+	validAt: { "@type": "xsd:dateTime" },
+	invalidAt: { "@type": "xsd:dateTime" },
+	recordedAt: { "@type": "xsd:dateTime" },
+	createdAt: { "@type": "xsd:dateTime" },
+};
+
+type FieldType = "string" | "boolean" | "json";
+
+const NODE_FIELDS: Array<[keyof PortableNode, FieldType]> = [
+	["name", "string"],
+	["nodeType", "string"],
+	["summary", "string"],
+	["graph", "string"],
+	["createdAt", "string"],
+	["attributes", "json"],
+	["provenance", "json"],
+];
+
+const EDGE_FIELDS: Array<[keyof PortableEdge, FieldType]> = [
+	["edgeType", "string"],
+	["factText", "string"],
+	["validAt", "string"],
+	["invalidAt", "string"],
+	["isCurrent", "boolean"],
+	["recordedAt", "string"],
+	["graph", "string"],
+	["attributes", "json"],
+	["provenance", "json"],
+];
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+function fieldText(value: unknown, type: FieldType): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (type === "json") return JSON.stringify(value);
+	return String(value);
+}
+
+function toGraphML(graph: PortableGraph): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+	];
+	const declare = (
+		domain: "node" | "edge",
+		fields: Array<[string, FieldType]>,
+	) => {
+		for (const [field, type] of fields) {
+			lines.push(
+				`  <key id="${domain}_${field}" for="${domain}" attr.name="${field}" attr.type="${type === "boolean" ? "boolean" : "string"}"/>`,
+			);
+		}
+	};
+	declare("node", NODE_FIELDS);
+	declare("edge", EDGE_FIELDS);
+
+	const dataLines = (
+		domain: "node" | "edge",
+		item: object,
+		fields: Array<[string, FieldType]>,
+	) =>
+		fields.flatMap(([field, type]) => {
+			const text = fieldText((item as Record<string, unknown>)[field], type);
+			return text === undefined
+				? []
+				: [`      <data key="${domain}_${field}">${escapeXml(text)}</data>`];
+		});
+
+	lines.push('  <graph id="knowledge" edgedefault="directed">');
+	for (const node of graph.nodes) {
+		lines.push(`    <node id="${escapeXml(node.id)}">`);
+		lines.push(...dataLines("node", node, NODE_FIELDS));
+		lines.push("    </node>");
+	}
+	for (const edge of graph.edges) {
+		lines.push(
+			`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.sourceId)}" target="${escapeXml(edge.destinationId)}">`,
+		);
+		lines.push(...dataLines("edge", edge, EDGE_FIELDS));
+		lines.push("    </edge>");
+	}
+	lines.push("  </graph>", "</graphml>");
+	return lines.join("\n");
+}
+
+function toGEXF(graph: PortableGraph): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+		`  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+		"    <creator>Memorall</creator>",
+		"  </meta>",
+		'  <graph defaultedgetype="directed" mode="static">',
+	];
+
+	// The name and the edge type are the GEXF labels
+	const nodeFields = NODE_FIELDS.filter(([field]) => field !== "name");
+	const edgeFields = EDGE_FIELDS.filter(([field]) => field !== "edgeType");
+	const declare = (
+		domain: "node" | "edge",
+		fields: Array<[string, FieldType]>,
+	) => {
+		lines.push(`    <attributes class="${domain}">`);
+		for (const [field, type] of fields) {
+			lines.push(
+				`      <attribute id="${field}" title="${field}" type="${type === "boolean" ? "boolean" : "string"}"/>`,
+			);
+		}
+		lines.push("    </attributes>");
+	};
+	declare("node", nodeFields);
+	declare("edge", edgeFields);
+
+	const attValues = (item: object, fields: Array<[string, FieldType]>) => {
+		const values = fields.flatMap(([field, type]) => {
+			const text = fieldText((item as Record<string, unknown>)[field], type);
+			return text === undefined
+				? []
+				: [`          <attvalue for="${field}" value="${escapeXml(text)}"/>`];
+		});
+		return values.length > 0
+			? ["        <attvalues>", ...values, "        </attvalues>"]
+			: [];
+	};
+
+	lines.push("    <nodes>");
+	for (const node of graph.nodes) {
+		lines.push(
+			`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}">`,
+		);
+		lines.push(...attValues(node, nodeFields));
+		lines.push("      </node>");
+	}
+	lines.push("    </nodes>", "    <edges>");
+	for (const edge of graph.edges) {
+		lines.push(
+			`      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.sourceId)}" target="${escapeXml(edge.destinationId)}" label="${escapeXml(edge.edgeType)}">`,
+		);
+		lines.push(...attValues(edge, edgeFields));
+		lines.push("      </edge>");
+	}
+	lines.push("    </edges>", "  </graph>", "</gexf>");
+	return lines.join("\n");
+}
+
+const jsonLdId = (id: string) => `urn:uuid:${id}`;
+
+function toJSONLD(graph: PortableGraph): string {
+	const items = [
+		...graph.nodes.map(({ id, ...node }) => ({
+			"@id": jsonLdId(id),
+			"@type": "Entity",
+			...node,
+		})),
+		...graph.edges.map(({ id, sourceId, destinationId, ...edge }) => ({
+			"@id": jsonLdId(id),
+			"@type": "Relation",
+			source: jsonLdId(sourceId),
+			target: jsonLdId(destinationId),
+			...edge,
+		})),
+	];
+	return JSON.stringify(
+		{ "@context": JSON_LD_CONTEXT, "@graph": items },
+		null,
+		2,
+	);
+}
+
+function cypherString(value: string): string {
+	return `'${value
+		.replace(/\\/g, "\\\\")
+		.replace(/'/g, "\\'")
+		.replace(/\r/g, "\\r")
+		.replace(/\n/g, "\\n")}'`;
+}
+
+function cypherName(value: string): string {
+	return `\`${value.replace(/`/g, "``")}\``;
+}
+
+function cypherProperties(
+	item: Record<string, unknown>,
+	fields: Array<[string, FieldType]>,
+): string {
+	const properties = [`id: ${cypherString(String(item.id))}`];
+	for (const [field, type] of fields) {
+		const value = item[field];
+		if (value === undefined || value === null) continue;
+		properties.push(
+			`${field}: ${type === "boolean" ? String(value) : cypherString(fieldText(value, type) ?? "")}`,
+		);
+	}
+	return `{${properties.join(", ")}}`;
+}
+
+function toCypher(graph: PortableGraph): string {
+	const lines = [
+		"// Knowledge graph export. Attributes and provenance are JSON strings.",
+		"CREATE INDEX entity_id IF NOT EXISTS FOR (n:Entity) ON (n.id);",
+	];
+	for (const node of graph.nodes) {
+		lines.push(
+			`CREATE (:Entity:${cypherName(node.nodeType)} ${cypherProperties({ ...node }, NODE_FIELDS)});`,
+		);
+	}
+	for (const edge of graph.edges) {
+		const properties = cypherProperties(
+			{ ...edge },
+			EDGE_FIELDS.filter(([field]) => field !== "edgeType"),
+		);
+		lines.push(
+			`MATCH (a:Entity {id: ${cypherString(edge.sourceId)}}), (b:Entity {id: ${cypherString(edge.destinationId)}}) CREATE (a)-[:${cypherName(edge.edgeType)} ${properties}]->(b);`,
+		);
+	}
+	return lines.join("\n");
+}
+
+export function serializeGraph(
+	graph: PortableGraph,
+	format: GraphExportFormat,
+): string {
+	switch (format) {
+		case "graphml":
+			return toGraphML(graph);
+		case "gexf":
+			return toGEXF(graph);
+		case "jsonld":
+			return toJSONLD(graph);
+		case "cypher":
+			return toCypher(graph);
+	}
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+	return value && typeof value === "object" && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
+
+function asString(value: unknown): string | undefined {
+	if (typeof value === "string") return value.trim() || undefined;
+	if (typeof value === "number") return String(value);
+	// JSON-LD values may come expanded as {"@value": ...}
+	const expanded = asRecord(value)["@value"];
+	return expanded === undefined ? undefined : asString(expanded);
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") return value;
+	const text = asString(value)?.toLowerCase();
+	if (text === "true") return true;
+	if (text === "false") return false;
+	return undefined;
+}
+
+// Dates must parse, or the edge would be saved with an invalid timestamp
+function asDate(value: unknown, edgeId: string): string | undefined {
+	const text = asString(value);
+	if (text !== undefined && Number.isNaN(new Date(text).getTime())) {
+		throw new Error(`Edge ${edgeId} has an invalid date "${text}"`);
+	}
+	return text;
+}
+
+function parseJsonField(value: string | undefined): unknown {
+	if (value === undefined) return undefined;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return undefined;
+	}
+}
+
+function pick(
+	values: Record<string, unknown>,
+	names: string[],
+): string | undefined {
+	for (const name of names) {
+		const value = asString(values[name]);
+		if (value) return value;
+	}
+	return undefined;
+}
+
+// Fields read into the node and edge columns, by the names used for them
+const NODE_NAME_FIELDS = ["name", "label", "schema:name"];
+const NODE_TYPE_FIELDS = ["nodeType", "type", "category"];
+const NODE_SUMMARY_FIELDS = ["summary", "description", "schema:description"];
+const EDGE_TYPE_FIELDS = ["edgeType", "relationType", "relation", "label"];
+const EDGE_FACT_FIELDS = ["factText", "fact", "description"];
+const KNOWN_FIELDS = new Set([
+	...NODE_NAME_FIELDS,
+	...NODE_TYPE_FIELDS,
+	...NODE_SUMMARY_FIELDS,
+	...EDGE_TYPE_FIELDS,
+	...EDGE_FACT_FIELDS,
+	"attributes",
+	"provenance",
+	"graph",
+	"createdAt",
+	"validAt",
+	"invalidAt",
+	"isCurrent",
+	"recordedAt",
+]);
+
+/**
+ * Build a node from its fields; fields outside the known ones are kept as
+ * attributes so data from other tools is not lost
+ */
+function toNode(id: string, fields: Record<string, unknown>): PortableNode {
+	const extra = Object.fromEntries(
+		Object.entries(fields).filter(
+			([key]) => !KNOWN_FIELDS.has(key) && !key.startsWith("@"),
+		),
+	);
+	return {
+		id,
+		name: pick(fields, NODE_NAME_FIELDS) ?? id,
+		nodeType: pick(fields, NODE_TYPE_FIELDS) ?? DEFAULT_NODE_TYPE,
+		summary: pick(fields, NODE_SUMMARY_FIELDS),
+		attributes: { ...extra, ...asRecord(fields.attributes) },
+	};
+}
+
+function toEdge(
+	id: string,
+	sourceId: string,
+	destinationId: string,
+	fields: Record<string, unknown>,
+): PortableEdge {
+	const extra = Object.fromEntries(
+		Object.entries(fields).filter(
+			([key]) => !KNOWN_FIELDS.has(key) && !key.startsWith("@"),
+		),
+	);
+	return {
+		id,
+		sourceId,
+		destinationId,
+		edgeType: pick(fields, EDGE_TYPE_FIELDS) ?? DEFAULT_EDGE_TYPE,
+		factText: pick(fields, EDGE_FACT_FIELDS),
+		validAt: asDate(fields.validAt, id),
+		invalidAt: asDate(fields.invalidAt, id),
+		isCurrent: asBoolean(fields.isCurrent),
+		attributes: { ...extra, ...asRecord(fields.attributes) },
+	};
+}
+
+function parseGraphML(content: string): PortableGraph {
+	const doc = new DOMParser().parseFromString(content, "application/xml");
+	if (doc.getElementsByTagName("parsererror").length > 0) {
+		throw new Error("The file is not valid GraphML");
+	}
+
+	// Keys map data ids (often d0, d1...) to attribute names
+	const keyNames = new Map<string, string>();
+	for (const key of Array.from(doc.getElementsByTagName("key"))) {
+		const id = key.getAttribute("id");
+		if (id) keyNames.set(id, key.getAttribute("attr.name") || id);
+	}
+
+	const readData = (element: Element) => {
+		const fields: Record<string, unknown> = {};
+		for (const data of Array.from(element.children)) {
+			if (data.localName !== "data") continue;
+			const key = data.getAttribute("key") || "";
+			const name = keyNames.get(key) || key;
+			const text = data.textContent ?? "";
+			fields[name] =
+				name === "attributes" || name === "provenance"
+					? parseJsonField(text)
+					: text;
+		}
+		return fields;
+	};
+
+	const nodes = Array.from(doc.getElementsByTagName("node")).flatMap(
+		(element) => {
+			const id = element.getAttribute("id");
+			return id ? [toNode(id, readData(element))] : [];
+		},
+	);
+	const edges = Array.from(doc.getElementsByTagName("edge")).flatMap(
+		(element, index) => {
+			const source = element.getAttribute("source");
+			const target = element.getAttribute("target");
+			if (!source || !target) return [];
+			return [
+				toEdge(
+					element.getAttribute("id") || `edge-${index}`,
+					source,
+					target,
+					readData(element),
+				),
+			];
+		},
+	);
+	return { nodes, edges };
+}
+
+function jsonLdRef(value: unknown): string | undefined {
+	if (typeof value === "string") return value;
+	const id = asRecord(value)["@id"];
+	return typeof id === "string" ? id : undefined;
+}
+
+function parseJSONLD(content: string): PortableGraph {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch {
+		throw new Error("The file is not valid JSON-LD");
+	}
+
+	const items = Array.isArray(parsed)
+		? parsed
+		: (asRecord(parsed)["@graph"] as unknown[] | undefined);
+	if (!Array.isArray(items)) {
+		throw new Error("The JSON-LD document has no @graph");
+	}
+
+	const nodes: PortableNode[] = [];
+	const edges: PortableEdge[] = [];
+	for (const [index, value] of items.entries()) {
+		const item = asRecord(value);
+		const id = jsonLdRef(item) ?? `item-${index}`;
+		const source = jsonLdRef(item.source);
+		const target = jsonLdRef(item.target);
+		if (source && target) {
+			edges.push(toEdge(id, source, target, item));
+		} else {
+			nodes.push(toNode(id, item));
+		}
+	}
+	return { nodes, edges };
+}
+
+export function parseGraph(
+	content: string,
+	format: GraphImportFormat,
+): PortableGraph {
+	const graph =
+		format === "graphml" ? parseGraphML(content) : parseJSONLD(content);
+
+	// Edges must link nodes of the same document
+	const nodeIds = new Set(graph.nodes.map((node) => node.id));
+	return {
+		nodes: graph.nodes,
+		edges: graph.edges.filter(
+			(edge) => nodeIds.has(edge.sourceId) && nodeIds.has(edge.destinationId),
+		),
+	};
+}
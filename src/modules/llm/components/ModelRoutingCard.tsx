@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Route } from "lucide-react";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { serviceManager } from "@/services";
+import { PROVIDER_TO_SERVICE } from "@/services/llm/constants";
+import type {
+	CurrentModelInfo,
+	ModelRole,
+	ModelRouting,
+	ServiceProvider,
+} from "@/services/llm/interfaces/llm-service.interface";
+import { logError, logWarn } from "@/utils/logger";
+
+const ROLES: { role: ModelRole; label: string; hint: string }[] = [
+	{
+		role: "extraction",
+		label: "Extraction",
+		hint: "Entities, facts and dates from remembered pages",
+	},
+	{
+		role: "resolution",
+		label: "Resolution",
+		hint: "Merging duplicates and spotting contradictions",
+	},
+	{ role: "rag_answer", label: "Knowledge answers", hint: "Knowledge chat" },
+	{ role: "chat", label: "Chat", hint: "Normal and agent chat" },
+	{ role: "title", label: "Titles", hint: "Conversation titles" },
+];
+
+// Empty slot: the role falls through to the next model
+const NONE = "__none__";
+
+const toValue = (model: CurrentModelInfo) =>
+	`${model.serviceName}::${model.modelId}`;
+
+/**
+ * Picks a primary and a fallback model for each kind of work. Roles without
+ * a loaded model use the current model.
+ */
+export const ModelRoutingCard: React.FC = () => {
+	const [options, setOptions] = useState<CurrentModelInfo[] | null>(null);
+	const [routing, setRouting] = useState<ModelRouting>({});
+	const [saving, setSaving] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	useEffect(() => {
+		const llm = serviceManager.llmService;
+		const load = async () => {
+			const models: CurrentModelInfo[] = [];
+			for (const serviceName of llm.list()) {
+				const provider = (Object.entries(PROVIDER_TO_SERVICE).find(
+					([, name]) => name === serviceName,
+				)?.[0] ?? serviceName) as ServiceProvider;
+				try {
+					const { data } = await llm.modelsFor(serviceName);
+					for (const model of data) {
+						models.push({ modelId: model.id, provider, serviceName });
+					}
+				} catch (error) {
+					logWarn(`[MODEL_ROUTING] Failed to list ${serviceName}:`, error);
+				}
+			}
+
+			// Keep routed models selectable even when their service is offline
+			const stored = await llm.getModelRouting();
+			for (const model of Object.values(stored).flat()) {
+				if (model && !models.some((m) => toValue(m) === toValue(model))) {
+					models.push(model);
+				}
+			}
+			setRouting(stored);
+			setOptions(models);
+		};
+		load().catch((error) => {
+			logError("[MODEL_ROUTING] Failed to load model routing:", error);
+			setOptions([]);
+		});
+	}, []);
+
+	const updateSlot = (role: ModelRole, slot: number, value: string) => {
+		setRouting((prev) => {
+			const models = [...(prev[role] || [])];
+			const model = options?.find((m) => toValue(m) === value);
+			if (model) {
+				models[slot] = model;
+			} else {
+				models.splice(slot, 1);
+			}
+			return { ...prev, [role]: models.filter(Boolean) };
+		});
+	};
+
+	const handleSave = async () => {
+		try {
+			setSaving(true);
+			setStatus(null);
+			await serviceManager.llmService.setModelRouting(routing);
+			setStatus("Saved");
+		} catch (error) {
+			logError("[MODEL_ROUTING] Failed to save model routing:", error);
+			setStatus(
+				`Save failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Card className="rounded-none md:rounded-lg" data-copilot="model-routing">
+			<CardHeader className="p-3 pb-0">
+				<CardTitle className="flex items-center gap-2">
+					<Route size={20} />
+					Model Routing
+				</CardTitle>
+				<CardDescription>
+					Run each kind of work on its own model. Unloaded models are skipped
+					and the current model is used last.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="p-3 space-y-3">
+				{options === null ? (
+					<Loader2 className="h-4 w-4 animate-spin" />
+				) : (
+					ROLES.map(({ role, label, hint }) => (
+						<div
+							key={role}
+							className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center"
+						>
+							<div>
+								<div className="text-sm font-medium">{label}</div>
+								<div className="text-xs text-muted-foreground">{hint}</div>
+							</div>
+							{[0, 1].map((slot) => {
+								const selected = routing[role]?.[slot];
+								return (
+									<Select
+										key={slot}
+										value={selected ? toValue(selected) : NONE}
+										onValueChange={(value) => updateSlot(role, slot, value)}
+										disabled={slot === 1 && !routing[role]?.[0]}
+									>
+										<SelectTrigger className="w-full">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value={NONE}>
+												{slot === 0 ? "Current model" : "No fallback"}
+											</SelectItem>
+											{options.map((model) => (
+												<SelectItem key={toValue(model)} value={toValue(model)}>
+													{model.modelId} ({model.serviceName})
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								);
+							})}
+						</div>
+					))
+				)}
+				<div className="flex items-center gap-2">
+					<Button
+						size="sm"
+						onClick={handleSave}
+						disabled={options === null || saving}
+					>
+						{saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+						Save routing
+					</Button>
+					{status && (
+						<span className="text-xs text-muted-foreground">{status}</span>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
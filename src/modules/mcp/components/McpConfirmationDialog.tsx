@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { sharedStorageService } from "@/services/shared-storage";
+import {
+	mcpService,
+	MCP_CONFIRMATION_REQUEST_KEY,
+	type McpConfirmationRequest,
+} from "../services";
+import { logError } from "@/utils/logger";
+
+/**
+ * Prompts the user to approve MCP tool calls requested by the agent
+ */
+export const McpConfirmationDialog: React.FC = () => {
+	const [request, setRequest] = useState<McpConfirmationRequest | null>(null);
+	const [responding, setResponding] = useState(false);
+
+	useEffect(() => {
+		// Pick up a request that was raised before this view was opened
+		sharedStorageService
+			.get<McpConfirmationRequest>(MCP_CONFIRMATION_REQUEST_KEY)
+			.then((pending) => setRequest(pending))
+			.catch(() => {});
+
+		return sharedStorageService.subscribe<McpConfirmationRequest>(
+			MCP_CONFIRMATION_REQUEST_KEY,
+			(event) => setRequest(event.newValue),
+		);
+	}, []);
+
+	const respond = async (approved: boolean) => {
+		if (!request) return;
+		try {
+			setResponding(true);
+			await mcpService.respondToConfirmation(request.id, approved);
+			setRequest(null);
+		} catch (error) {
+			logError("[MCP_CONFIRMATION] Failed to respond:", error);
+		} finally {
+			setResponding(false);
+		}
+	};
+
+	return (
+		<Dialog
+			open={!!request}
+			onOpenChange={(open) => {
+				if (!open) respond(false);
+			}}
+		>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<ShieldAlert className="w-5 h-5 text-primary" />
+						Allow tool call?
+					</DialogTitle>
+					<DialogDescription>
+						The agent wants to call <strong>{request?.toolName}</strong> on the
+						MCP server <strong>{request?.serverName}</strong>.
+					</DialogDescription>
+				</DialogHeader>
+				<pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+					{JSON.stringify(request?.args ?? {}, null, 2)}
+				</pre>
+				<DialogFooter>
+					<Button
+						variant="outline"
+						onClick={() => respond(false)}
+						disabled={responding}
+					>
+						Deny
+					</Button>
+					<Button onClick={() => respond(true)} disabled={responding}>
+						Allow
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -0,0 +1,15 @@
+export {
+	mcpService,
+	getMcpToolName,
+	DEFAULT_MCP_TOOL_SETTINGS,
+	MCP_CONFIRMATION_REQUEST_KEY,
+	MCP_TOOL_PREFIX,
+} from "./mcp-service";
+export type {
+	McpTransport,
+	McpToolSettings,
+	McpDiscoveredTool,
+	McpServerConfig,
+	McpServerInput,
+	McpConfirmationRequest,
+} from "./mcp-service";
@@ -0,0 +1,468 @@
+import { eq } from "drizzle-orm";
+import z from "zod";
+import { MultiServerMCPClient } from "@langchain/mcp-adapters";
+import { serviceManager } from "@/services";
+import { sharedStorageService } from "@/services/shared-storage";
+import {
+	registerRuntimeTool,
+	unregisterRuntimeTools,
+} from "@/services/flows/tools";
+import { logError, logInfo, logWarn } from "@/utils/logger";
+
+export type McpTransport = "http" | "sse";
+
+export interface McpToolSettings {
+	enabled: boolean;
+	requireConfirmation: boolean;
+}
+
+export interface McpDiscoveredTool {
+	name: string;
+	description: string;
+	inputSchema: Record<string, unknown>;
+}
+
+export interface McpServerConfig {
+	id: string;
+	name: string;
+	url: string;
+	transport: McpTransport;
+	enabled: boolean;
+	headers?: Record<string, string>;
+	tools: Record<string, McpToolSettings>;
+	discoveredTools?: McpDiscoveredTool[];
+	lastSyncedAt?: string;
+	lastError?: string;
+}
+
+export interface McpServerInput {
+	name: string;
+	url: string;
+	transport: McpTransport;
+	headers?: Record<string, string>;
+}
+
+export interface McpConfirmationRequest {
+	id: string;
+	serverName: string;
+	toolName: string;
+	args: Record<string, unknown>;
+	requestedAt: number;
+}
+
+export interface McpConfirmationResponse {
+	id: string;
+	approved: boolean;
+}
+
+export const MCP_SERVERS_KEY = "mcp_servers";
+export const MCP_CONFIRMATION_REQUEST_KEY = "mcp_confirmation_request";
+export const MCP_CONFIRMATION_RESPONSE_KEY = "mcp_confirmation_response";
+export const MCP_TOOL_PREFIX = "mcp__";
+
+// Pending confirmations are declined when nobody answers in time
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_TOOL_NAME_LENGTH = 64;
+// Hosts the manifest grants access to
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1"];
+
+export const DEFAULT_MCP_TOOL_SETTINGS: McpToolSettings = {
+	enabled: true,
+	requireConfirmation: true,
+};
+
+function slugify(value: string): string {
+	return value.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Name under which an MCP tool is exposed to the agent
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+	return `${MCP_TOOL_PREFIX}${slugify(serverName)}__${slugify(toolName)}`.slice(
+		0,
+		MAX_TOOL_NAME_LENGTH,
+	);
+}
+
+function stringifyToolResult(result: unknown): string {
+	if (typeof result === "string") return result;
+	if (Array.isArray(result)) {
+		return result
+			.map((part) =>
+				typeof part === "object" && part && "text" in part
+					? String(part.text)
+					: JSON.stringify(part),
+			)
+			.join("\n");
+	}
+	return JSON.stringify(result);
+}
+
+export class McpService {
+	private static instance: McpService;
+	private clients = new Map<string, MultiServerMCPClient>();
+	private loadedSignature: string | null = null;
+	private loadedToolNames: string[] = [];
+
+	static getInstance(): McpService {
+		if (!McpService.instance) {
+			McpService.instance = new McpService();
+		}
+		return McpService.instance;
+	}
+
+	/**
+	 * Get all configured MCP servers
+	 */
+	async getServers(): Promise<McpServerConfig[]> {
+		const rows = await serviceManager.databaseService.use(
+			async ({ db, schema }) => {
+				return db
+					.select()
+					.from(schema.configurations)
+					.where(eq(schema.configurations.key, MCP_SERVERS_KEY))
+					.limit(1);
+			},
+		);
+
+		const servers = rows[0]?.data?.servers;
+		return Array.isArray(servers) ? (servers as McpServerConfig[]) : [];
+	}
+
+	private async saveServers(servers: McpServerConfig[]): Promise<void> {
+		await serviceManager.databaseService.use(async ({ db, schema }) => {
+			const existing = await db
+				.select()
+				.from(schema.configurations)
+				.where(eq(schema.configurations.key, MCP_SERVERS_KEY))
+				.limit(1);
+
+			if (existing.length > 0) {
+				await db
+					.update(schema.configurations)
+					.set({
+						data: { servers },
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.configurations.key, MCP_SERVERS_KEY));
+			} else {
+				await db.insert(schema.configurations).values({
+					key: MCP_SERVERS_KEY,
+					data: { servers },
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				});
+			}
+		});
+	}
+
+	private validateServer(input: McpServerInput): void {
+		if (!input.name.trim()) {
+			throw new Error("Server name is required");
+		}
+
+		let url: URL;
+		try {
+			url = new URL(input.url);
+		} catch {
+			throw new Error(`Invalid server URL: ${input.url}`);
+		}
+		if (!["http:", "https:"].includes(url.protocol)) {
+			throw new Error("Server URL must use http or https");
+		}
+		if (!LOCAL_HOSTNAMES.includes(url.hostname)) {
+			throw new Error("Only MCP servers running on localhost are supported");
+		}
+	}
+
+	/**
+	 * Register a new MCP server
+	 */
+	async addServer(input: McpServerInput): Promise<McpServerConfig> {
+		this.validateServer(input);
+
+		const servers = await this.getServers();
+		if (servers.some((server) => server.name === input.name.trim())) {
+			throw new Error(`An MCP server named "${input.name}" already exists`);
+		}
+
+		const server: McpServerConfig = {
+			id: crypto.randomUUID(),
+			name: input.name.trim(),
+			url: input.url.trim(),
+			transport: input.transport,
+			enabled: true,
+			headers: input.headers,
+			tools: {},
+		};
+		await this.saveServers([...servers, server]);
+
+		logInfo("[MCP_SERVICE] Added server:", server.name);
+		return server;
+	}
+
+	/**
+	 * Update connection settings or the enabled flag of a server
+	 */
+	async updateServer(
+		id: string,
+		updates: Partial<McpServerInput> & { enabled?: boolean },
+	): Promise<McpServerConfig> {
+		const servers = await this.getServers();
+		const server = servers.find((item) => item.id === id);
+		if (!server) {
+			throw new Error(`MCP server ${id} not found`);
+		}
+
+		const updated: McpServerConfig = { ...server, ...updates };
+		this.validateServer(updated);
+		await this.saveServers(
+			servers.map((item) => (item.id === id ? updated : item)),
+		);
+		return updated;
+	}
+
+	/**
+	 * Remove a server and its tool settings
+	 */
+	async removeServer(id: string): Promise<void> {
+		const servers = await this.getServers();
+		await this.saveServers(servers.filter((server) => server.id !== id));
+		logInfo("[MCP_SERVICE] Removed server:", id);
+	}
+
+	/**
+	 * Update enable/confirmation settings of a single tool
+	 */
+	async setToolSettings(
+		serverId: string,
+		toolName: string,
+		settings: Partial<McpToolSettings>,
+	): Promise<McpServerConfig> {
+		const servers = await this.getServers();
+		const server = servers.find((item) => item.id === serverId);
+		if (!server) {
+			throw new Error(`MCP server ${serverId} not found`);
+		}
+
+		const updated: McpServerConfig = {
+			...server,
+			tools: {
+				...server.tools,
+				[toolName]: {
+					...DEFAULT_MCP_TOOL_SETTINGS,
+					...server.tools[toolName],
+					...settings,
+				},
+			},
+		};
+		await this.saveServers(
+			servers.map((item) => (item.id === serverId ? updated : item)),
+		);
+		return updated;
+	}
+
+	private createClient(server: McpServerConfig): MultiServerMCPClient {
+		return new MultiServerMCPClient({
+			mcpServers: {
+				[server.id]: {
+					transport: server.transport,
+					url: server.url,
+					headers: server.headers,
+					automaticSSEFallback: server.transport === "http",
+				},
+			},
+			throwOnLoadError: true,
+			prefixToolNameWithServerName: false,
+			useStandardContentBlocks: false,
+		});
+	}
+
+	/**
+	 * Connect to a server, list its tools and store them with default settings
+	 */
+	async discoverTools(serverId: string): Promise<McpServerConfig> {
+		const servers = await this.getServers();
+		const server = servers.find((item) => item.id === serverId);
+		if (!server) {
+			throw new Error(`MCP server ${serverId} not found`);
+		}
+
+		const client = this.createClient(server);
+		let updated: McpServerConfig;
+		try {
+			const tools = await client.getTools();
+			const discoveredTools: McpDiscoveredTool[] = tools.map((tool) => ({
+				name: tool.name,
+				description: tool.description,
+				inputSchema: tool.schema as Record<string, unknown>,
+			}));
+
+			updated = {
+				...server,
+				discoveredTools,
+				tools: Object.fromEntries(
+					discoveredTools.map((tool) => [
+						tool.name,
+						server.tools[tool.name] ?? { ...DEFAULT_MCP_TOOL_SETTINGS },
+					]),
+				),
+				lastSyncedAt: new Date().toISOString(),
+				lastError: undefined,
+			};
+			logInfo(
+				`[MCP_SERVICE] Discovered ${discoveredTools.length} tools on ${server.name}`,
+			);
+		} catch (error) {
+			logError(
+				`[MCP_SERVICE] Failed to discover tools on ${server.name}:`,
+				error,
+			);
+			updated = {
+				...server,
+				lastError: error instanceof Error ? error.message : String(error),
+			};
+		} finally {
+			await client.close().catch(() => {});
+		}
+
+		await this.saveServers(
+			servers.map((item) => (item.id === serverId ? updated : item)),
+		);
+		return updated;
+	}
+
+	/**
+	 * Connect to enabled servers and expose their enabled tools to the agent
+	 * Only reconnects when the server configuration changed since the last load
+	 * or a server could not be reached then
+	 */
+	async loadRuntimeTools(): Promise<string[]> {
+		const servers = (await this.getServers()).filter(
+			(server) => server.enabled,
+		);
+		const signature = JSON.stringify(
+			servers.map(({ id, name, enabled, url, transport, headers, tools }) => ({
+				id,
+				name,
+				enabled,
+				url,
+				transport,
+				headers,
+				tools,
+			})),
+		);
+		if (signature === this.loadedSignature) {
+			return this.loadedToolNames;
+		}
+
+		await this.closeClients();
+		unregisterRuntimeTools(MCP_TOOL_PREFIX);
+		const toolNames: string[] = [];
+		let unreachable = 0;
+
+		for (const server of servers) {
+			const client = this.createClient(server);
+			try {
+				const tools = await client.getTools();
+				for (const tool of tools) {
+					const settings = server.tools[tool.name] ?? DEFAULT_MCP_TOOL_SETTINGS;
+					if (!settings.enabled) continue;
+
+					const name = getMcpToolName(server.name, tool.name);
+					registerRuntimeTool({
+						name,
+						description: `[${server.name}] ${tool.description}`,
+						schema: z.record(z.string(), z.unknown()),
+						parameters: tool.schema as Record<string, unknown>,
+						execute: async (input: Record<string, unknown>) => {
+							if (settings.requireConfirmation) {
+								const approved = await this.requestConfirmation({
+									id: crypto.randomUUID(),
+									serverName: server.name,
+									toolName: tool.name,
+									args: input,
+									requestedAt: Date.now(),
+								});
+								if (!approved) {
+									return `The user declined the call to "${tool.name}".`;
+								}
+							}
+							return stringifyToolResult(await tool.invoke(input));
+						},
+					});
+					toolNames.push(name);
+				}
+				this.clients.set(server.id, client);
+			} catch (error) {
+				logWarn(
+					`[MCP_SERVICE] Skipping unreachable server ${server.name}:`,
+					error,
+				);
+				await client.close().catch(() => {});
+				unreachable++;
+			}
+		}
+
+		// Leave the signature unset so unreachable servers are retried next time
+		this.loadedSignature = unreachable === 0 ? signature : null;
+		this.loadedToolNames = toolNames;
+		logInfo("[MCP_SERVICE] Loaded runtime tools:", toolNames);
+		return toolNames;
+	}
+
+	private async closeClients(): Promise<void> {
+		for (const client of this.clients.values()) {
+			await client.close().catch(() => {});
+		}
+		this.clients.clear();
+		this.loadedSignature = null;
+		this.loadedToolNames = [];
+	}
+
+	/**
+	 * Ask the UI to approve a tool call and wait for the answer
+	 */
+	private requestConfirmation(
+		request: McpConfirmationRequest,
+	): Promise<boolean> {
+		return new Promise<boolean>((resolve) => {
+			const finish = (approved: boolean) => {
+				clearTimeout(timer);
+				unsubscribe();
+				void sharedStorageService.remove(MCP_CONFIRMATION_REQUEST_KEY);
+				logInfo(
+					`[MCP_SERVICE] Tool call ${request.toolName} ${approved ? "approved" : "declined"}`,
+				);
+				resolve(approved);
+			};
+
+			const unsubscribe =
+				sharedStorageService.subscribe<McpConfirmationResponse>(
+					MCP_CONFIRMATION_RESPONSE_KEY,
+					(event) => {
+						if (event.newValue?.id === request.id) {
+							finish(event.newValue.approved);
+						}
+					},
+				);
+			const timer = setTimeout(() => finish(false), CONFIRMATION_TIMEOUT_MS);
+
+			void sharedStorageService.set(MCP_CONFIRMATION_REQUEST_KEY, request);
+		});
+	}
+
+	/**
+	 * Answer a pending tool call confirmation
+	 */
+	async respondToConfirmation(id: string, approved: boolean): Promise<void> {
+		await sharedStorageService.set<McpConfirmationResponse>(
+			MCP_CONFIRMATION_RESPONSE_KEY,
+			{ id, approved },
+		);
+	}
+}
+
+// Export singleton instance
+export const mcpService = McpService.getInstance();
@@ -1,8 +1,13 @@
-import { desc, eq, like, and, or } from "drizzle-orm";
-import { logError, logInfo } from "@/utils/logger";
+import { desc, eq, like, and, or, inArray } from "drizzle-orm";
+import { logError, logInfo, logWarn } from "@/utils/logger";
 import { logger } from "@/utils/logger";
 import { serviceManager } from "@/services";
-import type { RememberedContent, Source } from "@/services/database/db";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
+import type {
+	RememberedContent,
+	RememberedContentRevision,
+	Source,
+} from "@/services/database/db";
 import type {
 	PageMetadata,
 	ReadabilityArticle,
@@ -11,6 +16,13 @@ import type {
 	UserInputMetadata,
 } from "@/types/remember-this";
 import type { KnowledgeGraphState } from "@/services/flows/graph/knowledge/state";
+import { chunkByTokens } from "@/utils/map-refine";
+import {
+	diffParagraphs,
+	hasChanges,
+	splitParagraphs,
+	type ParagraphDiff,
+} from "@/utils/paragraph-diff";
 
 export interface SavePageData {
 	html: string;
@@ -40,8 +52,18 @@ export interface SaveContentData {
 	topicId?: string;
 }
 
+export type SearchMode = "keyword" | "hybrid";
+
+export interface HybridSearchWeights {
+	vector: number;
+	trigram: number;
+	fullText: number;
+}
+
 export interface SearchOptions {
 	query?: string;
+	mode?: SearchMode;
+	weights?: Partial<HybridSearchWeights>;
 	tags?: string[];
 	isArchived?: boolean;
 	isFavorite?: boolean;
@@ -51,12 +73,56 @@ export interface SearchOptions {
 	sortOrder?: "asc" | "desc";
 }
 
+export interface PageSearchScore {
+	score: number;
+	vectorScore: number;
+	trigramScore: number;
+	fullTextScore: number;
+	snippet: string; // Matched terms wrapped in HIGHLIGHT_START / HIGHLIGHT_END
+}
+
 export interface SearchResult {
 	pages: RememberedContent[];
 	total: number;
 	hasMore: boolean;
+	scores?: Record<string, PageSearchScore>; // Keyed by page id, hybrid mode only
 }
 
+export const DEFAULT_HYBRID_WEIGHTS: HybridSearchWeights = {
+	vector: 0.5,
+	trigram: 0.2,
+	fullText: 0.3,
+};
+
+// Markers used by ts_headline around matched terms in snippets
+export const HIGHLIGHT_START = "[[[";
+export const HIGHLIGHT_END = "]]]";
+
+// Minimum per-method scores for a page to count as a match
+const MIN_VECTOR_SCORE = 0.3;
+const MIN_TRIGRAM_SCORE = 0.1;
+// Text used to embed a page is capped to keep embedding requests small
+const EMBEDDING_TEXT_LENGTH = 2000;
+
+type DatabaseContext = Parameters<
+	Parameters<typeof serviceManager.databaseService.use>[0]
+>[0];
+
+// Case-insensitive match of a name as a whole word, so "Go" does not match
+// inside "good"
+const mentionPattern = (name: string) =>
+	new RegExp(
+		`(?<![\\p{L}\\p{N}])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`,
+		"iu",
+	);
+
+// Chunks of ~384 tokens with overlap, sized for passage embeddings
+const CHUNK_OPTIONS = {
+	maxModelTokens: 512,
+	maxResponseTokens: 0,
+	overlapTokens: 48,
+};
+
 export class RememberService {
 	private static instance: RememberService;
 	private initialized = false;
@@ -93,6 +159,12 @@ export class RememberService {
 				await this.initialize();
 			}
 
+			// A re-visit of a remembered URL updates it in place
+			const existing = await this.findByUrl(data.url);
+			if (existing) {
+				return await this.saveRevision(existing, data);
+			}
+
 			logInfo("🔄 Processing page, saving to DB first:", data.url);
 
 			// ALWAYS save the basic page data first, regardless of any other failures
@@ -138,6 +210,209 @@ export class RememberService {
 		return basicResponse;
 	}
 
+	/**
+	 * Update a page that was remembered before. Only paragraphs added since
+	 * the last revision go through the knowledge graph flow, and facts that
+	 * only removed paragraphs supported are invalidated.
+	 */
+	private async saveRevision(
+		existing: RememberedContent,
+		data: SavePageData,
+	): Promise<RememberThisResponse> {
+		const diff = diffParagraphs(existing.content, data.article.textContent);
+		if (!hasChanges(diff) && existing.title === data.title) {
+			logInfo("⏭️ Page unchanged since it was remembered:", data.url);
+			return { success: true, pageId: existing.id };
+		}
+
+		logInfo("🔄 Page changed since it was remembered:", {
+			url: data.url,
+			added: diff.added.length,
+			removed: diff.removed.length,
+		});
+
+		const contentData = this.transformLegacyData(data);
+		const embedding = await this.embedContent(
+			contentData.title,
+			contentData.textContent,
+		);
+
+		// Page, invalidated facts and revision change together or not at all
+		let page: RememberedContent;
+		try {
+			page = await serviceManager.databaseService.transaction(async (tx) => {
+				const updated = await this.writePage(
+					tx,
+					existing.id,
+					contentData,
+					embedding,
+				);
+				const invalidatedEdgeCount = await this.invalidateUnsupportedFacts(
+					tx,
+					existing.id,
+					diff.removed,
+					contentData.textContent,
+				);
+				await this.recordRevision(
+					tx,
+					existing,
+					data,
+					diff,
+					invalidatedEdgeCount,
+				);
+				return updated;
+			});
+		} catch (error) {
+			logError("❌ Failed to save page revision:", error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : "Failed to update page",
+			};
+		}
+
+		await this.saveContentChunks(
+			existing.id,
+			contentData.textContent,
+			page.topicId ?? undefined,
+		);
+		logInfo("✅ Page updated successfully:", existing.id);
+
+		if (diff.added.length > 0) {
+			await this.processKnowledgeGraph(
+				data,
+				existing.id,
+				diff.added.join("\n\n"),
+			);
+		}
+
+		return { success: true, pageId: existing.id };
+	}
+
+	/**
+	 * Append a revision. Pages remembered before revisions were kept get
+	 * their stored version recorded as the first revision.
+	 */
+	private async recordRevision(
+		{ db, schema }: DatabaseContext,
+		existing: RememberedContent,
+		data: SavePageData,
+		diff: ParagraphDiff,
+		invalidatedEdgeCount: number,
+	): Promise<void> {
+		const [latest] = await db
+			.select({ revision: schema.rememberedContentRevisions.revision })
+			.from(schema.rememberedContentRevisions)
+			.where(eq(schema.rememberedContentRevisions.contentId, existing.id))
+			.orderBy(desc(schema.rememberedContentRevisions.revision))
+			.limit(1);
+
+		let revision = latest?.revision ?? 0;
+		if (!latest) {
+			revision = 1;
+			await db.insert(schema.rememberedContentRevisions).values({
+				contentId: existing.id,
+				revision,
+				title: existing.title,
+				content: existing.content,
+			});
+		}
+
+		await db.insert(schema.rememberedContentRevisions).values({
+			contentId: existing.id,
+			revision: revision + 1,
+			title: data.title,
+			content: data.article.textContent,
+			diff: { added: diff.added, removed: diff.removed },
+			addedCount: diff.added.length,
+			removedCount: diff.removed.length,
+			invalidatedEdgeCount,
+		});
+	}
+
+	/**
+	 * Invalidate facts of this page that a removed paragraph supported and
+	 * the new content no longer does. A fact counts as supported by a
+	 * paragraph that mentions both of its entities as whole words. Facts
+	 * that other sources also back are left alone.
+	 */
+	private async invalidateUnsupportedFacts(
+		{ db, schema, raw }: DatabaseContext,
+		pageId: string,
+		removed: string[],
+		content: string,
+	): Promise<number> {
+		if (removed.length === 0) return 0;
+
+		const currentParagraphs = splitParagraphs(content);
+		const supports = (paragraphs: string[], names: RegExp[]) =>
+			paragraphs.some((paragraph) =>
+				names.every((name) => name.test(paragraph)),
+			);
+
+		const result = (await raw(
+			`SELECT e.id, sn.name AS source_name, dn.name AS destination_name
+			FROM sources s
+			JOIN source_edges se ON se.source_id = s.id
+			JOIN edges e ON e.id = se.edge_id
+			JOIN nodes sn ON sn.id = e.source_id
+			JOIN nodes dn ON dn.id = e.destination_id
+			WHERE s.target_type = 'remembered_pages'
+				AND s.target_id = $1
+				AND coalesce(e.is_current, true)
+				AND NOT EXISTS (
+					SELECT 1 FROM source_edges other
+					WHERE other.edge_id = e.id AND other.source_id <> s.id
+				)`,
+			[pageId],
+		)) as {
+			rows: Array<{
+				id: string;
+				source_name: string;
+				destination_name: string;
+			}>;
+		};
+
+		const unsupported = result.rows
+			.filter((row) => {
+				const names = [row.source_name, row.destination_name].map(
+					mentionPattern,
+				);
+				return supports(removed, names) && !supports(currentParagraphs, names);
+			})
+			.map((row) => row.id);
+
+		if (unsupported.length > 0) {
+			const now = new Date();
+			await db
+				.update(schema.edges)
+				.set({ invalidAt: now, isCurrent: false, updatedAt: now })
+				.where(inArray(schema.edges.id, unsupported));
+			logInfo(
+				`🗑️ Invalidated ${unsupported.length} facts no longer on page:`,
+				pageId,
+			);
+		}
+		return unsupported.length;
+	}
+
+	/**
+	 * Revision history of a remembered page, newest first
+	 */
+	async getRevisions(contentId: string): Promise<RememberedContentRevision[]> {
+		try {
+			return await serviceManager.databaseService.use(async ({ db, schema }) =>
+				db
+					.select()
+					.from(schema.rememberedContentRevisions)
+					.where(eq(schema.rememberedContentRevisions.contentId, contentId))
+					.orderBy(desc(schema.rememberedContentRevisions.revision)),
+			);
+		} catch (error) {
+			logError("❌ Failed to load page revisions:", error);
+			return [];
+		}
+	}
+
 	/**
 	 * Save content directly (for selections, user input, etc.)
 	 */
@@ -169,6 +444,7 @@ export class RememberService {
 				isArchived: false,
 				isFavorite: false,
 				topicId: data.topicId,
+				embedding: await this.embedContent(data.title, data.textContent),
 			};
 
 			logInfo("🔍 newContent object topicId:", newContent.topicId);
@@ -186,6 +462,8 @@ export class RememberService {
 
 			logInfo("✅ Content saved successfully:", result.id);
 
+			await this.saveContentChunks(result.id, data.textContent, data.topicId);
+
 			// For non-webpage content, optionally process through knowledge graph
 			if (data.sourceType !== "webpage" && data.textContent.length > 100) {
 				logInfo(
@@ -209,6 +487,81 @@ export class RememberService {
 		}
 	}
 
+	/**
+	 * Embed title and leading text for semantic search, skipped when no model is ready
+	 */
+	private async embedContent(
+		title: string,
+		text: string,
+	): Promise<number[] | undefined> {
+		try {
+			return await serviceManager.embeddingService.textToVector(
+				`${title}\n\n${text.slice(0, EMBEDDING_TEXT_LENGTH)}`,
+			);
+		} catch (error) {
+			logWarn("⚠️ Failed to embed content, saving without embedding:", error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Split content into passages and store them with embeddings,
+	 * replacing chunks from a previous save
+	 */
+	private async saveContentChunks(
+		contentId: string,
+		text: string,
+		topicId?: string,
+	): Promise<void> {
+		try {
+			const chunks = chunkByTokens(text, CHUNK_OPTIONS);
+
+			// Recover character offsets; overlapping chunks start inside the previous one
+			let searchFrom = 0;
+			const rows = chunks.map((chunk, ordinal) => {
+				const found = text.indexOf(chunk, searchFrom);
+				const startOffset = found >= 0 ? found : searchFrom;
+				searchFrom = startOffset + 1;
+				return {
+					contentId,
+					ordinal,
+					text: chunk,
+					startOffset,
+					endOffset: startOffset + chunk.length,
+					topicId,
+				};
+			});
+
+			let embeddings: number[][] = [];
+			try {
+				embeddings = await serviceManager.embeddingService.textsToVectors(
+					rows.map((row) => row.text),
+				);
+			} catch (error) {
+				logWarn("⚠️ Failed to embed chunks, saving without embeddings:", error);
+			}
+
+			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				await db
+					.delete(schema.contentChunks)
+					.where(eq(schema.contentChunks.contentId, contentId));
+				if (rows.length > 0) {
+					await db.insert(schema.contentChunks).values(
+						rows.map((row, index) => ({
+							...row,
+							embedding: embeddings[index],
+						})),
+					);
+				}
+			});
+
+			logInfo(`✅ Saved ${rows.length} chunks for content:`, contentId);
+		} catch (error) {
+			// Chunks only improve retrieval, the content itself is already saved
+			logError("❌ Failed to save content chunks:", error);
+		}
+	}
+
 	/**
 	 * Transform legacy SavePageData to new SaveContentData format
 	 */
@@ -261,24 +614,18 @@ export class RememberService {
 			// Transform legacy data to new format
 			const contentData = this.transformLegacyData(data);
 
-			const result = await serviceManager.databaseService.use(
-				async ({ db, schema }) => {
-					const [updatedPage] = await db
-						.update(schema.rememberedContent)
-						.set({
-							sourceType: contentData.sourceType,
-							sourceUrl: contentData.sourceUrl,
-							originalUrl: contentData.originalUrl,
-							title: contentData.title,
-							content: contentData.textContent,
-							sourceMetadata: contentData.sourceMetadata as unknown,
-							extractionMetadata: contentData.extractionMetadata as unknown,
-							updatedAt: new Date(),
-						})
-						.where(eq(schema.rememberedContent.id, pageId))
-						.returning();
-					return updatedPage;
-				},
+			const embedding = await this.embedContent(
+				contentData.title,
+				contentData.textContent,
+			);
+			const result = await serviceManager.databaseService.use((ctx) =>
+				this.writePage(ctx, pageId, contentData, embedding),
+			);
+
+			await this.saveContentChunks(
+				pageId,
+				contentData.textContent,
+				result.topicId ?? undefined,
 			);
 
 			logInfo("✅ Page updated successfully:", pageId);
@@ -296,6 +643,30 @@ export class RememberService {
 		}
 	}
 
+	private async writePage(
+		{ db, schema }: DatabaseContext,
+		pageId: string,
+		contentData: SaveContentData,
+		embedding: number[] | undefined,
+	): Promise<RememberedContent> {
+		const [updatedPage] = await db
+			.update(schema.rememberedContent)
+			.set({
+				sourceType: contentData.sourceType,
+				sourceUrl: contentData.sourceUrl,
+				originalUrl: contentData.originalUrl,
+				title: contentData.title,
+				content: contentData.textContent,
+				sourceMetadata: contentData.sourceMetadata as unknown,
+				extractionMetadata: contentData.extractionMetadata as unknown,
+				embedding,
+				updatedAt: new Date(),
+			})
+			.where(eq(schema.rememberedContent.id, pageId))
+			.returning();
+		return updatedPage;
+	}
+
 	/**
 	 * Find a page by URL
 	 */
@@ -334,6 +705,7 @@ export class RememberService {
 
 			const {
 				query = "",
+				mode = "keyword",
 				tags = [],
 				isArchived,
 				isFavorite,
@@ -343,6 +715,10 @@ export class RememberService {
 				sortOrder = "desc",
 			} = options;
 
+			if (mode === "hybrid" && query.trim()) {
+				return await this.hybridSearchPages(options);
+			}
+
 			const result = await serviceManager.databaseService.use(
 				async ({ db, schema }) => {
 					// Build where conditions
@@ -420,6 +796,140 @@ export class RememberService {
 		}
 	}
 
+	/**
+	 * Rank pages by weighted cosine, trigram and full-text scores
+	 */
+	private async hybridSearchPages(
+		options: SearchOptions,
+	): Promise<SearchResult> {
+		const {
+			query = "",
+			tags = [],
+			isArchived,
+			isFavorite,
+			limit = 20,
+			offset = 0,
+		} = options;
+		const weights = { ...DEFAULT_HYBRID_WEIGHTS, ...options.weights };
+		const searchText = query.trim();
+
+		// Vector scoring is dropped when no embedding model is available
+		let queryVector: string | null = null;
+		try {
+			await embeddingModelService.assertSearchable();
+			queryVector = JSON.stringify(
+				await serviceManager.embeddingService.textToVector(searchText),
+			);
+		} catch (error) {
+			logWarn("⚠️ Query embedding failed, searching text only:", error);
+		}
+
+		const params: unknown[] = [
+			searchText,
+			queryVector,
+			weights.vector,
+			weights.trigram,
+			weights.fullText,
+			limit,
+			offset,
+		];
+		const filters: string[] = [];
+		if (isArchived !== undefined) {
+			params.push(isArchived);
+			filters.push(`rc.is_archived = $${params.length}`);
+		}
+		if (isFavorite !== undefined) {
+			params.push(isFavorite);
+			filters.push(`rc.is_favorite = $${params.length}`);
+		}
+		if (tags.length > 0) {
+			params.push(`%${tags[0]}%`);
+			filters.push(`rc.tags::text LIKE $${params.length}`);
+		}
+
+		const rows = await serviceManager.databaseService.use(async ({ raw }) => {
+			const result = (await raw(
+				`WITH q AS (
+					SELECT websearch_to_tsquery('english', $1) AS tsq
+				),
+				scored AS (
+					SELECT rc.id,
+						CASE WHEN $2::vector IS NULL OR rc.embedding IS NULL THEN 0
+							ELSE 1 - (rc.embedding <=> $2::vector) END AS vector_score,
+						GREATEST(similarity(rc.title, $1), word_similarity($1, rc.content)) AS trigram_score,
+						ts_rank_cd(to_tsvector('english', rc.title || ' ' || rc.content), q.tsq, 32) AS full_text_score
+					FROM remembered_contents rc, q
+					${filters.length > 0 ? `WHERE ${filters.join(" AND ")}` : ""}
+				),
+				ranked AS (
+					SELECT id, vector_score, trigram_score, full_text_score,
+						$3 * vector_score + $4 * trigram_score + $5 * full_text_score AS score,
+						COUNT(*) OVER () AS total
+					FROM scored
+					WHERE vector_score >= ${MIN_VECTOR_SCORE}
+						OR trigram_score >= ${MIN_TRIGRAM_SCORE}
+						OR full_text_score > 0
+					ORDER BY score DESC
+					LIMIT $6 OFFSET $7
+				)
+				SELECT ranked.*,
+					ts_headline('english', rc.content, q.tsq,
+						'StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" ... "'
+					) AS snippet
+				FROM ranked
+				JOIN remembered_contents rc ON rc.id = ranked.id, q
+				ORDER BY ranked.score DESC`,
+				params,
+			)) as {
+				rows: Array<{
+					id: string;
+					vector_score: number;
+					trigram_score: number;
+					full_text_score: number;
+					score: number;
+					total: number;
+					snippet: string;
+				}>;
+			};
+			return result.rows;
+		});
+
+		if (rows.length === 0) {
+			return { pages: [], total: 0, hasMore: false, scores: {} };
+		}
+
+		const ids = rows.map((row) => row.id);
+		const pages = await serviceManager.databaseService.use(
+			async ({ db, schema }) =>
+				db
+					.select()
+					.from(schema.rememberedContent)
+					.where(inArray(schema.rememberedContent.id, ids)),
+		);
+		const pagesById = new Map(pages.map((page) => [page.id, page]));
+
+		const scores: Record<string, PageSearchScore> = {};
+		for (const row of rows) {
+			scores[row.id] = {
+				score: Number(row.score),
+				vectorScore: Number(row.vector_score),
+				trigramScore: Number(row.trigram_score),
+				fullTextScore: Number(row.full_text_score),
+				snippet: row.snippet,
+			};
+		}
+
+		const total = Number(rows[0].total);
+		return {
+			pages: ids
+				.map((id) => pagesById.get(id))
+				.filter((page): page is RememberedContent => !!page),
+			total,
+			hasMore: offset + limit < total,
+			scores,
+		};
+	}
+
 	async getTopicForContent(topicId: string) {
 		try {
 			if (!topicId) return null;
@@ -480,6 +990,12 @@ export class RememberService {
 			}
 
 			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				await db
+					.delete(schema.contentChunks)
+					.where(eq(schema.contentChunks.contentId, id));
+				await db
+					.delete(schema.rememberedContentRevisions)
+					.where(eq(schema.rememberedContentRevisions.contentId, id));
 				await db
 					.delete(schema.rememberedContent)
 					.where(eq(schema.rememberedContent.id, id));
@@ -589,6 +1105,8 @@ export class RememberService {
 	private async processKnowledgeGraph(
 		data: SavePageData,
 		pageId: string,
+		// Only the changed paragraphs when a remembered page is revisited
+		content = data.article.textContent,
 	): Promise<void> {
 		try {
 			await logger.info(
@@ -599,7 +1117,7 @@ export class RememberService {
 					url: data.url,
 					title: data.title,
 					pageId: pageId,
-					contentLength: data.article.textContent.length,
+					contentLength: content.length,
 				},
 			);
 
@@ -654,13 +1172,13 @@ export class RememberService {
 
 			// Prepare input state
 			const initialState: Partial<KnowledgeGraphState> = {
-				content: data.article.textContent,
+				content: content,
 				title: data.title,
 				url: data.url,
 				pageId: pageId,
 				referenceTimestamp: new Date().toISOString(),
 				metadata: data.metadata as unknown as Record<string, unknown>,
-				currentMessage: `Title: ${data.title}\n\nContent:\n${data.article.textContent}`,
+				currentMessage: `Title: ${data.title}\n\nContent:\n${content}`,
 				previousMessages: undefined,
 			};
 
@@ -676,7 +1194,7 @@ export class RememberService {
 				"🚀 Executing knowledge graph flow",
 				{
 					url: data.url,
-					contentPreview: data.article.textContent.substring(0, 200) + "...",
+					contentPreview: content.substring(0, 200) + "...",
 				},
 			);
 
@@ -1,6 +1,8 @@
 "use client";
 import React, { useEffect, useState, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
+import { Brain, History, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import {
 	Conversation,
 	ConversationContent,
@@ -11,16 +13,22 @@ import {
 	NoModelsScreen,
 	MessageRenderer,
 	ChatInput,
+	ConversationSidebar,
 	useCurrentModel,
 	useChat,
 } from "@/modules/chat/components";
 import { topicService } from "@/modules/topics/services/topic-service";
+import { chatService } from "@/modules/chat/services";
+import { logError } from "@/utils/logger";
 
 export const ChatPage: React.FC = () => {
 	const navigate = useNavigate();
 	const { model, isInitialized, handleModelLoaded } = useCurrentModel();
 	const [topics, setTopics] = useState<Array<{ id: string; name: string }>>([]);
 	const [isLoadingTopics, setIsLoadingTopics] = useState(false);
+	const [showHistory, setShowHistory] = useState(false);
+	const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+	const [isRemembering, setIsRemembering] = useState(false);
 	const {
 		inputValue,
 		setInputValue,
@@ -29,7 +37,14 @@ export const ChatPage: React.FC = () => {
 		setChatMode,
 		selectedTopic,
 		setSelectedTopic,
+		asOf,
+		setAsOf,
+		maxSteps,
+		setMaxSteps,
 		messages,
+		conversations,
+		currentConversation,
+		hasMoreMessages,
 		isLoading,
 		abortController,
 		inProgressMessage,
@@ -37,8 +52,39 @@ export const ChatPage: React.FC = () => {
 		handleStop,
 		insertSeparator,
 		deleteMessages,
+		loadConversations,
+		loadConversation,
+		loadOlderMessages,
+		startNewConversation,
+		renameConversation,
+		deleteConversation,
 	} = useChat(model);
 
+	const handleRememberConversation = async () => {
+		if (!currentConversation) return;
+		setIsRemembering(true);
+		try {
+			const summary = await chatService.rememberConversation(
+				currentConversation.id,
+			);
+			alert(`${currentConversation.title}: ${summary}`);
+		} catch (error) {
+			logError("Failed to remember conversation:", error);
+			alert("Failed to remember this conversation. Please try again.");
+		} finally {
+			setIsRemembering(false);
+		}
+	};
+
+	const handleLoadOlder = async () => {
+		setIsLoadingOlder(true);
+		try {
+			await loadOlderMessages();
+		} finally {
+			setIsLoadingOlder(false);
+		}
+	};
+
 	// Memoized completed messages - only re-renders when messages array changes
 	const completedMessages = useMemo(() => {
 		return messages.map((message, index) => {
@@ -134,33 +180,109 @@ export const ChatPage: React.FC = () => {
 	}
 
 	return (
-		<div className="flex flex-col h-full bg-background">
-			<Conversation className="flex-1 min-h-0">
-				<ConversationContent className="max-w-3xl mx-auto space-y-4">
-					{completedMessages}
-					{inProgressMessageElement}
-				</ConversationContent>
-				<ConversationScrollButton />
-			</Conversation>
-
-			<ChatInput
-				inputValue={inputValue}
-				setInputValue={setInputValue}
-				onSubmit={handleSubmit}
-				isLoading={isLoading}
-				model={model}
-				status={status}
-				chatMode={chatMode}
-				setChatMode={setChatMode}
-				selectedTopic={selectedTopic}
-				setSelectedTopic={setSelectedTopic}
-				onInsertSeparator={insertSeparator}
-				onStop={handleStop}
-				onDeleteChat={deleteMessages}
-				abortController={abortController}
-				isLoadingTopics={isLoadingTopics}
-				topics={topics}
-			/>
+		<div className="flex h-full bg-background">
+			{showHistory && (
+				<ConversationSidebar
+					conversations={conversations}
+					currentConversationId={currentConversation?.id}
+					disabled={isLoading}
+					onSearch={loadConversations}
+					onSelect={loadConversation}
+					onNew={startNewConversation}
+					onRename={renameConversation}
+					onDelete={deleteConversation}
+				/>
+			)}
+			<div className="flex flex-1 min-w-0 flex-col">
+				<div className="flex items-center gap-2 border-b border-border px-3 py-2">
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-7 w-7 p-0"
+						onClick={() => setShowHistory((prev) => !prev)}
+						title={showHistory ? "Hide history" : "Show history"}
+					>
+						<History className="w-4 h-4" />
+					</Button>
+					<span className="flex-1 truncate text-sm font-medium">
+						{currentConversation?.title || "New Chat"}
+					</span>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-7 w-7 p-0"
+						onClick={handleRememberConversation}
+						disabled={
+							!currentConversation ||
+							messages.length === 0 ||
+							isLoading ||
+							isRemembering
+						}
+						title="Remember this conversation"
+					>
+						{isRemembering ? (
+							<Loader2 className="w-4 h-4 animate-spin" />
+						) : (
+							<Brain className="w-4 h-4" />
+						)}
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-7 w-7 p-0"
+						onClick={startNewConversation}
+						disabled={isLoading}
+						title="New chat"
+					>
+						<Plus className="w-4 h-4" />
+					</Button>
+				</div>
+				<Conversation className="flex-1 min-h-0">
+					<ConversationContent className="max-w-3xl mx-auto space-y-4">
+						{hasMoreMessages && (
+							<div className="flex justify-center">
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={handleLoadOlder}
+									disabled={isLoadingOlder}
+								>
+									{isLoadingOlder && (
+										<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+									)}
+									Load earlier messages
+								</Button>
+							</div>
+						)}
+						{completedMessages}
+						{inProgressMessageElement}
+					</ConversationContent>
+					<ConversationScrollButton />
+				</Conversation>
+
+				<ChatInput
+					inputValue={inputValue}
+					setInputValue={setInputValue}
+					onSubmit={handleSubmit}
+					isLoading={isLoading}
+					model={model}
+					status={status}
+					chatMode={chatMode}
+					setChatMode={setChatMode}
+					selectedTopic={selectedTopic}
+					setSelectedTopic={setSelectedTopic}
+					asOf={asOf}
+					setAsOf={setAsOf}
+					maxSteps={maxSteps}
+					setMaxSteps={setMaxSteps}
+					onInsertSeparator={insertSeparator}
+					onStop={handleStop}
+					onDeleteChat={deleteMessages}
+					abortController={abortController}
+					isLoadingTopics={isLoadingTopics}
+					topics={topics}
+				/>
+			</div>
 		</div>
 	);
 };
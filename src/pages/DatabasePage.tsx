@@ -35,6 +35,8 @@ import {
 import { serviceManager } from "@/services";
 import { logError, logInfo } from "@/utils/logger";
 import { schema } from "@/services/database/db";
+import { MigrationsPanel } from "@/components/molecules/MigrationsPanel";
+import { BackupPanel } from "@/components/molecules/BackupPanel";
 
 // Automatically build entity types from schema keys
 type EntityType = keyof typeof schema;
@@ -980,6 +982,19 @@ export const DatabasePage: React.FC = () => {
 							</Card>
 						)}
 
+						{/* Migrations */}
+						{isInitialized && <MigrationsPanel />}
+
+						{/* Backup */}
+						{isInitialized && (
+							<BackupPanel
+								onRestored={() => {
+									loadStats();
+									loadData();
+								}}
+							/>
+						)}
+
 						{/* Quick Actions */}
 						{isInitialized && (
 							<Card className="m-4">
@@ -22,6 +22,9 @@ import {
 	Database,
 } from "lucide-react";
 import { serviceManager } from "@/services";
+import { EmbeddingModelPanel } from "@/components/molecules/EmbeddingModelPanel";
+import { ReembedPanel } from "@/components/molecules/ReembedPanel";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
 import { logError, logInfo } from "@/utils/logger";
 import { schema } from "@/services/database/db";
 
@@ -294,6 +297,9 @@ export const EmbeddingPage: React.FC<EmbeddingPageProps> = () => {
 
 		setLoading(true);
 		try {
+			// Stored vectors must come from the model that embeds the query
+			await embeddingModelService.assertSearchable();
+
 			// Generate embedding for the search query
 			const queryVector = await serviceManager.embeddingService.textToVector(
 				searchParams.query,
@@ -751,6 +757,12 @@ export const EmbeddingPage: React.FC<EmbeddingPageProps> = () => {
 							</Card>
 						)}
 
+						{/* Embedding Model */}
+						{isInitialized && <EmbeddingModelPanel />}
+
+						{/* Re-embedding */}
+						{isInitialized && <ReembedPanel />}
+
 						{/* Search Tips */}
 						{isInitialized && (
 							<Card className="m-4">
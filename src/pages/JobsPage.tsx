@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+	ChevronDown,
+	ChevronRight,
+	RefreshCw,
+	RotateCcw,
+	Square,
+	Trash2,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+	backgroundJob,
+	type BaseJob,
+} from "@/services/background-jobs/background-job";
+import type { JobStatus } from "@/services/background-jobs/handlers/types";
+import { logError } from "@/utils/logger";
+
+const STATUSES: JobStatus[] = [
+	"pending",
+	"processing",
+	"completed",
+	"failed",
+	"cancelled",
+];
+
+const STATUS_VARIANTS: Record<
+	JobStatus,
+	"default" | "secondary" | "destructive" | "outline"
+> = {
+	pending: "outline",
+	processing: "default",
+	completed: "secondary",
+	failed: "destructive",
+	cancelled: "outline",
+};
+
+// Job events arrive in bursts while jobs stream progress
+const RELOAD_THROTTLE = 500;
+
+const isFinished = (job: BaseJob) =>
+	job.status === "completed" ||
+	job.status === "failed" ||
+	job.status === "cancelled";
+
+const formatTime = (value?: Date | string) =>
+	value ? new Date(value).toLocaleString() : undefined;
+
+export const JobsPage: React.FC = () => {
+	const [jobs, setJobs] = useState<BaseJob[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [statusFilter, setStatusFilter] = useState<JobStatus | "all">("all");
+	const [expanded, setExpanded] = useState<Set<string>>(new Set());
+	const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+	const loadJobs = async () => {
+		try {
+			setLoading(true);
+			const all = await backgroundJob.getAllJobs();
+			all.sort(
+				(a, b) =>
+					new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+			);
+			setJobs(all);
+		} catch (error) {
+			logError("[JOBS_PAGE] Failed to load jobs:", error);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		loadJobs();
+
+		const scheduleReload = () => {
+			if (reloadTimer.current) return;
+			reloadTimer.current = setTimeout(() => {
+				reloadTimer.current = null;
+				loadJobs();
+			}, RELOAD_THROTTLE);
+		};
+
+		const unsubscribeBridge = backgroundJob
+			.getNotificationBridge()
+			.subscribe("*", (message) => {
+				if (message.type !== "JOB_PROGRESS") scheduleReload();
+			});
+		const unsubscribeQueue = backgroundJob.subscribe(scheduleReload);
+
+		return () => {
+			unsubscribeBridge();
+			unsubscribeQueue();
+			if (reloadTimer.current) clearTimeout(reloadTimer.current);
+		};
+	}, []);
+
+	const counts = useMemo(() => {
+		const result = Object.fromEntries(
+			STATUSES.map((status) => [status, 0]),
+		) as Record<JobStatus, number>;
+		for (const job of jobs) result[job.status]++;
+		return result;
+	}, [jobs]);
+
+	const visibleJobs =
+		statusFilter === "all"
+			? jobs
+			: jobs.filter((job) => job.status === statusFilter);
+
+	const runAction = async (action: () => Promise<void>, label: string) => {
+		try {
+			await action();
+			await loadJobs();
+		} catch (error) {
+			logError(`[JOBS_PAGE] Failed to ${label}:`, error);
+		}
+	};
+
+	const handlePurge = () => {
+		if (!confirm("Remove all completed, failed and cancelled jobs?")) return;
+		return runAction(
+			() => backgroundJob.clearCompletedJobs(),
+			"purge finished jobs",
+		);
+	};
+
+	const toggleExpanded = (jobId: string) => {
+		setExpanded((prev) => {
+			const next = new Set(prev);
+			if (next.has(jobId)) next.delete(jobId);
+			else next.add(jobId);
+			return next;
+		});
+	};
+
+	return (
+		<div className="flex h-full bg-background">
+			<div className="flex-1 flex flex-col max-w-full">
+				{/* Header */}
+				<div className="bg-card shadow-sm border-b p-3">
+					<div className="flex items-center justify-between mb-3">
+						<h1 className="text-lg font-bold text-foreground">
+							Background Jobs
+						</h1>
+						<TooltipProvider>
+							<div className="flex items-center space-x-1">
+								<Tooltip>
+									<TooltipTrigger asChild>
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={loadJobs}
+											disabled={loading}
+										>
+											<RefreshCw
+												className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+											/>
+										</Button>
+									</TooltipTrigger>
+									<TooltipContent>
+										<p>Refresh jobs</p>
+									</TooltipContent>
+								</Tooltip>
+
+								<Tooltip>
+									<TooltipTrigger asChild>
+										<Button
+											variant="destructive"
+											size="sm"
+											onClick={handlePurge}
+										>
+											<Trash2 className="w-4 h-4" />
+										</Button>
+									</TooltipTrigger>
+									<TooltipContent>
+										<p>Purge finished jobs</p>
+									</TooltipContent>
+								</Tooltip>
+							</div>
+						</TooltipProvider>
+					</div>
+
+					{/* Stats */}
+					<div className="flex items-center justify-between text-xs text-muted-foreground mb-2 px-1">
+						<span>
+							Total: <strong>{jobs.length}</strong>
+						</span>
+						{STATUSES.map((status) => (
+							<span key={status}>
+								{status}: <strong>{counts[status]}</strong>
+							</span>
+						))}
+					</div>
+
+					<Select
+						value={statusFilter}
+						onValueChange={(value) =>
+							setStatusFilter(value as JobStatus | "all")
+						}
+					>
+						<SelectTrigger className="h-8 text-xs">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all">All statuses</SelectItem>
+							{STATUSES.map((status) => (
+								<SelectItem key={status} value={status}>
+									{status}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				{/* Jobs */}
+				<ScrollArea className="flex-1">
+					<div className="p-3 space-y-2">
+						{visibleJobs.length === 0 && !loading && (
+							<p className="text-center text-sm text-muted-foreground py-8">
+								No jobs
+							</p>
+						)}
+						{visibleJobs.map((job) => {
+							const isExpanded = expanded.has(job.id);
+							const lastProgress = job.progress?.[job.progress.length - 1];
+							const cancelling = job.control === "cancel" && !isFinished(job);
+
+							return (
+								<Card key={job.id}>
+									<CardContent className="p-3 space-y-1 text-xs">
+										<div className="flex items-center justify-between gap-2">
+											<button
+												type="button"
+												className="flex items-center gap-1 font-medium text-sm truncate"
+												onClick={() => toggleExpanded(job.id)}
+											>
+												{isExpanded ? (
+													<ChevronDown className="w-3 h-3" />
+												) : (
+													<ChevronRight className="w-3 h-3" />
+												)}
+												{job.jobType}
+											</button>
+											<div className="flex items-center gap-1">
+												{job.control === "pause" && !isFinished(job) && (
+													<Badge variant="outline">paused</Badge>
+												)}
+												<Badge variant={STATUS_VARIANTS[job.status]}>
+													{cancelling ? "cancelling" : job.status}
+												</Badge>
+												{!isFinished(job) && (
+													<Button
+														variant="ghost"
+														size="sm"
+														className="h-6 w-6 p-0"
+														onClick={() =>
+															runAction(
+																() => backgroundJob.cancelJob(job.id),
+																"cancel job",
+															)
+														}
+														disabled={cancelling}
+														title="Cancel"
+													>
+														<Square className="w-3 h-3" />
+													</Button>
+												)}
+												{(job.status === "failed" ||
+													job.status === "cancelled") && (
+													<Button
+														variant="ghost"
+														size="sm"
+														className="h-6 w-6 p-0"
+														onClick={() =>
+															runAction(
+																() => backgroundJob.retryJob(job.id),
+																"retry job",
+															)
+														}
+														title="Retry"
+													>
+														<RotateCcw className="w-3 h-3" />
+													</Button>
+												)}
+											</div>
+										</div>
+
+										<div className="flex flex-wrap gap-x-3 text-muted-foreground">
+											<span className="font-mono">{job.id.slice(0, 8)}</span>
+											<span>Created {formatTime(job.createdAt)}</span>
+											{job.priority !== undefined && (
+												<span>Priority {job.priority}</span>
+											)}
+											{(job.attempts ?? 0) > 0 && (
+												<span>{job.attempts} failed attempts</span>
+											)}
+											{job.nextRetryAt && !isFinished(job) && (
+												<span>Retry at {formatTime(job.nextRetryAt)}</span>
+											)}
+											{job.checkpoint && <span>Checkpointed</span>}
+										</div>
+
+										{lastProgress && (
+											<p className="text-muted-foreground">
+												{lastProgress.stage}
+											</p>
+										)}
+										{job.error && (
+											<p className="text-destructive break-words">
+												{job.error}
+											</p>
+										)}
+
+										{isExpanded && (
+											<div className="space-y-1 pt-1">
+												{job.startedAt && (
+													<p>Started {formatTime(job.startedAt)}</p>
+												)}
+												{job.completedAt && (
+													<p>Finished {formatTime(job.completedAt)}</p>
+												)}
+												<pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-[10px]">
+													{JSON.stringify(
+														{
+															payload: job.payload,
+															checkpoint: job.checkpoint,
+															result: job.result,
+														},
+														null,
+														2,
+													)}
+												</pre>
+											</div>
+										)}
+									</CardContent>
+								</Card>
+							);
+						})}
+					</div>
+				</ScrollArea>
+			</div>
+		</div>
+	);
+};
@@ -4,7 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Search, Network } from "lucide-react";
 import { D3KnowledgeGraph } from "@/modules/knowledge/components/D3KnowledgeGraph";
+import { MergeSuggestionsPanel } from "@/modules/knowledge/components/MergeSuggestionsPanel";
+import { GraphTransferPanel } from "@/modules/knowledge/components/GraphTransferPanel";
+import { DomainTrustPanel } from "@/modules/knowledge/components/DomainTrustPanel";
 import type { Node, Edge } from "@/services/database/db";
+import { getNodeAliases } from "@/services/database/entities/nodes";
 import { serviceManager } from "@/services";
 import { logError } from "@/utils/logger";
 
@@ -21,9 +25,10 @@ export const KnowledgeGraphPage: React.FC<KnowledgeGraphPageProps> = () => {
 		loadGraphData();
 	}, []);
 
-	const loadGraphData = async () => {
+	// Reloads after an edit keep the graph mounted, so the selection survives
+	const loadGraphData = async (showLoading = true) => {
 		try {
-			setLoading(true);
+			if (showLoading) setLoading(true);
 			await serviceManager.databaseService.use(async ({ db, schema }) => {
 				const allNodes = await db.select().from(schema.nodes);
 				const allEdges = await db.select().from(schema.edges);
@@ -46,7 +51,9 @@ export const KnowledgeGraphPage: React.FC<KnowledgeGraphPageProps> = () => {
 	};
 
 	const filteredNodes = nodes.filter((node) =>
-		node.name.toLowerCase().includes(searchQuery.toLowerCase()),
+		[node.name, ...getNodeAliases(node)].some((name) =>
+			name.toLowerCase().includes(searchQuery.toLowerCase()),
+		),
 	);
 
 	return (
@@ -68,6 +75,10 @@ export const KnowledgeGraphPage: React.FC<KnowledgeGraphPageProps> = () => {
 					</div>
 				</div>
 
+				<MergeSuggestionsPanel onMerged={loadGraphData} />
+				<GraphTransferPanel onImported={loadGraphData} />
+				<DomainTrustPanel />
+
 				<ScrollArea className="h-full">
 					{loading ? (
 						<div className="p-3 text-center text-muted-foreground text-sm">
@@ -132,6 +143,7 @@ export const KnowledgeGraphPage: React.FC<KnowledgeGraphPageProps> = () => {
 						width={800}
 						height={600}
 						onNodeDeleted={handleNodeDeleted}
+						onGraphChanged={() => loadGraphData(false)}
 					/>
 				)}
 			</div>
@@ -1,6 +1,7 @@
 import React from "react";
 import {
 	AdvancedSection,
+	ModelRoutingCard,
 	useLLMState,
 	useLLMActions,
 	useProgressListener,
@@ -129,6 +130,8 @@ export const LLMPage: React.FC = () => {
 				</CardContent>
 			</Card>
 
+			<ModelRoutingCard />
+
 			<AdvancedSection
 				{...state}
 				onLoadModel={actions.loadModel}
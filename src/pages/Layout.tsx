@@ -14,6 +14,8 @@ import {
 	Monitor,
 	Tags,
 	FileText,
+	Plug,
+	ListChecks,
 } from "lucide-react";
 import {
 	Tooltip,
@@ -41,12 +43,14 @@ const navigation = [
 	{ name: "Knowledge Graph", path: "/knowledge-graph", icon: Network },
 	{ name: "Documents", path: "/documents", icon: FileText },
 	{ name: "Remembered", path: "/remembered", icon: BookOpen },
+	{ name: "MCP Servers", path: "/mcp", icon: Plug },
 ];
 
 const debugItems = [
 	{ name: "Embeddings", path: "/embeddings", icon: VectorSquareIcon },
 	{ name: "Database", path: "/database", icon: Database },
 	{ name: "Logs", path: "/logs", icon: Bug },
+	{ name: "Jobs", path: "/jobs", icon: ListChecks },
 ];
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
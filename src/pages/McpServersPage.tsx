@@ -0,0 +1,380 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from "@/components/ui/dialog";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Plus,
+	Plug,
+	RefreshCw,
+	Trash2,
+	Loader2,
+	AlertCircle,
+	Wrench,
+} from "lucide-react";
+import { logError, logInfo } from "@/utils/logger";
+import {
+	mcpService,
+	DEFAULT_MCP_TOOL_SETTINGS,
+	type McpServerConfig,
+	type McpToolSettings,
+	type McpTransport,
+} from "@/modules/mcp/services";
+
+export const McpServersPage: React.FC = () => {
+	const [servers, setServers] = useState<McpServerConfig[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [syncingId, setSyncingId] = useState<string | null>(null);
+
+	// Add server dialog
+	const [showAddDialog, setShowAddDialog] = useState(false);
+	const [addLoading, setAddLoading] = useState(false);
+	const [addError, setAddError] = useState<string | null>(null);
+	const [newName, setNewName] = useState("");
+	const [newUrl, setNewUrl] = useState("http://localhost:3000/mcp");
+	const [newTransport, setNewTransport] = useState<McpTransport>("http");
+
+	useEffect(() => {
+		loadServers();
+	}, []);
+
+	const loadServers = async () => {
+		try {
+			setLoading(true);
+			setServers(await mcpService.getServers());
+		} catch (error) {
+			logError("[MCP_PAGE] Failed to load servers:", error);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const replaceServer = (updated: McpServerConfig) => {
+		setServers((prev) =>
+			prev.map((server) => (server.id === updated.id ? updated : server)),
+		);
+	};
+
+	const handleAddServer = async () => {
+		try {
+			setAddLoading(true);
+			setAddError(null);
+			const server = await mcpService.addServer({
+				name: newName,
+				url: newUrl,
+				transport: newTransport,
+			});
+			setServers((prev) => [...prev, server]);
+			setShowAddDialog(false);
+			setNewName("");
+			logInfo("[MCP_PAGE] Added server:", server);
+
+			// Discover tools right away so they can be configured
+			await handleSyncServer(server.id);
+		} catch (error) {
+			setAddError(error instanceof Error ? error.message : String(error));
+		} finally {
+			setAddLoading(false);
+		}
+	};
+
+	const handleSyncServer = async (serverId: string) => {
+		try {
+			setSyncingId(serverId);
+			replaceServer(await mcpService.discoverTools(serverId));
+		} catch (error) {
+			logError("[MCP_PAGE] Failed to sync server:", error);
+		} finally {
+			setSyncingId(null);
+		}
+	};
+
+	const handleToggleServer = async (server: McpServerConfig) => {
+		try {
+			replaceServer(
+				await mcpService.updateServer(server.id, { enabled: !server.enabled }),
+			);
+		} catch (error) {
+			logError("[MCP_PAGE] Failed to toggle server:", error);
+		}
+	};
+
+	const handleDeleteServer = async (server: McpServerConfig) => {
+		if (!confirm(`Remove the MCP server "${server.name}"?`)) return;
+
+		try {
+			await mcpService.removeServer(server.id);
+			setServers((prev) => prev.filter((item) => item.id !== server.id));
+		} catch (error) {
+			logError("[MCP_PAGE] Failed to remove server:", error);
+		}
+	};
+
+	const handleToolSettings = async (
+		serverId: string,
+		toolName: string,
+		settings: Partial<McpToolSettings>,
+	) => {
+		try {
+			replaceServer(
+				await mcpService.setToolSettings(serverId, toolName, settings),
+			);
+		} catch (error) {
+			logError("[MCP_PAGE] Failed to update tool settings:", error);
+		}
+	};
+
+	const ServerCard: React.FC<{ server: McpServerConfig }> = ({ server }) => (
+		<div className="rounded-lg border border-border bg-card p-4 space-y-3">
+			<div className="flex items-start justify-between gap-2">
+				<div className="min-w-0">
+					<div className="flex items-center gap-2">
+						<Plug className="w-4 h-4 text-primary flex-shrink-0" />
+						<h3 className="font-medium text-sm truncate">{server.name}</h3>
+						<Badge variant="secondary" className="text-xs uppercase">
+							{server.transport}
+						</Badge>
+					</div>
+					<p className="text-xs text-muted-foreground mt-1 truncate">
+						{server.url}
+					</p>
+					{server.lastSyncedAt && (
+						<p className="text-xs text-muted-foreground">
+							Synced {new Date(server.lastSyncedAt).toLocaleString()}
+						</p>
+					)}
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch
+						checked={server.enabled}
+						onCheckedChange={() => handleToggleServer(server)}
+					/>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-7 w-7 p-0"
+						onClick={() => handleSyncServer(server.id)}
+						disabled={syncingId === server.id}
+						title="Refresh tools"
+					>
+						<RefreshCw
+							className={`w-4 h-4 ${syncingId === server.id ? "animate-spin" : ""}`}
+						/>
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-7 w-7 p-0 text-destructive"
+						onClick={() => handleDeleteServer(server)}
+						title="Remove server"
+					>
+						<Trash2 className="w-4 h-4" />
+					</Button>
+				</div>
+			</div>
+
+			{server.lastError && (
+				<div className="flex items-start gap-2 text-xs text-destructive">
+					<AlertCircle className="w-4 h-4 flex-shrink-0" />
+					<span>{server.lastError}</span>
+				</div>
+			)}
+
+			{server.discoveredTools?.length ? (
+				<div className="divide-y divide-border rounded-md border border-border">
+					{server.discoveredTools.map((tool) => {
+						const settings =
+							server.tools[tool.name] ?? DEFAULT_MCP_TOOL_SETTINGS;
+						return (
+							<div
+								key={tool.name}
+								className="flex items-start justify-between gap-3 p-2"
+							>
+								<div className="min-w-0">
+									<div className="flex items-center gap-2">
+										<Wrench className="w-3 h-3 text-muted-foreground" />
+										<span className="text-sm font-mono truncate">
+											{tool.name}
+										</span>
+									</div>
+									<p className="text-xs text-muted-foreground line-clamp-2">
+										{tool.description}
+									</p>
+								</div>
+								<div className="flex flex-col gap-1 text-xs text-muted-foreground">
+									<label className="flex items-center justify-end gap-2">
+										Enabled
+										<Switch
+											checked={settings.enabled}
+											onCheckedChange={(enabled) =>
+												handleToolSettings(server.id, tool.name, { enabled })
+											}
+										/>
+									</label>
+									<label className="flex items-center justify-end gap-2">
+										Ask first
+										<Switch
+											checked={settings.requireConfirmation}
+											disabled={!settings.enabled}
+											onCheckedChange={(requireConfirmation) =>
+												handleToolSettings(server.id, tool.name, {
+													requireConfirmation,
+												})
+											}
+										/>
+									</label>
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			) : (
+				<p className="text-xs text-muted-foreground">
+					No tools discovered yet. Refresh to connect and list tools.
+				</p>
+			)}
+		</div>
+	);
+
+	if (loading) {
+		return (
+			<div className="flex flex-col h-full bg-background">
+				<div className="flex-1 flex items-center justify-center">
+					<div className="text-center space-y-4">
+						<Loader2 className="w-8 h-8 animate-spin mx-auto text-primary" />
+						<p className="text-muted-foreground">Loading MCP servers...</p>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-col h-full bg-background">
+			{/* Header */}
+			<div className="border-b border-border bg-card">
+				<div className="p-3">
+					<div className="flex items-center justify-between">
+						<div>
+							<h1 className="text-xl font-bold text-foreground flex items-center gap-2">
+								<Plug className="w-5 h-5 text-primary" />
+								MCP Servers
+							</h1>
+							<p className="text-sm text-muted-foreground mt-1">
+								Connect local MCP servers to give the agent more tools
+							</p>
+						</div>
+						<Button
+							onClick={() => {
+								setAddError(null);
+								setShowAddDialog(true);
+							}}
+							size="sm"
+							className="gap-2"
+						>
+							<Plus className="w-4 h-4" />
+							Add Server
+						</Button>
+					</div>
+				</div>
+			</div>
+
+			{/* Content */}
+			<ScrollArea className="h-full">
+				{servers.length === 0 ? (
+					<div className="p-8 text-center text-muted-foreground">
+						<Plug className="w-12 h-12 mx-auto mb-3 opacity-50" />
+						<p className="text-lg font-medium">No MCP servers configured</p>
+						<p className="text-sm mt-1">
+							Add a server running on localhost to use its tools in agent mode
+						</p>
+					</div>
+				) : (
+					<div className="grid gap-4 p-4 lg:grid-cols-2">
+						{servers.map((server) => (
+							<ServerCard key={server.id} server={server} />
+						))}
+					</div>
+				)}
+			</ScrollArea>
+
+			{/* Add Server Dialog */}
+			<Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+				<DialogContent className="sm:max-w-md">
+					<DialogHeader>
+						<DialogTitle>Add MCP Server</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-4 py-4">
+						<div className="space-y-2">
+							<label htmlFor="mcp-name" className="text-sm font-medium">
+								Name *
+							</label>
+							<Input
+								id="mcp-name"
+								placeholder="e.g., filesystem"
+								value={newName}
+								onChange={(e) => setNewName(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<label htmlFor="mcp-url" className="text-sm font-medium">
+								URL *
+							</label>
+							<Input
+								id="mcp-url"
+								placeholder="http://localhost:3000/mcp"
+								value={newUrl}
+								onChange={(e) => setNewUrl(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<label className="text-sm font-medium">Transport</label>
+							<Select
+								value={newTransport}
+								onValueChange={(value) =>
+									setNewTransport(value as McpTransport)
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="http">Streamable HTTP</SelectItem>
+									<SelectItem value="sse">SSE</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						{addError && <p className="text-sm text-destructive">{addError}</p>}
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setShowAddDialog(false)}>
+							Cancel
+						</Button>
+						<Button
+							onClick={handleAddServer}
+							disabled={addLoading || !newName.trim() || !newUrl.trim()}
+						>
+							{addLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+							Add
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+};
@@ -31,9 +31,13 @@ import {
 	XCircle,
 	Loader2,
 	MoreVertical,
+	Sparkles,
 } from "lucide-react";
 import {
 	rememberService,
+	HIGHLIGHT_START,
+	HIGHLIGHT_END,
+	type PageSearchScore,
 	type SearchOptions,
 } from "@/modules/remember/services/remember-service";
 import { knowledgeGraphService } from "@/modules/knowledge/services/knowledge-graph-service";
@@ -53,6 +57,8 @@ import { eq, and, inArray } from "drizzle-orm";
 import { getEffectiveSourceStatus } from "@/services/database/entities/sources";
 import { D3KnowledgeGraph } from "@/modules/knowledge/components/D3KnowledgeGraph";
 import { backgroundJob } from "@/services/background-jobs/background-job";
+import { NeedsAttentionPanel } from "@/components/molecules/NeedsAttentionPanel";
+import { ForgetPageDialog } from "@/modules/knowledge/components/ForgetPageDialog";
 
 // Helper function to get URL from the new data structure
 function getContentUrl(content: RememberedContent): string {
@@ -95,6 +101,23 @@ const statusIcons: Record<ConversionStatus, React.ReactElement> = {
 	failed: <XCircle className="h-4 w-4" />,
 };
 
+// Render a search snippet with matched terms highlighted
+function renderSnippet(snippet: string): React.ReactNode[] {
+	return snippet.split(HIGHLIGHT_START).flatMap((part, index) => {
+		if (index === 0) return [part];
+		const [match, ...rest] = part.split(HIGHLIGHT_END);
+		return [
+			<mark
+				key={index}
+				className="bg-yellow-200 dark:bg-yellow-800/60 text-foreground rounded-sm"
+			>
+				{match}
+			</mark>,
+			rest.join(HIGHLIGHT_END),
+		];
+	});
+}
+
 interface RememberedContentsPageProps {}
 
 export const RememberedContentsPage: React.FC<
@@ -103,6 +126,10 @@ export const RememberedContentsPage: React.FC<
 	const [contents, setContents] = useState<RememberedContent[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [searchQuery, setSearchQuery] = useState("");
+	const [semanticSearch, setSemanticSearch] = useState(false);
+	const [searchScores, setSearchScores] = useState<
+		Record<string, PageSearchScore>
+	>({});
 	const [selectedContent, setSelectedContent] =
 		useState<RememberedContent | null>(null);
 	const [selectedContentTopic, setSelectedContentTopic] =
@@ -130,6 +157,9 @@ export const RememberedContentsPage: React.FC<
 	const [convertingContentId, setConvertingContentId] = useState<string | null>(
 		null,
 	);
+	const [pageToForget, setPageToForget] = useState<RememberedContent | null>(
+		null,
+	);
 
 	// Subscribe to conversion updates
 	useEffect(() => {
@@ -156,6 +186,7 @@ export const RememberedContentsPage: React.FC<
 			setLoading(true);
 			const result = await rememberService.searchPages({
 				query: searchQuery,
+				mode: semanticSearch ? "hybrid" : "keyword",
 				isFavorite: filters.showFavorites ? true : undefined,
 				limit: 50,
 				sortBy: "createdAt",
@@ -163,6 +194,7 @@ export const RememberedContentsPage: React.FC<
 				...searchOptions,
 			});
 			setContents(result.pages);
+			setSearchScores(result.scores ?? {});
 
 			// Load source statuses and topics for all pages
 			if (result.pages.length > 0) {
@@ -190,7 +222,7 @@ export const RememberedContentsPage: React.FC<
 		}, 300);
 
 		return () => clearTimeout(debounceTimer);
-	}, [searchQuery]);
+	}, [searchQuery, semanticSearch]);
 
 	const handleToggleFavorite = async (page: RememberedContent) => {
 		try {
@@ -201,18 +233,20 @@ export const RememberedContentsPage: React.FC<
 		}
 	};
 
-	const handleDelete = async (page: RememberedContent) => {
-		if (confirm(`Are you sure you want to delete "${page.title}"?`)) {
-			try {
-				await rememberService.deletePage(page.id);
-				await loadPages();
-				if (selectedContent?.id === page.id) {
-					setSelectedContent(null);
-					setShowMobileDetail(false);
-				}
-			} catch (error) {
-				logError("Failed to delete page:", error);
-			}
+	const handleDelete = (page: RememberedContent) => {
+		setPageToForget(page);
+	};
+
+	const handleForgotten = async (page: RememberedContent) => {
+		setPageToForget(null);
+		if (selectedContent?.id === page.id) {
+			setSelectedContent(null);
+			setShowMobileDetail(false);
+		}
+		try {
+			await loadPages();
+		} catch (error) {
+			logError("Failed to reload pages:", error);
 		}
 	};
 
@@ -434,21 +468,42 @@ export const RememberedContentsPage: React.FC<
 							/>
 						</div>
 
-						<Button
-							variant={filters.showFavorites ? "default" : "outline"}
-							size="sm"
-							onClick={() =>
-								setFilters((prev) => ({
-									showFavorites: !prev.showFavorites,
-								}))
-							}
-						>
-							<Star className="h-4 w-4 mr-1" />
-							Favorites
-						</Button>
+						<div className="flex items-center gap-2">
+							<Button
+								variant={filters.showFavorites ? "default" : "outline"}
+								size="sm"
+								onClick={() =>
+									setFilters((prev) => ({
+										showFavorites: !prev.showFavorites,
+									}))
+								}
+							>
+								<Star className="h-4 w-4 mr-1" />
+								Favorites
+							</Button>
+							<TooltipProvider>
+								<Tooltip>
+									<TooltipTrigger asChild>
+										<Button
+											variant={semanticSearch ? "default" : "outline"}
+											size="sm"
+											onClick={() => setSemanticSearch((prev) => !prev)}
+										>
+											<Sparkles className="h-4 w-4 mr-1" />
+											Semantic
+										</Button>
+									</TooltipTrigger>
+									<TooltipContent>
+										Rank by meaning, fuzzy and full-text matches
+									</TooltipContent>
+								</Tooltip>
+							</TooltipProvider>
+						</div>
 					</div>
 				</div>
 
+				<NeedsAttentionPanel onRetried={() => loadPages()} />
+
 				<ScrollArea className="h-full">
 					{loading ? (
 						<div className="p-3 text-center text-muted-foreground">
@@ -464,6 +519,7 @@ export const RememberedContentsPage: React.FC<
 						<div className="divide-y divide-border">
 							{contents.map((content) => {
 								const conversion = getConversionForPage(content.id);
+								const searchScore = searchScores[content.id];
 								return (
 									<div
 										key={content.id}
@@ -480,6 +536,26 @@ export const RememberedContentsPage: React.FC<
 													{content.title}
 												</h3>
 												<div className="flex items-center gap-1 ml-2">
+													{searchScore && (
+														<TooltipProvider>
+															<Tooltip>
+																<TooltipTrigger>
+																	<Badge
+																		variant="secondary"
+																		className="text-xs font-mono"
+																	>
+																		{searchScore.score.toFixed(2)}
+																	</Badge>
+																</TooltipTrigger>
+																<TooltipContent>
+																	Semantic {searchScore.vectorScore.toFixed(2)}{" "}
+																	· Fuzzy {searchScore.trigramScore.toFixed(2)}{" "}
+																	· Full-text{" "}
+																	{searchScore.fullTextScore.toFixed(2)}
+																</TooltipContent>
+															</Tooltip>
+														</TooltipProvider>
+													)}
 													{content.isFavorite && (
 														<Heart className="h-3 w-3 text-red-500 fill-current" />
 													)}
@@ -512,7 +588,9 @@ export const RememberedContentsPage: React.FC<
 												)}
 
 											<p className="text-xs text-muted-foreground line-clamp-2">
-												{content.content.substring(0, 100)}...
+												{searchScore
+													? renderSnippet(searchScore.snippet)
+													: `${content.content.substring(0, 100)}...`}
 											</p>
 
 											<div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -687,7 +765,7 @@ export const RememberedContentsPage: React.FC<
 											className="text-red-600 focus:text-red-600"
 										>
 											<Trash2 className="h-4 w-4 mr-2" />
-											Delete
+											Forget
 										</DropdownMenuItem>
 									</DropdownMenuContent>
 								</DropdownMenu>
@@ -786,6 +864,12 @@ export const RememberedContentsPage: React.FC<
 					</div>
 				)}
 			</div>
+
+			<ForgetPageDialog
+				page={pageToForget}
+				onClose={() => setPageToForget(null)}
+				onForgotten={handleForgotten}
+			/>
 		</div>
 	);
 };
@@ -8,6 +8,7 @@ import { logInfo, logError } from "@/utils/logger";
 import { v4 as nanoid } from "@/utils/uuid";
 import type {
 	BaseJob,
+	JobControl,
 	JobProgressEvent,
 	JobProgressUpdate,
 	JobResult,
@@ -34,6 +35,7 @@ export interface JobPromiseResult<
 
 export interface JobOptions {
 	stream: boolean;
+	priority?: number; // Overrides the job type's policy priority
 }
 
 // Smart type inference using global JobTypeRegistry
@@ -118,12 +120,12 @@ export class BackgroundJob {
 	createJob<T extends keyof JobTypeRegistry>(
 		jobType: T,
 		payload: JobTypeRegistry[T],
-		options: { stream: true },
+		options: { stream: true; priority?: number },
 	): Promise<JobStreamResult>;
 	createJob<T extends keyof JobTypeRegistry>(
 		jobType: T,
 		payload: JobTypeRegistry[T],
-		options: { stream: false },
+		options: { stream: false; priority?: number },
 	): Promise<JobPromiseResult<T extends keyof JobResultRegistry ? T : never>>;
 	createJob<T extends keyof JobTypeRegistry>(
 		jobType: T,
@@ -154,6 +156,7 @@ export class BackgroundJob {
 			payload,
 			createdAt: new Date(),
 			progress: [],
+			priority: options.priority,
 		};
 
 		await this.saveJob(job);
@@ -170,11 +173,28 @@ export class BackgroundJob {
 			this.attachProgressForwarder(jobId, true); // createJob uses queue-based completion
 			return { jobId, stream };
 		} else {
-			// Create promise that resolves on completion
+			// Create promise that resolves on completion - locally when this
+			// context completes the job, otherwise from the offscreen notification
 			const promise = new Promise<
 				JobResultFor<T extends keyof JobResultRegistry ? T : never>
 			>((resolve) => {
-				this.subscribeToJobCompletion(jobId, resolve as any); // TODO: Fix type system
+				let settled = false;
+				const settle = (result: JobResult) => {
+					if (settled) return;
+					settled = true;
+					unsubscribe();
+					this.jobCompletionListeners.delete(jobId);
+					resolve(result as any); // TODO: Fix type system
+				};
+				const unsubscribe = this.notificationBridge.subscribe(
+					"JOB_COMPLETED",
+					(message: JobNotificationMessage) => {
+						if (message.jobId === jobId && message.result) {
+							settle(message.result);
+						}
+					},
+				);
+				this.subscribeToJobCompletion(jobId, settle);
 			});
 			return { jobId, promise };
 		}
@@ -191,12 +211,12 @@ export class BackgroundJob {
 	execute<T extends keyof JobTypeRegistry>(
 		jobType: T,
 		payload: JobTypeRegistry[T],
-		options: { stream: true },
+		options: { stream: true; priority?: number },
 	): Promise<JobStreamResult>;
 	execute<T extends keyof JobTypeRegistry>(
 		jobType: T,
 		payload: JobTypeRegistry[T],
-		options: { stream: false },
+		options: { stream: false; priority?: number },
 	): Promise<JobPromiseResult<T extends keyof JobResultRegistry ? T : never>>;
 	execute<T extends keyof JobTypeRegistry>(
 		jobType: T,
@@ -226,6 +246,7 @@ export class BackgroundJob {
 			payload,
 			createdAt: new Date(),
 			progress: [],
+			priority: options.priority,
 		};
 
 		// Skip saveJob - send directly to offscreen for immediate processing
@@ -479,7 +500,7 @@ export class BackgroundJob {
 
 		const completedAt =
 			progress.completedAt ??
-			(status === "completed" || status === "failed"
+			(status === "completed" || status === "failed" || status === "cancelled"
 				? (progress.timestamp ?? job.completedAt ?? new Date())
 				: undefined);
 
@@ -588,6 +609,145 @@ export class BackgroundJob {
 		logInfo(`📋 Job completed and removed: ${jobId}`);
 	}
 
+	/**
+	 * Update a stored job from the context that runs it. Jobs started with
+	 * execute() are not stored and are left alone.
+	 */
+	async patchJob(jobId: string, changes: Partial<BaseJob>): Promise<void> {
+		const job = await this.store.patch(jobId, changes);
+		if (job) await this.notifyListeners();
+	}
+
+	/**
+	 * Keep the outcome of a queued job that another context completed, so it
+	 * can be inspected and retried. completeJob only handles jobs this
+	 * context is waiting on.
+	 */
+	async recordCompletion(jobId: string, result: JobResult): Promise<void> {
+		await this.patchJob(jobId, {
+			status: result.status,
+			result: result.result as Record<string, unknown> | undefined,
+			error: result.error,
+			completedAt: new Date(),
+			nextRetryAt: undefined,
+		});
+	}
+
+	/**
+	 * Ask the offscreen document to cancel a job. It aborts the running
+	 * attempt, or drops the job if it is still waiting.
+	 */
+	async cancelJob(jobId: string): Promise<void> {
+		const job = await this.store.patch(jobId, { control: "cancel" });
+		if (
+			job &&
+			(job.status === "completed" ||
+				job.status === "failed" ||
+				job.status === "cancelled")
+		) {
+			return;
+		}
+		await this.notifyListeners();
+
+		// execute() jobs are not stored; the id is all the processor needs
+		this.notificationBridge.notifyJobUpdated(
+			jobId,
+			job ?? {
+				id: jobId,
+				jobType: "",
+				status: "processing",
+				createdAt: new Date(),
+				progress: [],
+				control: "cancel",
+			},
+			"offscreen",
+		);
+		logInfo(`📋 Requested cancellation of job ${jobId}`);
+	}
+
+	/**
+	 * Queue a failed or cancelled job again with a fresh attempt count
+	 */
+	async retryJob(jobId: string): Promise<void> {
+		const job = await this.store.patch(jobId, {
+			status: "pending",
+			control: "run",
+			attempts: 0,
+			nextRetryAt: undefined,
+			error: undefined,
+			result: undefined,
+			completedAt: undefined,
+			progress: [],
+		});
+		if (!job) throw new Error(`Job ${jobId} not found`);
+		await this.notifyListeners();
+
+		this.notificationBridge.notifyJobEnqueued(job);
+		logInfo(`📋 Re-queued ${job.jobType} job: ${jobId}`);
+	}
+
+	/**
+	 * Persist the cursor of a resumable job so it continues from there after
+	 * the offscreen document restarts
+	 */
+	async saveCheckpoint(
+		jobId: string,
+		checkpoint: Record<string, unknown>,
+	): Promise<void> {
+		await this.store.patch(jobId, { checkpoint });
+	}
+
+	/**
+	 * Ask a running job to pause, resume or cancel. The handler picks it up
+	 * at its next checkpoint.
+	 */
+	async setJobControl(jobId: string, control: JobControl): Promise<void> {
+		const job = await this.store.patch(jobId, { control });
+		if (!job) throw new Error(`Job ${jobId} not found`);
+		await this.notifyListeners();
+		logInfo(`📋 Job ${jobId} control set to ${control}`);
+	}
+
+	/**
+	 * Stored jobs that checkpointed progress or were waiting for a retry, and
+	 * were never finished
+	 */
+	async getResumableJobs(): Promise<BaseJob[]> {
+		const jobs = await this.store.getAll();
+		return jobs.filter(
+			(job) =>
+				(job.checkpoint || job.nextRetryAt) &&
+				job.control !== "cancel" &&
+				job.status !== "completed" &&
+				job.status !== "failed" &&
+				job.status !== "cancelled",
+		);
+	}
+
+	/**
+	 * Follow progress and completion of a job started elsewhere, e.g. one
+	 * resumed by the offscreen document
+	 */
+	watchJob(
+		jobId: string,
+		handlers: {
+			onProgress?: (progress: JobProgressEvent) => void;
+			onComplete?: (result: JobResult) => void;
+		},
+	): () => void {
+		return this.notificationBridge.subscribe(
+			"*",
+			(message: JobNotificationMessage) => {
+				if (message.jobId !== jobId) return;
+				if (message.type === "JOB_PROGRESS" && message.progress) {
+					handlers.onProgress?.(message.progress);
+				} else if (message.type === "JOB_COMPLETED" && message.result) {
+					handlers.onComplete?.(message.result);
+				}
+			},
+		);
+	}
+
 	async clearCompletedJobs(): Promise<void> {
 		await this.store.clearCompleted();
 		await this.notifyListeners();
@@ -595,7 +755,16 @@ export class BackgroundJob {
 		// Immediate notification for queue cleanup
 		this.notificationBridge.notifyQueueUpdated();
 
-		logInfo("📋 Cleared completed/failed jobs");
+		logInfo("📋 Cleared completed/failed/cancelled jobs");
+	}
+
+	/**
+	 * Remove a finished job together with its stored payload and result
+	 */
+	async deleteJob(jobId: string): Promise<void> {
+		await this.store.delete(jobId);
+		await this.notifyListeners();
+		this.notificationBridge.notifyQueueUpdated();
 	}
 
 	async getJob(jobId: string): Promise<BaseJob | null> {
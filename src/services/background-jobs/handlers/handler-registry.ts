@@ -1,13 +1,23 @@
-import type { ProcessHandler, BaseJob } from "./types";
+import type { ProcessHandler, BaseJob, JobPolicy } from "./types";
 
 export interface HandlerRegistration {
 	instance: ProcessHandler<BaseJob>;
 	jobs: string[];
+	policy?: Partial<JobPolicy>; // Applies to every job type in `jobs`
 }
 
+export const DEFAULT_JOB_POLICY: JobPolicy = {
+	maxAttempts: 1,
+	backoffMs: 2000,
+	maxBackoffMs: 60000,
+	priority: 0,
+	concurrency: Number.POSITIVE_INFINITY,
+};
+
 export class HandlerRegistry {
 	private static instance: HandlerRegistry;
 	private handlers = new Map<string, ProcessHandler<BaseJob>>();
+	private policies = new Map<string, JobPolicy>();
 
 	private constructor() {}
 
@@ -21,9 +31,17 @@ export class HandlerRegistry {
 	register(registration: HandlerRegistration): void {
 		for (const jobType of registration.jobs) {
 			this.handlers.set(jobType, registration.instance);
+			this.policies.set(jobType, {
+				...DEFAULT_JOB_POLICY,
+				...registration.policy,
+			});
 		}
 	}
 
+	getPolicy(jobType: string): JobPolicy {
+		return this.policies.get(jobType) ?? DEFAULT_JOB_POLICY;
+	}
+
 	getHandler(jobType: string): ProcessHandler<BaseJob> {
 		const handler = this.handlers.get(jobType);
 		if (!handler) {
@@ -2,10 +2,16 @@
 import "./process-remember-save";
 import "./process-basic";
 import "./process-embedding-operations";
+import "./process-embedding-model";
+import "./process-reembed-all";
 import "./process-knowledge-graph";
+import "./process-graph-maintenance";
+import "./process-graph-transfer";
 import "./process-llm-operations";
 import "./process-topic-operations";
 import "./process-chat";
+import "./process-database-migrations";
+import "./process-backup";
 
 export { backgroundProcessFactory, ProcessFactory } from "./process-factory";
 export { handlerRegistry } from "./handler-registry";
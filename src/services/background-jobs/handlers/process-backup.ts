@@ -0,0 +1,98 @@
+import { backupService, type BackupSummary } from "@/services/backup";
+import type {
+	ProcessHandler,
+	ProcessDependencies,
+	BaseJob,
+	ItemHandlerResult,
+} from "./types";
+import { backgroundProcessFactory } from "./process-factory";
+
+const JOB_NAMES = {
+	create: "create-backup",
+	restore: "restore-backup",
+} as const;
+
+// Archives are passed as temp files and passphrases through
+// backupService.offerPassphrase; jobs are stored and broadcast, so neither
+// goes into a payload or result
+
+export interface CreateBackupPayload {
+	// Secrets are only included when the UI offers a passphrase for them
+	passphraseRequest?: string;
+}
+
+export interface CreateBackupResult extends Record<string, unknown> {
+	// Temp file with the archive, removed by the UI once downloaded
+	path: string;
+	summary: BackupSummary;
+}
+
+export interface RestoreBackupPayload {
+	// Temp file with the archive, removed once restored
+	path: string;
+	passphraseRequest?: string;
+}
+
+export type RestoreBackupResult = BackupSummary;
+
+/**
+ * Backup and restore of all user data. Both need the real PGlite instance of
+ * the offscreen document and must not overlap with each other.
+ */
+export class BackupHandler implements ProcessHandler<BaseJob> {
+	async process(
+		jobId: string,
+		job: BaseJob,
+		{ logger, updateJobProgress }: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		switch (job.jobType) {
+			case JOB_NAMES.create: {
+				const payload = job.payload as CreateBackupPayload;
+				await updateJobProgress(jobId, {
+					stage: "Exporting data...",
+					progress: 10,
+				});
+				return backupService.createBackup(payload.passphraseRequest);
+			}
+			case JOB_NAMES.restore: {
+				const payload = job.payload as RestoreBackupPayload;
+				await updateJobProgress(jobId, {
+					stage: "Restoring data...",
+					progress: 10,
+				});
+				try {
+					const summary = await backupService.restoreBackup(
+						payload.path,
+						payload.passphraseRequest,
+					);
+					await logger.info("Backup restored", { jobId, ...summary }, "backup");
+					return summary;
+				} finally {
+					await backupService.removeArchiveFile(payload.path);
+				}
+			}
+			default:
+				throw new Error(`Unknown job type: ${job.jobType}`);
+		}
+	}
+}
+
+// Self-register the handler
+backgroundProcessFactory.register({
+	instance: new BackupHandler(),
+	jobs: Object.values(JOB_NAMES),
+	policy: { concurrency: 1 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"create-backup": CreateBackupPayload;
+		"restore-backup": RestoreBackupPayload;
+	}
+
+	interface JobResultRegistry {
+		"create-backup": CreateBackupResult;
+		"restore-backup": RestoreBackupResult;
+	}
+}
@@ -7,6 +7,9 @@ import type {
 	ChatCompletionChunk,
 } from "@/types/openai";
 import { handlerRegistry } from "./handler-registry";
+import { mcpService } from "@/modules/mcp/services/mcp-service";
+import { contextWindowService } from "@/services/context-window";
+import { upsertActions } from "@/modules/chat/services/chat-service";
 
 export interface ChatStreamConfig {
 	/** Minimum number of words to buffer before streaming (default: 5) */
@@ -18,9 +21,12 @@ export interface ChatStreamConfig {
 export interface ChatPayload {
 	messages: ChatMessage[];
 	model: string;
+	conversationId?: string; // Holds the running summary of trimmed history
 	mode: "normal" | "agent" | "knowledge";
 	query?: string; // For knowledge mode
 	topicId?: string; // For topic filtering in knowledge mode
+	asOf?: string; // Answer from the facts that held at this date in knowledge mode
+	maxSteps?: number; // Tool-calling step budget in agent mode
 	streamConfig?: ChatStreamConfig;
 }
 
@@ -119,7 +125,17 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 		job: ChatJob,
 		dependencies: ProcessDependencies,
 	): Promise<ItemHandlerResult> {
-		const { messages, model, mode, query, topicId, streamConfig } = job.payload;
+		const {
+			messages,
+			model,
+			mode,
+			conversationId,
+			query,
+			topicId,
+			asOf,
+			maxSteps,
+			streamConfig,
+		} = job.payload;
 
 		// Apply default stream config
 		const config: Required<ChatStreamConfig> = {
@@ -183,7 +199,58 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 				progress: 5,
 			});
 
+			// Fit the history into the context window, leaving room for what
+			// the mode adds to the prompt
+			let chatMessages = messages;
+			let maxResponseTokens: number | undefined;
+			try {
+				const fitted = await contextWindowService.fit({
+					messages,
+					conversationId,
+					reservation:
+						mode === "knowledge" ? "rag" : mode === "agent" ? "tools" : "none",
+					role: mode === "knowledge" ? "rag_answer" : "chat",
+				});
+				chatMessages = fitted.messages;
+				maxResponseTokens = fitted.maxResponseTokens;
+				if (fitted.action) {
+					actions.push(fitted.action);
+					await dependencies.updateJobProgress(jobId, {
+						stage: "Condensed conversation history",
+						progress: 10,
+						result: {
+							type: "action",
+							actions,
+						} as ChatResult,
+					});
+				}
+			} catch (error) {
+				await dependencies.logger.warn(
+					"⚠️ Failed to fit chat history into the context window",
+					error instanceof Error ? error.message : String(error),
+					"offscreen",
+				);
+			}
+
 			if (mode === "agent") {
+				// Expose tools from enabled MCP servers before building the graph
+				try {
+					const mcpTools = await mcpService.loadRuntimeTools();
+					if (mcpTools.length > 0) {
+						await dependencies.logger.info(
+							`🔌 Loaded ${mcpTools.length} MCP tools`,
+							{ tools: mcpTools },
+							"offscreen",
+						);
+					}
+				} catch (error) {
+					await dependencies.logger.warn(
+						"⚠️ Failed to load MCP tools",
+						error instanceof Error ? error.message : String(error),
+						"offscreen",
+					);
+				}
+
 				// Use SimpleGraph for agent mode (following use-chat.ts pattern)
 				const graph = serviceManager.flowsService.createGraph("simple", {
 					llm: serviceManager.llmService,
@@ -198,11 +265,30 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 
 				const stream = await graph.stream(
 					{
-						messages: messages,
+						messages: chatMessages,
 						steps: [],
+						...(maxSteps ? { maxSteps } : {}),
+						...(maxResponseTokens ? { maxResponseTokens } : {}),
 					},
 					{
 						callbacks: {
+							onAction: (action) => {
+								upsertActions(actions, [
+									{
+										...action,
+										description: action.description ?? "",
+										metadata: action.metadata ?? {},
+									},
+								]);
+								dependencies.updateJobProgress(jobId, {
+									stage: "Running tools...",
+									progress: 10,
+									result: {
+										type: "action",
+										actions,
+									} as ChatResult,
+								});
+							},
 							onNewChunk: async (chunk: ChatCompletionChunk) => {
 								// Stream all chunk types immediately if it's a tool call
 								const hasToolCalls =
@@ -256,11 +342,7 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 							Array.isArray(partialValue.actions) &&
 							partialValue.actions?.length
 						) {
-							partialValue.actions.forEach((action: any) => {
-								if (!actions.find((a) => a.id === action.id)) {
-									actions.push(action);
-								}
-							});
+							upsertActions(actions, partialValue.actions);
 							dependencies.updateJobProgress(jobId, {
 								stage: "Receiving response...",
 								progress: 10,
@@ -290,9 +372,11 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 
 				const stream = await graph.stream(
 					{
-						messages: messages,
+						messages: chatMessages,
 						query: query || messages[messages.length - 1]?.content || "",
 						topicId: topicId,
+						asOf,
+						maxResponseTokens,
 						steps: [],
 					},
 					{
@@ -350,11 +434,7 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 							Array.isArray(partialValue.actions) &&
 							partialValue.actions?.length
 						) {
-							partialValue.actions.forEach((action: any) => {
-								if (!actions.find((a) => a.id === action.id)) {
-									actions.push(action);
-								}
-							});
+							upsertActions(actions, partialValue.actions);
 							dependencies.updateJobProgress(jobId, {
 								stage: "Receiving response...",
 								progress: 10,
@@ -370,11 +450,12 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 				// Flush any remaining buffered content
 				streamBuffer.flush();
 			} else {
-				// Normal mode - direct LLM call (following use-chat.ts pattern exactly)
+				// Normal mode - direct LLM call on the model routed to chat
+				const route = await serviceManager.llmService.resolveModelFor("chat");
 				const request: ChatCompletionRequest = {
-					messages: messages,
-					model: model,
-					max_tokens: 4096,
+					messages: chatMessages,
+					model: route.modelId,
+					max_tokens: maxResponseTokens ?? 4096,
 					temperature: 0.3,
 					stream: true,
 				};
@@ -388,7 +469,8 @@ export class ChatHandler extends BaseProcessHandler<ChatJob> {
 					// Use the exact same pattern from use-chat.ts lines 294-304
 					if (request.stream) {
 						// For streaming, the result should be an AsyncIterableIterator
-						const stream = serviceManager.llmService.chatCompletions(
+						const stream = serviceManager.llmService.chatCompletionsFor(
+							route.serviceName,
 							request,
 						) as AsyncIterableIterator<ChatCompletionChunk>;
 
@@ -471,6 +553,7 @@ const chatHandler = new ChatHandler();
 handlerRegistry.register({
 	instance: chatHandler,
 	jobs: [JOB_NAMES.chat],
+	policy: { priority: 10 },
 });
 
 // Extend global registry for smart type inference
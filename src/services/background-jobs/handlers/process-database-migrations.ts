@@ -0,0 +1,104 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { serviceManager } from "@/services";
+import {
+	getMigrationStatus,
+	migrateTo,
+	planMigrations,
+	type MigrationStep,
+	type MigrationsOverview,
+} from "@/services/database/migrations";
+import { logInfo, logError } from "@/utils/logger";
+import { handlerRegistry } from "./handler-registry";
+import type { BaseJob, ProcessHandler, ItemHandlerResult } from "./types";
+
+const JOB_NAMES = {
+	status: "database-migrations-status",
+	plan: "database-migrations-plan",
+	migrate: "database-migrations-migrate",
+} as const;
+
+export interface MigrationStatusPayload {
+	// Empty payload for this job
+}
+
+export interface MigrationTargetPayload {
+	targetVersion?: number;
+}
+
+export interface MigrationStatusResult
+	extends MigrationsOverview,
+		Record<string, unknown> {}
+
+export interface MigrationPlanResult extends Record<string, unknown> {
+	steps: MigrationStep[];
+}
+
+export interface MigrationRunResult extends Record<string, unknown> {
+	steps: MigrationStep[];
+	status: MigrationsOverview;
+}
+
+/**
+ * Migrations need a transaction on the real PGlite instance, which only
+ * exists in the offscreen document, so the UI reaches them through jobs
+ */
+class DatabaseMigrationsHandler implements ProcessHandler<BaseJob> {
+	async process(jobId: string, job: BaseJob): Promise<ItemHandlerResult> {
+		try {
+			const pglite =
+				(await serviceManager.databaseService.getPGLiteInstance()) as PGlite;
+			const payload = job.payload as MigrationTargetPayload;
+
+			switch (job.jobType) {
+				case JOB_NAMES.status:
+					return await getMigrationStatus(pglite);
+				case JOB_NAMES.plan:
+					return { steps: await planMigrations(pglite, payload.targetVersion) };
+				case JOB_NAMES.migrate: {
+					logInfo("[DATABASE_MIGRATIONS_HANDLER] Migrating database", {
+						jobId,
+						targetVersion: payload.targetVersion,
+					});
+					const steps = await migrateTo(pglite, payload.targetVersion);
+					return { steps, status: await getMigrationStatus(pglite) };
+				}
+				default:
+					throw new Error(`Unknown job type: ${job.jobType}`);
+			}
+		} catch (error) {
+			logError(
+				"[DATABASE_MIGRATIONS_HANDLER] Failed to process migration job:",
+				error,
+			);
+			throw error;
+		}
+	}
+}
+
+// Register the handler
+const handler = new DatabaseMigrationsHandler();
+handlerRegistry.register({
+	instance: handler as ProcessHandler<BaseJob>,
+	jobs: [
+		"database-migrations-status",
+		"database-migrations-plan",
+		"database-migrations-migrate",
+	],
+	// Never plan against a schema that is being migrated
+	policy: { concurrency: 1 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"database-migrations-status": MigrationStatusPayload;
+		"database-migrations-plan": MigrationTargetPayload;
+		"database-migrations-migrate": MigrationTargetPayload;
+	}
+
+	interface JobResultRegistry {
+		"database-migrations-status": MigrationStatusResult;
+		"database-migrations-plan": MigrationPlanResult;
+		"database-migrations-migrate": MigrationRunResult;
+	}
+}
@@ -0,0 +1,108 @@
+import { serviceManager } from "@/services";
+import {
+	embeddingModelService,
+	type EmbeddingModelRecord,
+} from "@/services/embedding/embedding-model-service";
+import type { EmbeddingConfig } from "@/services/embedding/interfaces/base-embedding";
+import type {
+	ProcessHandler,
+	ProcessDependencies,
+	BaseJob,
+	ItemHandlerResult,
+} from "./types";
+import { backgroundProcessFactory } from "./process-factory";
+
+const JOB_NAMES = {
+	status: "embedding-model-status",
+	switchModel: "embedding-model-switch",
+} as const;
+
+export interface EmbeddingModelStatusPayload {
+	// No specific payload needed
+}
+
+export interface EmbeddingModelSwitchPayload {
+	config: EmbeddingConfig;
+}
+
+export interface EmbeddingModelStatusResult extends Record<string, unknown> {
+	record: EmbeddingModelRecord | null;
+	loadedModelId: string | null;
+	pending: Record<string, number>;
+}
+
+export interface EmbeddingModelSwitchResult extends Record<string, unknown> {
+	record: EmbeddingModelRecord;
+}
+
+export class EmbeddingModelHandler implements ProcessHandler<BaseJob> {
+	async process(
+		jobId: string,
+		job: BaseJob,
+		dependencies: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		switch (job.jobType) {
+			case JOB_NAMES.status:
+				return await this.handleStatus();
+			case JOB_NAMES.switchModel:
+				return await this.handleSwitch(jobId, job, dependencies);
+			default:
+				throw new Error(`Unknown embedding model job type: ${job.jobType}`);
+		}
+	}
+
+	private async handleStatus(): Promise<ItemHandlerResult> {
+		const embeddingService = serviceManager.getEmbeddingService();
+		const embedding = embeddingService.has("default")
+			? await embeddingService.get("default")
+			: null;
+
+		return {
+			record: await embeddingModelService.getRecord(),
+			loadedModelId: embedding?.name ?? null,
+			pending: await embeddingModelService.getPendingCounts(),
+		};
+	}
+
+	private async handleSwitch(
+		jobId: string,
+		job: BaseJob,
+		dependencies: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		const { logger, updateJobProgress } = dependencies;
+		const { config } = job.payload as EmbeddingModelSwitchPayload;
+
+		await updateJobProgress(jobId, {
+			stage: `Loading ${config.modelName ?? config.type} embedding`,
+			progress: 20,
+		});
+		const record = await embeddingModelService.switchModel(config);
+
+		await logger.info(
+			`Embedding model switched to ${record.modelId}`,
+			{ jobId, status: record.status, dimensions: record.dimensions },
+			"embedding-model",
+		);
+		return { record };
+	}
+}
+
+// Self-register the handler
+backgroundProcessFactory.register({
+	instance: new EmbeddingModelHandler(),
+	jobs: Object.values(JOB_NAMES),
+	policy: { concurrency: 1 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"embedding-model-status": EmbeddingModelStatusPayload;
+		"embedding-model-switch": EmbeddingModelSwitchPayload;
+	}
+
+	interface JobResultRegistry {
+		"embedding-model-status": EmbeddingModelStatusResult;
+		"embedding-model-switch": EmbeddingModelSwitchResult;
+	}
+}
@@ -385,6 +385,7 @@ export class EmbeddingOperationsHandler implements ProcessHandler<BaseJob> {
 backgroundProcessFactory.register({
 	instance: new EmbeddingOperationsHandler(),
 	jobs: Object.values(JOB_NAMES),
+	policy: { priority: 10 },
 });
 
 // Extend global registry for smart type inference
@@ -4,13 +4,22 @@ import type {
 	ProcessHandler,
 	JobProgressUpdate,
 	JobResult,
+	JobPolicy,
+	JobStatus,
 	BaseJob,
 } from "./types";
 import { handlerRegistry, type HandlerRegistration } from "./handler-registry";
 
+export type SharedDependencies = Omit<ProcessDependencies, "signal">;
+
+export interface JobExecution {
+	status: JobStatus;
+	retryInMs?: number; // Set when the attempt failed and the policy allows another
+}
+
 export class ProcessFactory {
 	private static instance: ProcessFactory;
-	private dependencies?: ProcessDependencies;
+	private dependencies?: SharedDependencies;
 
 	private constructor() {}
 
@@ -21,7 +30,7 @@ export class ProcessFactory {
 		return ProcessFactory.instance;
 	}
 
-	setDependencies(dependencies: ProcessDependencies): void {
+	setDependencies(dependencies: SharedDependencies): void {
 		this.dependencies = dependencies;
 	}
 
@@ -33,20 +42,32 @@ export class ProcessFactory {
 		return handlerRegistry.getHandler(jobType);
 	}
 
+	getPolicy(jobType: string): JobPolicy {
+		return handlerRegistry.getPolicy(jobType);
+	}
+
 	/**
-	 * Execute a job with automatic completion and error handling
+	 * Execute one attempt of a job with automatic completion and error handling.
+	 * A failed attempt that its policy allows to retry is not completed; the
+	 * caller schedules the retry after `retryInMs`.
 	 */
-	async executeJob(jobId: string, job: BaseJob): Promise<void> {
+	async executeJob(
+		jobId: string,
+		job: BaseJob,
+		signal: AbortSignal = new AbortController().signal,
+	): Promise<JobExecution> {
 		if (!this.dependencies) {
 			throw new Error(
 				"ProcessFactory dependencies not set. Call setDependencies() first.",
 			);
 		}
 
+		const dependencies: ProcessDependencies = { ...this.dependencies, signal };
 		const progressHistory: JobProgressUpdate[] = [];
 
 		try {
 			const handler = this.createUnifiedHandler(job.jobType);
+			signal.throwIfAborted();
 
 			// Initial progress update
 			const startProgress: JobProgressUpdate = {
@@ -57,56 +78,78 @@ export class ProcessFactory {
 			};
 			progressHistory.push(startProgress);
 
-			await this.dependencies.updateJobProgress(jobId, startProgress);
+			await dependencies.updateJobProgress(jobId, startProgress);
 
 			// Execute the handler and get result
-			const handlerResult = await handler.process(
-				jobId,
-				job,
-				this.dependencies,
-			);
+			const handlerResult = await handler.process(jobId, job, dependencies);
+
+			// Handlers that stop early on cancellation still hand back what they did
+			const status: JobStatus = signal.aborted ? "cancelled" : "completed";
 
 			// Final progress update
 			const finalTimestamp = new Date();
 			const finalProgress: JobProgressUpdate = {
-				stage: "Completed successfully",
+				stage: status === "cancelled" ? "Cancelled" : "Completed successfully",
 				progress: 100,
 				timestamp: finalTimestamp,
 				completedAt: finalTimestamp,
-				status: "completed",
+				status,
 				result: handlerResult,
 			};
 			progressHistory.push(finalProgress);
 
-			await this.dependencies.updateJobProgress(jobId, finalProgress);
+			await dependencies.updateJobProgress(jobId, finalProgress);
 
 			// Create complete job result
 			const jobResult: JobResult = {
-				status: "completed",
+				status,
 				result: handlerResult,
 				progress: progressHistory,
 			};
 
 			// Complete the job automatically
-			await this.dependencies.completeJob(jobId, jobResult);
+			await dependencies.completeJob(jobId, jobResult);
 
 			// Log result
-			await this.dependencies.logger.info(
-				`✅ Job completed: [${jobId}] ${job.jobType}`,
+			await dependencies.logger.info(
+				`✅ Job ${status}: [${jobId}] ${job.jobType}`,
 				{ jobType: job.jobType, result: handlerResult },
 				"offscreen",
 			);
+			return { status };
 		} catch (error) {
+			if (signal.aborted) {
+				return this.cancelJob(jobId, job, progressHistory);
+			}
+
 			// Handle unexpected errors
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
 
-			await this.dependencies.logger.error(
+			await dependencies.logger.error(
 				`💥 Unexpected error in job: ${jobId}`,
 				error,
 				"offscreen",
 			);
 
+			const policy = this.getPolicy(job.jobType);
+			const attempt = (job.attempts ?? 0) + 1;
+			if (attempt < policy.maxAttempts) {
+				const retryInMs = Math.min(
+					policy.backoffMs * 2 ** (attempt - 1),
+					policy.maxBackoffMs,
+				);
+				await dependencies.updateJobProgress(jobId, {
+					stage: `Attempt ${attempt} of ${policy.maxAttempts} failed, retrying in ${Math.round(retryInMs / 1000)}s`,
+					progress: 0,
+					timestamp: new Date(),
+					status: "pending",
+					error: errorMessage,
+					metadata: { error: errorMessage, attempt },
+				});
+				return { status: "pending", retryInMs };
+			}
+
 			const errorTimestamp = new Date();
 			const errorProgress: JobProgressUpdate = {
 				stage: "Failed with error",
@@ -119,7 +162,7 @@ export class ProcessFactory {
 			};
 			progressHistory.push(errorProgress);
 
-			await this.dependencies.updateJobProgress(jobId, errorProgress);
+			await dependencies.updateJobProgress(jobId, errorProgress);
 
 			const jobResult: JobResult = {
 				status: "failed",
@@ -127,8 +170,46 @@ export class ProcessFactory {
 				error: errorMessage,
 			};
 
-			await this.dependencies.completeJob(jobId, jobResult);
+			await dependencies.completeJob(jobId, jobResult);
+			return { status: "failed" };
+		}
+	}
+
+	/**
+	 * Complete a job as cancelled, whether it was running or still waiting
+	 */
+	async cancelJob(
+		jobId: string,
+		job: BaseJob,
+		progressHistory: JobProgressUpdate[] = [],
+	): Promise<JobExecution> {
+		if (!this.dependencies) {
+			throw new Error(
+				"ProcessFactory dependencies not set. Call setDependencies() first.",
+			);
 		}
+
+		const cancelTimestamp = new Date();
+		const cancelProgress: JobProgressUpdate = {
+			stage: "Cancelled",
+			progress: 100,
+			timestamp: cancelTimestamp,
+			completedAt: cancelTimestamp,
+			status: "cancelled",
+		};
+		progressHistory.push(cancelProgress);
+
+		await this.dependencies.updateJobProgress(jobId, cancelProgress);
+		await this.dependencies.completeJob(jobId, {
+			status: "cancelled",
+			progress: progressHistory,
+		});
+		await this.dependencies.logger.info(
+			`🛑 Job cancelled: [${jobId}] ${job.jobType}`,
+			{ jobType: job.jobType },
+			"offscreen",
+		);
+		return { status: "cancelled" };
 	}
 
 	static createDependencies(
@@ -137,7 +218,7 @@ export class ProcessFactory {
 			progress: JobProgressUpdate,
 		) => Promise<void>,
 		completeJob: (jobId: string, result: JobResult) => Promise<void>,
-	): ProcessDependencies {
+	): SharedDependencies {
 		return {
 			logger: {
 				info: async (
@@ -0,0 +1,71 @@
+import {
+	graphMaintenanceService,
+	type DuplicateScanResult,
+} from "@/modules/knowledge/services/graph-maintenance-service";
+import type {
+	ProcessHandler,
+	ProcessDependencies,
+	BaseJob,
+	ItemHandlerResult,
+} from "./types";
+import { backgroundProcessFactory } from "./process-factory";
+
+const JOB_NAMES = {
+	findDuplicateNodes: "find-duplicate-nodes",
+} as const;
+
+export interface FindDuplicateNodesPayload {
+	// Overrides DUPLICATE_SCORE_THRESHOLD
+	threshold?: number;
+}
+
+export type FindDuplicateNodesResult = DuplicateScanResult;
+
+/**
+ * Scans the knowledge graph for nodes that likely name the same entity and
+ * stores them as merge suggestions for review on the knowledge graph page.
+ * Queued periodically by the offscreen document.
+ */
+export class GraphMaintenanceHandler implements ProcessHandler<BaseJob> {
+	async process(
+		jobId: string,
+		job: BaseJob,
+		{ logger, updateJobProgress }: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		const payload = (job.payload ?? {}) as FindDuplicateNodesPayload;
+
+		await updateJobProgress(jobId, {
+			stage: "Looking for duplicate nodes...",
+			progress: 10,
+		});
+
+		const result = await graphMaintenanceService.findDuplicateCandidates(
+			payload.threshold,
+		);
+
+		await logger.info(
+			"Duplicate node scan finished",
+			{ jobId, ...result },
+			"graph-maintenance",
+		);
+		return result;
+	}
+}
+
+// Self-register the handler
+backgroundProcessFactory.register({
+	instance: new GraphMaintenanceHandler(),
+	jobs: Object.values(JOB_NAMES),
+	policy: { concurrency: 1, priority: -10 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"find-duplicate-nodes": FindDuplicateNodesPayload;
+	}
+
+	interface JobResultRegistry {
+		"find-duplicate-nodes": FindDuplicateNodesResult;
+	}
+}
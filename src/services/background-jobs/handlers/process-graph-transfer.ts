@@ -0,0 +1,72 @@
+import {
+	graphTransferService,
+	type GraphImportRequest,
+	type GraphImportResult,
+} from "@/modules/knowledge/services/graph-transfer-service";
+import type {
+	ProcessHandler,
+	ProcessDependencies,
+	BaseJob,
+	ItemHandlerResult,
+} from "./types";
+import { backgroundProcessFactory } from "./process-factory";
+
+const JOB_NAMES = {
+	importKnowledgeGraph: "import-knowledge-graph",
+} as const;
+
+export type ImportKnowledgeGraphPayload = GraphImportRequest;
+
+export type ImportKnowledgeGraphResult = GraphImportResult;
+
+/**
+ * Merges a shared GraphML or JSON-LD graph into the knowledge graph. The
+ * nodes and edges go through entity and fact resolution, which needs the
+ * LLM, so imports run in the offscreen document one at a time.
+ */
+export class GraphTransferHandler implements ProcessHandler<BaseJob> {
+	async process(
+		jobId: string,
+		job: BaseJob,
+		{ logger, updateJobProgress }: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		const payload = job.payload as ImportKnowledgeGraphPayload;
+
+		await updateJobProgress(jobId, {
+			stage: "Reading graph file...",
+			progress: 5,
+		});
+
+		const result = await graphTransferService.importGraph(
+			payload,
+			(stage, progress) => {
+				void updateJobProgress(jobId, { stage, progress });
+			},
+		);
+
+		await logger.info(
+			"Knowledge graph import finished",
+			{ jobId, name: payload.name, ...result },
+			"graph-transfer",
+		);
+		return result;
+	}
+}
+
+// Self-register the handler
+backgroundProcessFactory.register({
+	instance: new GraphTransferHandler(),
+	jobs: Object.values(JOB_NAMES),
+	policy: { concurrency: 1 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"import-knowledge-graph": ImportKnowledgeGraphPayload;
+	}
+
+	interface JobResultRegistry {
+		"import-knowledge-graph": ImportKnowledgeGraphResult;
+	}
+}
@@ -14,30 +14,51 @@ import { backgroundProcessFactory } from "./process-factory";
 
 export type KnowledgeGraphPayload = RememberedContent;
 
+export interface ConversationKnowledgeGraphPayload {
+	conversationId: string;
+}
+
 // Define result types that handlers return
 export interface KnowledgeGraphResult extends Record<string, unknown> {
 	pageTitle: string;
 }
 
+export interface ConversationKnowledgeGraphResult
+	extends Record<string, unknown> {
+	conversationTitle: string;
+	stage: string;
+	stats?: ConversionProgress["stats"];
+}
+
 // Extend global registry for smart type inference
 declare global {
 	interface JobTypeRegistry {
 		"knowledge-graph": KnowledgeGraphPayload;
+		"knowledge-graph-conversation": ConversationKnowledgeGraphPayload;
 	}
 
 	interface JobResultRegistry {
 		"knowledge-graph": KnowledgeGraphResult;
+		"knowledge-graph-conversation": ConversationKnowledgeGraphResult;
 	}
 }
 
 const JOB_NAMES = {
 	convertPageToKnowledgeGraph: "knowledge-graph",
+	convertConversationToKnowledgeGraph: "knowledge-graph-conversation",
 } as const;
 
-export type KnowledgeGraphJob = BaseJob & {
-	jobType: (typeof JOB_NAMES)[keyof typeof JOB_NAMES];
-	payload: KnowledgeGraphPayload;
-};
+export type KnowledgeGraphJob = BaseJob &
+	(
+		| {
+				jobType: typeof JOB_NAMES.convertPageToKnowledgeGraph;
+				payload: KnowledgeGraphPayload;
+		  }
+		| {
+				jobType: typeof JOB_NAMES.convertConversationToKnowledgeGraph;
+				payload: ConversationKnowledgeGraphPayload;
+		  }
+	);
 
 export class KnowledgeGraphHandler extends BaseProcessHandler<KnowledgeGraphJob> {
 	constructor() {
@@ -49,6 +70,10 @@ export class KnowledgeGraphHandler extends BaseProcessHandler<KnowledgeGraphJob>
 		job: KnowledgeGraphJob,
 		dependencies: ProcessDependencies,
 	): Promise<ItemHandlerResult> {
+		if (job.jobType === JOB_NAMES.convertConversationToKnowledgeGraph) {
+			return this.processConversation(jobId, job.payload, dependencies);
+		}
+
 		// Job is properly typed - no casting needed
 		const pageData = job.payload;
 
@@ -74,95 +99,123 @@ export class KnowledgeGraphHandler extends BaseProcessHandler<KnowledgeGraphJob>
 			"offscreen",
 		);
 
-		try {
-			// Update source status to processing at the start
-			await this.updateSourceStatus(pageData.id, "processing");
+		// Send initial progress update
+		await dependencies.updateJobProgress(jobId, {
+			stage: "Starting background processing...",
+			progress: 5,
+		});
 
-			// Send initial progress update
-			await dependencies.updateJobProgress(jobId, {
-				stage: "Starting background processing...",
-				progress: 5,
-			});
+		// Subscribe to knowledge graph service progress for detailed logging
+		const unsubscribe = knowledgeGraphService.subscribe((conversions) => {
+			const conversion = conversions.get(pageData.id);
+			if (!conversion) return;
 
-			// Subscribe to knowledge graph service progress for detailed logging
-			const unsubscribe = knowledgeGraphService.subscribe((conversions) => {
-				const conversion = conversions.get(pageData.id);
-				if (!conversion) return;
-
-				const progressUpdate = this.mapConversionToJobProgress(conversion);
-				void dependencies.updateJobProgress(jobId, progressUpdate);
-				dependencies.logger.info(
-					`📊 Job ${jobId} progress: ${conversion.stage}`,
-					{
-						status: conversion.status,
-						progress: conversion.progress,
-						stage: conversion.stage,
-					},
-					"offscreen",
-				);
-			});
+			const progressUpdate = this.mapConversionToJobProgress(conversion);
+			void dependencies.updateJobProgress(jobId, progressUpdate);
+			dependencies.logger.info(
+				`📊 Job ${jobId} progress: ${conversion.stage}`,
+				{
+					status: conversion.status,
+					progress: conversion.progress,
+					stage: conversion.stage,
+				},
+				"offscreen",
+			);
+		});
 
-			try {
-				await dependencies.logger.info(
-					`🧠 Processing knowledge graph for: ${pageData.title}`,
-					{
-						jobId,
-						pageId: pageData.id,
-						contentLength: pageData.content.length,
-					},
-					"offscreen",
-				);
+		try {
+			await dependencies.logger.info(
+				`🧠 Processing knowledge graph for: ${pageData.title}`,
+				{
+					jobId,
+					pageId: pageData.id,
+					contentLength: pageData.content.length,
+				},
+				"offscreen",
+			);
 
-				await knowledgeGraphService.convertPageToKnowledgeGraph(pageData);
+			// Source status and attempts are tracked by the service
+			await knowledgeGraphService.convertPageToKnowledgeGraph(pageData);
 
-				await dependencies.logger.info(
-					`✅ Knowledge graph job completed successfully: ${jobId}`,
-					{
-						pageTitle: pageData.title,
-					},
-					"offscreen",
+			// The conversion records failures instead of throwing; surface
+			// them so the job policy retries
+			const conversion = knowledgeGraphService.getConversion(pageData.id);
+			if (conversion?.status === "failed") {
+				throw new Error(
+					conversion.error || "Knowledge graph conversion failed",
 				);
-
-				// Source status is already updated by knowledgeGraphService.convertPageToKnowledgeGraph
-				return { pageTitle: pageData.title };
-			} finally {
-				unsubscribe();
 			}
-		} catch (error) {
-			// Update source status to failed on error
-			await this.updateSourceStatus(pageData.id, "failed");
-			throw error;
+
+			await dependencies.logger.info(
+				`✅ Knowledge graph job completed successfully: ${jobId}`,
+				{
+					pageTitle: pageData.title,
+				},
+				"offscreen",
+			);
+
+			return { pageTitle: pageData.title };
+		} finally {
+			unsubscribe();
 		}
 	}
 
-	private async updateSourceStatus(
-		pageId: string,
-		status: "pending" | "processing" | "completed" | "failed",
-	): Promise<void> {
-		try {
-			await serviceManager.databaseService.use(async ({ db, schema }) => {
-				const { and, eq } = await import("drizzle-orm");
-				const now = new Date();
-				await db
-					.update(schema.sources)
-					.set({
-						status,
-						statusValidFrom: now,
-						updatedAt: now,
-					})
-					.where(
-						and(
-							eq(schema.sources.targetType, "remembered_pages"),
-							eq(schema.sources.targetId, pageId),
-						),
-					);
+	private async processConversation(
+		jobId: string,
+		payload: ConversationKnowledgeGraphPayload,
+		dependencies: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		await dependencies.logger.info(
+			`💬 Starting conversation knowledge graph job: ${jobId}`,
+			{ conversationId: payload.conversationId },
+			"offscreen",
+		);
+
+		await dependencies.updateJobProgress(jobId, {
+			stage: "Starting background processing...",
+			progress: 5,
+		});
+
+		// Forward per-message progress of the conversion to the job
+		const unsubscribe = knowledgeGraphService.subscribe((conversions) => {
+			const conversion = conversions.get(payload.conversationId);
+			if (
+				!conversion ||
+				conversion.status === "completed" ||
+				conversion.status === "failed"
+			) {
+				return;
+			}
+
+			void dependencies.updateJobProgress(jobId, {
+				stage: conversion.stage,
+				progress: conversion.progress,
 			});
-		} catch (error) {
-			// Log but don't fail the job
-			console.error(
-				`Failed to update source status for page ${pageId}:`,
-				error,
+		});
+
+		try {
+			const conversion =
+				await knowledgeGraphService.convertConversationToKnowledgeGraph(
+					payload.conversationId,
+				);
+
+			if (conversion.status === "failed") {
+				throw new Error(conversion.error || "Failed to remember conversation");
+			}
+
+			await dependencies.logger.info(
+				`✅ Conversation knowledge graph job completed: ${jobId}`,
+				{ stage: conversion.stage, stats: conversion.stats },
+				"offscreen",
 			);
+
+			return {
+				conversationTitle: conversion.pageTitle,
+				stage: conversion.stage,
+				stats: conversion.stats,
+			};
+		} finally {
+			unsubscribe();
 		}
 	}
 
@@ -204,4 +257,6 @@ export class KnowledgeGraphHandler extends BaseProcessHandler<KnowledgeGraphJob>
 backgroundProcessFactory.register({
 	instance: new KnowledgeGraphHandler(),
 	jobs: Object.values(JOB_NAMES),
+	// Extraction is long and LLM-bound: one at a time, retried on flaky calls
+	policy: { maxAttempts: 3, backoffMs: 5000, concurrency: 1, priority: -10 },
 });
@@ -697,6 +697,8 @@ export class LLMOperationsHandler implements ProcessHandler<BaseJob> {
 backgroundProcessFactory.register({
 	instance: new LLMOperationsHandler(),
 	jobs: Object.values(JOB_NAMES),
+	// RPC-style calls from the UI jump ahead of queued background work
+	policy: { priority: 10 },
 });
 
 // Extend global registry for smart type inference
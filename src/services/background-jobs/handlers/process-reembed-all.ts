@@ -0,0 +1,146 @@
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import { VECTOR_COLUMNS } from "@/services/database/utils/vector-columns";
+import {
+	embeddingModelService,
+	type ReembedCheckpoint,
+	type ReembedResult,
+} from "@/services/embedding/embedding-model-service";
+import type {
+	ProcessHandler,
+	ProcessDependencies,
+	BaseJob,
+	ItemHandlerResult,
+} from "./types";
+import { backgroundProcessFactory } from "./process-factory";
+
+const JOB_NAMES = {
+	reembedAll: "reembed-all",
+} as const;
+
+const CONTROL_POLL_INTERVAL = 1000;
+
+export interface ReembedAllPayload {
+	// Only fill rows without a vector, e.g. after the columns were rebuilt
+	onlyMissing?: boolean;
+}
+
+export type ReembedAllResult = ReembedResult;
+
+export interface ReembedAllProgressMetadata extends Record<string, unknown> {
+	checkpoint: ReembedCheckpoint;
+	paused?: boolean;
+}
+
+/**
+ * Re-embeds nodes, edges, messages, remembered contents and chunks in
+ * batches. The cursor is checkpointed in the job store after every batch, so
+ * a job cut off by an offscreen restart continues where it stopped. Between
+ * batches the job's control field is honoured for pause/resume, and the
+ * abort signal for cancellation.
+ */
+export class ReembedAllHandler implements ProcessHandler<BaseJob> {
+	async process(
+		jobId: string,
+		job: BaseJob,
+		dependencies: ProcessDependencies,
+	): Promise<ItemHandlerResult> {
+		const { logger } = dependencies;
+		const payload = (job.payload ?? {}) as ReembedAllPayload;
+		const stored = await backgroundJob.getJob(jobId);
+		const checkpoint = (stored?.checkpoint ?? job.checkpoint) as
+			| ReembedCheckpoint
+			| undefined;
+
+		if (checkpoint) {
+			await logger.info(
+				"Resuming re-embed from checkpoint",
+				{ jobId, ...checkpoint },
+				"reembed-all",
+			);
+		}
+
+		const result = await embeddingModelService.reembed({
+			onlyMissing: payload.onlyMissing ?? false,
+			checkpoint,
+			onCheckpoint: async (next) => {
+				await backgroundJob.saveCheckpoint(jobId, next);
+				await this.reportProgress(jobId, next, dependencies);
+				return this.waitForControl(jobId, next, dependencies);
+			},
+		});
+
+		await logger.info(
+			result.cancelled ? "Re-embed cancelled" : "Re-embed finished",
+			{ jobId, embedded: result.embedded, failed: result.failed },
+			"reembed-all",
+		);
+		return result;
+	}
+
+	private async reportProgress(
+		jobId: string,
+		checkpoint: ReembedCheckpoint,
+		{ updateJobProgress }: ProcessDependencies,
+		paused = false,
+	): Promise<void> {
+		const vectorColumn = VECTOR_COLUMNS[checkpoint.columnIndex];
+		const where = vectorColumn
+			? `${vectorColumn.table}.${vectorColumn.column}`
+			: "all columns";
+		const metadata: ReembedAllProgressMetadata = { checkpoint, paused };
+
+		await updateJobProgress(jobId, {
+			stage: paused
+				? `Paused at ${where} (${checkpoint.done}/${checkpoint.total})`
+				: `Re-embedding ${where} (${checkpoint.done}/${checkpoint.total})`,
+			progress:
+				checkpoint.total > 0
+					? Math.min(99, Math.round((checkpoint.done / checkpoint.total) * 100))
+					: 0,
+			metadata,
+		});
+	}
+
+	/**
+	 * Block while the job is paused. Returns false once it is cancelled.
+	 */
+	private async waitForControl(
+		jobId: string,
+		checkpoint: ReembedCheckpoint,
+		dependencies: ProcessDependencies,
+	): Promise<boolean> {
+		const { signal } = dependencies;
+		let job = await backgroundJob.getJob(jobId);
+		if (job?.control === "pause" && !signal.aborted) {
+			await this.reportProgress(jobId, checkpoint, dependencies, true);
+			while (job?.control === "pause" && !signal.aborted) {
+				await new Promise((resolve) =>
+					setTimeout(resolve, CONTROL_POLL_INTERVAL),
+				);
+				job = await backgroundJob.getJob(jobId);
+			}
+			if (!signal.aborted && job?.control !== "cancel") {
+				await this.reportProgress(jobId, checkpoint, dependencies);
+			}
+		}
+		return !signal.aborted && job?.control !== "cancel";
+	}
+}
+
+// Self-register the handler
+backgroundProcessFactory.register({
+	instance: new ReembedAllHandler(),
+	jobs: Object.values(JOB_NAMES),
+	policy: { concurrency: 1, priority: -20 },
+});
+
+// Extend global registry for smart type inference
+declare global {
+	interface JobTypeRegistry {
+		"reembed-all": ReembedAllPayload;
+	}
+
+	interface JobResultRegistry {
+		"reembed-all": ReembedAllResult;
+	}
+}
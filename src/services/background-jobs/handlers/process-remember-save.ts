@@ -149,6 +149,7 @@ export class RememberSaveHandler extends BaseProcessHandler<RememberSaveJob> {
 backgroundProcessFactory.register({
 	instance: new RememberSaveHandler(),
 	jobs: Object.values(JOB_NAMES),
+	policy: { maxAttempts: 3, concurrency: 2 },
 });
 
 // Extend global registry for smart type inference
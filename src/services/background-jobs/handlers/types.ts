@@ -1,4 +1,21 @@
-export type JobStatus = "pending" | "processing" | "completed" | "failed";
+export type JobStatus =
+	| "pending"
+	| "processing"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+// Requested by the UI for long-running jobs; handlers check it between batches
+export type JobControl = "run" | "pause" | "cancel";
+
+// Per job type scheduling, registered alongside the handler
+export interface JobPolicy {
+	maxAttempts: number; // 1 = no retries
+	backoffMs: number; // Delay before the first retry, doubled on each further one
+	maxBackoffMs: number;
+	priority: number; // Higher runs first
+	concurrency: number; // Max jobs of this type running at once
+}
 
 // Global job type registry for smart payload type inference
 // Handlers extend this interface to register their job types and payload structures
@@ -78,6 +95,7 @@ export interface ProcessDependencies {
 		progress: JobProgressUpdate,
 	) => Promise<void>;
 	completeJob: (jobId: string, result: JobResult) => Promise<void>;
+	signal: AbortSignal; // Aborted when the job is cancelled
 }
 
 // Handler return interface - simplified to just return the result data
@@ -106,6 +124,11 @@ export interface BaseJob {
 	progress: JobProgressUpdate[]; // Track all progress updates
 	result?: Record<string, unknown>; // Final result data
 	error?: string;
+	checkpoint?: Record<string, unknown>; // Cursor of a resumable job, resumed after offscreen restarts
+	control?: JobControl;
+	priority?: number; // Overrides the job type's policy priority
+	attempts?: number; // Failed attempts so far
+	nextRetryAt?: Date;
 	[key: string]: unknown; // Allow any additional properties
 }
 
@@ -60,6 +60,29 @@ export class IdbJobStore {
 		});
 	}
 
+	/**
+	 * Merge fields into a stored job inside one transaction, so the UI and the
+	 * offscreen document can both write to the same record. Returns null when
+	 * the job is gone.
+	 */
+	async patch(id: string, changes: Partial<BaseJob>): Promise<BaseJob | null> {
+		const db = await this.open();
+		return await new Promise<BaseJob | null>((resolve, reject) => {
+			const tx = db.transaction(STORE, "readwrite");
+			const store = tx.objectStore(STORE);
+			let updated: BaseJob | null = null;
+			tx.oncomplete = () => resolve(updated);
+			tx.onerror = () => reject(tx.error);
+			const req = store.get(id);
+			req.onsuccess = () => {
+				const job = req.result as BaseJob | undefined;
+				if (!job) return;
+				updated = { ...job, ...changes };
+				store.put(updated);
+			};
+		});
+	}
+
 	async delete(id: string): Promise<void> {
 		const db = await this.open();
 		await new Promise<void>((resolve, reject) => {
@@ -74,7 +97,10 @@ export class IdbJobStore {
 	async clearCompleted(): Promise<void> {
 		const jobs = await this.getAll();
 		const toDelete = jobs.filter(
-			(j) => j.status === "completed" || j.status === "failed",
+			(j) =>
+				j.status === "completed" ||
+				j.status === "failed" ||
+				j.status === "cancelled",
 		);
 		if (toDelete.length === 0) return;
 		const db = await this.open();
@@ -0,0 +1,167 @@
+import { backgroundJob } from "./background-job";
+import type { ProcessFactory } from "./handlers/process-factory";
+import type { BaseJob } from "./handlers/types";
+import { logError, logInfo } from "@/utils/logger";
+
+// Leaves room for quick RPC-style jobs next to long extractions
+const MAX_CONCURRENT_JOBS = 4;
+
+interface RunningJob {
+	job: BaseJob;
+	controller: AbortController;
+}
+
+interface DelayedJob {
+	job: BaseJob;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Decides when jobs run in the offscreen document: highest priority first,
+ * within a global cap and the per-type caps of their policies. Failed
+ * attempts come back after their backoff, and each running job gets an
+ * AbortController so it can be cancelled.
+ */
+export class JobDispatcher {
+	private waiting: BaseJob[] = [];
+	private running = new Map<string, RunningJob>();
+	private delayed = new Map<string, DelayedJob>();
+
+	constructor(
+		private processFactory: ProcessFactory,
+		private maxConcurrent = MAX_CONCURRENT_JOBS,
+	) {}
+
+	dispatch(job: BaseJob): void {
+		if (this.has(job.id)) return;
+
+		const wait = job.nextRetryAt
+			? new Date(job.nextRetryAt).getTime() - Date.now()
+			: 0;
+		if (wait > 0) {
+			this.delay(job, wait);
+			return;
+		}
+
+		this.waiting.push(job);
+		this.drain();
+	}
+
+	/**
+	 * Abort a running job, or finish a waiting one as cancelled right away
+	 */
+	async cancel(jobId: string, job?: BaseJob): Promise<void> {
+		const running = this.running.get(jobId);
+		if (running) {
+			running.controller.abort();
+			return;
+		}
+
+		let target = job;
+		const delayed = this.delayed.get(jobId);
+		if (delayed) {
+			clearTimeout(delayed.timer);
+			this.delayed.delete(jobId);
+			target = delayed.job;
+		}
+		const index = this.waiting.findIndex((waiting) => waiting.id === jobId);
+		if (index >= 0) {
+			target = this.waiting[index];
+			this.waiting.splice(index, 1);
+		}
+		if (!target) return;
+
+		// Also reached for stored jobs this document never picked up
+		await this.processFactory.cancelJob(jobId, target);
+	}
+
+	has(jobId: string): boolean {
+		return (
+			this.running.has(jobId) ||
+			this.delayed.has(jobId) ||
+			this.waiting.some((job) => job.id === jobId)
+		);
+	}
+
+	private drain(): void {
+		this.waiting.sort(
+			(a, b) =>
+				this.priorityOf(b) - this.priorityOf(a) ||
+				new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+		);
+
+		for (const job of [...this.waiting]) {
+			if (this.running.size >= this.maxConcurrent) break;
+			const { concurrency } = this.processFactory.getPolicy(job.jobType);
+			if (this.countRunning(job.jobType) >= concurrency) continue;
+
+			this.waiting.splice(this.waiting.indexOf(job), 1);
+			void this.run(job);
+		}
+	}
+
+	private async run(job: BaseJob): Promise<void> {
+		const controller = new AbortController();
+		this.running.set(job.id, { job, controller });
+
+		try {
+			await backgroundJob.patchJob(job.id, {
+				status: "processing",
+				startedAt: new Date(),
+				nextRetryAt: undefined,
+			});
+
+			const execution = await this.processFactory.executeJob(
+				job.id,
+				job,
+				controller.signal,
+			);
+			if (execution.retryInMs !== undefined) {
+				await this.scheduleRetry(job, execution.retryInMs);
+			}
+		} catch (error) {
+			logError("❌ Job dispatch failed", { error, jobId: job.id });
+		} finally {
+			this.running.delete(job.id);
+			this.drain();
+		}
+	}
+
+	private async scheduleRetry(job: BaseJob, retryInMs: number): Promise<void> {
+		const attempts = (job.attempts ?? 0) + 1;
+		const nextRetryAt = new Date(Date.now() + retryInMs);
+
+		// Stored so a restart of this document still retries the job
+		await backgroundJob.patchJob(job.id, {
+			status: "pending",
+			attempts,
+			nextRetryAt,
+		});
+		logInfo(`🔁 Retrying ${job.jobType} job ${job.id} in ${retryInMs}ms`, {
+			attempts,
+		});
+
+		this.delay({ ...job, attempts, nextRetryAt }, retryInMs);
+	}
+
+	private delay(job: BaseJob, wait: number): void {
+		const timer = setTimeout(() => {
+			this.delayed.delete(job.id);
+			this.waiting.push(job);
+			this.drain();
+		}, wait);
+		this.delayed.set(job.id, { job, timer });
+	}
+
+	private priorityOf(job: BaseJob): number {
+		return job.priority ?? this.processFactory.getPolicy(job.jobType).priority;
+	}
+
+	private countRunning(jobType: string): number {
+		let count = 0;
+		for (const { job } of this.running.values()) {
+			if (job.jobType === jobType) count++;
+		}
+		return count;
+	}
+}
@@ -0,0 +1,528 @@
+import type { PGlite, Transaction } from "@electric-sql/pglite";
+import { serviceManager } from "@/services";
+import {
+	getAppliedMigrations,
+	migrationsById,
+} from "@/services/database/migrations";
+import { sharedStorageService } from "@/services/shared-storage";
+import { EMBEDDING_MODEL_CONFIG_KEY } from "@/config/embedding";
+import type { EmbeddingModelRecord } from "@/services/embedding/embedding-model-service";
+import { VECTOR_COLUMNS } from "@/services/database/utils/vector-columns";
+import { documentStorageService } from "@/modules/documents/services/document-storage";
+import {
+	MCP_CONFIRMATION_REQUEST_KEY,
+	MCP_CONFIRMATION_RESPONSE_KEY,
+	MCP_SERVERS_KEY,
+} from "@/modules/mcp/services/mcp-service";
+import {
+	base64ToBytes,
+	bytesToBase64,
+	decryptStringAes,
+	deriveAesKeyFromString,
+	encryptStringAes,
+} from "@/utils/aes";
+import fs from "@/utils/fs";
+import { logInfo } from "@/utils/logger";
+
+export const BACKUP_FORMAT = "memorall-backup";
+export const BACKUP_VERSION = 1;
+
+type TableRows = Record<string, unknown>[];
+
+export interface BackupArchive {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	createdAt: string;
+	// Migrations applied to the database the backup was taken from
+	schema: { migrations: Array<{ id: string; version: number }> };
+	// Rows per table, without the secret rows
+	database: Record<string, TableRows>;
+	// Files under the documents root, .metadata.json included
+	documents: Array<{ path: string; data: string }>;
+	// Shared storage entries, e.g. the selected model
+	storage: Record<string, unknown>;
+	// Secret rows per table, AES encrypted with the backup passphrase
+	secrets?: string;
+}
+
+export type SecretRows = Record<string, TableRows>;
+
+export interface BackupSummary extends Record<string, unknown> {
+	tables: number;
+	rows: number;
+	documents: number;
+	storageKeys: number;
+	includesSecrets: boolean;
+}
+
+// Rows that hold credentials, per table, as a SQL condition. They only leave
+// the device encrypted with a passphrase the user chose for the backup.
+const SECRET_ROWS: Record<string, string> = {
+	encryptions: "TRUE",
+	configurations: `key = '${MCP_SERVERS_KEY}'`,
+};
+
+// Shared storage entries that only make sense while the extension runs
+const TRANSIENT_STORAGE_KEYS = new Set([
+	MCP_CONFIRMATION_REQUEST_KEY,
+	MCP_CONFIRMATION_RESPONSE_KEY,
+]);
+
+// Archives travel between the UI and the offscreen document as files here;
+// the backup jobs only carry their path
+const BACKUP_TEMP_DIR = "/home/backups";
+
+// The offscreen document asks the UI for the passphrase on this channel, so
+// it never ends up in a stored job
+const PASSPHRASE_CHANNEL = "memorall-backup-passphrase";
+const PASSPHRASE_TIMEOUT_MS = 30_000;
+
+type PassphraseMessage =
+	| { type: "request"; requestId: string }
+	| { type: "passphrase"; requestId: string; passphrase: string };
+
+type Queryable = Pick<PGlite | Transaction, "query">;
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Export of everything the user has stored: the database, the document
+ * library and the shared settings, as one JSON archive, and the matching
+ * restore. The job queue is left out, its jobs are transient.
+ *
+ * Backup and restore run on the real PGlite instance, so the UI reaches
+ * them through the backup jobs. Secret rows are sealed and opened there too,
+ * with the passphrase the UI hands over through offerPassphrase.
+ */
+export class BackupService {
+	private static instance: BackupService;
+
+	private constructor() {}
+
+	static getInstance(): BackupService {
+		if (!BackupService.instance) {
+			BackupService.instance = new BackupService();
+		}
+		return BackupService.instance;
+	}
+
+	/**
+	 * Write the archive to a temp file and return its path. Secret rows are
+	 * only included when a passphrase request is given, sealed with the
+	 * passphrase the UI answers it with.
+	 */
+	async createBackup(
+		passphraseRequest?: string,
+	): Promise<{ path: string; summary: BackupSummary }> {
+		const includeSecrets = !!passphraseRequest;
+		const pglite = await this.getPGLite();
+		const tables = await this.listTables(pglite);
+
+		const database: Record<string, TableRows> = {};
+		const secretRows: SecretRows = {};
+		for (const table of tables) {
+			const secret = SECRET_ROWS[table];
+			database[table] = await this.dumpRows(
+				pglite,
+				table,
+				secret ? `NOT (${secret})` : "TRUE",
+			);
+			if (secret && includeSecrets) {
+				secretRows[table] = await this.dumpRows(pglite, table, secret);
+			}
+		}
+
+		const files = await documentStorageService.exportFiles();
+		const storage = await this.readStorage();
+
+		const archive: BackupArchive = {
+			format: BACKUP_FORMAT,
+			version: BACKUP_VERSION,
+			createdAt: new Date().toISOString(),
+			schema: { migrations: await this.getAppliedVersions(pglite) },
+			database,
+			documents: files.map((file) => ({
+				path: file.path,
+				data: bytesToBase64(file.data),
+			})),
+			storage,
+		};
+		if (passphraseRequest) {
+			archive.secrets = await this.sealSecrets(
+				secretRows,
+				await this.requestPassphrase(passphraseRequest),
+			);
+		}
+		const path = await this.writeArchiveFile(JSON.stringify(archive));
+
+		const summary = {
+			tables: tables.length,
+			rows: Object.values(database).reduce((sum, rows) => sum + rows.length, 0),
+			documents: files.length,
+			storageKeys: Object.keys(storage).length,
+			includesSecrets: includeSecrets,
+		};
+		logInfo("💾 Created backup", summary);
+		return { path, summary };
+	}
+
+	/**
+	 * Decrypt the secret rows of an archive; archives without secrets have none
+	 */
+	async openSecrets(
+		archive: BackupArchive,
+		passphrase?: string,
+	): Promise<SecretRows | undefined> {
+		if (!archive.secrets) return undefined;
+		if (!passphrase) {
+			throw new Error("This backup contains secrets; enter its passphrase");
+		}
+		try {
+			return JSON.parse(
+				await decryptStringAes(
+					archive.secrets,
+					await deriveAesKeyFromString(passphrase),
+				),
+			);
+		} catch {
+			throw new Error("Wrong passphrase for this backup");
+		}
+	}
+
+	/**
+	 * Fail early on files that are not archives this version can restore
+	 */
+	parseArchive(content: string): BackupArchive {
+		let archive: BackupArchive;
+		try {
+			archive = JSON.parse(content);
+		} catch {
+			throw new Error("The file is not a backup archive");
+		}
+		if (archive?.format !== BACKUP_FORMAT) {
+			throw new Error("The file is not a backup archive");
+		}
+		if (archive.version > BACKUP_VERSION) {
+			throw new Error(
+				`Backup format ${archive.version} is newer than this version supports`,
+			);
+		}
+		return archive;
+	}
+
+	/**
+	 * Replace the current data with the archive in the given temp file. The
+	 * archive schema must be known to this version and already applied here;
+	 * archives from older schemas restore the columns both have in common.
+	 */
+	async restoreBackup(
+		path: string,
+		passphraseRequest?: string,
+	): Promise<BackupSummary> {
+		const archive = this.parseArchive(await this.readArchiveFile(path));
+		const secretRows =
+			(await this.openSecrets(
+				archive,
+				archive.secrets && passphraseRequest
+					? await this.requestPassphrase(passphraseRequest)
+					: undefined,
+			)) ?? {};
+
+		const pglite = await this.getPGLite();
+		await this.validateSchema(pglite, archive.schema.migrations);
+		await this.validateEmbedding(pglite, archive);
+
+		const tables = await this.listTables(pglite);
+		let rows = 0;
+		await pglite.transaction(async (tx) => {
+			// Skip foreign key checks and timestamp triggers while reloading
+			await tx.query("SET LOCAL session_replication_role = replica");
+
+			for (const table of tables) {
+				const secret = SECRET_ROWS[table];
+				// Secrets stay as they are unless the backup carries them
+				await tx.query(
+					`DELETE FROM ${quoteIdent(table)}${secret && !secretRows[table] ? ` WHERE NOT (${secret})` : ""}`,
+				);
+
+				const tableRows = [
+					...(archive.database[table] || []),
+					...(secretRows[table] || []),
+				];
+				rows += tableRows.length;
+				await this.insertRows(tx, table, tableRows);
+			}
+		});
+
+		await documentStorageService.restoreFiles(
+			archive.documents.map((file) => ({
+				path: file.path,
+				data: base64ToBytes(file.data),
+			})),
+		);
+
+		await sharedStorageService.initialize();
+		for (const [key, value] of Object.entries(archive.storage)) {
+			if (!TRANSIENT_STORAGE_KEYS.has(key)) {
+				await sharedStorageService.set(key, value);
+			}
+		}
+
+		const summary = {
+			tables: tables.length,
+			rows,
+			documents: archive.documents.length,
+			storageKeys: Object.keys(archive.storage).length,
+			includesSecrets: Object.keys(secretRows).length > 0,
+		};
+		logInfo("💾 Restored backup", { createdAt: archive.createdAt, ...summary });
+		return summary;
+	}
+
+	async writeArchiveFile(content: string): Promise<string> {
+		await fs.promises.mkdir(BACKUP_TEMP_DIR, { recursive: true });
+		const path = `${BACKUP_TEMP_DIR}/${crypto.randomUUID()}.json`;
+		await fs.promises.writeFile(path, content, "utf-8");
+		return path;
+	}
+
+	async readArchiveFile(path: string): Promise<string> {
+		return fs.promises.readFile(path, "utf-8");
+	}
+
+	async removeArchiveFile(path: string): Promise<void> {
+		await fs.promises.rm(path, { force: true });
+	}
+
+	/**
+	 * Answer the passphrase request of a backup job from the context the
+	 * user typed it in. Pass requestId in the job payload and close the
+	 * channel once the job is done.
+	 */
+	offerPassphrase(passphrase: string): {
+		requestId: string;
+		close: () => void;
+	} {
+		const requestId = crypto.randomUUID();
+		const channel = new BroadcastChannel(PASSPHRASE_CHANNEL);
+		channel.onmessage = (event: MessageEvent<PassphraseMessage>) => {
+			if (
+				event.data?.type === "request" &&
+				event.data.requestId === requestId
+			) {
+				channel.postMessage({
+					type: "passphrase",
+					requestId,
+					passphrase,
+				} satisfies PassphraseMessage);
+			}
+		};
+		return { requestId, close: () => channel.close() };
+	}
+
+	private async requestPassphrase(requestId: string): Promise<string> {
+		const channel = new BroadcastChannel(PASSPHRASE_CHANNEL);
+		try {
+			return await new Promise<string>((resolve, reject) => {
+				const timer = setTimeout(
+					() => reject(new Error("No passphrase was given for the backup")),
+					PASSPHRASE_TIMEOUT_MS,
+				);
+				channel.onmessage = (event: MessageEvent<PassphraseMessage>) => {
+					if (
+						event.data?.type === "passphrase" &&
+						event.data.requestId === requestId
+					) {
+						clearTimeout(timer);
+						resolve(event.data.passphrase);
+					}
+				};
+				channel.postMessage({
+					type: "request",
+					requestId,
+				} satisfies PassphraseMessage);
+			});
+		} finally {
+			channel.close();
+		}
+	}
+
+	private async sealSecrets(
+		secretRows: SecretRows,
+		passphrase: string,
+	): Promise<string> {
+		return encryptStringAes(
+			JSON.stringify(secretRows),
+			await deriveAesKeyFromString(passphrase),
+		);
+	}
+
+	private async getPGLite(): Promise<PGlite> {
+		return (await serviceManager.databaseService.getPGLiteInstance()) as PGlite;
+	}
+
+	private async listTables(db: Queryable): Promise<string[]> {
+		const result = await db.query<{ table_name: string }>(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public'
+        AND table_type = 'BASE TABLE'
+        AND table_name <> '_migrations'
+      ORDER BY table_name
+    `);
+		return result.rows.map((row) => row.table_name);
+	}
+
+	private async readStorage(): Promise<Record<string, unknown>> {
+		await sharedStorageService.initialize();
+		const storage: Record<string, unknown> = {};
+		for (const key of await sharedStorageService.getAllKeys()) {
+			if (!TRANSIENT_STORAGE_KEYS.has(key)) {
+				storage[key] = await sharedStorageService.get(key);
+			}
+		}
+		return storage;
+	}
+
+	private async getAppliedVersions(
+		db: Queryable,
+	): Promise<Array<{ id: string; version: number }>> {
+		const result = await db.query<{ id: string; version: number }>(
+			"SELECT id, version FROM _migrations ORDER BY version ASC",
+		);
+		return result.rows;
+	}
+
+	private async validateSchema(
+		db: PGlite,
+		archived: Array<{ id: string; version: number }>,
+	): Promise<void> {
+		const unknown = archived.filter(
+			(migration) =>
+				migrationsById[migration.id]?.version !== migration.version,
+		);
+		if (unknown.length > 0) {
+			throw new Error(
+				`The backup was made with a newer schema (${unknown
+					.map((migration) => migration.id)
+					.join(", ")}); update the extension before restoring it`,
+			);
+		}
+
+		const applied = new Set(await getAppliedMigrations(db));
+		const pending = archived.filter((migration) => !applied.has(migration.id));
+		if (pending.length > 0) {
+			throw new Error(
+				`Apply migrations ${pending
+					.map((migration) => migration.id)
+					.join(", ")} before restoring this backup`,
+			);
+		}
+	}
+
+	/**
+	 * Vectors only load into columns of their size and only match queries
+	 * embedded by the model that made them, so the backup must come from the
+	 * embedding model in use here
+	 */
+	private async validateEmbedding(
+		db: PGlite,
+		archive: BackupArchive,
+	): Promise<void> {
+		const archived = archive.database.configurations?.find(
+			(row) => row.key === EMBEDDING_MODEL_CONFIG_KEY,
+		)?.data as EmbeddingModelRecord | undefined;
+		const result = await db.query<{ data: EmbeddingModelRecord }>(
+			"SELECT data FROM configurations WHERE key = $1",
+			[EMBEDDING_MODEL_CONFIG_KEY],
+		);
+		const current = result.rows[0]?.data;
+		const switchHint = archived
+			? `switch the embedding model to ${archived.modelId} before restoring`
+			: "switch to the embedding model it was made with before restoring";
+
+		if (archived && current && archived.modelId !== current.modelId) {
+			throw new Error(
+				`The backup was embedded with ${archived.modelId} but this database uses ${current.modelId}; ${switchHint}`,
+			);
+		}
+
+		for (const { table, column } of VECTOR_COLUMNS) {
+			// Vectors are dumped in their text form, e.g. "[0.1,0.2]"
+			const vector = archive.database[table]?.find(
+				(row) => typeof row[column] === "string",
+			)?.[column] as string | undefined;
+			if (!vector) continue;
+
+			const dimensions = vector.split(",").length;
+			const columnDimensions = await this.getVectorDimensions(
+				db,
+				table,
+				column,
+			);
+			if (columnDimensions && dimensions !== columnDimensions) {
+				throw new Error(
+					`The backup has ${dimensions}-dimension vectors in ${table}.${column} but this database stores ${columnDimensions}; ${switchHint}`,
+				);
+			}
+		}
+	}
+
+	private async getVectorDimensions(
+		db: Queryable,
+		table: string,
+		column: string,
+	): Promise<number | null> {
+		// pgvector keeps the declared size in atttypmod
+		const result = await db.query<{ atttypmod: number }>(
+			`SELECT atttypmod FROM pg_attribute
+      WHERE attrelid = $1::regclass AND attname = $2`,
+			[table, column],
+		);
+		const dimensions = result.rows[0]?.atttypmod;
+		return dimensions && dimensions > 0 ? dimensions : null;
+	}
+
+	// Rows go through JSON in both directions, so vectors, arrays and
+	// timestamps keep their text representation and load back unchanged
+	private async dumpRows(
+		db: Queryable,
+		table: string,
+		condition: string,
+	): Promise<TableRows> {
+		const result = await db.query<{ rows: TableRows }>(
+			`SELECT COALESCE(json_agg(t), '[]'::json) AS rows FROM ${quoteIdent(table)} t WHERE ${condition}`,
+		);
+		return result.rows[0]?.rows ?? [];
+	}
+
+	private async insertRows(
+		db: Queryable,
+		table: string,
+		rows: TableRows,
+	): Promise<void> {
+		if (rows.length === 0) return;
+
+		// Columns added by later migrations keep their defaults
+		const result = await db.query<{ column_name: string }>(
+			`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = $1 AND is_generated = 'NEVER'
+    `,
+			[table],
+		);
+		const archived = new Set(rows.flatMap((row) => Object.keys(row)));
+		const columns = result.rows
+			.map((row) => row.column_name)
+			.filter((column) => archived.has(column))
+			.map(quoteIdent)
+			.join(", ");
+
+		await db.query(
+			`INSERT INTO ${quoteIdent(table)} (${columns})
+       SELECT ${columns} FROM json_populate_recordset(NULL::${quoteIdent(table)}, $1::json)`,
+			[JSON.stringify(rows)],
+		);
+	}
+}
+
+export const backupService = BackupService.getInstance();
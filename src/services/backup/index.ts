@@ -0,0 +1,9 @@
+export {
+	BackupService,
+	backupService,
+	BACKUP_FORMAT,
+	BACKUP_VERSION,
+	type BackupArchive,
+	type BackupSummary,
+	type SecretRows,
+} from "./backup-service";
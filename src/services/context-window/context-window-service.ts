@@ -0,0 +1,384 @@
+import { eq } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import type {
+	CurrentModelInfo,
+	ModelRole,
+	ServiceProvider,
+} from "@/services/llm/interfaces/llm-service.interface";
+import type { ChatCompletionResponse, ChatMessage } from "@/types/openai";
+import { logInfo, logWarn } from "@/utils/logger";
+
+// Key of the running summary in conversations.metadata
+export const CONTEXT_SUMMARY_KEY = "contextSummary";
+
+// Running summary of the turns that no longer fit the context window
+export interface ContextSummary {
+	text: string;
+	// Number of leading messages the summary covers
+	messageCount: number;
+	// Fingerprint of those messages, so edits or separators start a new summary
+	fingerprint: string;
+	updatedAt: string;
+}
+
+// Share of the window kept free for what a mode adds to the prompt: the
+// retrieved knowledge in knowledge mode, tool calls and results in agent mode
+export type ContextReservation = "none" | "rag" | "tools";
+
+export interface FitOptions {
+	messages: ChatMessage[];
+	// Conversation whose metadata holds the running summary, if persisted
+	conversationId?: string;
+	reservation?: ContextReservation;
+	// Role of the model that answers, whose window is fitted (default: chat)
+	role?: ModelRole;
+}
+
+export interface FitResult {
+	messages: ChatMessage[];
+	// Tokens left in the window after the fitted prompt, when the history had
+	// to be trimmed; pass as max_tokens so the prompt and the answer fit
+	// together. Unset when everything fit and callers keep their default.
+	maxResponseTokens?: number;
+	// What was summarized or cut, when anything was
+	action?: {
+		id: string;
+		name: string;
+		description: string;
+		metadata: Record<string, unknown>;
+	};
+}
+
+// Characters per token by provider. Local models have small vocabularies and
+// are counted conservatively; hosted models use the usual ~4 characters.
+const CHARS_PER_TOKEN: Record<ServiceProvider, number> = {
+	wllama: 3,
+	webllm: 3.2,
+	openai: 4,
+	lmstudio: 3.5,
+	ollama: 3.5,
+};
+// Role markers and separators the chat template adds per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const RESERVED_SHARE: Record<ContextReservation, number> = {
+	none: 0,
+	rag: 0.4,
+	tools: 0.3,
+};
+const MAX_RESPONSE_TOKENS = 1024;
+const RESPONSE_SHARE = 0.25;
+const SYSTEM_PROMPT_TOKENS = 256;
+// Most of the history budget the summary may take
+const SUMMARY_SHARE = 0.25;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an assistant.
+Merge the previous summary with the new messages into one concise summary.
+Keep facts, names, decisions, open questions and anything the user asked to remember.
+Respond with the summary only.`;
+
+/**
+ * Keeps chat history within the answering model's context window. Tokens are
+ * estimated per provider, and space is reserved for the response and for
+ * whatever the chat mode adds. Older turns that no longer fit are rolled into
+ * an LLM-written running summary kept in the conversation's metadata.
+ */
+export class ContextWindowService {
+	private static instance: ContextWindowService;
+
+	private constructor() {}
+
+	static getInstance(): ContextWindowService {
+		if (!ContextWindowService.instance) {
+			ContextWindowService.instance = new ContextWindowService();
+		}
+		return ContextWindowService.instance;
+	}
+
+	countTokens(text: string, provider?: ServiceProvider): number {
+		if (!text) return 0;
+		return Math.ceil(text.length / CHARS_PER_TOKEN[provider ?? "openai"]);
+	}
+
+	countMessageTokens(
+		messages: ChatMessage[],
+		provider?: ServiceProvider,
+	): number {
+		return messages.reduce(
+			(total, message) =>
+				total +
+				MESSAGE_OVERHEAD_TOKENS +
+				this.countTokens(message.content || "", provider),
+			0,
+		);
+	}
+
+	// Tokens set aside for the model's response while fitting the history
+	getResponseBudget(maxTokens: number): number {
+		return Math.min(
+			MAX_RESPONSE_TOKENS,
+			Math.floor(maxTokens * RESPONSE_SHARE),
+		);
+	}
+
+	/**
+	 * Tokens left for the history once the response, the system prompt and
+	 * the mode's reservation are set aside
+	 */
+	getHistoryBudget(
+		maxTokens: number,
+		reservation: ContextReservation = "none",
+	): number {
+		const response = this.getResponseBudget(maxTokens);
+		const reserved = Math.floor(maxTokens * RESERVED_SHARE[reservation]);
+		return Math.max(
+			256,
+			maxTokens - response - reserved - SYSTEM_PROMPT_TOKENS,
+		);
+	}
+
+	/**
+	 * Rebuild the prompt within the history budget: the newest turns as they
+	 * are, everything older as the running summary
+	 */
+	async fit(options: FitOptions): Promise<FitResult> {
+		const {
+			messages,
+			conversationId,
+			reservation = "none",
+			role = "chat",
+		} = options;
+		const llm = serviceManager.llmService;
+		const model = await llm.resolveModelFor(role);
+		const provider = model.provider;
+		const maxTokens = await llm.getMaxModelTokensFor(model.serviceName);
+		const budget = this.getHistoryBudget(maxTokens, reservation);
+
+		const total = this.countMessageTokens(messages, provider);
+		if (total <= budget) {
+			return { messages };
+		}
+
+		// Keep the newest messages that fit next to a full-size summary
+		const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+		let kept = 0;
+		let keptTokens = 0;
+		for (let i = messages.length - 1; i >= 0; i--) {
+			const tokens = this.countMessageTokens([messages[i]], provider);
+			if (kept > 0 && keptTokens + tokens > budget - summaryBudget) break;
+			kept++;
+			keptTokens += tokens;
+		}
+
+		const older = messages.slice(0, messages.length - kept);
+		const recent = messages.slice(messages.length - kept);
+
+		// The last message alone can outgrow the budget; cut its middle
+		let truncatedTokens = 0;
+		if (kept === 1 && keptTokens > budget - summaryBudget) {
+			const [last] = recent;
+			const allowed = budget - summaryBudget - MESSAGE_OVERHEAD_TOKENS;
+			const chars = Math.floor(allowed * CHARS_PER_TOKEN[provider ?? "openai"]);
+			truncatedTokens = keptTokens - allowed;
+			recent[0] = {
+				...last,
+				content: `${last.content.slice(0, Math.floor(chars / 2))}\n\n[...]\n\n${last.content.slice(-Math.floor(chars / 2))}`,
+			};
+		}
+
+		let summary: ContextSummary | null = null;
+		if (older.length > 0) {
+			summary = await this.summarize(
+				older,
+				conversationId,
+				summaryBudget,
+				model,
+			);
+		}
+
+		const summaryMessage: ChatMessage[] = summary
+			? [
+					{
+						role: "system",
+						content: `Summary of the earlier conversation:\n${summary.text}`,
+					},
+				]
+			: [];
+		const fitted = [...summaryMessage, ...recent];
+		const fittedTokens = this.countMessageTokens(fitted, provider);
+		const maxResponseTokens = Math.max(
+			this.getResponseBudget(maxTokens),
+			maxTokens -
+				fittedTokens -
+				Math.floor(maxTokens * RESERVED_SHARE[reservation]) -
+				SYSTEM_PROMPT_TOKENS,
+		);
+
+		logInfo("🪟 Fitted chat history to the context window", {
+			maxTokens,
+			budget,
+			maxResponseTokens,
+			summarized: older.length,
+			kept: recent.length,
+		});
+
+		const descriptions = [
+			older.length > 0
+				? `Summarized ${older.length} earlier message(s) and kept the last ${recent.length}`
+				: "",
+			truncatedTokens > 0
+				? `Shortened the last message by about ${truncatedTokens} tokens`
+				: "",
+		].filter(Boolean);
+
+		return {
+			messages: fitted,
+			maxResponseTokens,
+			action: {
+				id: crypto.randomUUID(),
+				name: "Condensed conversation history",
+				description: `${descriptions.join(". ")} to fit the ${maxTokens}-token context window.`,
+				metadata: {
+					maxTokens,
+					historyBudget: budget,
+					originalTokens: total,
+					fittedTokens,
+					summarizedMessages: older.length,
+					keptMessages: recent.length,
+					truncatedTokens,
+				},
+			},
+		};
+	}
+
+	/**
+	 * Extend the stored summary with the messages it does not cover yet, or
+	 * start over when the conversation no longer begins with what it covers
+	 */
+	private async summarize(
+		older: ChatMessage[],
+		conversationId: string | undefined,
+		summaryBudget: number,
+		model: CurrentModelInfo,
+	): Promise<ContextSummary> {
+		const provider = model.provider;
+		const stored = conversationId
+			? await this.loadSummary(conversationId)
+			: null;
+		const reusable =
+			stored &&
+			stored.messageCount <= older.length &&
+			stored.fingerprint ===
+				this.fingerprint(older.slice(0, stored.messageCount));
+
+		let text = reusable ? stored.text : "";
+		let start = reusable ? stored.messageCount : 0;
+		if (reusable && start === older.length) {
+			return stored;
+		}
+
+		// Fold the new messages in batches that fit beside the summary
+		const llm = serviceManager.llmService;
+		const maxTokens = await llm.getMaxModelTokensFor(model.serviceName);
+		const batchBudget = this.getHistoryBudget(maxTokens) - summaryBudget;
+		while (start < older.length) {
+			let end = start;
+			let tokens = 0;
+			while (end < older.length) {
+				const next = this.countMessageTokens([older[end]], provider);
+				if (end > start && tokens + next > batchBudget) break;
+				tokens += next;
+				end++;
+			}
+
+			const transcript = older
+				.slice(start, end)
+				.map((message) => `${message.role}: ${message.content}`)
+				.join("\n\n");
+			const response = (await llm.chatCompletionsFor(model.serviceName, {
+				model: model.modelId,
+				messages: [
+					{ role: "system", content: SUMMARY_PROMPT },
+					{
+						role: "user",
+						content: `<PREVIOUS SUMMARY>\n${text || "(none)"}\n</PREVIOUS SUMMARY>\n<NEW MESSAGES>\n${transcript.slice(0, Math.floor(batchBudget * CHARS_PER_TOKEN[provider ?? "openai"]))}\n</NEW MESSAGES>`,
+					},
+				],
+				max_tokens: summaryBudget,
+				temperature: 0.2,
+				stream: false,
+			})) as ChatCompletionResponse;
+
+			text = (response.choices[0]?.message.content || text).trim();
+			start = end;
+		}
+
+		const summary: ContextSummary = {
+			text,
+			messageCount: older.length,
+			fingerprint: this.fingerprint(older),
+			updatedAt: new Date().toISOString(),
+		};
+		if (conversationId) {
+			await this.saveSummary(conversationId, summary);
+		}
+		return summary;
+	}
+
+	private async loadSummary(
+		conversationId: string,
+	): Promise<ContextSummary | null> {
+		const [row] = await serviceManager.databaseService.use(
+			async ({ db, schema }) =>
+				db
+					.select({ metadata: schema.conversations.metadata })
+					.from(schema.conversations)
+					.where(eq(schema.conversations.id, conversationId))
+					.limit(1),
+		);
+		const metadata = (row?.metadata || {}) as Record<string, unknown>;
+		return (metadata[CONTEXT_SUMMARY_KEY] as ContextSummary) || null;
+	}
+
+	private async saveSummary(
+		conversationId: string,
+		summary: ContextSummary,
+	): Promise<void> {
+		try {
+			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				const [row] = await db
+					.select({ metadata: schema.conversations.metadata })
+					.from(schema.conversations)
+					.where(eq(schema.conversations.id, conversationId))
+					.limit(1);
+				if (!row) return;
+				await db
+					.update(schema.conversations)
+					.set({
+						metadata: {
+							...((row.metadata || {}) as Record<string, unknown>),
+							[CONTEXT_SUMMARY_KEY]: summary,
+						},
+					})
+					.where(eq(schema.conversations.id, conversationId));
+			});
+		} catch (error) {
+			logWarn("[CONTEXT_WINDOW] Failed to store running summary:", error);
+		}
+	}
+
+	// FNV-1a over roles and contents; only compared for equality
+	private fingerprint(messages: ChatMessage[]): string {
+		let hash = 0x811c9dc5;
+		for (const message of messages) {
+			const text = `${message.role}\u0000${message.content}\u0001`;
+			for (let i = 0; i < text.length; i++) {
+				hash ^= text.charCodeAt(i);
+				hash = Math.imul(hash, 0x01000193);
+			}
+		}
+		return `${messages.length}:${(hash >>> 0).toString(16)}`;
+	}
+}
+
+export const contextWindowService = ContextWindowService.getInstance();
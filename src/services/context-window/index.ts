@@ -0,0 +1,9 @@
+export {
+	ContextWindowService,
+	contextWindowService,
+	CONTEXT_SUMMARY_KEY,
+	type ContextReservation,
+	type ContextSummary,
+	type FitOptions,
+	type FitResult,
+} from "./context-window-service";
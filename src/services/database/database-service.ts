@@ -37,6 +37,12 @@ import type {
 	NewConfiguration,
 	RememberedContent,
 	NewRememberedContent,
+	ContentChunk,
+	NewContentChunk,
+	RememberedContentRevision,
+	NewRememberedContentRevision,
+	NodeMergeCandidate,
+	NewNodeMergeCandidate,
 } from "./db";
 
 // Table registry with proper type mapping
@@ -76,6 +82,11 @@ interface TableRegistry {
 		select: SourceEdge;
 		insert: NewSourceEdge;
 	};
+	nodeMergeCandidates: {
+		table: typeof schema.nodeMergeCandidates;
+		select: NodeMergeCandidate;
+		insert: NewNodeMergeCandidate;
+	};
 	encryption: {
 		table: typeof schema.encryption;
 		select: Encryption;
@@ -91,6 +102,16 @@ interface TableRegistry {
 		select: RememberedContent;
 		insert: NewRememberedContent;
 	};
+	contentChunks: {
+		table: typeof schema.contentChunks;
+		select: ContentChunk;
+		insert: NewContentChunk;
+	};
+	rememberedContentRevisions: {
+		table: typeof schema.rememberedContentRevisions;
+		select: RememberedContentRevision;
+		insert: NewRememberedContentRevision;
+	};
 }
 
 // Database service class
@@ -35,6 +35,9 @@ import * as encryptionSchema from "./entities/encryptions";
 import * as configurationSchema from "./entities/configurations";
 import * as rememberedContentSchema from "./entities/remembered-content";
 import * as topicSchema from "./entities/topics";
+import * as contentChunkSchema from "./entities/content-chunks";
+import * as rememberedContentRevisionSchema from "./entities/remembered-content-revisions";
+import * as nodeMergeCandidateSchema from "./entities/node-merge-candidates";
 
 import { runMigrations } from "./migrations";
 
@@ -49,12 +52,18 @@ export const schema = {
 	edges: edgesSchema.edge,
 	sourceNodes: sourceNodesSchema.sourceNode,
 	sourceEdges: sourceEdgesSchema.sourceEdge,
+	nodeMergeCandidates: nodeMergeCandidateSchema.nodeMergeCandidate,
 	// Encryption entities
 	encryption: encryptionSchema.encryption,
 	// Generic configurations (JSONB)
 	configurations: configurationSchema.configuration,
 	// Remembered content from "Remember this" feature
 	rememberedContent: rememberedContentSchema.rememberedContent,
+	// Passage-level chunks of remembered content
+	contentChunks: contentChunkSchema.contentChunk,
+	// Revision history of remembered content
+	rememberedContentRevisions:
+		rememberedContentRevisionSchema.rememberedContentRevision,
 	// Topic entities
 	topics: topicSchema.topic,
 };
@@ -85,6 +94,12 @@ export type {
 	NewEdge,
 } from "./entities/edges";
 
+export type {
+	NodeMergeCandidate,
+	NewNodeMergeCandidate,
+	NodeMergeCandidateStatus,
+} from "./entities/node-merge-candidates";
+
 export type {
 	SourceNode,
 	NewSourceNode,
@@ -114,6 +129,17 @@ export type {
 	NewTopic,
 } from "./entities/topics";
 
+export type {
+	ContentChunk,
+	NewContentChunk,
+} from "./entities/content-chunks";
+
+export type {
+	RememberedContentRevision,
+	NewRememberedContentRevision,
+	RevisionDiff,
+} from "./entities/remembered-content-revisions";
+
 // Database instances - support both main and proxy modes
 let pgliteInstance: PGliteLike | PGlite | null = null;
 let db: ReturnType<typeof drizzle<typeof schema>> | null = null;
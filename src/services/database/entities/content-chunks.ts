@@ -0,0 +1,54 @@
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
+import {
+	pgTable,
+	uuid,
+	text,
+	integer,
+	timestamp,
+	vector,
+	index,
+} from "drizzle-orm/pg-core";
+import { rememberedContent } from "./remembered-content";
+import { topic } from "./topics";
+import { defaultNowToTrigger } from "../utils/default-now-to-trigger";
+
+const tableName = "content_chunks";
+export const contentChunk = pgTable(
+	tableName,
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contentId: uuid("content_id")
+			.notNull()
+			.references(() => rememberedContent.id),
+		ordinal: integer("ordinal").notNull(), // Position of the chunk within the content
+		text: text("text").notNull(),
+		// Character range of the chunk inside remembered_contents.content
+		startOffset: integer("start_offset").notNull(),
+		endOffset: integer("end_offset").notNull(),
+		embedding: vector("embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
+		topicId: uuid("topic_id").references(() => topic.id),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("content_chunks_content_idx").on(table.contentId),
+		index("content_chunks_content_ordinal_idx").on(
+			table.contentId,
+			table.ordinal,
+		),
+		index("content_chunks_topic_idx").on(table.topicId),
+	],
+);
+
+export type ContentChunk = typeof contentChunk.$inferSelect;
+export type NewContentChunk = typeof contentChunk.$inferInsert;
+
+export const contentChunkManualIndexes = [
+	// Approximate nearest neighbour index for passage retrieval
+	`CREATE INDEX IF NOT EXISTS ${tableName}_embedding_hnsw_idx ON ${tableName} USING hnsw (embedding vector_cosine_ops);`,
+];
+
+// Database trigger commands to automatically set timestamps
+export const contentChunkTriggers = [defaultNowToTrigger(tableName)];
@@ -1,3 +1,4 @@
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
 import {
 	pgTable,
 	uuid,
@@ -32,8 +33,12 @@ export const edge = pgTable(
 		isCurrent: boolean("is_current").default(true),
 		provenanceWeightCache: real("provenance_weight_cache"),
 		provenanceCountCache: integer("provenance_count_cache"),
-		factEmbedding: vector("fact_embedding", { dimensions: 768 }),
-		typeEmbedding: vector("type_embedding", { dimensions: 768 }),
+		factEmbedding: vector("fact_embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
+		typeEmbedding: vector("type_embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
 		graph: text("graph").notNull().default(""),
 		recordedAt: timestamp("recorded_at").defaultNow().notNull(),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -13,3 +13,6 @@ export * from "./topics";
 export * from "./encryptions";
 export * from "./configurations";
 export * from "./remembered-content";
+export * from "./content-chunks";
+export * from "./remembered-content-revisions";
+export * from "./node-merge-candidates";
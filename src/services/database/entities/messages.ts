@@ -1,3 +1,4 @@
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
 import {
 	text,
 	timestamp,
@@ -25,7 +26,9 @@ export const message = pgTable(
 		content: text("content").notNull(),
 		complexContent: jsonb("complex_content"), // For storing structured content like images, files, etc.
 		topicId: uuid("topic_id").references(() => topic.id),
-		embedding: vector("embedding", { dimensions: 768 }),
+		embedding: vector("embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
 		metadata: jsonb("metadata").default({}),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull(),
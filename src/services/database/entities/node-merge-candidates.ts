@@ -0,0 +1,46 @@
+import {
+	pgTable,
+	uuid,
+	text,
+	real,
+	timestamp,
+	primaryKey,
+	index,
+} from "drizzle-orm/pg-core";
+import { defaultNowToTrigger } from "../utils/default-now-to-trigger";
+
+export type NodeMergeCandidateStatus = "pending" | "accepted" | "rejected";
+
+const tableName = "node_merge_candidates";
+// Pairs of nodes that look like the same entity, found by the duplicate scan.
+// Node ids are not foreign keys: deleting or merging a node must not be
+// blocked by a suggestion, stale rows are skipped when they are read.
+export const nodeMergeCandidate = pgTable(
+	tableName,
+	{
+		nodeId: uuid("node_id").notNull(), // Lower id of the pair
+		candidateId: uuid("candidate_id").notNull(),
+		score: real("score").notNull(),
+		nameSimilarity: real("name_similarity"), // Trigram similarity of the names
+		embeddingSimilarity: real("embedding_similarity"), // Cosine similarity of name_embedding
+		// Rejected pairs are kept so the scan does not suggest them again
+		status: text("status")
+			.$type<NodeMergeCandidateStatus>()
+			.notNull()
+			.default("pending"),
+		graph: text("graph").notNull().default(""),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		primaryKey({ columns: [table.nodeId, table.candidateId] }),
+		index("node_merge_candidates_candidate_id_idx").on(table.candidateId),
+		index("node_merge_candidates_status_idx").on(table.status),
+	],
+);
+
+export type NodeMergeCandidate = typeof nodeMergeCandidate.$inferSelect;
+export type NewNodeMergeCandidate = typeof nodeMergeCandidate.$inferInsert;
+
+// Database trigger commands to automatically set timestamps
+export const nodeMergeCandidateTriggers = [defaultNowToTrigger(tableName)];
@@ -1,3 +1,4 @@
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
 import {
 	pgTable,
 	uuid,
@@ -18,7 +19,9 @@ export const node = pgTable(
 		name: text("name").notNull(),
 		summary: text("summary"),
 		attributes: jsonb("attributes").default({}),
-		nameEmbedding: vector("name_embedding", { dimensions: 768 }),
+		nameEmbedding: vector("name_embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
 		graph: text("graph").notNull().default(""),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -34,6 +37,17 @@ export const node = pgTable(
 export type Node = typeof node.$inferSelect;
 export type NewNode = typeof node.$inferInsert;
 
+/**
+ * Other names a node is known by. Merging nodes keeps the name of the
+ * merged node here, so later extractions of that name resolve to the node.
+ */
+export function getNodeAliases(node: Pick<Node, "attributes">): string[] {
+	const aliases = (node.attributes as { aliases?: unknown } | null)?.aliases;
+	return Array.isArray(aliases)
+		? aliases.filter((alias): alias is string => typeof alias === "string")
+		: [];
+}
+
 // Manual indexes that can't be auto-generated
 export const nodeManualIndexes = [
 	// Full-text search indexes using GIN for trigram search (used by search_nodes_trigram function)
@@ -0,0 +1,59 @@
+import {
+	pgTable,
+	uuid,
+	text,
+	integer,
+	jsonb,
+	timestamp,
+	index,
+} from "drizzle-orm/pg-core";
+import { rememberedContent } from "./remembered-content";
+import { defaultNowToTrigger } from "../utils/default-now-to-trigger";
+
+export interface RevisionDiff {
+	added: string[];
+	removed: string[];
+}
+
+const tableName = "remembered_content_revisions";
+export const rememberedContentRevision = pgTable(
+	tableName,
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contentId: uuid("content_id")
+			.notNull()
+			.references(() => rememberedContent.id),
+		revision: integer("revision").notNull(), // 1 for the first remembered version
+		title: text("title").notNull(),
+		content: text("content").notNull(), // Text of the page at this revision
+		// Paragraphs added and removed compared to the previous revision
+		diff: jsonb("diff")
+			.$type<RevisionDiff>()
+			.default({ added: [], removed: [] }),
+		addedCount: integer("added_count").notNull().default(0),
+		removedCount: integer("removed_count").notNull().default(0),
+		// Facts invalidated because their paragraphs were removed
+		invalidatedEdgeCount: integer("invalidated_edge_count")
+			.notNull()
+			.default(0),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("remembered_content_revisions_content_idx").on(table.contentId),
+		index("remembered_content_revisions_content_revision_idx").on(
+			table.contentId,
+			table.revision,
+		),
+	],
+);
+
+export type RememberedContentRevision =
+	typeof rememberedContentRevision.$inferSelect;
+export type NewRememberedContentRevision =
+	typeof rememberedContentRevision.$inferInsert;
+
+// Database trigger commands to automatically set timestamps
+export const rememberedContentRevisionTriggers = [
+	defaultNowToTrigger(tableName),
+];
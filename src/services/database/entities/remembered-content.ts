@@ -1,3 +1,4 @@
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
 import {
 	pgTable,
 	uuid,
@@ -31,7 +32,9 @@ export const rememberedContent = pgTable(
 		extractionMetadata: jsonb("extraction_metadata").notNull().default("{}"), // Extraction/processing metadata
 
 		// Embedding vector for semantic search
-		embedding: vector("embedding", { dimensions: 768 }),
+		embedding: vector("embedding", {
+			dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+		}),
 
 		// Tags for categorization
 		tags: jsonb("tags").default("[]"),
@@ -1,4 +1,4 @@
-import type { PGlite } from "@electric-sql/pglite";
+import type { MigrationDb } from "./types";
 import { toFullTableSQL } from "../utils/schema-to-sql";
 import {
 	conversation,
@@ -27,7 +27,7 @@ import {
 	sourceTriggers,
 } from "../entities";
 
-export const up = async (pg: PGlite) => {
+export const up = async (pg: MigrationDb) => {
 	const conversationTable = toFullTableSQL(conversation);
 	const messagesTable = toFullTableSQL(message);
 	const topicsTable = toFullTableSQL(topic);
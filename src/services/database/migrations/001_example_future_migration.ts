@@ -1,6 +1,6 @@
-import type { PGlite } from "@electric-sql/pglite";
+import type { MigrationDb } from "./types";
 
-export const up = async (db: PGlite) => {
+export const up = async (db: MigrationDb) => {
 	// Example future migration - add new table or modify existing schema
 	await db.exec(`
     -- Example: Add a new table for user preferences
@@ -19,7 +19,7 @@ export const up = async (db: PGlite) => {
   `);
 };
 
-export const down = async (db: PGlite) => {
+export const down = async (db: MigrationDb) => {
 	// Optional: Rollback functionality
 	await db.exec(`
     -- DROP TABLE IF EXISTS user_preferences;
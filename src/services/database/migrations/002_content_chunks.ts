@@ -0,0 +1,24 @@
+import type { MigrationDb } from "./types";
+import { toFullTableSQL } from "../utils/schema-to-sql";
+import {
+	contentChunk,
+	contentChunkManualIndexes,
+	contentChunkTriggers,
+} from "../entities";
+
+export const up = async (pg: MigrationDb) => {
+	const contentChunksTable = toFullTableSQL(contentChunk);
+
+	await pg.exec(`
+    ${contentChunksTable.table}
+    ${contentChunksTable.indexes.join("\n")}
+    ${contentChunkManualIndexes.join("\n")}
+    ${contentChunkTriggers.join("\n")}
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    DROP TABLE IF EXISTS content_chunks;
+  `);
+};
@@ -0,0 +1,33 @@
+import type { MigrationDb } from "./types";
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
+import {
+	VECTOR_COLUMNS,
+	createVectorIndexSQL,
+	vectorIndexName,
+} from "../utils/vector-columns";
+
+// content_chunks already got its index in 002_content_chunks
+const columns = VECTOR_COLUMNS.filter(
+	(vectorColumn) => vectorColumn.table !== "content_chunks",
+);
+
+export const up = async (pg: MigrationDb) => {
+	await pg.exec(`
+    ${columns
+			.map((vectorColumn) =>
+				createVectorIndexSQL(vectorColumn, DEFAULT_EMBEDDING_DIMENSIONS),
+			)
+			.join("\n")}
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    ${columns
+			.map(
+				(vectorColumn) =>
+					`DROP INDEX IF EXISTS ${vectorIndexName(vectorColumn)};`,
+			)
+			.join("\n")}
+  `);
+};
@@ -0,0 +1,22 @@
+import type { MigrationDb } from "./types";
+import { toFullTableSQL } from "../utils/schema-to-sql";
+import {
+	rememberedContentRevision,
+	rememberedContentRevisionTriggers,
+} from "../entities";
+
+export const up = async (pg: MigrationDb) => {
+	const revisionsTable = toFullTableSQL(rememberedContentRevision);
+
+	await pg.exec(`
+    ${revisionsTable.table}
+    ${revisionsTable.indexes.join("\n")}
+    ${rememberedContentRevisionTriggers.join("\n")}
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    DROP TABLE IF EXISTS remembered_content_revisions;
+  `);
+};
@@ -0,0 +1,19 @@
+import type { MigrationDb } from "./types";
+import { toFullTableSQL } from "../utils/schema-to-sql";
+import { nodeMergeCandidate, nodeMergeCandidateTriggers } from "../entities";
+
+export const up = async (pg: MigrationDb) => {
+	const candidatesTable = toFullTableSQL(nodeMergeCandidate);
+
+	await pg.exec(`
+    ${candidatesTable.table}
+    ${candidatesTable.indexes.join("\n")}
+    ${nodeMergeCandidateTriggers.join("\n")}
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    DROP TABLE IF EXISTS node_merge_candidates;
+  `);
+};
@@ -0,0 +1,24 @@
+import type { MigrationDb } from "./types";
+
+// Fills the provenance caches of existing edges, before domain trust weights
+// existed. The provenance service keeps them current afterwards.
+export const up = async (pg: MigrationDb) => {
+	await pg.exec(`
+    UPDATE edges SET
+      provenance_count_cache = (
+        SELECT count(*) FROM source_edges se WHERE se.edge_id = edges.id
+      )::int,
+      provenance_weight_cache = (
+        SELECT coalesce(sum(coalesce(se.link_weight, 1) * coalesce(s.weight, 1)), 0)
+        FROM source_edges se
+        JOIN sources s ON s.id = se.source_id
+        WHERE se.edge_id = edges.id
+      );
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    UPDATE edges SET provenance_count_cache = NULL, provenance_weight_cache = NULL;
+  `);
+};
@@ -0,0 +1,39 @@
+import type { MigrationDb } from "./types";
+
+// Takes the links of manual edits back out of the provenance caches. Manual
+// sources have no page, so each link counted with domain trust 1.
+export const up = async (pg: MigrationDb) => {
+	await pg.exec(`
+    UPDATE edges SET
+      provenance_count_cache = greatest(provenance_count_cache - manual.links, 0),
+      provenance_weight_cache = greatest(provenance_weight_cache - manual.weight, 0)
+    FROM (
+      SELECT se.edge_id,
+        count(*)::int AS links,
+        sum(coalesce(se.link_weight, 1) * coalesce(s.weight, 1)) AS weight
+      FROM source_edges se
+      JOIN sources s ON s.id = se.source_id
+      WHERE s.type = 'manual'
+      GROUP BY se.edge_id
+    ) manual
+    WHERE edges.id = manual.edge_id AND edges.provenance_count_cache IS NOT NULL;
+  `);
+};
+
+export const down = async (pg: MigrationDb) => {
+	await pg.exec(`
+    UPDATE edges SET
+      provenance_count_cache = provenance_count_cache + manual.links,
+      provenance_weight_cache = provenance_weight_cache + manual.weight
+    FROM (
+      SELECT se.edge_id,
+        count(*)::int AS links,
+        sum(coalesce(se.link_weight, 1) * coalesce(s.weight, 1)) AS weight
+      FROM source_edges se
+      JOIN sources s ON s.id = se.source_id
+      WHERE s.type = 'manual'
+      GROUP BY se.edge_id
+    ) manual
+    WHERE edges.id = manual.edge_id AND edges.provenance_count_cache IS NOT NULL;
+  `);
+};
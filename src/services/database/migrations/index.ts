@@ -1,14 +1,81 @@
 import type { PGlite } from "@electric-sql/pglite";
-import { logDebug, logError } from "@/utils/logger";
+import { logDebug, logError, logWarn } from "@/utils/logger";
+import { sha256Bytes } from "@/utils/aes";
+import type { MigrationDb } from "./types";
 import { up as initialMigration } from "./000_initial";
+import {
+	up as contentChunksUp,
+	down as contentChunksDown,
+} from "./002_content_chunks";
+import {
+	up as vectorIndexesUp,
+	down as vectorIndexesDown,
+} from "./003_vector_indexes";
+import {
+	up as contentRevisionsUp,
+	down as contentRevisionsDown,
+} from "./004_content_revisions";
+import {
+	up as nodeMergeCandidatesUp,
+	down as nodeMergeCandidatesDown,
+} from "./005_node_merge_candidates";
+import {
+	up as provenanceCachesUp,
+	down as provenanceCachesDown,
+} from "./006_provenance_caches";
+import {
+	up as manualProvenanceUp,
+	down as manualProvenanceDown,
+} from "./007_manual_provenance";
 // import { up as futureExampleUp, down as futureExampleDown } from './001_example_future_migration';
 
+export type { MigrationDb } from "./types";
+
 export interface Migration {
 	id: string;
 	version: number;
 	description: string;
-	up: (db: PGlite) => Promise<void>;
-	down?: (db: PGlite) => Promise<void>;
+	up: (db: MigrationDb) => Promise<void>;
+	down?: (db: MigrationDb) => Promise<void>;
+}
+
+export type MigrationDirection = "up" | "down";
+
+export type ChecksumStatus = "ok" | "modified" | "unrecorded" | "pending";
+
+export interface MigrationStatus {
+	id: string;
+	version: number;
+	description: string;
+	applied: boolean;
+	appliedAt: string | null;
+	reversible: boolean;
+	checksum: string;
+	storedChecksum: string | null;
+	checksumStatus: ChecksumStatus;
+}
+
+export type MigrationsOverview = {
+	currentVersion: number;
+	latestVersion: number;
+	migrations: MigrationStatus[];
+	// Applied rows that no longer match a known migration
+	unknownApplied: Array<{ id: string; version: number }>;
+};
+
+export interface MigrationStep {
+	id: string;
+	version: number;
+	description: string;
+	direction: MigrationDirection;
+	sql: string[];
+}
+
+interface AppliedMigrationRow {
+	id: string;
+	version: number;
+	applied_at: string | Date | null;
+	checksum: string | null;
 }
 
 // Define all migrations in order
@@ -20,10 +87,52 @@ export const migrations: Migration[] = [
 			"Initial schema with knowledge graph, conversations, and trigram search",
 		up: initialMigration,
 	},
+	{
+		id: "002_content_chunks",
+		version: 2,
+		description: "Chunk-level storage of remembered content for passage search",
+		up: contentChunksUp,
+		down: contentChunksDown,
+	},
+	{
+		id: "003_vector_indexes",
+		version: 3,
+		description: "HNSW indexes on the remaining embedding columns",
+		up: vectorIndexesUp,
+		down: vectorIndexesDown,
+	},
+	{
+		id: "004_content_revisions",
+		version: 4,
+		description: "Revision history of remembered content",
+		up: contentRevisionsUp,
+		down: contentRevisionsDown,
+	},
+	{
+		id: "005_node_merge_candidates",
+		version: 5,
+		description: "Suggested merges of duplicate knowledge graph nodes",
+		up: nodeMergeCandidatesUp,
+		down: nodeMergeCandidatesDown,
+	},
+	{
+		id: "006_provenance_caches",
+		version: 6,
+		description: "Provenance count and weight of existing edges",
+		up: provenanceCachesUp,
+		down: provenanceCachesDown,
+	},
+	{
+		id: "007_manual_provenance",
+		version: 7,
+		description: "Leave manual edits out of the provenance caches",
+		up: manualProvenanceUp,
+		down: manualProvenanceDown,
+	},
 	// Example of how to add future migrations:
 	// {
-	//   id: '002_example_future_migration',
-	//   version: 2,
+	//   id: '008_example_future_migration',
+	//   version: 8,
 	//   description: 'Example future migration',
 	//   up: futureExampleUp,
 	//   down: futureExampleDown,
@@ -39,8 +148,23 @@ export const migrationsById = migrations.reduce(
 	{} as Record<string, Migration>,
 );
 
+export const LATEST_MIGRATION_VERSION = Math.max(
+	0,
+	...migrations.map((migration) => migration.version),
+);
+
+function assertOrderedVersions(): void {
+	for (let i = 1; i < migrations.length; i++) {
+		if (migrations[i].version <= migrations[i - 1].version) {
+			throw new Error(
+				`Migration ${migrations[i].id} must have a version greater than ${migrations[i - 1].id}`,
+			);
+		}
+	}
+}
+
 // Migration tracking functions
-export async function createMigrationTable(db: PGlite): Promise<void> {
+export async function createMigrationTable(db: MigrationDb): Promise<void> {
 	await db.exec(`
     CREATE TABLE IF NOT EXISTS _migrations (
       id TEXT PRIMARY KEY,
@@ -48,55 +172,293 @@ export async function createMigrationTable(db: PGlite): Promise<void> {
       description TEXT NOT NULL,
       applied_at TIMESTAMP DEFAULT NOW() NOT NULL
     );
+    ALTER TABLE _migrations ADD COLUMN IF NOT EXISTS checksum TEXT;
   `);
 }
 
-export async function getAppliedMigrations(db: PGlite): Promise<string[]> {
-	const result = await db.query(`
-    SELECT id FROM _migrations
+async function getAppliedRows(db: MigrationDb): Promise<AppliedMigrationRow[]> {
+	const result = await db.query<AppliedMigrationRow>(`
+    SELECT id, version, applied_at, checksum FROM _migrations
     ORDER BY version ASC
   `);
-	return result.rows.map((row) =>
-		typeof row === "object" && row && "id" in row ? `${row.id}` : "",
-	);
+	return result.rows;
+}
+
+export async function getAppliedMigrations(db: MigrationDb): Promise<string[]> {
+	const rows = await getAppliedRows(db);
+	return rows.map((row) => row.id);
 }
 
 export async function markMigrationApplied(
-	db: PGlite,
+	db: MigrationDb,
 	migration: Migration,
+	checksum: string | null = null,
 ): Promise<void> {
 	await db.query(
 		`
-    INSERT INTO _migrations (id, version, description)
-    VALUES ($1, $2, $3)
+    INSERT INTO _migrations (id, version, description, checksum)
+    VALUES ($1, $2, $3, $4)
     ON CONFLICT (id) DO NOTHING
   `,
-		[migration.id, migration.version, migration.description],
+		[migration.id, migration.version, migration.description, checksum],
 	);
 }
 
-export async function runMigrations(db: PGlite): Promise<void> {
-	// First, ensure migration tracking table exists
+/**
+ * Run a migration step against a recorder instead of the database and return
+ * the statements it would execute. Queries return no rows while recording.
+ */
+export async function captureMigrationSql(
+	migration: Migration,
+	direction: MigrationDirection,
+): Promise<string[]> {
+	const statements: string[] = [];
+	const recorder = {
+		exec: async (query: string) => {
+			statements.push(query.trim());
+			return [];
+		},
+		query: async (query: string, params?: unknown[]) => {
+			statements.push(
+				params?.length
+					? `${query.trim()}\n-- params: ${JSON.stringify(params)}`
+					: query.trim(),
+			);
+			return { rows: [], fields: [] };
+		},
+	} as unknown as MigrationDb;
+
+	const step = direction === "up" ? migration.up : migration.down;
+	if (!step) {
+		throw new Error(`Migration ${migration.id} has no down step`);
+	}
+	await step(recorder);
+	return statements;
+}
+
+/**
+ * SHA-256 of the migration's up SQL with whitespace collapsed, so formatting
+ * changes don't count as modifications. The initial migration is generated
+ * from the entities, so changing an entity changes its checksum too.
+ */
+export async function computeMigrationChecksum(
+	migration: Migration,
+): Promise<string> {
+	const sql = (await captureMigrationSql(migration, "up"))
+		.join("\n")
+		.replace(/\s+/g, " ")
+		.trim();
+	const digest = await sha256Bytes(new TextEncoder().encode(sql));
+	return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join(
+		"",
+	);
+}
+
+export async function getMigrationStatus(
+	db: MigrationDb,
+): Promise<MigrationsOverview> {
 	await createMigrationTable(db);
+	const rows = await getAppliedRows(db);
+	const rowsById = new Map(rows.map((row) => [row.id, row]));
 
-	// Get list of applied migrations
-	const appliedMigrations = await getAppliedMigrations(db);
+	const statuses = await Promise.all(
+		migrations.map(async (migration): Promise<MigrationStatus> => {
+			const row = rowsById.get(migration.id);
+			const checksum = await computeMigrationChecksum(migration);
+			const storedChecksum = row?.checksum ?? null;
 
-	// Run pending migrations in order
-	for (const migration of migrations) {
-		if (!appliedMigrations.includes(migration.id)) {
-			logDebug(`Running migration: ${migration.id} - ${migration.description}`);
-
-			try {
-				await migration.up(db);
-				await markMigrationApplied(db, migration);
-				logDebug(`✅ Migration ${migration.id} completed successfully`);
-			} catch (error) {
-				logError(`❌ Migration ${migration.id} failed:`, error);
-				throw error;
+			let checksumStatus: ChecksumStatus = "pending";
+			if (row) {
+				if (!storedChecksum) checksumStatus = "unrecorded";
+				else checksumStatus = storedChecksum === checksum ? "ok" : "modified";
 			}
-		} else {
-			logDebug(`⏭️ Migration ${migration.id} already applied`);
+
+			return {
+				id: migration.id,
+				version: migration.version,
+				description: migration.description,
+				applied: !!row,
+				appliedAt: row?.applied_at
+					? new Date(row.applied_at).toISOString()
+					: null,
+				reversible: !!migration.down,
+				checksum,
+				storedChecksum,
+				checksumStatus,
+			};
+		}),
+	);
+
+	return {
+		currentVersion: Math.max(0, ...rows.map((row) => row.version)),
+		latestVersion: LATEST_MIGRATION_VERSION,
+		migrations: statuses,
+		unknownApplied: rows
+			.filter((row) => !migrationsById[row.id])
+			.map((row) => ({ id: row.id, version: row.version })),
+	};
+}
+
+/**
+ * Work out which migrations must run to reach the target version. Versions
+ * above the current one migrate up, versions below roll back.
+ */
+async function resolvePlan(
+	db: MigrationDb,
+	targetVersion: number,
+): Promise<{ direction: MigrationDirection; migrations: Migration[] }> {
+	assertOrderedVersions();
+	await createMigrationTable(db);
+	const applied = new Set(await getAppliedMigrations(db));
+
+	const pending = migrations.filter(
+		(migration) =>
+			!applied.has(migration.id) && migration.version <= targetVersion,
+	);
+	if (pending.length > 0) {
+		return { direction: "up", migrations: pending };
+	}
+
+	const toRevert = migrations
+		.filter(
+			(migration) =>
+				applied.has(migration.id) && migration.version > targetVersion,
+		)
+		.reverse();
+	const irreversible = toRevert.filter((migration) => !migration.down);
+	if (irreversible.length > 0) {
+		throw new Error(
+			`Cannot roll back to version ${targetVersion}: ${irreversible
+				.map((migration) => migration.id)
+				.join(", ")} has no down migration`,
+		);
+	}
+	return { direction: "down", migrations: toRevert };
+}
+
+/**
+ * Dry run: the SQL each step would execute to reach the target version,
+ * without touching the database schema
+ */
+export async function planMigrations(
+	db: MigrationDb,
+	targetVersion = LATEST_MIGRATION_VERSION,
+): Promise<MigrationStep[]> {
+	const plan = await resolvePlan(db, targetVersion);
+	return Promise.all(
+		plan.migrations.map(async (migration) => ({
+			id: migration.id,
+			version: migration.version,
+			description: migration.description,
+			direction: plan.direction,
+			sql: await captureMigrationSql(migration, plan.direction),
+		})),
+	);
+}
+
+async function applyMigration(db: PGlite, migration: Migration): Promise<void> {
+	logDebug(`Running migration: ${migration.id} - ${migration.description}`);
+
+	try {
+		await db.transaction(async (tx) => {
+			await migration.up(tx);
+			await markMigrationApplied(
+				tx,
+				migration,
+				await computeMigrationChecksum(migration),
+			);
+		});
+		logDebug(`✅ Migration ${migration.id} completed successfully`);
+	} catch (error) {
+		logError(`❌ Migration ${migration.id} failed:`, error);
+		throw error;
+	}
+}
+
+async function revertMigration(
+	db: PGlite,
+	migration: Migration,
+): Promise<void> {
+	const down = migration.down;
+	if (!down) {
+		throw new Error(`Migration ${migration.id} has no down step`);
+	}
+
+	logDebug(`Reverting migration: ${migration.id} - ${migration.description}`);
+	try {
+		await db.transaction(async (tx) => {
+			await down(tx);
+			await tx.query("DELETE FROM _migrations WHERE id = $1", [migration.id]);
+		});
+		logDebug(`✅ Migration ${migration.id} reverted successfully`);
+	} catch (error) {
+		logError(`❌ Reverting migration ${migration.id} failed:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Migrate up or down to the target version. Each step runs in its own
+ * transaction, so a failure leaves the database at the last completed version.
+ */
+export async function migrateTo(
+	db: PGlite,
+	targetVersion = LATEST_MIGRATION_VERSION,
+): Promise<MigrationStep[]> {
+	const steps = await planMigrations(db, targetVersion);
+
+	for (const step of steps) {
+		const migration = migrationsById[step.id];
+		if (step.direction === "up") await applyMigration(db, migration);
+		else await revertMigration(db, migration);
+	}
+	return steps;
+}
+
+export async function rollbackTo(
+	db: PGlite,
+	targetVersion: number,
+): Promise<MigrationStep[]> {
+	const steps = await planMigrations(db, targetVersion);
+	if (steps.some((step) => step.direction === "up")) {
+		throw new Error(
+			`Version ${targetVersion} is ahead of the database; use migrateTo instead`,
+		);
+	}
+	return migrateTo(db, targetVersion);
+}
+
+/**
+ * Verify checksums of applied migrations. A mismatch means a migration was
+ * edited after it was applied; it is reported rather than treated as fatal.
+ * Rows applied before checksums were tracked get one recorded.
+ */
+export async function verifyMigrationChecksums(
+	db: MigrationDb,
+): Promise<MigrationStatus[]> {
+	const { migrations: statuses } = await getMigrationStatus(db);
+
+	for (const status of statuses) {
+		if (status.checksumStatus === "unrecorded") {
+			await db.query("UPDATE _migrations SET checksum = $1 WHERE id = $2", [
+				status.checksum,
+				status.id,
+			]);
+		} else if (status.checksumStatus === "modified") {
+			logWarn(
+				`Migration ${status.id} changed since it was applied`,
+				`stored ${status.storedChecksum}, current ${status.checksum}`,
+			);
 		}
 	}
+	return statuses.filter((status) => status.checksumStatus === "modified");
+}
+
+export async function runMigrations(db: PGlite): Promise<void> {
+	// First, ensure migration tracking table exists
+	await createMigrationTable(db);
+
+	// Run pending migrations in order
+	await migrateTo(db, LATEST_MIGRATION_VERSION);
+	await verifyMigrationChecksums(db);
 }
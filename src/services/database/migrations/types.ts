@@ -0,0 +1,8 @@
+import type { PGlite } from "@electric-sql/pglite";
+
+/**
+ * The part of PGlite a migration may use. Both the PGlite instance and a
+ * transaction satisfy it, so migrations can run inside a transaction and be
+ * recorded for dry runs.
+ */
+export type MigrationDb = Pick<PGlite, "exec" | "query">;
@@ -2,6 +2,7 @@
 // Uses type assertions to work with Drizzle's internal structure
 
 import type { PgTable } from "drizzle-orm/pg-core";
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "@/config/embedding";
 
 // Helper function to safely access Drizzle internal symbols
 function getTableName(table: PgTable): string {
@@ -73,7 +74,8 @@ export function toCreateTableSQL(table: PgTable): string {
 					columnDef += size ? `VARCHAR(${size})` : "VARCHAR";
 					break;
 				case "PgVector":
-					const dimensions = (col.dimensions as number) || 768;
+					const dimensions =
+						(col.dimensions as number) || DEFAULT_EMBEDDING_DIMENSIONS;
 					columnDef += `VECTOR(${dimensions})`;
 					break;
 				default:
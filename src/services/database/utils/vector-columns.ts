@@ -0,0 +1,80 @@
+import { HNSW_MAX_DIMENSIONS } from "@/config/embedding";
+
+export interface VectorColumn {
+	table: string;
+	column: string;
+	idColumn: string;
+	// SQL expression for the text the vector was embedded from
+	source: string;
+}
+
+// Every embedding column, with the text it is computed from
+export const VECTOR_COLUMNS: VectorColumn[] = [
+	{
+		table: "nodes",
+		column: "name_embedding",
+		idColumn: "id",
+		source: "name",
+	},
+	{
+		table: "edges",
+		column: "fact_embedding",
+		idColumn: "id",
+		source: "fact_text",
+	},
+	{
+		table: "edges",
+		column: "type_embedding",
+		idColumn: "id",
+		source: "edge_type",
+	},
+	{
+		table: "messages",
+		column: "embedding",
+		idColumn: "uuid",
+		source: "content",
+	},
+	{
+		table: "remembered_contents",
+		column: "embedding",
+		idColumn: "id",
+		source: "title || E'\\n\\n' || left(content, 2000)",
+	},
+	{
+		table: "content_chunks",
+		column: "embedding",
+		idColumn: "id",
+		source: "text",
+	},
+];
+
+export const vectorIndexName = ({ table, column }: VectorColumn) =>
+	`${table}_${column}_hnsw_idx`;
+
+export function createVectorIndexSQL(
+	vectorColumn: VectorColumn,
+	dimensions: number,
+): string {
+	if (dimensions > HNSW_MAX_DIMENSIONS) {
+		// Exact scans still work, just without the index
+		return `-- ${vectorIndexName(vectorColumn)} skipped: ${dimensions} dimensions exceed the HNSW limit`;
+	}
+	return `CREATE INDEX IF NOT EXISTS ${vectorIndexName(vectorColumn)} ON ${vectorColumn.table} USING hnsw (${vectorColumn.column} vector_cosine_ops);`;
+}
+
+/**
+ * Replace a vector column with an empty one of the given size. Existing
+ * vectors are dropped and have to be re-embedded.
+ */
+export function rebuildVectorColumnSQL(
+	vectorColumn: VectorColumn,
+	dimensions: number,
+): string {
+	const { table, column } = vectorColumn;
+	return [
+		`DROP INDEX IF EXISTS ${vectorIndexName(vectorColumn)};`,
+		`ALTER TABLE ${table} DROP COLUMN IF EXISTS ${column};`,
+		`ALTER TABLE ${table} ADD COLUMN ${column} VECTOR(${dimensions});`,
+		createVectorIndexSQL(vectorColumn, dimensions),
+	].join("\n");
+}
@@ -0,0 +1,579 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { eq } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+import {
+	DEFAULT_EMBEDDING_DIMENSIONS,
+	EMBEDDING_MODEL_CONFIG_KEY,
+} from "@/config/embedding";
+import type { MigrationDb } from "@/services/database/migrations";
+import {
+	VECTOR_COLUMNS,
+	rebuildVectorColumnSQL,
+	type VectorColumn,
+} from "@/services/database/utils/vector-columns";
+import { FIXED_ENCRYPTION_KEY } from "@/config/security";
+import {
+	decryptStringAes,
+	deriveAesKeyFromCombined,
+	encryptStringAes,
+	generateStrongPasswordBase64,
+} from "@/utils/aes";
+import { logInfo, logWarn } from "@/utils/logger";
+import type {
+	BaseEmbedding,
+	EmbeddingConfig,
+} from "./interfaces/base-embedding";
+import { EmbeddingProxy } from "./implementations/embedding-proxy";
+
+const REEMBED_BATCH_SIZE = 32;
+// Row in the encryptions table holding the API key of the recorded model
+const EMBEDDING_SECRETS_KEY = "embedding_model_secrets";
+
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingConfig = {
+	type: "local",
+	modelName: "nomic-ai/nomic-embed-text-v1.5",
+};
+
+/**
+ * - ready: stored vectors come from `modelId`
+ * - migrating: columns were rebuilt for `modelId` and rows are being re-embedded
+ * - mismatch: the recorded model could not be loaded, so queries would be
+ *   embedded by a different model than the stored vectors
+ */
+export type EmbeddingModelStatus = "ready" | "migrating" | "mismatch";
+
+export interface EmbeddingModelRecord extends Record<string, unknown> {
+	modelId: string;
+	dimensions: number;
+	config: EmbeddingConfig;
+	status: EmbeddingModelStatus;
+	previousModelId?: string;
+	updatedAt: string;
+}
+
+/**
+ * Cursor of a re-embed run, saved after every batch so it can continue
+ * after a restart
+ */
+export interface ReembedCheckpoint extends Record<string, unknown> {
+	onlyMissing: boolean;
+	// Index into VECTOR_COLUMNS and the last id done in that column
+	columnIndex: number;
+	lastId: string | null;
+	done: number;
+	total: number;
+	embedded: number;
+	failed: number;
+}
+
+export interface ReembedOptions {
+	onlyMissing?: boolean;
+	checkpoint?: ReembedCheckpoint;
+	// Called before the first batch and after each one; false cancels the run
+	onCheckpoint?: (
+		checkpoint: ReembedCheckpoint,
+	) => Promise<boolean | void> | boolean | void;
+}
+
+export type ReembedResult = ReembedCheckpoint & { cancelled: boolean };
+
+export class EmbeddingModelService {
+	private static instance: EmbeddingModelService;
+	private reembedding = false;
+
+	static getInstance(): EmbeddingModelService {
+		if (!EmbeddingModelService.instance) {
+			EmbeddingModelService.instance = new EmbeddingModelService();
+		}
+		return EmbeddingModelService.instance;
+	}
+
+	/**
+	 * The model the stored vectors belong to, if one was recorded
+	 */
+	async getRecord(): Promise<EmbeddingModelRecord | null> {
+		const rows = await serviceManager.databaseService.use(
+			async ({ db, schema }) => {
+				return db
+					.select()
+					.from(schema.configurations)
+					.where(eq(schema.configurations.key, EMBEDDING_MODEL_CONFIG_KEY))
+					.limit(1);
+			},
+		);
+		return (rows[0]?.data as EmbeddingModelRecord | undefined) ?? null;
+	}
+
+	/**
+	 * Config used to create the default embedding at startup
+	 */
+	async getDefaultModelConfig(): Promise<EmbeddingConfig> {
+		const record = await this.getRecord();
+		return record ? this.withSecrets(record.config) : DEFAULT_EMBEDDING_MODEL;
+	}
+
+	/**
+	 * Refuse vector search while stored vectors and query vectors could come
+	 * from different models. Pass the query embedding when it is at hand.
+	 */
+	async assertSearchable(embedding?: BaseEmbedding): Promise<void> {
+		// Proxies are named after their slot, not the model behind it
+		const modelId =
+			embedding && !(embedding instanceof EmbeddingProxy)
+				? embedding.name
+				: undefined;
+		const record = await this.getRecord();
+		if (!record) return;
+
+		if (record.status === "migrating") {
+			throw new Error(
+				`Vectors are being re-embedded with ${record.modelId}; semantic search is paused until it finishes`,
+			);
+		}
+		if (record.status === "mismatch") {
+			throw new Error(
+				`Stored vectors come from ${record.modelId}, which is not loaded`,
+			);
+		}
+		if (modelId && modelId !== record.modelId) {
+			throw new Error(
+				`Stored vectors come from ${record.modelId} but queries use ${modelId}`,
+			);
+		}
+	}
+
+	/**
+	 * Compare the loaded default embedding with the recorded model after
+	 * startup and resume an interrupted re-embed. Main mode only.
+	 */
+	async reconcile(): Promise<EmbeddingModelRecord | null> {
+		const record = await this.getRecord();
+		// has() first: get() would fall back to creating another default model
+		const embedding = serviceManager.embeddingService.has("default")
+			? await serviceManager.embeddingService.get("default")
+			: null;
+
+		if (!embedding?.isReady()) {
+			if (record && record.status === "ready") {
+				await this.saveRecord({ ...record, status: "mismatch" });
+			}
+			return this.getRecord();
+		}
+
+		if (!record) {
+			// First run with model tracking: existing vectors came from the
+			// default model, unless the columns don't even fit it
+			const columnDimensions = await this.getColumnDimensions();
+			if (columnDimensions !== embedding.dimensions) {
+				return this.startMigration(embedding, null, columnDimensions);
+			}
+			return this.saveRecord(this.toRecord(embedding, "ready"));
+		}
+
+		if (record.modelId !== embedding.name) {
+			logWarn(
+				"[EMBEDDING_MODEL] Loaded embedding differs from the recorded model",
+				`${embedding.name} vs ${record.modelId}`,
+			);
+			return this.saveRecord({ ...record, status: "mismatch" });
+		}
+
+		if (record.status === "migrating") {
+			await this.enqueueReembed();
+			return record;
+		}
+		if (record.status === "mismatch") {
+			return this.saveRecord({ ...record, status: "ready" });
+		}
+		return record;
+	}
+
+	/**
+	 * Guided switch to another embedding model: load it, rebuild the vector
+	 * columns for its size and re-embed every row in the background. A
+	 * config without an API key uses the one stored by saveSecrets.
+	 * Main mode only.
+	 */
+	async switchModel(config: EmbeddingConfig): Promise<EmbeddingModelRecord> {
+		if (this.reembedding) {
+			throw new Error(
+				"Wait for the running re-embed to finish or cancel it before switching models",
+			);
+		}
+		const embedding = await serviceManager.embeddingService.create(
+			"default",
+			config.type,
+			await this.withSecrets(config),
+		);
+		await this.saveSecrets(config);
+		const record = await this.getRecord();
+
+		if (
+			record &&
+			record.modelId === embedding.name &&
+			record.dimensions === embedding.dimensions
+		) {
+			const status = record.status === "mismatch" ? "ready" : record.status;
+			return this.saveRecord({ ...record, config, status });
+		}
+
+		return this.startMigration(
+			embedding,
+			record,
+			record?.dimensions ?? (await this.getColumnDimensions()),
+			config,
+		);
+	}
+
+	private async startMigration(
+		embedding: BaseEmbedding,
+		previous: EmbeddingModelRecord | null,
+		previousDimensions: number,
+		config?: EmbeddingConfig,
+	): Promise<EmbeddingModelRecord> {
+		const record: EmbeddingModelRecord = {
+			...this.toRecord(embedding, "migrating", config),
+			previousModelId: previous?.modelId,
+		};
+		logInfo("[EMBEDDING_MODEL] Rebuilding vector columns", {
+			from: previous?.modelId,
+			to: record.modelId,
+			previousDimensions,
+			dimensions: record.dimensions,
+		});
+
+		// Columns and the record change together so a crash can't leave
+		// rebuilt columns without the migrating status that resumes the job
+		const pglite = await this.getPGlite();
+		await pglite.transaction(async (tx) => {
+			await tx.exec(
+				VECTOR_COLUMNS.map((vectorColumn) =>
+					rebuildVectorColumnSQL(vectorColumn, record.dimensions),
+				).join("\n"),
+			);
+			await this.writeRecord(tx, record);
+		});
+
+		await this.enqueueReembed();
+		return record;
+	}
+
+	/**
+	 * Walk every vector column in id order and embed its rows with the default
+	 * embedding. With `onlyMissing`, rows that already have a vector are
+	 * skipped. Pass a checkpoint from an earlier run to continue after it.
+	 * Main mode only.
+	 */
+	async reembed(options: ReembedOptions = {}): Promise<ReembedResult> {
+		if (this.reembedding) {
+			throw new Error("A re-embed is already running");
+		}
+		this.reembedding = true;
+
+		try {
+			const embedding = await serviceManager.embeddingService.get("default");
+			if (!embedding?.isReady()) {
+				throw new Error("No embedding model is loaded");
+			}
+
+			const record = await this.getRecord();
+			if (record && record.modelId !== embedding.name) {
+				throw new Error(
+					`Loaded embedding ${embedding.name} is not the recorded model ${record.modelId}`,
+				);
+			}
+
+			const pglite = await this.getPGlite();
+			const checkpoint: ReembedCheckpoint = {
+				...(options.checkpoint ??
+					(await this.createCheckpoint(pglite, options.onlyMissing ?? false))),
+			};
+			let cancelled =
+				(await options.onCheckpoint?.({ ...checkpoint })) === false;
+
+			while (!cancelled && checkpoint.columnIndex < VECTOR_COLUMNS.length) {
+				const vectorColumn = VECTOR_COLUMNS[checkpoint.columnIndex];
+				const batch = await this.nextBatch(pglite, vectorColumn, checkpoint);
+				if (batch.length === 0) {
+					checkpoint.columnIndex += 1;
+					checkpoint.lastId = null;
+					continue;
+				}
+
+				const embedded = await this.embedBatch(
+					pglite,
+					vectorColumn,
+					embedding,
+					batch,
+				);
+				checkpoint.lastId = batch[batch.length - 1].id;
+				checkpoint.done += batch.length;
+				checkpoint.embedded += embedded;
+				checkpoint.failed += batch.length - embedded;
+				cancelled = (await options.onCheckpoint?.({ ...checkpoint })) === false;
+			}
+
+			if (!cancelled && record?.status === "migrating") {
+				await this.saveRecord({ ...record, status: "ready" });
+			}
+			logInfo(
+				cancelled
+					? "[EMBEDDING_MODEL] Re-embed cancelled"
+					: "[EMBEDDING_MODEL] Re-embed finished",
+				{
+					embedded: checkpoint.embedded,
+					failed: checkpoint.failed,
+				},
+			);
+			return { ...checkpoint, cancelled };
+		} finally {
+			this.reembedding = false;
+		}
+	}
+
+	private async createCheckpoint(
+		pglite: PGlite,
+		onlyMissing: boolean,
+	): Promise<ReembedCheckpoint> {
+		let total = 0;
+		for (const vectorColumn of VECTOR_COLUMNS) {
+			const result = await pglite.query<{ count: number }>(
+				`SELECT count(*)::int AS count FROM ${vectorColumn.table}
+				WHERE ${this.rowsToEmbed(vectorColumn, onlyMissing)}`,
+			);
+			total += result.rows[0]?.count ?? 0;
+		}
+		return {
+			onlyMissing,
+			columnIndex: 0,
+			lastId: null,
+			done: 0,
+			total,
+			embedded: 0,
+			failed: 0,
+		};
+	}
+
+	private async nextBatch(
+		pglite: PGlite,
+		vectorColumn: VectorColumn,
+		checkpoint: ReembedCheckpoint,
+	): Promise<Array<{ id: string; text: string }>> {
+		const { table, idColumn, source } = vectorColumn;
+		// Keyset on the id keeps the cursor stable while rows get new vectors
+		const result = await pglite.query<{ id: string; text: string }>(
+			`SELECT ${idColumn}::text AS id, ${source} AS text FROM ${table}
+			WHERE ${this.rowsToEmbed(vectorColumn, checkpoint.onlyMissing)}
+				AND ($1::text IS NULL OR ${idColumn}::text > $1::text)
+			ORDER BY ${idColumn}::text
+			LIMIT $2`,
+			[checkpoint.lastId, REEMBED_BATCH_SIZE],
+		);
+		return result.rows;
+	}
+
+	/**
+	 * Embed one batch and write the vectors. Returns how many rows got one; a
+	 * failed batch is logged and skipped so the walk can go on.
+	 */
+	private async embedBatch(
+		pglite: PGlite,
+		vectorColumn: VectorColumn,
+		embedding: BaseEmbedding,
+		batch: Array<{ id: string; text: string }>,
+	): Promise<number> {
+		const { table, column, idColumn } = vectorColumn;
+		try {
+			const vectors = await embedding.textsToVectors(
+				batch.map((row) => row.text),
+			);
+			for (const [index, row] of batch.entries()) {
+				await pglite.query(
+					`UPDATE ${table} SET ${column} = $1::vector WHERE ${idColumn}::text = $2`,
+					[JSON.stringify(vectors[index]), row.id],
+				);
+			}
+			return batch.length;
+		} catch (error) {
+			logWarn(
+				`[EMBEDDING_MODEL] Failed to embed a batch of ${table}.${column}`,
+				error instanceof Error ? error.message : String(error),
+			);
+			return 0;
+		}
+	}
+
+	private rowsToEmbed(
+		{ column, source }: VectorColumn,
+		onlyMissing: boolean,
+	): string {
+		const hasText = `length(trim(coalesce(${source}, ''))) > 0`;
+		return onlyMissing ? `${column} IS NULL AND ${hasText}` : hasText;
+	}
+
+	/**
+	 * Rows per vector column that still have no vector
+	 */
+	async getPendingCounts(): Promise<Record<string, number>> {
+		const counts: Record<string, number> = {};
+		await serviceManager.databaseService.use(async ({ raw }) => {
+			for (const vectorColumn of VECTOR_COLUMNS) {
+				const { table, column } = vectorColumn;
+				const result = (await raw(
+					`SELECT count(*)::int AS count FROM ${table}
+					WHERE ${this.rowsToEmbed(vectorColumn, true)}`,
+				)) as { rows: Array<{ count: number }> };
+				counts[`${table}.${column}`] = result.rows[0]?.count ?? 0;
+			}
+		});
+		return counts;
+	}
+
+	private async enqueueReembed(): Promise<void> {
+		// A checkpointed job is picked up again by the offscreen document
+		const resumable = await backgroundJob.getResumableJobs();
+		if (resumable.some((job) => job.jobType === "reembed-all")) {
+			logInfo("[EMBEDDING_MODEL] Re-embed job is checkpointed, resuming it");
+			return;
+		}
+		await backgroundJob.createJob(
+			"reembed-all",
+			{ onlyMissing: true },
+			{
+				stream: false,
+			},
+		);
+	}
+
+	private async getColumnDimensions(): Promise<number> {
+		// pgvector keeps the declared size in atttypmod
+		const result = await serviceManager.databaseService.query(
+			`SELECT atttypmod FROM pg_attribute
+			WHERE attrelid = 'nodes'::regclass AND attname = 'name_embedding'`,
+		);
+		const row = result.rows[0] as { atttypmod?: number } | undefined;
+		return row?.atttypmod && row.atttypmod > 0
+			? row.atttypmod
+			: DEFAULT_EMBEDDING_DIMENSIONS;
+	}
+
+	private toRecord(
+		embedding: BaseEmbedding,
+		status: EmbeddingModelStatus,
+		config?: EmbeddingConfig,
+	): EmbeddingModelRecord {
+		return {
+			modelId: embedding.name,
+			dimensions: embedding.dimensions,
+			config: this.withoutSecrets(
+				config ?? this.configFor(embedding) ?? DEFAULT_EMBEDDING_MODEL,
+			),
+			status,
+			updatedAt: new Date().toISOString(),
+		};
+	}
+
+	private configFor(embedding: BaseEmbedding): EmbeddingConfig | null {
+		const { type } = embedding.getInfo();
+		if (type === "local") return { type, modelName: embedding.name };
+		if (type === "openai") return { type, modelName: embedding.name };
+		return null;
+	}
+
+	// API keys are kept encrypted by saveSecrets, not in plain configurations
+	private withoutSecrets(config: EmbeddingConfig): EmbeddingConfig {
+		if (config.type !== "openai") return config;
+		const { apiKey: _apiKey, ...rest } = config;
+		return rest;
+	}
+
+	/**
+	 * Keep the API key encrypted, so the recorded model can be loaded again
+	 * at startup without it sitting in plain configurations. The UI saves it
+	 * here before queuing a switch, as job payloads are stored in plain text.
+	 */
+	async saveSecrets(config: EmbeddingConfig): Promise<void> {
+		if (config.type !== "openai" || !config.apiKey) return;
+
+		const advancedSeed = generateStrongPasswordBase64();
+		const key = await deriveAesKeyFromCombined(
+			advancedSeed,
+			FIXED_ENCRYPTION_KEY,
+		);
+		const encryptedData = await encryptStringAes(
+			JSON.stringify({ apiKey: config.apiKey }),
+			key,
+		);
+		await serviceManager.databaseService.use(async ({ db, schema }) => {
+			await db
+				.insert(schema.encryption)
+				.values({ key: EMBEDDING_SECRETS_KEY, advancedSeed, encryptedData })
+				.onConflictDoUpdate({
+					target: schema.encryption.key,
+					set: { advancedSeed, encryptedData, updatedAt: new Date() },
+				});
+		});
+	}
+
+	private async withSecrets(config: EmbeddingConfig): Promise<EmbeddingConfig> {
+		if (config.type !== "openai" || config.apiKey) return config;
+
+		try {
+			const [row] = await serviceManager.databaseService.use(
+				async ({ db, schema }) =>
+					db
+						.select()
+						.from(schema.encryption)
+						.where(eq(schema.encryption.key, EMBEDDING_SECRETS_KEY))
+						.limit(1),
+			);
+			if (!row?.advancedSeed) return config;
+
+			const key = await deriveAesKeyFromCombined(
+				row.advancedSeed,
+				FIXED_ENCRYPTION_KEY,
+			);
+			const { apiKey } = JSON.parse(
+				await decryptStringAes(row.encryptedData, key),
+			) as { apiKey?: string };
+			return apiKey ? { ...config, apiKey } : config;
+		} catch (error) {
+			logWarn(
+				"[EMBEDDING_MODEL] Failed to decrypt the embedding API key:",
+				error,
+			);
+			return config;
+		}
+	}
+
+	private async saveRecord(
+		record: EmbeddingModelRecord,
+	): Promise<EmbeddingModelRecord> {
+		const next = {
+			...record,
+			config: this.withoutSecrets(record.config),
+			updatedAt: new Date().toISOString(),
+		};
+		await this.writeRecord(await this.getPGlite(), next);
+		return next;
+	}
+
+	private async writeRecord(
+		db: MigrationDb,
+		record: EmbeddingModelRecord,
+	): Promise<void> {
+		await db.query(
+			`INSERT INTO configurations (key, data, created_at, updated_at)
+			VALUES ($1, $2, NOW(), NOW())
+			ON CONFLICT (key) DO UPDATE SET data = EXCLUDED.data, updated_at = NOW()`,
+			[EMBEDDING_MODEL_CONFIG_KEY, JSON.stringify(record)],
+		);
+	}
+
+	private async getPGlite(): Promise<PGlite> {
+		return (await serviceManager.databaseService.getPGLiteInstance()) as PGlite;
+	}
+}
+
+export const embeddingModelService = EmbeddingModelService.getInstance();
@@ -4,16 +4,34 @@ import { GraphBase } from "@/services/flows/interfaces/graph.base";
 import type { AllServices } from "@/services/flows/interfaces/tool";
 import type { ChatCompletionResponse, ChatMessage } from "@/types/openai";
 import { logError, logInfo } from "@/utils/logger";
-import { eq, or, like, desc, inArray } from "drizzle-orm";
-import type { Node, Edge } from "@/services/database/db";
+import {
+	eq,
+	or,
+	like,
+	desc,
+	inArray,
+	and,
+	sql,
+	isNull,
+	lte,
+	gt,
+	type SQL,
+} from "drizzle-orm";
+import { schema, type Node, type Edge } from "@/services/database/db";
 import {
 	trigramSearchNodes,
 	trigramSearchEdges,
 	combineSearchResultsWithTrigram,
 } from "@/utils/trigram-search";
-import { vectorSearchNodes, vectorSearchEdges } from "@/utils/vector-search";
+import {
+	vectorSearchNodes,
+	vectorSearchEdges,
+	vectorSearchChunks,
+} from "@/utils/vector-search";
 import type { DatabaseService } from "@/services/database/database-service";
 import type { BaseEmbedding } from "@/services/embedding";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
+import { provenanceFactor } from "@/services/provenance";
 import { flowRegistry } from "../../flow-registry";
 
 // Types for vector search results with similarity scores
@@ -50,14 +68,85 @@ Available Knowledge Context:
 {context}
 
 Using the provided knowledge context, provide a comprehensive and accurate answer to the user's query.
+Every definition, fact and passage in the context starts with a reference number such as [3].
+The <passages> section, when present, contains excerpts from pages the user remembered, with the page title in brackets after the reference number.
 If the knowledge graph doesn't contain enough information to fully answer the question, mention what information is available and what might be missing.
-Cite specific facts and relationships from the knowledge graph in your response.
+Cite the definitions, facts and passages you rely on by placing their reference numbers right after the supported sentence, for example "Paris is the capital of France [2][5]."
+Only use reference numbers that appear in the context and do not add a separate list of references.
 `;
 
 export interface KnowledgeRAGConfig {
 	quickMode?: boolean;
 	maxGrowthLevels?: number;
 	searchLimit?: number;
+	passageLimit?: number; // Passages from remembered content added to the context, 0 disables
+}
+
+// Passages below this similarity add noise rather than evidence
+const MIN_PASSAGE_SIMILARITY = 0.35;
+
+const AS_OF_PROMPT = `
+The user asked about the situation as of {asOf}. The facts in the context are the ones that held on that date, some of them may no longer be true today.
+Answer as of that date and say so in the answer.
+`;
+
+// A bare date means the whole day, so facts starting that day still count
+function parseAsOf(asOf?: string): Date | undefined {
+	if (!asOf) return undefined;
+	const date = new Date(
+		/^\d{4}-\d{2}-\d{2}$/.test(asOf) ? `${asOf}T23:59:59.999Z` : asOf,
+	);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Edges that held at the given time, or the current ones without a time.
+// Edges without validAt/invalidAt are taken as open-ended on that side.
+function edgeValidAt(at?: Date): SQL {
+	if (!at) return sql`coalesce(${schema.edges.isCurrent}, true)`;
+	return and(
+		or(isNull(schema.edges.validAt), lte(schema.edges.validAt, at)),
+		or(isNull(schema.edges.invalidAt), gt(schema.edges.invalidAt, at)),
+	) as SQL;
+}
+
+// Page a node or edge was extracted from, resolved through its sources
+interface Lineage {
+	contentId: string;
+	title: string;
+	url: string | null;
+	content: string;
+}
+
+// Splits text into sentences, keeping line breaks as boundaries
+function splitSentences(text: string): string[] {
+	return (text.match(/[^.!?\n]+[.!?]*/g) || [])
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+}
+
+// Picks the sentence of a text sharing the most words with a claim
+function findSupportingSentence(text: string, claim: string): string | null {
+	const words = new Set(
+		claim
+			.toLowerCase()
+			.split(/\W+/)
+			.filter((word) => word.length > 2),
+	);
+	if (words.size === 0) return null;
+
+	let best: string | null = null;
+	let bestScore = 0;
+	for (const sentence of splitSentences(text)) {
+		const score = sentence
+			.toLowerCase()
+			.split(/\W+/)
+			.filter((word) => words.has(word)).length;
+		if (score > bestScore) {
+			best = sentence;
+			bestScore = score;
+		}
+	}
+	return best;
 }
 
 // Graph growth configuration
@@ -84,6 +173,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 			quickMode: true,
 			maxGrowthLevels: 3,
 			searchLimit: 50,
+			passageLimit: 5,
 			...config,
 		};
 		this.workflow = new StateGraph(KnowledgeRAGAnnotation);
@@ -130,7 +220,9 @@ export class KnowledgeRAGFlow extends GraphBase<
 
 			const messages: ChatMessage[] = [{ role: "system", content: prompt }];
 
-			const llmResponse = (await llm.chatCompletions({
+			const model = await llm.resolveModelFor("rag_answer");
+			const llmResponse = (await llm.chatCompletionsFor(model.serviceName, {
+				model: model.modelId,
 				messages,
 				temperature: 0.1,
 				stream: false,
@@ -329,6 +421,9 @@ export class KnowledgeRAGFlow extends GraphBase<
 				try {
 					// Generate embedding for search terms
 					const searchText = state.extractedEntities.join(" ");
+					await embeddingModelService.assertSearchable(
+						(await embedding.get("default")) ?? undefined,
+					);
 					const searchEmbedding = await embedding.textToVector(searchText);
 
 					// Vector search for nodes
@@ -404,6 +499,16 @@ export class KnowledgeRAGFlow extends GraphBase<
 				(node) => node.id!,
 			);
 
+			// Searches match superseded facts too; keep those valid at state.asOf
+			const visibleEdgeIds = await this.getEdgesValidAt(
+				[
+					...sqlEdges,
+					...vectorEdges,
+					...trigramEdgeResults.map((result) => result.item),
+				].map((edge) => `${edge.id}`),
+				state.asOf,
+			);
+
 			const combinedEdges = combineSearchResultsWithTrigram(
 				sqlEdges,
 				vectorEdges.map((edge) => ({
@@ -417,7 +522,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 				WEIGHTS,
 				TOTAL_EDGE_LIMIT,
 				(edge) => edge.id!,
-			);
+			).filter((edge) => visibleEdgeIds.has(`${edge.id}`));
 
 			// 4. Process and score nodes
 			relevantNodes = combinedNodes.map((node) => {
@@ -517,6 +622,8 @@ export class KnowledgeRAGFlow extends GraphBase<
 				};
 			});
 
+			relevantEdges = await this.weightByProvenance(relevantEdges);
+
 			// Sort by relevance
 			relevantNodes.sort((a, b) => b.relevanceScore - a.relevanceScore);
 			relevantEdges.sort((a, b) => b.relevanceScore - a.relevanceScore);
@@ -568,12 +675,48 @@ export class KnowledgeRAGFlow extends GraphBase<
 				"[KNOWLEDGE_RAG] Building knowledge context in natural language format",
 			);
 
-			// 1. Build definitions section - entity names and summaries
+			// 1. Resolve the pages every node and edge was extracted from
+			const lineage = await this.loadLineage(
+				state.relevantNodes.map((node) => node.id),
+				state.relevantEdges.map((edge) => edge.id),
+			);
+			const citations: KnowledgeRAGState["citations"] = [];
+			const cite = (
+				kind: KnowledgeRAGState["citations"][number]["kind"],
+				label: string,
+				claim: string,
+				source: Omit<Lineage, "content"> | undefined,
+				text = "",
+			): number => {
+				const index = citations.length + 1;
+				citations.push({
+					index,
+					kind,
+					label,
+					contentId: source?.contentId ?? null,
+					title: source?.title ?? null,
+					url: source?.url ?? null,
+					quote: (text && findSupportingSentence(text, claim)) || claim,
+				});
+				return index;
+			};
+
+			// 2. Build definitions section - entity names and summaries
 			const definitions = state.relevantNodes
-				.map((node) => `${node.name}: ${node.summary}.`)
+				.map((node) => {
+					const source = lineage.nodes.get(node.id);
+					const index = cite(
+						"node",
+						node.name,
+						`${node.name} ${node.summary}`,
+						source,
+						source?.content,
+					);
+					return `[${index}] ${node.name}: ${node.summary}.`;
+				})
 				.join("\n");
 
-			// 2. Build facts section - entity connections with fact text
+			// 3. Build facts section - entity connections with fact text
 			const facts = state.relevantEdges
 				.map((edge) => {
 					const sourceName =
@@ -582,31 +725,62 @@ export class KnowledgeRAGFlow extends GraphBase<
 					const destName =
 						state.relevantNodes.find((n) => n.id === edge.destinationId)
 							?.name || "Unknown";
-					return `${sourceName} ${edge.edgeType} ${destName}, ${edge.factText}.`;
+					const source = lineage.edges.get(edge.id);
+					const index = cite(
+						"edge",
+						`${sourceName} ${edge.edgeType} ${destName}`,
+						edge.factText,
+						source,
+						source?.content,
+					);
+					return `[${index}] ${sourceName} ${edge.edgeType} ${destName}, ${edge.factText}.`;
 				})
 				.join("\n");
 
-			// 3. Generate Mermaid diagram
+			// 4. Generate Mermaid diagram
 			const mermaidDiagram = this.generateMermaidDiagram(
 				state.relevantNodes,
 				state.relevantEdges,
 			);
 
-			// 4. Build natural language context
+			// 5. Best matching passages from remembered content
+			const relevantPassages = await this.retrievePassages(state);
+			const passages = relevantPassages
+				.map((passage) => {
+					const index = cite(
+						"passage",
+						passage.title,
+						state.query,
+						{
+							contentId: passage.contentId,
+							title: passage.title,
+							url: passage.sourceUrl,
+						},
+						passage.text,
+					);
+					return `[${index}] [${passage.title}] ${passage.text.trim()}`;
+				})
+				.join("\n\n");
+
+			// 6. Build natural language context
 			const knowledgeContext = `<definitions>${definitions}</definitions>
 
-<facts>${facts}</facts>`;
+<facts>${facts}</facts>${passages ? `\n\n<passages>${passages}</passages>` : ""}`;
 
 			logInfo("[KNOWLEDGE_RAG] Built natural language context:", {
 				definitionsLength: definitions.length,
 				factsLength: facts.length,
 				nodesCount: state.relevantNodes.length,
 				edgesCount: state.relevantEdges.length,
+				passagesCount: relevantPassages.length,
+				citationsWithSource: citations.filter((c) => c.contentId).length,
 			});
 
 			return {
 				knowledgeContext,
 				mermaidDiagram,
+				relevantPassages,
+				citations,
 				next: "generate_response",
 				actions: [
 					{
@@ -625,6 +799,17 @@ export class KnowledgeRAGFlow extends GraphBase<
 						description: knowledgeContext,
 						metadata: {},
 					},
+					{
+						id: crypto.randomUUID(),
+						name: "Citations",
+						description: citations
+							.map(
+								(citation) =>
+									`[${citation.index}] ${citation.label}${citation.title ? ` (${citation.title})` : ""}`,
+							)
+							.join("\n"),
+						metadata: { citations },
+					},
 				],
 			};
 		} catch (error) {
@@ -633,6 +818,152 @@ export class KnowledgeRAGFlow extends GraphBase<
 		}
 	};
 
+	// Helper function to keep the edges that held at asOf, or the current ones
+	private async getEdgesValidAt(
+		edgeIds: string[],
+		asOf?: string,
+	): Promise<Set<string>> {
+		if (edgeIds.length === 0) return new Set();
+
+		const rows = await this.services.database.use(async ({ db, schema }) =>
+			db
+				.select({ id: schema.edges.id })
+				.from(schema.edges)
+				.where(
+					and(
+						inArray(schema.edges.id, [...new Set(edgeIds)]),
+						edgeValidAt(parseAsOf(asOf)),
+					),
+				),
+		);
+		return new Set(rows.map((row) => row.id));
+	}
+
+	// Helper function to scale edge relevance by provenance, so corroborated
+	// facts rank above single-source claims
+	private async weightByProvenance(
+		edges: KnowledgeRAGState["relevantEdges"],
+	): Promise<KnowledgeRAGState["relevantEdges"]> {
+		if (edges.length === 0) return edges;
+
+		const rows = await this.services.database.use(async ({ db, schema }) =>
+			db
+				.select({
+					id: schema.edges.id,
+					weight: schema.edges.provenanceWeightCache,
+					count: schema.edges.provenanceCountCache,
+				})
+				.from(schema.edges)
+				.where(
+					inArray(schema.edges.id, [...new Set(edges.map((edge) => edge.id))]),
+				),
+		);
+		const factors = new Map(
+			rows.map((row) => [row.id, provenanceFactor(row.weight, row.count)]),
+		);
+		return edges.map((edge) => ({
+			...edge,
+			relevanceScore: edge.relevanceScore * (factors.get(edge.id) ?? 1),
+		}));
+	}
+
+	// Helper function to load the remembered page behind each node and edge
+	// through source_nodes/source_edges -> sources -> remembered_contents
+	private async loadLineage(
+		nodeIds: string[],
+		edgeIds: string[],
+	): Promise<{ nodes: Map<string, Lineage>; edges: Map<string, Lineage> }> {
+		const lineage = {
+			nodes: new Map<string, Lineage>(),
+			edges: new Map<string, Lineage>(),
+		};
+		if (nodeIds.length === 0 && edgeIds.length === 0) return lineage;
+
+		await this.services.database.use(async ({ db, schema }) => {
+			const pageColumns = {
+				contentId: schema.rememberedContent.id,
+				title: schema.rememberedContent.title,
+				url: schema.rememberedContent.sourceUrl,
+				content: schema.rememberedContent.content,
+			};
+			const joinsPage = and(
+				eq(schema.sources.targetType, "remembered_pages"),
+				sql`${schema.sources.targetId} = ${schema.rememberedContent.id}::text`,
+			);
+
+			// Strongest link first so the first row per item wins
+			const nodeRows =
+				nodeIds.length > 0
+					? await db
+							.select({ itemId: schema.sourceNodes.nodeId, ...pageColumns })
+							.from(schema.sourceNodes)
+							.innerJoin(
+								schema.sources,
+								eq(schema.sourceNodes.sourceId, schema.sources.id),
+							)
+							.innerJoin(schema.rememberedContent, joinsPage)
+							.where(inArray(schema.sourceNodes.nodeId, nodeIds))
+							.orderBy(desc(schema.sources.weight))
+					: [];
+
+			const edgeRows =
+				edgeIds.length > 0
+					? await db
+							.select({ itemId: schema.sourceEdges.edgeId, ...pageColumns })
+							.from(schema.sourceEdges)
+							.innerJoin(
+								schema.sources,
+								eq(schema.sourceEdges.sourceId, schema.sources.id),
+							)
+							.innerJoin(schema.rememberedContent, joinsPage)
+							.where(inArray(schema.sourceEdges.edgeId, edgeIds))
+							.orderBy(
+								desc(schema.sourceEdges.linkWeight),
+								desc(schema.sources.weight),
+							)
+					: [];
+
+			for (const { itemId, ...page } of nodeRows) {
+				if (!lineage.nodes.has(itemId)) lineage.nodes.set(itemId, page);
+			}
+			for (const { itemId, ...page } of edgeRows) {
+				if (!lineage.edges.has(itemId)) lineage.edges.set(itemId, page);
+			}
+		});
+
+		return lineage;
+	}
+
+	// Helper function to find passages of remembered content matching the query
+	private async retrievePassages(
+		state: KnowledgeRAGState,
+	): Promise<KnowledgeRAGState["relevantPassages"]> {
+		const limit = this.config.passageLimit ?? 0;
+		if (limit <= 0 || !state.query.trim()) return [];
+
+		const embedding = await this.services.embedding.get("default");
+		if (!embedding?.isReady()) return [];
+
+		const results = await vectorSearchChunks(
+			this.services.database,
+			embedding,
+			[state.query],
+			limit,
+			state.topicId,
+		);
+
+		return results
+			.filter((result) => result.similarity >= MIN_PASSAGE_SIMILARITY)
+			.map((result) => ({
+				id: result.item.id,
+				contentId: result.item.contentId,
+				title: result.item.title,
+				sourceUrl: result.item.sourceUrl,
+				text: result.item.text,
+				relevanceScore: result.similarity,
+			}));
+	}
+
 	// Helper function to generate Mermaid diagram
 	private generateMermaidDiagram(
 		nodes: KnowledgeRAGState["relevantNodes"],
@@ -681,16 +1012,23 @@ export class KnowledgeRAGFlow extends GraphBase<
 		try {
 			logInfo("[KNOWLEDGE_RAG] Generating final response");
 
-			const prompt = RESPONSE_GENERATION_PROMPT.replace(
-				"{query}",
-				state.query,
-			).replace("{context}", state.knowledgeContext);
+			const asOf = parseAsOf(state.asOf);
+			const prompt =
+				RESPONSE_GENERATION_PROMPT.replace("{query}", state.query).replace(
+					"{context}",
+					state.knowledgeContext,
+				) +
+				(asOf
+					? AS_OF_PROMPT.replace("{asOf}", asOf.toISOString().slice(0, 10))
+					: "");
 
 			const messages: ChatMessage[] = [{ role: "system", content: prompt }];
 
-			const llmResponse = await llm.chatCompletions({
+			const model = await llm.resolveModelFor("rag_answer");
+			const llmResponse = await llm.chatCompletionsFor(model.serviceName, {
+				model: model.modelId,
 				messages,
-				max_tokens: 4096,
+				max_tokens: state.maxResponseTokens ?? 4096,
 				temperature: 0.3,
 				stream: true,
 			});
@@ -754,6 +1092,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 				state.query,
 				this.config.searchLimit || 50,
 				state.topicId,
+				state.asOf,
 			);
 
 			// Step 2: Grow the graph from initial results
@@ -766,6 +1105,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 					nodesPerLevel: 20,
 					edgesPerLevel: 30,
 				},
+				state.asOf,
 			);
 
 			logInfo("[KNOWLEDGE_RAG] Quick mode results:", {
@@ -810,6 +1150,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 		query: string,
 		limit: number,
 		topicId?: string,
+		asOf?: string,
 	): Promise<{
 		nodes: KnowledgeRAGState["relevantNodes"];
 		edges: KnowledgeRAGState["relevantEdges"];
@@ -844,8 +1185,13 @@ export class KnowledgeRAGFlow extends GraphBase<
 			}),
 		);
 
-		const edges: KnowledgeRAGState["relevantEdges"] = edgeResults.map(
-			(result) => ({
+		const visibleEdgeIds = await this.getEdgesValidAt(
+			edgeResults.map((result) => String(result.item.id)),
+			asOf,
+		);
+		const edges: KnowledgeRAGState["relevantEdges"] = edgeResults
+			.filter((result) => visibleEdgeIds.has(String(result.item.id)))
+			.map((result) => ({
 				id: String(result.item.id),
 				sourceId: String(result.item.sourceId),
 				destinationId: String(result.item.destinationId),
@@ -853,8 +1199,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 				factText: result.item.factText || "",
 				attributes: (result.item.attributes || {}) as Record<string, unknown>,
 				relevanceScore: result.similarity,
-			}),
-		);
+			}));
 
 		return { nodes, edges };
 	}
@@ -864,6 +1209,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 		initialNodes: KnowledgeRAGState["relevantNodes"],
 		initialEdges: KnowledgeRAGState["relevantEdges"],
 		config: GraphGrowthConfig,
+		asOf?: string,
 	): Promise<{
 		nodes: KnowledgeRAGState["relevantNodes"];
 		edges: KnowledgeRAGState["relevantEdges"];
@@ -873,7 +1219,9 @@ export class KnowledgeRAGFlow extends GraphBase<
 
 		// Add initial results
 		initialNodes.forEach((node) => allNodes.set(node.id, node));
-		initialEdges.forEach((edge) => allEdges.set(edge.id, edge));
+		(await this.weightByProvenance(initialEdges)).forEach((edge) =>
+			allEdges.set(edge.id, edge),
+		);
 
 		let currentLevelNodeIds = new Set(initialNodes.map((n) => n.id));
 
@@ -891,6 +1239,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 					Array.from(currentLevelNodeIds),
 					config.nodesPerLevel,
 					config.edgesPerLevel,
+					asOf,
 				);
 
 			// Add new nodes and edges
@@ -903,14 +1252,15 @@ export class KnowledgeRAGFlow extends GraphBase<
 				}
 			});
 
-			newEdges.forEach((edge) => {
-				if (!allEdges.has(edge.id)) {
-					allEdges.set(edge.id, {
+			const levelEdges = await this.weightByProvenance(
+				newEdges
+					.filter((edge) => !allEdges.has(edge.id))
+					.map((edge) => ({
 						...edge,
 						relevanceScore: Math.max(0.1, 0.8 - level * 0.2),
-					});
-				}
-			});
+					})),
+			);
+			levelEdges.forEach((edge) => allEdges.set(edge.id, edge));
 
 			currentLevelNodeIds = nextLevelNodeIds;
 		}
@@ -930,6 +1280,7 @@ export class KnowledgeRAGFlow extends GraphBase<
 		nodeIds: string[],
 		maxNodes: number,
 		maxEdges: number,
+		asOf?: string,
 	): Promise<{
 		newNodes: KnowledgeRAGState["relevantNodes"];
 		newEdges: KnowledgeRAGState["relevantEdges"];
@@ -945,11 +1296,19 @@ export class KnowledgeRAGFlow extends GraphBase<
 				.select()
 				.from(schema.edges)
 				.where(
-					or(
-						inArray(schema.edges.sourceId, nodeIds),
-						inArray(schema.edges.destinationId, nodeIds),
+					and(
+						or(
+							inArray(schema.edges.sourceId, nodeIds),
+							inArray(schema.edges.destinationId, nodeIds),
+						),
+						edgeValidAt(parseAsOf(asOf)),
 					),
 				)
+				// The best corroborated facts are followed first
+				.orderBy(
+					sql`${schema.edges.provenanceWeightCache} DESC NULLS LAST`,
+					desc(schema.edges.recordedAt),
+				)
 				.limit(maxEdges);
 
 			// Get all unique node IDs from the edges (excluding current nodes)
@@ -10,6 +10,8 @@ export interface KnowledgeRAGState extends BaseStateBase {
 	messages: ChatMessage[];
 	query: string;
 	topicId?: string;
+	asOf?: string; // ISO date; answer from the facts valid at that time instead of the current ones
+	maxResponseTokens?: number; // Response length that fits the context window (default: 4096)
 
 	// Query Analysis
 	extractedEntities: string[];
@@ -35,8 +37,26 @@ export interface KnowledgeRAGState extends BaseStateBase {
 		relevanceScore: number;
 	}>;
 
+	relevantPassages: Array<{
+		id: string;
+		contentId: string;
+		title: string;
+		sourceUrl: string | null;
+		text: string;
+		relevanceScore: number;
+	}>;
+
 	// Context Building
 	knowledgeContext: string;
+	citations: Array<{
+		index: number; // Number the answer cites as [n]
+		kind: "node" | "edge" | "passage";
+		label: string;
+		contentId: string | null;
+		title: string | null;
+		url: string | null;
+		quote: string; // Supporting sentence from the source page
+	}>;
 	mermaidDiagram: string;
 
 	// Steps for tracking progress
@@ -73,6 +93,14 @@ export const KnowledgeRAGAnnotation = {
 		value: (x, y) => y ?? x,
 		default: () => undefined,
 	}),
+	asOf: Annotation<string | undefined>({
+		value: (x, y) => y ?? x,
+		default: () => undefined,
+	}),
+	maxResponseTokens: Annotation<number | undefined>({
+		value: (x, y) => y ?? x,
+		default: () => undefined,
+	}),
 	extractedEntities: Annotation<string[]>({
 		value: (x, y) => y ?? x ?? [],
 		default: () => [],
@@ -89,10 +117,18 @@ export const KnowledgeRAGAnnotation = {
 		value: (x, y) => y ?? x ?? [],
 		default: () => [],
 	}),
+	relevantPassages: Annotation<KnowledgeRAGState["relevantPassages"]>({
+		value: (x, y) => y ?? x ?? [],
+		default: () => [],
+	}),
 	knowledgeContext: Annotation<string>({
 		value: (x, y) => y ?? x ?? "",
 		default: () => "",
 	}),
+	citations: Annotation<KnowledgeRAGState["citations"]>({
+		value: (x, y) => y ?? x ?? [],
+		default: () => [],
+	}),
 	mermaidDiagram: Annotation<string>({
 		value: (x, y) => y ?? x ?? "",
 		default: () => "",
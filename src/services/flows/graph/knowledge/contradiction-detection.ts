@@ -0,0 +1,218 @@
+import type { Edge } from "@/services/database";
+import type { KnowledgeGraphState, Contradiction, ResolvedFact } from "./state";
+import type { AllServices } from "@/services/flows/interfaces/tool";
+import { logInfo, logError } from "@/utils/logger";
+import { mapRefine } from "@/utils/map-refine";
+
+const CONTRADICTION_DETECTION_SYSTEM_PROMPT = `You are checking a knowledge graph for facts that are no longer true.
+
+Each numbered PAIR holds a NEW FACT, just learned from the content, and an EXISTING FACT already stored between the same two entities.
+
+Task:
+For each pair, decide whether the new fact contradicts the existing fact, meaning both cannot be true at the same time and the new fact replaces the existing one.
+
+Guidelines:
+1. Facts that add detail, or describe a different aspect of the relationship, are NOT contradictions
+2. A change of state is a contradiction (e.g. "works at Acme" vs "left Acme and joined Globex", "lives in Paris" vs "moved to Berlin")
+3. Opposite claims about the same thing are contradictions (e.g. "supports the proposal" vs "opposes the proposal")
+4. When unsure, answer false
+5. Keep the reason to one short sentence
+
+Return your response as a valid JSON array with one object per pair:
+[
+  {
+    "pair": number,
+    "contradicts": boolean,
+    "reason": "why the new fact supersedes the existing one, or empty"
+  },
+  ...
+]`;
+
+interface CandidatePair {
+	fact: ResolvedFact;
+	edge: Edge;
+}
+
+export class ContradictionDetectionFlow {
+	constructor(private services: AllServices) {}
+
+	async detectContradictions(
+		state: KnowledgeGraphState,
+	): Promise<Partial<KnowledgeGraphState>> {
+		try {
+			const pairs = this.findCandidatePairs(state);
+
+			if (pairs.length === 0) {
+				return {
+					contradictions: [],
+					processingStage: "temporal_extraction",
+					actions: [
+						{
+							id: crypto.randomUUID(),
+							name: "Contradiction Detection Skipped",
+							description: "No new facts between already known entities",
+							metadata: { pairCount: 0 },
+						},
+					],
+				};
+			}
+
+			const llm = this.services.llm;
+			if (!llm.isReady()) {
+				throw new Error("LLM service is not ready");
+			}
+
+			const nodeNameById = new Map<string, string>();
+			for (const node of state.existingNodes || []) {
+				nodeNameById.set(node.id, node.name);
+			}
+			const nameOf = (id: string) => nodeNameById.get(id) || "Unknown";
+
+			const pairsText = pairs
+				.map(
+					({ fact, edge }, index) =>
+						`${index + 1}. NEW FACT: ${fact.relationType}: ${fact.factText} | EXISTING FACT: ${nameOf(edge.sourceId)} ${edge.edgeType} ${nameOf(edge.destinationId)}: ${edge.factText || ""}`,
+				)
+				.join("\n");
+
+			interface ParsedContradiction {
+				pair?: number;
+				contradicts?: boolean;
+				reason?: string;
+			}
+
+			const parseContradictions = (content: string): Contradiction[] => {
+				let cleaned = content.trim();
+				if (cleaned.startsWith("```json"))
+					cleaned = cleaned.replace(/^```json\s*/i, "").replace(/\s*```$/i, "");
+				else if (cleaned.startsWith("```"))
+					cleaned = cleaned.replace(/^```\s*/i, "").replace(/\s*```$/i, "");
+
+				const parsedArray = JSON.parse(cleaned) as ParsedContradiction[];
+				if (!Array.isArray(parsedArray)) {
+					throw new Error("Response is not an array");
+				}
+
+				const results: Contradiction[] = [];
+				for (const item of parsedArray) {
+					const pair = item.pair ? pairs[item.pair - 1] : undefined;
+					if (!pair || item.contradicts !== true) continue;
+					results.push({
+						factUuid: pair.fact.uuid,
+						existingEdgeId: pair.edge.id,
+						reason: item.reason?.trim() || "Contradicted by a newer fact",
+					});
+				}
+				return results;
+			};
+
+			const model = await llm.resolveModelFor("resolution");
+			const maxModelTokens = await llm.getMaxModelTokensFor(model.serviceName);
+
+			const contradictions = await mapRefine<Contradiction>(
+				llm,
+				CONTRADICTION_DETECTION_SYSTEM_PROMPT,
+				(chunk, _prev, errorContext) => {
+					let prompt = `<PAIRS>\n${chunk}\n</PAIRS>`;
+					if (errorContext) {
+						prompt += `\n\n<ERROR_CONTEXT>\n${errorContext}\nPlease fix the JSON format.\n</ERROR_CONTEXT>`;
+					}
+					return prompt;
+				},
+				parseContradictions,
+				pairsText,
+				{
+					model,
+					maxModelTokens,
+					maxResponseTokens: 2048,
+					temperature: 0.0,
+					maxRetries: 2,
+					dedupeBy: (c) => `${c.factUuid}|${c.existingEdgeId}`,
+					onError: (error, attempt) => {
+						logError(
+							`[CONTRADICTION_DETECTION] Parse error on attempt ${attempt}:`,
+							error,
+						);
+						return `JSON parsing failed: ${error.message}. Please return a JSON array with pair, contradicts and reason fields.`;
+					},
+				},
+			);
+
+			logInfo(
+				`[CONTRADICTION_DETECTION] ${contradictions.length} contradictions in ${pairs.length} pairs`,
+			);
+
+			return {
+				contradictions,
+				processingStage: "temporal_extraction",
+				actions: [
+					{
+						id: crypto.randomUUID(),
+						name: "Contradiction Detection Complete",
+						description: `Checked ${pairs.length} fact pairs, ${contradictions.length} existing facts are superseded`,
+						metadata: {
+							pairCount: pairs.length,
+							contradictionCount: contradictions.length,
+							contradictions,
+						},
+					},
+				],
+			};
+		} catch (error) {
+			logError("[CONTRADICTION_DETECTION] Error:", error);
+
+			// Nothing is invalidated when detection fails, the facts are still saved
+			return {
+				contradictions: [],
+				errors: [
+					error instanceof Error
+						? error.message
+						: "Contradiction detection failed",
+				],
+				actions: [
+					{
+						id: crypto.randomUUID(),
+						name: "Contradiction Detection Failed",
+						description:
+							error instanceof Error ? error.message : "Unknown error",
+						metadata: {},
+					},
+				],
+			};
+		}
+	}
+
+	/**
+	 * Pair every new fact between two known nodes with the current edges
+	 * already linking those nodes, in either direction
+	 */
+	private findCandidatePairs(state: KnowledgeGraphState): CandidatePair[] {
+		const nodeIdByEntityId = new Map<string, string>();
+		for (const entity of state.resolvedEntities || []) {
+			if (entity.isExisting && entity.existingId) {
+				nodeIdByEntityId.set(entity.uuid, entity.existingId);
+			}
+		}
+
+		const edgesByNodePair = new Map<string, Edge[]>();
+		for (const edge of state.existingEdges || []) {
+			if (edge.isCurrent === false) continue;
+			const key = [edge.sourceId, edge.destinationId].sort().join("|");
+			edgesByNodePair.set(key, [...(edgesByNodePair.get(key) || []), edge]);
+		}
+
+		const pairs: CandidatePair[] = [];
+		for (const fact of state.resolvedFacts || []) {
+			if (fact.isExisting) continue;
+			const sourceNodeId = nodeIdByEntityId.get(fact.sourceEntityId);
+			const destNodeId = nodeIdByEntityId.get(fact.destinationEntityId);
+			if (!sourceNodeId || !destNodeId) continue;
+
+			const key = [sourceNodeId, destNodeId].sort().join("|");
+			for (const edge of edgesByNodePair.get(key) || []) {
+				pairs.push({ fact, edge });
+			}
+		}
+		return pairs;
+	}
+}
@@ -10,8 +10,9 @@ import type { Node, NewNode } from "@/services/database/entities/nodes";
 import type { Edge, NewEdge } from "@/services/database/entities/edges";
 import type { IEmbeddingService } from "@/services/embedding/interfaces/embedding-service.interface";
 import { getDB, schema } from "@/services/database/db";
+import { provenanceService } from "@/services/provenance";
 import type { InferSelectModel } from "drizzle-orm";
-import { eq, or } from "drizzle-orm";
+import { and, desc, eq, inArray, or } from "drizzle-orm";
 
 // Inferred database types
 type DatabaseInstance = ReturnType<typeof getDB>;
@@ -31,6 +32,15 @@ type DatabaseSaveResult = {
 	createdEdges: Partial<Edge>[];
 };
 
+// Source type recorded for each target type, pages by default
+const SOURCE_TYPE_BY_TARGET: Record<string, string> = {
+	message: "message",
+	graph_import: "import",
+};
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Safe embedding generation that continues storage even on failure
 async function safeTextToVector(
 	embeddingService: IEmbeddingService | undefined,
@@ -147,6 +157,19 @@ export class DatabaseSaveFlow {
 				`[SAVE_TO_DATABASE] ${createdEdges.length} edges created successfully`,
 			);
 
+			// Facts resolved to existing edges corroborate them
+			await databaseService.use(async ({ db, schema }) => {
+				const corroboratedIds = await this.linkCorroboratedEdges(
+					state,
+					createdSource,
+					{ db, schema },
+				);
+				await provenanceService.refreshEdges(db, [
+					...createdEdges.map((edge) => edge.id),
+					...corroboratedIds,
+				]);
+			});
+
 			const result = { createdSource, createdNodes, createdEdges };
 
 			logInfo(
@@ -201,15 +224,17 @@ export class DatabaseSaveFlow {
 		state: KnowledgeGraphState,
 		{ db, schema }: DatabaseContext,
 	): Promise<SourceSelectType> {
+		const targetType = state.targetType || "remembered_pages";
 		logInfo("💾 Creating source with polymorphic relation", {
-			targetType: "remembered_pages",
+			targetType,
 			targetId: state.pageId,
 			hasPageId: !!state.pageId,
 			title: state.title,
 		});
 
 		const sourceData: NewSource = {
-			targetType: "remembered_pages",
+			type: SOURCE_TYPE_BY_TARGET[targetType] ?? "page",
+			targetType,
 			targetId: state.pageId!.trim(),
 			name: state.title!.trim(),
 			metadata: {
@@ -221,6 +246,39 @@ export class DatabaseSaveFlow {
 			graph: this.getGraphValue(state),
 		};
 
+		// The conversion may have registered the source before running the
+		// flow, to count attempts; reuse that row instead of adding another
+		const [existingSource] = await db
+			.select()
+			.from(schema.sources)
+			.where(
+				and(
+					eq(schema.sources.targetType, sourceData.targetType),
+					eq(schema.sources.targetId, sourceData.targetId),
+				),
+			)
+			.orderBy(desc(schema.sources.createdAt))
+			.limit(1);
+
+		if (existingSource) {
+			const [updatedSource] = await db
+				.update(schema.sources)
+				.set({
+					name: sourceData.name,
+					metadata: {
+						...((existingSource.metadata as Record<string, unknown>) || {}),
+						...(sourceData.metadata as Record<string, unknown>),
+					},
+					referenceTime: sourceData.referenceTime,
+					graph: sourceData.graph,
+					updatedAt: new Date(),
+				})
+				.where(eq(schema.sources.id, existingSource.id))
+				.returning();
+
+			return updatedSource;
+		}
+
 		const [createdSource] = await db
 			.insert(schema.sources)
 			.values(sourceData)
@@ -317,7 +375,10 @@ export class DatabaseSaveFlow {
 						.filter((f) => !f.isExisting)
 						.map((fact) => ({
 							...fact,
-							temporal: { validAt: undefined, invalidAt: undefined },
+							temporal: fact.temporal ?? {
+								validAt: undefined,
+								invalidAt: undefined,
+							},
 						}));
 
 		logInfo(`[SAVE_TO_DATABASE] Processing facts:`, {
@@ -328,6 +389,7 @@ export class DatabaseSaveFlow {
 		});
 
 		const skippedEdges: (EnrichedFact | (typeof factsToProcess)[0])[] = [];
+		const edgeByFact = new Map<string, Edge>();
 
 		// Create a lookup map for better performance including both created nodes AND existing nodes
 		const nodeNameToId = new Map<string, string>();
@@ -515,6 +577,7 @@ export class DatabaseSaveFlow {
 					invalidAt: fact.temporal?.invalidAt
 						? new Date(fact.temporal.invalidAt)
 						: undefined,
+					isCurrent: fact.temporal?.isCurrent ?? true,
 					recordedAt: new Date(),
 					attributes: fact.attributes || {},
 					graph: this.getGraphValue(state),
@@ -575,6 +638,7 @@ export class DatabaseSaveFlow {
 				}
 
 				createdEdges.push(createdEdge);
+				edgeByFact.set(fact.uuid, createdEdge);
 
 				// Create source-edge relationship
 				try {
@@ -602,6 +666,16 @@ export class DatabaseSaveFlow {
 			}
 		}
 
+		if (state.contradictions?.length > 0) {
+			await this.invalidateContradictedEdges(
+				state,
+				factsToProcess,
+				edgeByFact,
+				createdSource,
+				{ db, schema },
+			);
+		}
+
 		// Log warning for skipped edges
 		if (skippedEdges.length > 0) {
 			logWarn("[SAVE_TO_DATABASE] Skipped edges that could not be stored:", {
@@ -618,6 +692,138 @@ export class DatabaseSaveFlow {
 		return createdEdges;
 	}
 
+	/**
+	 * Link the source to the existing edges its facts resolved to, so they
+	 * count it among their provenance
+	 */
+	private async linkCorroboratedEdges(
+		state: KnowledgeGraphState,
+		createdSource: SourceSelectType,
+		{ db, schema }: DatabaseContext,
+	): Promise<string[]> {
+		const facts =
+			state.enrichedFacts?.length > 0
+				? state.enrichedFacts
+				: state.resolvedFacts || [];
+		const candidateIds = [
+			...new Set(
+				facts
+					.filter((fact) => fact.isExisting && fact.existingId)
+					.map((fact) => fact.existingId!),
+			),
+		];
+		if (candidateIds.length === 0) return [];
+
+		try {
+			// Resolution ids come from the LLM; keep the edges that exist
+			const existing = await db
+				.select({ id: schema.edges.id })
+				.from(schema.edges)
+				.where(
+					inArray(
+						schema.edges.id,
+						candidateIds.filter((id) => UUID_PATTERN.test(id)),
+					),
+				);
+			const edgeIds = existing.map((edge) => edge.id);
+			if (edgeIds.length === 0) return [];
+
+			await db
+				.insert(schema.sourceEdges)
+				.values(
+					edgeIds.map((edgeId) => ({
+						sourceId: createdSource.id,
+						edgeId,
+						relation: "EXTRACTED_FROM",
+						linkWeight: 1.0,
+						graph: this.getGraphValue(state),
+					})),
+				)
+				.onConflictDoNothing();
+			return edgeIds;
+		} catch (error) {
+			logError(
+				"[SAVE_TO_DATABASE] Failed to link corroborated edges to the source",
+				error,
+			);
+			return [];
+		}
+	}
+
+	/**
+	 * Close the existing edges that the new facts contradict. A superseded edge
+	 * keeps its row for point in time queries: it gets an invalidAt, loses
+	 * isCurrent and records in its attributes which edge and source replaced
+	 * it. When the existing fact turns out to be the more recent one, the new
+	 * edge is closed instead.
+	 */
+	private async invalidateContradictedEdges(
+		state: KnowledgeGraphState,
+		facts: EnrichedFact[],
+		edgeByFact: Map<string, Edge>,
+		createdSource: SourceSelectType,
+		{ db, schema }: DatabaseContext,
+	): Promise<number> {
+		let invalidated = 0;
+		const recordedAt = new Date().toISOString();
+
+		for (const contradiction of state.contradictions) {
+			const newEdge = edgeByFact.get(contradiction.factUuid);
+			const fact = facts.find((f) => f.uuid === contradiction.factUuid);
+			// A fact imported as superseded does not replace anything
+			if (!newEdge || !fact || fact.temporal?.isCurrent === false) continue;
+
+			try {
+				const [existingEdge] = await db
+					.select()
+					.from(schema.edges)
+					.where(eq(schema.edges.id, contradiction.existingEdgeId));
+				if (!existingEdge || existingEdge.isCurrent === false) continue;
+
+				const newValidAt = new Date(
+					fact.temporal?.validAt || state.referenceTimestamp,
+				);
+				const existingIsNewer =
+					!!existingEdge.validAt && existingEdge.validAt > newValidAt;
+				const [superseded, supersededBy, invalidAt] = existingIsNewer
+					? [newEdge, existingEdge, existingEdge.validAt as Date]
+					: [existingEdge, newEdge, newValidAt];
+
+				await db
+					.update(schema.edges)
+					.set({
+						invalidAt,
+						isCurrent: false,
+						attributes: {
+							...((superseded.attributes as Record<string, unknown>) || {}),
+							invalidation: {
+								supersededBy: supersededBy.id,
+								sourceId: createdSource.id,
+								sourceName: createdSource.name,
+								factText: supersededBy.factText,
+								reason: contradiction.reason,
+								recordedAt,
+							},
+						},
+						updatedAt: new Date(),
+					})
+					.where(eq(schema.edges.id, superseded.id));
+				invalidated++;
+
+				logInfo(
+					`[SAVE_TO_DATABASE] Edge ${superseded.id} superseded by ${supersededBy.id}: ${contradiction.reason}`,
+				);
+			} catch (error) {
+				logError(
+					`[SAVE_TO_DATABASE] Failed to invalidate contradicted edge ${contradiction.existingEdgeId}`,
+					error,
+				);
+			}
+		}
+
+		return invalidated;
+	}
+
 	private getNodeId(
 		entity: ResolvedEntity,
 		nodeNameToId: Map<string, string>,
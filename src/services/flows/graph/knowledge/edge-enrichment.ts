@@ -236,7 +236,10 @@ ${allNodesText || "No connected nodes"}
 				}
 			};
 
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("extraction");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const enrichedFacts = await mapRefine<ExtractedFact>(
 				llm,
@@ -258,6 +261,7 @@ ${allNodesText || "No connected nodes"}
 				parseRelationships,
 				fullText,
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 4096,
 					temperature: 0.0,
@@ -275,7 +275,10 @@ export class EntityExtractionFlow {
 				return [];
 			};
 
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("extraction");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const extractedEntities = await mapRefine<ExtractedEntity>(
 				llm,
@@ -300,6 +303,7 @@ export class EntityExtractionFlow {
 				parseEntities,
 				formattedContent,
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 4096,
 					temperature: isUserInput ? 0.2 : 0.1, // Higher creativity for user input
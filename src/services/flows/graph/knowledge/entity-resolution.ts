@@ -4,7 +4,7 @@ import type {
 	ResolvedEntity,
 } from "./state";
 import type { AllServices } from "@/services/flows/interfaces/tool";
-import type { Node } from "@/services/database/entities/nodes";
+import { getNodeAliases, type Node } from "@/services/database/entities/nodes";
 import { logInfo, logError } from "@/utils/logger";
 import { mapRefine } from "@/utils/map-refine";
 
@@ -72,6 +72,15 @@ export class EntityResolutionFlow {
 				const normalizedName = node.name.toLowerCase().trim();
 				existingNodesByName.set(normalizedName, node);
 			}
+			// Aliases left by merges match too, without overriding a node's name
+			for (const node of state.existingNodes) {
+				for (const alias of getNodeAliases(node)) {
+					const normalizedAlias = alias.toLowerCase().trim();
+					if (!existingNodesByName.has(normalizedAlias)) {
+						existingNodesByName.set(normalizedAlias, node);
+					}
+				}
+			}
 
 			for (const entity of state.extractedEntities) {
 				const normalizedEntityName = entity.name.toLowerCase().trim();
@@ -127,10 +136,10 @@ export class EntityResolutionFlow {
 
 			// Prepare existing nodes context
 			const existingNodesText = state.existingNodes
-				.map(
-					(node) =>
-						`ID: ${node.id}, Name: ${node.name}, Summary: ${node.summary}, Type: ${node.nodeType}`,
-				)
+				.map((node) => {
+					const aliases = getNodeAliases(node);
+					return `ID: ${node.id}, Name: ${node.name}${aliases.length > 0 ? `, Also known as: ${aliases.join(", ")}` : ""}, Summary: ${node.summary}, Type: ${node.nodeType}`;
+				})
 				.join("\n");
 
 			// Format content with proper context
@@ -234,7 +243,10 @@ ${entitiesText}
 				}
 			};
 
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("resolution");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const aiResolvedEntities = await mapRefine<ResolvedEntity>(
 				llm,
@@ -261,6 +273,7 @@ ${entitiesText}
 				parseResolutions,
 				fullText,
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 4096,
 					temperature: 0.0,
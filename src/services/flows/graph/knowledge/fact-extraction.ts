@@ -287,7 +287,10 @@ export class FactExtractionFlow {
 				return [];
 			};
 
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("extraction");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const extractedFacts = await mapRefine<ExtractedFact>(
 				llm,
@@ -317,6 +320,7 @@ export class FactExtractionFlow {
 				parseFacts,
 				fullText,
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 4096,
 					temperature: 0.1,
@@ -435,7 +439,10 @@ export class FactExtractionFlow {
 			.join(", ");
 
 		try {
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("extraction");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const additionalFacts = await mapRefine<ExtractedFact>(
 				llm,
@@ -457,6 +464,7 @@ export class FactExtractionFlow {
 				parseFacts,
 				fullText,
 				{
+					model,
 					maxModelTokens: Math.floor(maxModelTokens * 0.8),
 					maxResponseTokens: 3000,
 					temperature: 0.2, // Slightly higher creativity for finding implicit relationships
@@ -270,7 +270,10 @@ ${factsText}
 				}
 			};
 
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("resolution");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const aiResolvedFacts = await mapRefine<ResolvedFact>(
 				llm,
@@ -297,6 +300,7 @@ ${factsText}
 				parseFactResolutions,
 				fullText,
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 6144,
 					temperature: 0.0,
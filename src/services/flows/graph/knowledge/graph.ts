@@ -1,6 +1,6 @@
 import { END, START, StateGraph } from "@langchain/langgraph/web";
 import { logInfo, logError } from "@/utils/logger";
-import { or, and, ilike, inArray, eq } from "drizzle-orm";
+import { or, and, ilike, inArray, eq, sql } from "drizzle-orm";
 import { vectorSearchNodes, vectorSearchEdges } from "@/utils/vector-search";
 import {
 	trigramSearchNodes,
@@ -13,6 +13,7 @@ import { EntityExtractionFlow } from "./entity-extraction";
 import { EntityResolutionFlow } from "./entity-resolution";
 import { FactExtractionFlow } from "./fact-extraction";
 import { FactResolutionFlow } from "./fact-resolution";
+import { ContradictionDetectionFlow } from "./contradiction-detection";
 import { EdgeEnrichmentFlow } from "./edge-enrichment";
 import { TemporalExtractionFlow } from "./temporal-extraction";
 import { DatabaseSaveFlow } from "./database-save";
@@ -23,6 +24,8 @@ import { flowRegistry } from "../../flow-registry";
 
 export interface KnowledgeGraphConfig {
 	enableTemporalExtraction?: boolean;
+	// Entities and facts come with the initial state, e.g. an imported graph
+	skipExtraction?: boolean;
 }
 
 export class KnowledgeGraphFlow extends GraphBase<
@@ -32,6 +35,7 @@ export class KnowledgeGraphFlow extends GraphBase<
 	| "extract_facts"
 	| "load_facts"
 	| "resolve_facts"
+	| "detect_contradictions"
 	| "enrich_edges"
 	| "extract_temporal"
 	| "save_to_database",
@@ -42,6 +46,7 @@ export class KnowledgeGraphFlow extends GraphBase<
 	private entityResolution: EntityResolutionFlow;
 	private factExtraction: FactExtractionFlow;
 	private factResolution: FactResolutionFlow;
+	private contradictionDetection: ContradictionDetectionFlow;
 	private edgeEnrichment: EdgeEnrichmentFlow;
 	private temporalExtraction: TemporalExtractionFlow;
 	private databaseSave: DatabaseSaveFlow;
@@ -73,6 +78,7 @@ export class KnowledgeGraphFlow extends GraphBase<
 		this.entityResolution = new EntityResolutionFlow(services);
 		this.factExtraction = new FactExtractionFlow(services);
 		this.factResolution = new FactResolutionFlow(services);
+		this.contradictionDetection = new ContradictionDetectionFlow(services);
 		this.edgeEnrichment = new EdgeEnrichmentFlow(services);
 		this.temporalExtraction = new TemporalExtractionFlow(services);
 		this.databaseSave = new DatabaseSaveFlow(services);
@@ -80,13 +86,32 @@ export class KnowledgeGraphFlow extends GraphBase<
 		// Add nodes
 		this.workflow.addNode("load_entities", this.loadExistingEntitiesNode);
 		this.workflow.addNode("load_facts", this.loadExistingFactsNode);
-		this.workflow.addNode("extract_entities", this.extractEntitiesNode);
 		this.workflow.addNode("resolve_entities", this.resolveEntitiesNode);
-		this.workflow.addNode("extract_facts", this.extractFactsNode);
 		this.workflow.addNode("resolve_facts", this.resolveFactsNode);
-		this.workflow.addNode("enrich_edges", this.enrichEdgesNode);
+		this.workflow.addNode(
+			"detect_contradictions",
+			this.detectContradictionsNode,
+		);
 		this.workflow.addNode("save_to_database", this.saveToDatabaseNode);
 
+		if (this.config.skipExtraction) {
+			// Entities and facts are given: resolve them against the graph and
+			// save them as they are, without inventing relations
+			this.workflow.addEdge(START, "load_entities");
+			this.workflow.addEdge("load_entities", "resolve_entities");
+			this.workflow.addEdge("resolve_entities", "load_facts");
+			this.workflow.addEdge("load_facts", "resolve_facts");
+			this.workflow.addEdge("resolve_facts", "detect_contradictions");
+			this.workflow.addEdge("detect_contradictions", "save_to_database");
+			this.workflow.addEdge("save_to_database", END);
+			this.compile();
+			return;
+		}
+
+		this.workflow.addNode("extract_entities", this.extractEntitiesNode);
+		this.workflow.addNode("extract_facts", this.extractFactsNode);
+		this.workflow.addNode("enrich_edges", this.enrichEdgesNode);
+
 		// Conditionally add temporal extraction
 		if (this.config.enableTemporalExtraction) {
 			this.workflow.addNode("extract_temporal", this.extractTemporalNode);
@@ -99,7 +124,8 @@ export class KnowledgeGraphFlow extends GraphBase<
 		this.workflow.addEdge("resolve_entities", "extract_facts");
 		this.workflow.addEdge("extract_facts", "load_facts");
 		this.workflow.addEdge("load_facts", "resolve_facts");
-		this.workflow.addEdge("resolve_facts", "enrich_edges");
+		this.workflow.addEdge("resolve_facts", "detect_contradictions");
+		this.workflow.addEdge("detect_contradictions", "enrich_edges");
 
 		if (this.config.enableTemporalExtraction) {
 			// With temporal extraction: enrich_edges -> extract_temporal -> save_to_database
@@ -151,6 +177,7 @@ export class KnowledgeGraphFlow extends GraphBase<
 					return [
 						ilike(schema.nodes.name, pat),
 						ilike(schema.nodes.summary, pat),
+						sql`${schema.nodes.attributes}->>'aliases' ILIKE ${pat}`,
 					];
 				});
 				if (conditions.length === 0)
@@ -572,6 +599,12 @@ export class KnowledgeGraphFlow extends GraphBase<
 		return await this.factResolution.resolveFacts(state);
 	};
 
+	detectContradictionsNode = async (
+		state: KnowledgeGraphState,
+	): Promise<Partial<KnowledgeGraphState>> => {
+		return await this.contradictionDetection.detectContradictions(state);
+	};
+
 	enrichEdgesNode = async (
 		state: KnowledgeGraphState,
 	): Promise<Partial<KnowledgeGraphState>> => {
@@ -597,6 +630,12 @@ flowRegistry.register({
 	factory: (services) => new KnowledgeGraphFlow(services),
 });
 
+flowRegistry.register({
+	flowType: "knowledge-import",
+	factory: (services) =>
+		new KnowledgeGraphFlow(services, { skipExtraction: true }),
+});
+
 // Extend global FlowTypeRegistry for type-safe flow creation
 declare global {
 	interface FlowTypeRegistry {
@@ -604,5 +643,9 @@ declare global {
 			services: AllServices;
 			flow: KnowledgeGraphFlow;
 		};
+		"knowledge-import": {
+			services: AllServices;
+			flow: KnowledgeGraphFlow;
+		};
 	}
 }
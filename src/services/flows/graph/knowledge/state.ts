@@ -28,6 +28,8 @@ export interface ExtractedFact {
 	relationType: string;
 	factText: string;
 	attributes?: Record<string, unknown>;
+	// Validity known up front, e.g. from an imported graph
+	temporal?: TemporalInfo;
 }
 
 export interface ResolvedFact extends ExtractedFact {
@@ -38,18 +40,28 @@ export interface ResolvedFact extends ExtractedFact {
 export interface TemporalInfo {
 	validAt?: string;
 	invalidAt?: string;
+	// False for a fact that was already superseded, e.g. in an imported graph
+	isCurrent?: boolean;
 }
 
 export interface EnrichedFact extends ResolvedFact {
 	temporal: TemporalInfo;
 }
 
+// A new fact that supersedes an edge already in the graph
+export interface Contradiction {
+	factUuid: string;
+	existingEdgeId: string;
+	reason: string;
+}
+
 export interface KnowledgeGraphState extends BaseStateBase {
 	// Input data
 	content: string;
 	title: string;
 	url: string;
-	pageId: string;
+	pageId: string; // Id of the source target (remembered page or message)
+	targetType?: string; // Source target type, defaults to "remembered_pages"
 	sourceType: string;
 	referenceTimestamp: string;
 	metadata?: Record<string, unknown>;
@@ -65,6 +77,7 @@ export interface KnowledgeGraphState extends BaseStateBase {
 	extractedFacts: ExtractedFact[];
 	resolvedFacts: ResolvedFact[];
 	enrichedFacts: EnrichedFact[];
+	contradictions: Contradiction[];
 
 	// Database operations
 	createdNodes: Node[];
@@ -81,6 +94,7 @@ export interface KnowledgeGraphState extends BaseStateBase {
 		| "entity_resolution"
 		| "fact_extraction"
 		| "fact_resolution"
+		| "contradiction_detection"
 		| "temporal_extraction"
 		| "database_operations"
 		| "completed";
@@ -104,6 +118,10 @@ export const KnowledgeGraphAnnotation = Annotation.Root({
 		value: (x, y) => y ?? x,
 		default: () => "",
 	}),
+	targetType: Annotation<string | undefined>({
+		value: (x, y) => y ?? x,
+		default: () => "remembered_pages",
+	}),
 	referenceTimestamp: Annotation<string>({
 		value: (x, y) => y ?? x,
 		default: () => new Date().toISOString(),
@@ -144,6 +162,10 @@ export const KnowledgeGraphAnnotation = Annotation.Root({
 		value: (x, y) => y ?? x,
 		default: () => [],
 	}),
+	contradictions: Annotation<Contradiction[]>({
+		value: (x, y) => y ?? x,
+		default: () => [],
+	}),
 	createdNodes: Annotation<Node[]>({
 		value: (x, y) => (x || []).concat(y || []),
 		default: () => [],
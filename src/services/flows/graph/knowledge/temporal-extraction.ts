@@ -162,7 +162,10 @@ ${state.referenceTimestamp}
 </REFERENCE TIMESTAMP>`;
 
 			// Use mapRefine for temporal extraction with retry and error handling
-			const maxModelTokens = await this.services.llm.getMaxModelTokens();
+			const model = await this.services.llm.resolveModelFor("extraction");
+			const maxModelTokens = await this.services.llm.getMaxModelTokensFor(
+				model.serviceName,
+			);
 
 			const enrichedFacts = await mapRefine<EnrichedFact>(
 				this.services.llm,
@@ -190,6 +193,7 @@ ${state.referenceTimestamp}
 					})
 					.join("\n"),
 				{
+					model,
 					maxModelTokens,
 					maxResponseTokens: 4096,
 					temperature: 0.0,
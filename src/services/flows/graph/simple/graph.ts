@@ -4,25 +4,55 @@ import { AgentAnnotation, type AgentState } from "./state";
 import { GraphBase } from "../../interfaces/graph.base";
 import {
 	getTool,
-	availableTools,
-	generateToolInstructions,
-	parseToolCall,
 	executeToolByName,
+	getAllTools,
+	toolsToChatTools,
 } from "../../tools";
-import type { AllServices } from "../../interfaces/tool";
+import type { AllServices, BaseTool } from "../../interfaces/tool";
 import type { ChatCompletionResponse, ChatMessage } from "@/types/openai";
 import { logError, logInfo } from "@/utils/logger";
 import { flowRegistry } from "../../flow-registry";
 
-const TOOLS = {
-	current_time: availableTools.current_time,
-};
+// Longest tool result shown in a tool call action
+const ACTION_RESULT_LENGTH = 2000;
+
+type ToolCall = NonNullable<AgentState["steps"][number]["tool_calls"]>[number];
+
+// One action per tool call, updated in place from running to its result
+function toolCallAction(
+	toolCall: ToolCall,
+	outcome?: { status: "completed" | "failed"; result: string },
+) {
+	const result =
+		outcome && outcome.result.length > ACTION_RESULT_LENGTH
+			? `${outcome.result.slice(0, ACTION_RESULT_LENGTH)}...`
+			: outcome?.result;
+	return {
+		id: `tool-${toolCall.id}`,
+		name: !outcome
+			? `Calling "${toolCall.name}"`
+			: outcome.status === "failed"
+				? `"${toolCall.name}" failed`
+				: `Called "${toolCall.name}"`,
+		description: `Arguments: ${toolCall.arguments}${result !== undefined ? `\n\nResult:\n${result}` : ""}`,
+		metadata: {
+			tool: toolCall.name,
+			arguments: toolCall.arguments,
+			status: outcome?.status ?? "running",
+			...(result !== undefined ? { result } : {}),
+		},
+	};
+}
+
+function formatToolList(tools: Record<string, BaseTool<any>>): string {
+	return Object.values(tools)
+		.map((tool) => `- ${tool.name}: ${tool.description}`)
+		.join("\n");
+}
 
-const DECISION_SYSTEM_PROMPT = `
+const buildDecisionSystemPrompt = (tools: Record<string, BaseTool<any>>) => `
 You are an intelligent agent that can decide whether to use tools to help answer user questions or not. Below are the available tools you can use:
-${Object.values(TOOLS)
-	.map((tool) => `- ${tool.name}: ${tool.description}`)
-	.join("\n")}
+${formatToolList(tools)}
 Important: Your answer must be one of the following exactly:
 - YES_USE_TOOL: if one of available tools can help answer the user's question.
 - NO: if <thought> section contains enough information to answer the user's question.
@@ -30,10 +60,11 @@ Important: Your answer must be one of the following exactly:
 const ANSWER_SYSTEM_PROMPT = `
 You are an intelligent assistant that can provide answers to user questions. Use your knowledge and reasoning skills to generate accurate and helpful responses.
 `;
-const AGENT_SYSTEM_PROMPT = `
+const buildAgentSystemPrompt = (tools: Record<string, BaseTool<any>>) => `
 You are an intelligent assistant that can use tools to help answer user questions. Use the tools when appropriate to provide accurate and helpful responses.
 You will use the following tools to help you answer user questions:
-${generateToolInstructions(TOOLS)}
+${formatToolList(tools)}
+You may call several tools at once when they are independent of each other.
 `;
 
 export class SimpleGraph extends GraphBase<
@@ -76,6 +107,11 @@ export class SimpleGraph extends GraphBase<
 		return "answer";
 	}
 
+	// Agent turns taken so far; each one counts against the step budget
+	countSteps(state: AgentState): number {
+		return state.steps.filter((step) => step.role === "assistant").length;
+	}
+
 	shouldCallTool(state: AgentState): "tools" | "decision" {
 		const next = state.next;
 		const lastStep = state.steps[state.steps.length - 1];
@@ -97,7 +133,12 @@ export class SimpleGraph extends GraphBase<
 			const chains: string[] = [];
 			for (const step of state.steps) {
 				if (step.role === "assistant" && step.tool_calls?.length) {
-					chains.push(`\n---\n${step.content}\n`);
+					const calls = step.tool_calls
+						.map((call) => `${call.name}(${call.arguments})`)
+						.join("\n");
+					chains.push(
+						`\n---\n${step.content ? `${step.content}\n` : ""}${calls}\n`,
+					);
 				} else if (step.role === "tool") {
 					chains.push(`Result: ${step.content}\n---\n`);
 				}
@@ -137,9 +178,11 @@ export class SimpleGraph extends GraphBase<
 		logInfo("[ANSWER] LLM messages:", messages);
 
 		// Use actual LLM service instead of pattern matching
-		const llmResponse = await llm.chatCompletions({
+		const model = await llm.resolveModelFor("chat");
+		const llmResponse = await llm.chatCompletionsFor(model.serviceName, {
+			model: model.modelId,
 			messages: messages,
-			max_tokens: 4096,
+			max_tokens: state.maxResponseTokens,
 			temperature: 0.1,
 			stream: true,
 		});
@@ -167,10 +210,27 @@ export class SimpleGraph extends GraphBase<
 			throw new Error("LLM service is not ready");
 		}
 
+		if (this.countSteps(state) >= state.maxSteps) {
+			return {
+				next: "answer",
+				actions: [
+					{
+						id: crypto.randomUUID(),
+						name: "Step budget reached",
+						description: `Answering with what ${state.maxSteps} step(s) found`,
+						metadata: { maxSteps: state.maxSteps },
+					},
+				],
+			};
+		}
+
 		const chainOfThoughtMessage = this.buildChainOfThought(state);
 		// Convert to messages for LLM
 		const messages: ChatMessage[] = [
-			{ role: "system" as const, content: DECISION_SYSTEM_PROMPT },
+			{
+				role: "system" as const,
+				content: buildDecisionSystemPrompt(getAllTools()),
+			},
 			...(chainOfThoughtMessage ? [chainOfThoughtMessage] : []),
 			...state.messages,
 		];
@@ -178,9 +238,11 @@ export class SimpleGraph extends GraphBase<
 		logInfo("[DECISION] LLM messages:", messages);
 
 		// Use actual LLM service instead of pattern matching
-		const llmResponse = (await llm.chatCompletions({
+		const model = await llm.resolveModelFor("chat");
+		const llmResponse = (await llm.chatCompletionsFor(model.serviceName, {
+			model: model.modelId,
 			messages: messages,
-			max_tokens: 4096,
+			max_tokens: state.maxResponseTokens,
 			temperature: 0,
 			stream: false,
 		})) as ChatCompletionResponse;
@@ -221,6 +283,25 @@ export class SimpleGraph extends GraphBase<
 		}
 	};
 
+	// Replay previous tool calls and results as native chat messages
+	stepsToMessages(steps: AgentState["steps"]): ChatMessage[] {
+		return steps.map((step) => ({
+			role: step.role,
+			content: step.content,
+			...(step.tool_calls?.length
+				? {
+						tool_calls: step.tool_calls.map((call) => ({
+							id: call.id,
+							type: "function" as const,
+							function: { name: call.name, arguments: call.arguments },
+						})),
+					}
+				: {}),
+			...(step.tool_call_id ? { tool_call_id: step.tool_call_id } : {}),
+			...(step.name ? { name: step.name } : {}),
+		}));
+	}
+
 	agentNode = async (state: AgentState): Promise<Partial<AgentState>> => {
 		const llm = this.services.llm;
 
@@ -229,85 +310,75 @@ export class SimpleGraph extends GraphBase<
 		}
 
 		try {
-			const chainOfThoughtMessage = this.buildChainOfThought(state);
+			const tools = getAllTools();
 			// Convert to messages for LLM
 			const messages: ChatMessage[] = [
-				{ role: "system" as const, content: AGENT_SYSTEM_PROMPT },
-				...(chainOfThoughtMessage ? [chainOfThoughtMessage] : []),
+				{ role: "system" as const, content: buildAgentSystemPrompt(tools) },
 				...state.messages,
+				...this.stepsToMessages(state.steps),
 			];
 
 			logInfo("[AGENT] LLM messages:", messages);
 
-			// Use actual LLM service instead of pattern matching
-			const llmResponse = (await llm.chatCompletions({
+			const model = await llm.resolveModelFor("chat");
+			const llmResponse = (await llm.chatCompletionsFor(model.serviceName, {
+				model: model.modelId,
 				messages: messages,
-				max_tokens: 4096,
+				tools: toolsToChatTools(tools),
+				tool_choice: "auto",
+				max_tokens: state.maxResponseTokens,
 				temperature: 0.1,
 				stream: false,
 			})) as ChatCompletionResponse;
-			const responseContent = llmResponse.choices[0].message.content || "";
-			logInfo("[AGENT] response:", responseContent);
-
-			// Parse tool calls from LLM response
-			const toolCall = parseToolCall(responseContent);
-			let newStep;
-
-			if (toolCall) {
-				// Create assistant step with tool call
-				const toolCalls = [
-					{
-						id: crypto.randomUUID(),
-						name: toolCall.name,
-						arguments: JSON.stringify(toolCall.arguments),
-					},
-				];
-
-				newStep = {
-					role: "assistant" as const,
-					content: responseContent,
-					tool_calls: toolCalls,
-				};
+			const responseMessage = llmResponse.choices[0].message;
+			const responseContent = responseMessage.content || "";
+			logInfo("[AGENT] response:", responseMessage);
 
-				return {
-					steps: [newStep],
-					next: "tools",
-					actions: [
-						{
-							id: crypto.randomUUID(),
-							name: `Call "${toolCall.name}"`,
-							description: `Calling tool ${toolCall.name} with arguments ${JSON.stringify(toolCall.arguments)}`,
-							metadata: {},
-						},
-					],
-				};
-			} else {
-				// Create final assistant response step
-				newStep = {
-					role: "assistant" as const,
-					content: responseContent,
-				};
+			const toolCalls = (responseMessage.tool_calls || []).map((call) => ({
+				id: call.id || crypto.randomUUID(),
+				name: call.function.name,
+				arguments: call.function.arguments || "{}",
+			}));
 
+			if (toolCalls.length > 0) {
 				return {
-					steps: [newStep],
-					next: "decision",
-					actions: [
+					steps: [
 						{
-							id: crypto.randomUUID(),
-							name: "Thinking next step",
-							description: "",
-							metadata: {},
+							role: "assistant" as const,
+							content: responseContent,
+							tool_calls: toolCalls,
 						},
 					],
+					next: "tools",
+					actions: toolCalls.map((toolCall) => toolCallAction(toolCall)),
 				};
 			}
+
+			// Create final assistant response step
+			return {
+				steps: [
+					{
+						role: "assistant" as const,
+						content: responseContent,
+					},
+				],
+				next: "decision",
+				actions: [
+					{
+						id: crypto.randomUUID(),
+						name: "Thinking next step",
+						description: "",
+						metadata: {},
+					},
+				],
+			};
 		} catch (error) {
 			logError("Agent node error:", error);
 			throw error;
 		}
 	};
 
-	async toolsNode(state: AgentState): Promise<Partial<AgentState>> {
+	toolsNode = async (state: AgentState): Promise<Partial<AgentState>> => {
 		const lastStep = state.steps[state.steps.length - 1];
 
 		if (!lastStep?.tool_calls || lastStep.tool_calls.length === 0) {
@@ -315,17 +386,24 @@ export class SimpleGraph extends GraphBase<
 		}
 
 		const toolResultSteps = [];
+		const actions = [];
 
 		// Execute each tool call
 		for (const toolCall of lastStep.tool_calls) {
 			const tool = getTool(toolCall.name);
 
 			if (!tool) {
+				const content = `Error: Tool '${toolCall.name}' not found`;
 				toolResultSteps.push({
 					role: "tool" as const,
-					content: `Error: Tool '${toolCall.name}' not found`,
+					content,
 					tool_call_id: toolCall.id,
+					name: toolCall.name,
 				});
+				actions.push(
+					toolCallAction(toolCall, { status: "failed", result: content }),
+				);
+				this.callbacks?.onAction?.(actions[actions.length - 1]);
 				continue;
 			}
 
@@ -345,31 +423,34 @@ export class SimpleGraph extends GraphBase<
 					role: "tool" as const,
 					content: result,
 					tool_call_id: toolCall.id,
+					name: toolCall.name,
 				});
+				actions.push(toolCallAction(toolCall, { status: "completed", result }));
 			} catch (error) {
 				const errorMessage =
 					error instanceof Error ? error.message : "Unknown error";
+				const content = `Error executing ${toolCall.name}: ${errorMessage}`;
 				toolResultSteps.push({
 					role: "tool" as const,
-					content: `Error executing ${toolCall.name}: ${errorMessage}`,
+					content,
 					tool_call_id: toolCall.id,
+					name: toolCall.name,
 				});
+				actions.push(
+					toolCallAction(toolCall, { status: "failed", result: content }),
+				);
 			}
+
+			// Report each result as soon as it is in, not after the whole batch
+			this.callbacks?.onAction?.(actions[actions.length - 1]);
 		}
 
 		return {
 			steps: toolResultSteps,
 			next: "decision",
-			actions: [
-				{
-					id: crypto.randomUUID(),
-					name: `Executed ${toolResultSteps.length} tool(s)`,
-					description: "",
-					metadata: {},
-				},
-			],
+			actions,
 		};
-	}
+	};
 }
 
 // Self-register the flow
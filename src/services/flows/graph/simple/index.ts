@@ -1,2 +1,3 @@
 // Simple flow - basic agent with tools
 export { SimpleGraph } from "./graph";
+export { DEFAULT_MAX_RESPONSE_TOKENS, DEFAULT_MAX_STEPS } from "./state";
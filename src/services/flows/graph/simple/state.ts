@@ -5,9 +5,16 @@ import {
 } from "../../interfaces/graph.base";
 import type { ChatMessage } from "@/types/openai";
 
+// Tool-calling turns an agent run may take before it has to answer
+export const DEFAULT_MAX_STEPS = 5;
+// Response length when the caller did not size it to the context window
+export const DEFAULT_MAX_RESPONSE_TOKENS = 4096;
+
 export interface AgentState extends BaseStateBase {
 	messages: ChatMessage[];
 	next?: string;
+	maxSteps: number;
+	maxResponseTokens: number;
 	steps: Array<{
 		role: "user" | "assistant" | "tool";
 		content: string;
@@ -17,6 +24,7 @@ export interface AgentState extends BaseStateBase {
 			arguments: string;
 		}>;
 		tool_call_id?: string;
+		name?: string;
 	}>;
 }
 
@@ -33,5 +41,13 @@ export const AgentAnnotation = Annotation.Root({
 		value: (x, y) => y ?? x,
 		default: () => undefined,
 	}),
+	maxSteps: Annotation<number>({
+		value: (x, y) => y ?? x,
+		default: () => DEFAULT_MAX_STEPS,
+	}),
+	maxResponseTokens: Annotation<number>({
+		value: (x, y) => y ?? x,
+		default: () => DEFAULT_MAX_RESPONSE_TOKENS,
+	}),
 	...BaseAnnotation,
 });
@@ -40,6 +40,8 @@ export const BaseAnnotation = {
 };
 export interface Callbacks {
 	onNewChunk?: (chunk: ChatCompletionChunk) => void;
+	// Progress of a long-running node, before the node itself returns
+	onAction?: (action: NonNullable<BaseStateBase["actions"]>[number]) => void;
 }
 
 // Proper LangGraph types
@@ -15,6 +15,8 @@ export interface BaseTool<S = void> {
 	name: string;
 	description: string;
 	schema: z.ZodSchema<any>;
+	// Raw JSON schema for tools defined outside zod (e.g. MCP tools)
+	parameters?: Record<string, unknown>;
 	execute: S extends void
 		? (input: any) => Promise<string>
 		: (input: any, services: S) => Promise<string>;
@@ -1,19 +1,58 @@
+import z from "zod";
 import type { BaseTool, AllServices } from "../interfaces/tool";
+import type { ChatTool } from "@/types/openai";
 import { calculatorTool } from "./calculator";
 import { currentTimeTool } from "./current-time";
 import { knowledgeGraphTool } from "./knowledge-graph";
+import { listTopicsTool } from "./list-topics";
 import { memorySearchTool } from "./memory-search";
+import { rememberThisTool } from "./remember-this";
 
 export const availableTools = {
 	calculator: calculatorTool,
 	memory_search: memorySearchTool,
 	current_time: currentTimeTool,
 	knowledge_graph: knowledgeGraphTool,
+	remember_this: rememberThisTool,
+	list_topics: listTopicsTool,
 } as const;
 
+// Tools discovered at runtime (e.g. from MCP servers), keyed by tool name
+const runtimeTools = new Map<string, BaseTool<any>>();
+
+// Register a runtime tool, replacing any previous tool with the same name
+export function registerRuntimeTool(tool: BaseTool<any>): void {
+	if (tool.name in availableTools) {
+		throw new Error(`Tool '${tool.name}' conflicts with a built-in tool`);
+	}
+	runtimeTools.set(tool.name, tool);
+}
+
+// Remove runtime tools whose name starts with the given prefix
+export function unregisterRuntimeTools(prefix = ""): void {
+	for (const name of Array.from(runtimeTools.keys())) {
+		if (name.startsWith(prefix)) {
+			runtimeTools.delete(name);
+		}
+	}
+}
+
+// Helper to get runtime tools as a record
+export function getRuntimeTools(): Record<string, BaseTool<any>> {
+	return Object.fromEntries(runtimeTools);
+}
+
+// Helper to get built-in and runtime tools together
+export function getAllTools(): Record<string, BaseTool<any>> {
+	return { ...availableTools, ...getRuntimeTools() };
+}
+
 // Helper to get tool by name with proper types
 export function getTool(name: string): BaseTool<any> | undefined {
-	return availableTools[name as keyof typeof availableTools];
+	return (
+		availableTools[name as keyof typeof availableTools] ??
+		runtimeTools.get(name)
+	);
 }
 
 // Generic type-safe tool execution with function introspection
@@ -22,7 +61,7 @@ export async function executeToolByName(
 	args: any,
 	services: AllServices,
 ): Promise<string> {
-	const tool = availableTools[toolName as keyof typeof availableTools];
+	const tool = getTool(toolName);
 	if (!tool) {
 		throw new Error(`Tool '${toolName}' not found`);
 	}
@@ -49,7 +88,7 @@ export async function executeToolByName(
 
 // Helper to get all tool names
 export function getToolNames(): string[] {
-	return Object.keys(availableTools);
+	return [...Object.keys(availableTools), ...runtimeTools.keys()];
 }
 
 // Helper to format tools for LLM consumption
@@ -61,60 +100,22 @@ export function formatToolsForLLM(
 		.join("\n");
 }
 
-// Convert tool schema to parameter description
-function formatToolParameters(schema: any): string {
-	const shape = schema._def?.shape;
-	if (!shape) return "";
-
-	const params: string[] = [];
-	for (const [key, value] of Object.entries(shape)) {
-		const fieldSchema = value as any;
-		const isOptional = fieldSchema._def?.typeName === "ZodOptional";
-		const description =
-			fieldSchema._def?.description ||
-			(isOptional ? fieldSchema._def?.innerType?._def?.description : undefined);
-		const type = isOptional
-			? fieldSchema._def?.innerType?._def?.typeName
-			: fieldSchema._def?.typeName;
-
-		let paramStr = key;
-		if (isOptional) paramStr += "?";
-		if (description) paramStr += ` (${description})`;
-		if (type === "ZodEnum") {
-			const values = isOptional
-				? fieldSchema._def?.innerType?._def?.values
-				: fieldSchema._def?.values;
-			if (values) paramStr += ` [${values.join("|")}]`;
-		}
-
-		params.push(paramStr);
-	}
-
-	return params.join(", ");
-}
-
-// Generate tool calling instructions for system prompt
-export function generateToolInstructions(
-	tools: Partial<typeof availableTools>,
-): string {
-	const toolList = Object.values(tools)
-		.map((tool) => {
-			const params = formatToolParameters(tool.schema);
-			return `- ${tool.name}: ${tool.description}${params ? `. Parameters: ${params}` : ""}`;
-		})
-		.join("\n");
-
-	return `Available tools:
-${toolList}
-
-To use a tool, respond with Python function call format in a single line:
-tool_name(param1="value1", param2="value2")
-
-Example:
-current_time(timezone="America/New_York")
-
-Important: Must respond with a exactly one line functionc call and nothing else.
-`;
+// Helper to format tools as OpenAI-style function definitions
+export function toolsToChatTools(
+	inputTools: Record<string, BaseTool<any>>,
+): ChatTool[] {
+	return Object.values(inputTools).map((tool) => {
+		const { $schema: _schema, ...parameters } = (tool.parameters ??
+			z.toJSONSchema(tool.schema)) as Record<string, unknown>;
+		return {
+			type: "function" as const,
+			function: {
+				name: tool.name,
+				description: tool.description,
+				parameters,
+			},
+		};
+	});
 }
 
 // Type-safe tool execution that preserves generic types
@@ -134,35 +135,3 @@ export function executeToolSafely(
 ): Promise<string> {
 	return tool.execute(args, services);
 }
-
-// Parse tool call from LLM response (Python function call format)
-export function parseToolCall(
-	response: string,
-): { name: string; arguments: Record<string, any> } | null {
-	// Match Python function call format: tool_name(param1="value1", param2="value2")
-	const toolCallMatch = response.match(/(\w+)\s*\(([^)]*)\)/);
-	if (!toolCallMatch) return null;
-
-	const [, toolName, paramString] = toolCallMatch;
-	const args: Record<string, any> = {};
-
-	if (paramString.trim()) {
-		// Match parameters like param1="value1", param2=123
-		const paramMatches = paramString.matchAll(
-			/(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^,\s]+))/g,
-		);
-		for (const match of paramMatches) {
-			const [, key, quotedValue, singleQuotedValue, unquotedValue] = match;
-			const value = quotedValue || singleQuotedValue || unquotedValue;
-
-			// Try to parse as number if it's unquoted and looks like a number
-			if (!quotedValue && !singleQuotedValue && /^\d+(\.\d+)?$/.test(value)) {
-				args[key] = Number(value);
-			} else {
-				args[key] = value;
-			}
-		}
-	}
-
-	return { name: toolName, arguments: args };
-}
@@ -1,29 +1,268 @@
 import z from "zod";
+import { and, eq, inArray, or } from "drizzle-orm";
 import type { Tool, AllServices } from "../interfaces/tool";
+import type { Edge, Node } from "@/services/database/db";
+import { trigramSearchNodes } from "@/utils/trigram-search";
+import { vectorSearchNodes } from "@/utils/vector-search";
+import { logWarn } from "@/utils/logger";
+
+interface KnowledgeGraphInput {
+	entity: string;
+	relationship?: string;
+	hops?: number;
+	topicId?: string;
+	limit?: number;
+}
+
+type GraphNode = Pick<Node, "id" | "name" | "nodeType" | "summary">;
+type GraphEdge = Pick<
+	Edge,
+	"id" | "sourceId" | "destinationId" | "edgeType" | "factText" | "isCurrent"
+>;
+
+const MAX_HOPS = 3;
+const MIN_VECTOR_SIMILARITY = 0.5;
+
+/**
+ * Resolves an entity name to the best matching node ids
+ * Exact and trigram matches win, vector search is the fallback
+ */
+async function resolveEntity(
+	services: Pick<AllServices, "embedding" | "database">,
+	entity: string,
+	topicId?: string,
+): Promise<string[]> {
+	const trigramResults = await trigramSearchNodes(
+		services.database,
+		[entity],
+		10,
+		{ threshold: 0.3, graph: topicId },
+	);
+	const trigramIds = trigramResults.map((result) => `${result.item.id}`);
+	if (trigramIds.length > 0) {
+		// Keep the strongest match plus exact-name duplicates across topics
+		const exact = trigramResults
+			.filter(
+				(result) => result.item.name?.toLowerCase() === entity.toLowerCase(),
+			)
+			.map((result) => `${result.item.id}`);
+		return exact.length > 0 ? exact : trigramIds.slice(0, 1);
+	}
+
+	try {
+		const embedding = await services.embedding.get("default");
+		if (!embedding?.isReady()) return [];
+		const vectorResults = await vectorSearchNodes(
+			services.database,
+			embedding,
+			[entity],
+			1,
+			topicId,
+		);
+		return vectorResults
+			.filter((result) => result.similarity >= MIN_VECTOR_SIMILARITY)
+			.map((result) => `${result.item.id}`);
+	} catch (error) {
+		logWarn("[KNOWLEDGE_GRAPH] Vector entity resolution failed:", error);
+		return [];
+	}
+}
+
+/**
+ * Walks edges breadth-first from the start nodes
+ */
+async function traverse(
+	services: Pick<AllServices, "database">,
+	startIds: string[],
+	options: {
+		hops: number;
+		relationship?: string;
+		topicId?: string;
+		limit: number;
+	},
+): Promise<{ nodes: Map<string, GraphNode>; edges: Map<string, GraphEdge> }> {
+	const edges = new Map<string, GraphEdge>();
+	const visited = new Set<string>(startIds);
+	let frontier = startIds;
+
+	await services.database.use(async ({ db, schema }) => {
+		for (let hop = 0; hop < options.hops && frontier.length > 0; hop++) {
+			const conditions = [
+				or(
+					inArray(schema.edges.sourceId, frontier),
+					inArray(schema.edges.destinationId, frontier),
+				),
+			];
+			if (options.relationship) {
+				conditions.push(eq(schema.edges.edgeType, options.relationship));
+			}
+			if (options.topicId) {
+				conditions.push(eq(schema.edges.graph, options.topicId));
+			}
+
+			const rows = await db
+				.select({
+					id: schema.edges.id,
+					sourceId: schema.edges.sourceId,
+					destinationId: schema.edges.destinationId,
+					edgeType: schema.edges.edgeType,
+					factText: schema.edges.factText,
+					isCurrent: schema.edges.isCurrent,
+				})
+				.from(schema.edges)
+				.where(and(...conditions))
+				.limit(options.limit - edges.size);
+
+			const next: string[] = [];
+			for (const row of rows) {
+				if (edges.has(row.id)) continue;
+				edges.set(row.id, row);
+				for (const nodeId of [row.sourceId, row.destinationId]) {
+					if (!visited.has(nodeId)) {
+						visited.add(nodeId);
+						next.push(nodeId);
+					}
+				}
+			}
+
+			if (edges.size >= options.limit) break;
+			frontier = next;
+		}
+	});
+
+	const nodeRows =
+		visited.size > 0
+			? await services.database.use(async ({ db, schema }) =>
+					db
+						.select({
+							id: schema.nodes.id,
+							name: schema.nodes.name,
+							nodeType: schema.nodes.nodeType,
+							summary: schema.nodes.summary,
+						})
+						.from(schema.nodes)
+						.where(inArray(schema.nodes.id, Array.from(visited))),
+				)
+			: [];
+
+	return {
+		nodes: new Map(nodeRows.map((node) => [node.id, node])),
+		edges,
+	};
+}
+
+/**
+ * Loads source names for each edge through source_edges
+ */
+async function loadProvenance(
+	services: Pick<AllServices, "database">,
+	edgeIds: string[],
+): Promise<Map<string, string[]>> {
+	const provenance = new Map<string, string[]>();
+	if (edgeIds.length === 0) return provenance;
+
+	const rows = await services.database.use(async ({ db, schema }) =>
+		db
+			.select({
+				edgeId: schema.sourceEdges.edgeId,
+				name: schema.sources.name,
+				targetType: schema.sources.targetType,
+				targetId: schema.sources.targetId,
+			})
+			.from(schema.sourceEdges)
+			.innerJoin(
+				schema.sources,
+				eq(schema.sourceEdges.sourceId, schema.sources.id),
+			)
+			.where(inArray(schema.sourceEdges.edgeId, edgeIds)),
+	);
+
+	for (const row of rows) {
+		const list = provenance.get(row.edgeId) || [];
+		list.push(`${row.name} (${row.targetType}:${row.targetId})`);
+		provenance.set(row.edgeId, list);
+	}
+	return provenance;
+}
 
-// This tool might need database services in the future
 export const knowledgeGraphTool: Tool<
-	{ entity: string; relationship?: string },
-	Pick<AllServices, "embedding">
+	KnowledgeGraphInput,
+	Pick<AllServices, "embedding" | "database">
 > = {
 	name: "knowledge_graph",
 	description: "Query the knowledge graph for relationships and entities",
 	schema: z.object({
 		entity: z.string().describe("Entity to search for"),
 		relationship: z.string().optional().describe("Specific relationship type"),
+		hops: z
+			.number()
+			.optional()
+			.describe(`Number of hops to traverse (1-${MAX_HOPS}, default: 1)`),
+		topicId: z.string().optional().describe("Restrict to a topic graph"),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(100)
+			.optional()
+			.describe("Maximum number of relationships"),
 	}),
 	execute: async (
-		input: { entity: string; relationship?: string },
-		services?: Pick<AllServices, "embedding">,
+		input: KnowledgeGraphInput,
+		services: Pick<AllServices, "embedding" | "database">,
 	) => {
-		const { entity, relationship } = input;
-
-		// TODO: Implement actual knowledge graph query using database service
-		// For now, return a mock response
-		if (relationship) {
-			return `Found relationships of type "${relationship}" for entity "${entity}". This would query the knowledge graph database.`;
-		} else {
-			return `Found information about entity "${entity}" in the knowledge graph. This would query the nodes and edges tables.`;
+		const { entity, relationship, topicId, limit = 25 } = input;
+		const hops = Math.min(Math.max(input.hops ?? 1, 1), MAX_HOPS);
+
+		const startIds = await resolveEntity(services, entity, topicId);
+		if (startIds.length === 0) {
+			return `No entity matching "${entity}" found in the knowledge graph.`;
 		}
+
+		const { nodes, edges } = await traverse(services, startIds, {
+			hops,
+			relationship,
+			topicId,
+			limit,
+		});
+		const provenance = await loadProvenance(services, Array.from(edges.keys()));
+
+		const startNodes = startIds
+			.map((id) => nodes.get(id))
+			.filter((node): node is GraphNode => !!node);
+		const lines: string[] = [];
+
+		lines.push("Entities:");
+		for (const node of startNodes) {
+			lines.push(
+				`- ${node.name} [${node.nodeType}]${node.summary ? `: ${node.summary}` : ""}`,
+			);
+		}
+
+		if (edges.size === 0) {
+			lines.push(
+				"",
+				relationship
+					? `No "${relationship}" relationships found within ${hops} hop(s).`
+					: `No relationships found within ${hops} hop(s).`,
+			);
+			return lines.join("\n");
+		}
+
+		lines.push("", `Relationships (${edges.size}, up to ${hops} hop(s)):`);
+		for (const edge of edges.values()) {
+			const source = nodes.get(edge.sourceId)?.name || "Unknown";
+			const destination = nodes.get(edge.destinationId)?.name || "Unknown";
+			const status = edge.isCurrent === false ? " (no longer current)" : "";
+			lines.push(
+				`- ${source} -[${edge.edgeType}]-> ${destination}${edge.factText ? `: ${edge.factText}` : ""}${status}`,
+			);
+			const sources = provenance.get(edge.id);
+			if (sources?.length) {
+				lines.push(`  sources: ${sources.join("; ")}`);
+			}
+		}
+
+		return lines.join("\n");
 	},
 };
@@ -0,0 +1,58 @@
+import z from "zod";
+import { desc, ilike } from "drizzle-orm";
+import type { Tool, AllServices } from "../interfaces/tool";
+
+interface ListTopicsInput {
+	search?: string;
+	limit?: number;
+}
+
+export const listTopicsTool: Tool<
+	ListTopicsInput,
+	Pick<AllServices, "database">
+> = {
+	name: "list_topics",
+	description:
+		"List the topics memories are organized in, with their ids for filtering other tools",
+	schema: z.object({
+		search: z.string().optional().describe("Only topics whose name matches"),
+		limit: z.number().optional().describe("Maximum number of topics"),
+	}),
+	execute: async (
+		input: ListTopicsInput,
+		services: Pick<AllServices, "database">,
+	) => {
+		const { search, limit = 50 } = input;
+
+		const topics = await services.database.use(async ({ db, schema }) =>
+			db
+				.select({
+					id: schema.topics.id,
+					name: schema.topics.name,
+					description: schema.topics.description,
+				})
+				.from(schema.topics)
+				.where(
+					search?.trim()
+						? ilike(schema.topics.name, `%${search.trim()}%`)
+						: undefined,
+				)
+				.orderBy(desc(schema.topics.createdAt))
+				.limit(limit),
+		);
+
+		if (topics.length === 0) {
+			return search?.trim()
+				? `No topics matching "${search.trim()}".`
+				: "No topics have been created yet.";
+		}
+
+		return [
+			`Topics (${topics.length}):`,
+			...topics.map(
+				(topic) =>
+					`- ${topic.name} (id: ${topic.id})${topic.description ? `: ${topic.description}` : ""}`,
+			),
+		].join("\n");
+	},
+};
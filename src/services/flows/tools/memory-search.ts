@@ -1,25 +1,416 @@
 import z from "zod";
 import type { Tool, AllServices } from "../interfaces/tool";
+import type { DatabaseService } from "@/services/database/database-service";
+import { trigramSearchNodes, trigramSearchEdges } from "@/utils/trigram-search";
+import { logWarn } from "@/utils/logger";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
 
-// This tool needs ONLY embedding service
+type MemorySource = "remembered_content" | "message" | "node" | "edge";
+
+interface MemorySearchHit {
+	id: string;
+	source: MemorySource;
+	title: string;
+	snippet: string;
+	url?: string;
+	vectorScore: number;
+	trigramScore: number;
+	score: number;
+}
+
+// Weights applied to each search method when ranking hits
+const VECTOR_WEIGHT = 0.7;
+const TRIGRAM_WEIGHT = 0.3;
+const TRIGRAM_THRESHOLD = 0.1;
+const SNIPPET_LENGTH = 240;
+
+/**
+ * Cuts a snippet around the first occurrence of any query term
+ */
+function buildSnippet(text: string, query: string): string {
+	const clean = text.replace(/\s+/g, " ").trim();
+	if (clean.length <= SNIPPET_LENGTH) return clean;
+
+	const lower = clean.toLowerCase();
+	const terms = query
+		.toLowerCase()
+		.split(/\s+/)
+		.filter((term) => term.length > 2);
+	const position = terms
+		.map((term) => lower.indexOf(term))
+		.filter((index) => index >= 0)
+		.sort((a, b) => a - b)[0];
+
+	const start = Math.max(0, (position ?? 0) - SNIPPET_LENGTH / 4);
+	const end = Math.min(clean.length, start + SNIPPET_LENGTH);
+	return `${start > 0 ? "..." : ""}${clean.slice(start, end)}${end < clean.length ? "..." : ""}`;
+}
+
+/**
+ * Runs cosine similarity search over every embedded memory table
+ */
+async function vectorSearchMemories(
+	database: DatabaseService,
+	queryVector: number[],
+	limit: number,
+	topicId?: string,
+): Promise<MemorySearchHit[]> {
+	const vector = JSON.stringify(queryVector);
+
+	return database.use(async ({ raw }) => {
+		const hits: MemorySearchHit[] = [];
+
+		const contentRows = (
+			(await raw(
+				`SELECT id, title, content, source_url,
+					1 - (embedding <=> $1::vector) as similarity
+				FROM remembered_contents
+				WHERE embedding IS NOT NULL${topicId ? " AND topic_id = $3" : ""}
+				ORDER BY similarity DESC
+				LIMIT $2`,
+				topicId ? [vector, limit, topicId] : [vector, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					title: string;
+					content: string;
+					source_url: string | null;
+					similarity: number;
+				}>;
+			}
+		).rows;
+		for (const row of contentRows) {
+			hits.push({
+				id: row.id,
+				source: "remembered_content",
+				title: row.title,
+				snippet: row.content,
+				url: row.source_url || undefined,
+				vectorScore: Number(row.similarity),
+				trigramScore: 0,
+				score: 0,
+			});
+		}
+
+		const messageRows = (
+			(await raw(
+				`SELECT uuid as id, role, content,
+					1 - (embedding <=> $1::vector) as similarity
+				FROM messages
+				WHERE embedding IS NOT NULL${topicId ? " AND topic_id = $3" : ""}
+				ORDER BY similarity DESC
+				LIMIT $2`,
+				topicId ? [vector, limit, topicId] : [vector, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					role: string;
+					content: string;
+					similarity: number;
+				}>;
+			}
+		).rows;
+		for (const row of messageRows) {
+			hits.push({
+				id: row.id,
+				source: "message",
+				title: `${row.role} message`,
+				snippet: row.content,
+				vectorScore: Number(row.similarity),
+				trigramScore: 0,
+				score: 0,
+			});
+		}
+
+		const nodeRows = (
+			(await raw(
+				`SELECT id, name, summary,
+					1 - (name_embedding <=> $1::vector) as similarity
+				FROM nodes
+				WHERE name_embedding IS NOT NULL${topicId ? " AND graph = $3" : ""}
+				ORDER BY similarity DESC
+				LIMIT $2`,
+				topicId ? [vector, limit, topicId] : [vector, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					name: string;
+					summary: string | null;
+					similarity: number;
+				}>;
+			}
+		).rows;
+		for (const row of nodeRows) {
+			hits.push({
+				id: row.id,
+				source: "node",
+				title: row.name,
+				snippet: row.summary || row.name,
+				vectorScore: Number(row.similarity),
+				trigramScore: 0,
+				score: 0,
+			});
+		}
+
+		const edgeRows = (
+			(await raw(
+				`SELECT id, edge_type, fact_text,
+					1 - (fact_embedding <=> $1::vector) as similarity
+				FROM edges
+				WHERE fact_embedding IS NOT NULL${topicId ? " AND graph = $3" : ""}
+				ORDER BY similarity DESC
+				LIMIT $2`,
+				topicId ? [vector, limit, topicId] : [vector, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					edge_type: string;
+					fact_text: string | null;
+					similarity: number;
+				}>;
+			}
+		).rows;
+		for (const row of edgeRows) {
+			hits.push({
+				id: row.id,
+				source: "edge",
+				title: row.edge_type,
+				snippet: row.fact_text || row.edge_type,
+				vectorScore: Number(row.similarity),
+				trigramScore: 0,
+				score: 0,
+			});
+		}
+
+		return hits;
+	});
+}
+
+/**
+ * Runs pg_trgm similarity search over every memory table
+ */
+async function trigramSearchMemories(
+	database: DatabaseService,
+	query: string,
+	limit: number,
+	topicId?: string,
+): Promise<MemorySearchHit[]> {
+	const searchText = query.toLowerCase().trim();
+
+	const tableHits = await database.use(async ({ raw }) => {
+		const hits: MemorySearchHit[] = [];
+
+		const contentRows = (
+			(await raw(
+				`SELECT id, title, content, source_url,
+					GREATEST(
+						similarity(title, $1),
+						word_similarity($1, content)
+					) as similarity_score
+				FROM remembered_contents
+				WHERE (similarity(title, $1) > $2 OR word_similarity($1, content) > $2)${topicId ? " AND topic_id = $4" : ""}
+				ORDER BY similarity_score DESC
+				LIMIT $3`,
+				topicId
+					? [searchText, TRIGRAM_THRESHOLD, limit, topicId]
+					: [searchText, TRIGRAM_THRESHOLD, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					title: string;
+					content: string;
+					source_url: string | null;
+					similarity_score: number;
+				}>;
+			}
+		).rows;
+		for (const row of contentRows) {
+			hits.push({
+				id: row.id,
+				source: "remembered_content",
+				title: row.title,
+				snippet: row.content,
+				url: row.source_url || undefined,
+				vectorScore: 0,
+				trigramScore: Number(row.similarity_score),
+				score: 0,
+			});
+		}
+
+		const messageRows = (
+			(await raw(
+				`SELECT uuid as id, role, content,
+					word_similarity($1, content) as similarity_score
+				FROM messages
+				WHERE word_similarity($1, content) > $2${topicId ? " AND topic_id = $4" : ""}
+				ORDER BY similarity_score DESC
+				LIMIT $3`,
+				topicId
+					? [searchText, TRIGRAM_THRESHOLD, limit, topicId]
+					: [searchText, TRIGRAM_THRESHOLD, limit],
+			)) as {
+				rows: Array<{
+					id: string;
+					role: string;
+					content: string;
+					similarity_score: number;
+				}>;
+			}
+		).rows;
+		for (const row of messageRows) {
+			hits.push({
+				id: row.id,
+				source: "message",
+				title: `${row.role} message`,
+				snippet: row.content,
+				vectorScore: 0,
+				trigramScore: Number(row.similarity_score),
+				score: 0,
+			});
+		}
+
+		return hits;
+	});
+
+	const [nodeResults, edgeResults] = await Promise.all([
+		trigramSearchNodes(database, [query], limit, {
+			threshold: TRIGRAM_THRESHOLD,
+			graph: topicId,
+		}),
+		trigramSearchEdges(database, [query], limit, {
+			threshold: TRIGRAM_THRESHOLD,
+			graph: topicId,
+		}),
+	]);
+
+	for (const result of nodeResults) {
+		tableHits.push({
+			id: `${result.item.id}`,
+			source: "node",
+			title: result.item.name || "",
+			snippet: result.item.summary || result.item.name || "",
+			vectorScore: 0,
+			trigramScore: Number(result.score),
+			score: 0,
+		});
+	}
+
+	for (const result of edgeResults) {
+		tableHits.push({
+			id: `${result.item.id}`,
+			source: "edge",
+			title: result.item.edgeType || "",
+			snippet: result.item.factText || result.item.edgeType || "",
+			vectorScore: 0,
+			trigramScore: Number(result.score),
+			score: 0,
+		});
+	}
+
+	return tableHits;
+}
+
+/**
+ * Merges vector and trigram hits by source/id and ranks them by weighted score
+ */
+function rankHits(hits: MemorySearchHit[], limit: number): MemorySearchHit[] {
+	const merged = new Map<string, MemorySearchHit>();
+
+	for (const hit of hits) {
+		const key = `${hit.source}:${hit.id}`;
+		const existing = merged.get(key);
+		if (existing) {
+			existing.vectorScore = Math.max(existing.vectorScore, hit.vectorScore);
+			existing.trigramScore = Math.max(existing.trigramScore, hit.trigramScore);
+		} else {
+			merged.set(key, { ...hit });
+		}
+	}
+
+	return Array.from(merged.values())
+		.map((hit) => ({
+			...hit,
+			score:
+				hit.vectorScore * VECTOR_WEIGHT + hit.trigramScore * TRIGRAM_WEIGHT,
+		}))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit);
+}
+
+function formatHits(query: string, hits: MemorySearchHit[]): string {
+	if (hits.length === 0) {
+		return `No memories found for "${query}".`;
+	}
+
+	const lines = hits.map((hit, index) => {
+		const header = [
+			`[${index + 1}] (${hit.source}) ${hit.title}`,
+			`id=${hit.id}`,
+			hit.url ? `url=${hit.url}` : undefined,
+			`score=${hit.score.toFixed(3)}`,
+		]
+			.filter(Boolean)
+			.join(" | ");
+		return `${header}\n${buildSnippet(hit.snippet, query)}`;
+	});
+
+	return `Found ${hits.length} memories for "${query}":\n\n${lines.join("\n\n")}`;
+}
+
+// This tool needs embedding service for the query vector and database for search
 export const memorySearchTool: Tool<
-	{ query: string; limit?: number },
-	Pick<AllServices, "embedding">
+	{ query: string; limit?: number; topicId?: string },
+	Pick<AllServices, "embedding" | "database">
 > = {
 	name: "memory_search",
-	description: "Search through conversation memory and knowledge base",
+	description:
+		"Search through remembered pages, conversation memory and knowledge base",
 	schema: z.object({
 		query: z.string().describe("Search query"),
 		limit: z.number().optional().describe("Maximum number of results"),
+		topicId: z.string().optional().describe("Restrict search to a topic"),
 	}),
 	execute: async (
-		input: { query: string; limit?: number },
-		services?: Pick<AllServices, "embedding">,
+		input: { query: string; limit?: number; topicId?: string },
+		services: Pick<AllServices, "embedding" | "database">,
 	) => {
-		const { query, limit = 5 } = input;
+		const { query, limit = 5, topicId } = input;
+		if (!query.trim()) {
+			return "Error: query must not be empty";
+		}
+
+		// Fetch more candidates per table than requested so ranking has room
+		const candidateLimit = Math.max(limit * 2, 10);
+
+		let vectorHits: MemorySearchHit[] = [];
+		try {
+			const embedding = await services.embedding.get("default");
+			if (embedding?.isReady()) {
+				await embeddingModelService.assertSearchable(embedding);
+				const queryVector = await embedding.textToVector(query);
+				vectorHits = await vectorSearchMemories(
+					services.database,
+					queryVector,
+					candidateLimit,
+					topicId,
+				);
+			}
+		} catch (error) {
+			logWarn("[MEMORY_SEARCH] Vector search failed:", error);
+		}
+
+		let trigramHits: MemorySearchHit[] = [];
+		try {
+			trigramHits = await trigramSearchMemories(
+				services.database,
+				query,
+				candidateLimit,
+				topicId,
+			);
+		} catch (error) {
+			logWarn("[MEMORY_SEARCH] Trigram search failed:", error);
+		}
 
-		// TODO: Implement actual memory search using embedding service
-		// For now, return a mock response
-		return `Searched for "${query}" and found ${limit} relevant memories. This would integrate with the embedding service and knowledge graph.`;
+		return formatHits(query, rankHits([...vectorHits, ...trigramHits], limit));
 	},
 };
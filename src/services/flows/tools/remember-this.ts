@@ -0,0 +1,57 @@
+import z from "zod";
+import type { Tool } from "../interfaces/tool";
+import { backgroundJob } from "@/services/background-jobs/background-job";
+
+interface RememberThisInput {
+	content: string;
+	title?: string;
+	topicId?: string;
+}
+
+/**
+ * Saves a note the way the remember page does. The save job is queued and
+ * not awaited, so the chat does not wait for the knowledge graph update.
+ */
+export const rememberThisTool: Tool<RememberThisInput> = {
+	name: "remember_this",
+	description:
+		"Save a piece of information to memory so it is added to the knowledge graph",
+	schema: z.object({
+		content: z.string().describe("The information to remember"),
+		title: z.string().optional().describe("Short title for the memory"),
+		topicId: z.string().optional().describe("Topic to file the memory under"),
+	}),
+	execute: async (input: RememberThisInput) => {
+		const content = input.content.trim();
+		if (!content) {
+			return "Error: content must not be empty";
+		}
+
+		const title =
+			input.title?.trim() ||
+			`Chat Note: ${content.substring(0, 50)}${content.length > 50 ? "..." : ""}`;
+
+		const { jobId } = await backgroundJob.createJob(
+			"remember-save",
+			{
+				sourceType: "user_input",
+				title,
+				rawContent: content,
+				cleanContent: content,
+				textContent: content,
+				topicId: input.topicId,
+				sourceMetadata: {
+					inputMethod: "chat",
+					timestamp: new Date().toISOString(),
+				},
+				extractionMetadata: {
+					inputLength: content.length,
+					extractedAt: new Date().toISOString(),
+				},
+			},
+			{ stream: false },
+		);
+
+		return `Queued "${title}" to be remembered (job ${jobId}). It will appear in the knowledge graph once processed.`;
+	},
+};
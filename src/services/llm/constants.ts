@@ -20,5 +20,10 @@ export const PROVIDER_TO_SERVICE: Record<ServiceProvider, string> = {
 
 export const CURRENT_MODEL_KEY = "_CURRENT_MODEL_KEY_";
 
+export const MODEL_ROUTING_KEY = "_MODEL_ROUTING_KEY_";
+
+// How long a model's loaded state is trusted when routing
+export const MODEL_AVAILABILITY_TTL_MS = 30_000;
+
 // Global progress event name for all LLM downloads
 export const LLM_DOWNLOAD_PROGRESS_EVENT = "llm:download:progress";
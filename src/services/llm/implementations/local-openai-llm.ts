@@ -7,7 +7,14 @@ import type {
 	ChatCompletionChunk,
 	ChatCompletionRequest,
 	ChatCompletionResponse,
+	ChatFinishReason,
 } from "@/types/openai";
+import {
+	parseOpenAIToolCallDeltas,
+	parseOpenAIToolCalls,
+	toOpenAIMessage,
+	toOpenAIToolFields,
+} from "../tool-calling";
 
 // Local OpenAI-compatible LLM (works for LM Studio and Ollama /v1 endpoints)
 export class LocalOpenAICompatibleLLM implements BaseLLM {
@@ -93,10 +100,8 @@ export class LocalOpenAICompatibleLLM implements BaseLLM {
 
 		const body = {
 			model: request.model || "local-model",
-			messages: request.messages.map((m) => ({
-				role: m.role,
-				content: m.content,
-			})),
+			messages: request.messages.map(toOpenAIMessage),
+			...toOpenAIToolFields(request),
 			max_tokens: request.max_tokens,
 			temperature: request.temperature,
 			top_p: request.top_p,
@@ -130,8 +135,9 @@ export class LocalOpenAICompatibleLLM implements BaseLLM {
 				message: {
 					role: "assistant",
 					content: String(choice?.message?.content ?? ""),
+					tool_calls: parseOpenAIToolCalls(choice?.message?.tool_calls),
 				},
-				finish_reason: (choice.finish_reason || "stop") as "stop" | "length",
+				finish_reason: (choice.finish_reason || "stop") as ChatFinishReason,
 			})),
 			usage: {
 				prompt_tokens: Number(data?.usage?.prompt_tokens ?? 0),
@@ -148,10 +154,8 @@ export class LocalOpenAICompatibleLLM implements BaseLLM {
 
 		const body = {
 			model: request.model || "local-model",
-			messages: request.messages.map((m) => ({
-				role: m.role,
-				content: m.content,
-			})),
+			messages: request.messages.map(toOpenAIMessage),
+			...toOpenAIToolFields(request),
 			max_tokens: request.max_tokens,
 			temperature: request.temperature,
 			top_p: request.top_p,
@@ -218,11 +222,12 @@ export class LocalOpenAICompatibleLLM implements BaseLLM {
 								delta: {
 									role: sentFirst ? undefined : ("assistant" as const),
 									content: choice?.delta?.content ?? undefined,
+									tool_calls: parseOpenAIToolCallDeltas(
+										choice?.delta?.tool_calls,
+									),
 								},
-								finish_reason: (choice.finish_reason ?? null) as
-									| "stop"
-									| "length"
-									| null,
+								finish_reason: (choice.finish_reason ??
+									null) as ChatFinishReason | null,
 							},
 						],
 					};
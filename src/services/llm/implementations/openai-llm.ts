@@ -7,7 +7,14 @@ import type {
 	ChatCompletionChunk,
 	ChatCompletionRequest,
 	ChatCompletionResponse,
+	ChatFinishReason,
 } from "@/types/openai";
+import {
+	parseOpenAIToolCallDeltas,
+	parseOpenAIToolCalls,
+	toOpenAIMessage,
+	toOpenAIToolFields,
+} from "../tool-calling";
 
 // A lightweight OpenAI-compatible client using fetch/SSE.
 // Supports both OpenAI and local OpenAI-compatible servers (LM Studio, Ollama).
@@ -116,10 +123,8 @@ export class OpenAILLM implements BaseLLM {
 
 		const body = {
 			model: request.model || "gpt-3.5-turbo",
-			messages: request.messages.map((m) => ({
-				role: m.role,
-				content: m.content,
-			})),
+			messages: request.messages.map(toOpenAIMessage),
+			...toOpenAIToolFields(request),
 			max_tokens: request.max_tokens,
 			temperature: request.temperature,
 			top_p: request.top_p,
@@ -155,8 +160,9 @@ export class OpenAILLM implements BaseLLM {
 					content: String(
 						choice?.message?.content ?? choice?.delta?.content ?? "",
 					),
+					tool_calls: parseOpenAIToolCalls(choice?.message?.tool_calls),
 				},
-				finish_reason: (choice.finish_reason || "stop") as "stop" | "length",
+				finish_reason: (choice.finish_reason || "stop") as ChatFinishReason,
 			})),
 			usage: {
 				prompt_tokens: Number(data?.usage?.prompt_tokens ?? 0),
@@ -173,10 +179,8 @@ export class OpenAILLM implements BaseLLM {
 
 		const body = {
 			model: request.model || "gpt-3.5-turbo",
-			messages: request.messages.map((m) => ({
-				role: m.role,
-				content: m.content,
-			})),
+			messages: request.messages.map(toOpenAIMessage),
+			...toOpenAIToolFields(request),
 			max_tokens: request.max_tokens,
 			temperature: request.temperature,
 			top_p: request.top_p,
@@ -245,11 +249,12 @@ export class OpenAILLM implements BaseLLM {
 								delta: {
 									role: choice?.delta?.role as "assistant" | undefined,
 									content: choice?.delta?.content ?? undefined,
+									tool_calls: parseOpenAIToolCallDeltas(
+										choice?.delta?.tool_calls,
+									),
 								},
-								finish_reason: (choice.finish_reason ?? null) as
-									| "stop"
-									| "length"
-									| null,
+								finish_reason: (choice.finish_reason ??
+									null) as ChatFinishReason | null,
 							},
 						],
 					};
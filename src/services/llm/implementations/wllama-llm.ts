@@ -9,6 +9,12 @@ import type {
 	ChatCompletionResponse,
 } from "@/types/openai";
 import { LLM_RUNNER_URLS } from "@/config/llm-runner";
+import {
+	completionToChunks,
+	fromJsonToolPromptResponse,
+	hasToolTraffic,
+	toJsonToolPromptRequest,
+} from "../tool-calling";
 import { waitForDOMReady } from "@/utils/dom";
 
 interface ServeRequest {
@@ -145,6 +151,18 @@ export class WllamaLLM implements BaseLLM {
 	):
 		| Promise<ChatCompletionResponse>
 		| AsyncIterableIterator<ChatCompletionChunk> {
+		// The runner has no native tool calling, use a JSON-constrained prompt
+		if (hasToolTraffic(request)) {
+			const prepared = toJsonToolPromptRequest(request);
+			if (prepared.stream) {
+				return this.createStreamingCompletion(prepared);
+			}
+			const response = this.createCompletion(prepared).then(
+				fromJsonToolPromptResponse,
+			);
+			return request.stream ? completionToChunks(response) : response;
+		}
+
 		if (request.stream) {
 			return this.createStreamingCompletion(request);
 		} else {
@@ -18,6 +18,18 @@ export type ServiceProvider =
 	| "lmstudio"
 	| "ollama";
 
+// Kinds of work that can run on their own model
+export type ModelRole =
+	| "extraction"
+	| "resolution"
+	| "rag_answer"
+	| "chat"
+	| "title";
+
+// Models per role in order of preference; the current model is the last
+// fallback for every role
+export type ModelRouting = Partial<Record<ModelRole, CurrentModelInfo[]>>;
+
 export interface ILLMService {
 	// Initialization
 	initialize(): Promise<void>;
@@ -42,6 +54,11 @@ export interface ILLMService {
 		listener: (model: CurrentModelInfo | null) => void,
 	): () => void;
 
+	// Per-role model routing
+	getModelRouting(): Promise<ModelRouting>;
+	setModelRouting(routing: ModelRouting): Promise<void>;
+	resolveModelFor(role: ModelRole): Promise<CurrentModelInfo>;
+
 	// Status - Core functionality
 	isReady(): boolean;
 	isReadyByName(name: string): boolean;
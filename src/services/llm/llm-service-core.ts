@@ -3,18 +3,26 @@ import { sharedStorageService } from "@/services/shared-storage";
 import { serviceManager } from "@/services";
 import { eq } from "drizzle-orm";
 import { LOCAL_SERVER_LLM_CONFIG_KEYS } from "@/config/local-server-llm";
-import type { BaseLLM } from "./interfaces/base-llm";
+import type { BaseLLM, ModelsResponse } from "./interfaces/base-llm";
 import type {
 	CurrentModelInfo,
+	ModelRole,
+	ModelRouting,
 	ServiceProvider,
 } from "./interfaces/llm-service.interface";
-import { CURRENT_MODEL_KEY } from "./constants";
+import {
+	CURRENT_MODEL_KEY,
+	MODEL_AVAILABILITY_TTL_MS,
+	MODEL_ROUTING_KEY,
+} from "./constants";
 
 export abstract class LLMServiceCore {
 	protected llms = new Map<string, BaseLLM>();
 	protected currentModel: CurrentModelInfo | null = null;
 	private storageUnsubscribe: (() => void) | null = null;
 	private storageLoadAttempted = false;
+	// Loaded state of routed models, keyed by service and model
+	private availability = new Map<string, { loaded: boolean; at: number }>();
 
 	// Event system for current model changes
 	private currentModelListeners = new Set<
@@ -96,6 +104,89 @@ export abstract class LLMServiceCore {
 		this.notifyCurrentModelChange();
 	}
 
+	// Routing is read from the database on every lookup, so changes made in
+	// the UI apply to jobs running in the offscreen document right away
+	async getModelRouting(): Promise<ModelRouting> {
+		try {
+			const rows = await serviceManager.databaseService.use(
+				async ({ db, schema }) =>
+					db
+						.select()
+						.from(schema.configurations)
+						.where(eq(schema.configurations.key, MODEL_ROUTING_KEY))
+						.limit(1),
+			);
+			return (rows[0]?.data as ModelRouting) || {};
+		} catch (error) {
+			logWarn("Failed to load model routing:", error);
+			return {};
+		}
+	}
+
+	async setModelRouting(routing: ModelRouting): Promise<void> {
+		const data = Object.fromEntries(
+			Object.entries(routing).filter(([, models]) => models?.length),
+		);
+		await serviceManager.databaseService.use(async ({ db, schema }) => {
+			await db
+				.insert(schema.configurations)
+				.values({
+					key: MODEL_ROUTING_KEY,
+					data,
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				})
+				.onConflictDoUpdate({
+					target: schema.configurations.key,
+					set: { data, updatedAt: new Date() },
+				});
+		});
+		this.availability.clear();
+	}
+
+	/**
+	 * The first model routed to the role that is loaded, falling back to the
+	 * current model
+	 */
+	async resolveModelFor(role: ModelRole): Promise<CurrentModelInfo> {
+		const routing = await this.getModelRouting();
+		for (const candidate of routing[role] || []) {
+			if (await this.isModelLoaded(candidate)) {
+				return candidate;
+			}
+			logInfo(`Model for ${role} is not loaded, trying the next one`, {
+				model: candidate.modelId,
+				service: candidate.serviceName,
+			});
+		}
+
+		const current = await this.getCurrentModel();
+		if (!current) {
+			throw new Error("No current model selected");
+		}
+		return current;
+	}
+
+	private async isModelLoaded(model: CurrentModelInfo): Promise<boolean> {
+		if (!this.has(model.serviceName)) return false;
+
+		const key = `${model.serviceName}:${model.modelId}`;
+		const cached = this.availability.get(key);
+		if (cached && Date.now() - cached.at < MODEL_AVAILABILITY_TTL_MS) {
+			return cached.loaded;
+		}
+
+		let loaded = false;
+		try {
+			const { data } = await this.modelsFor(model.serviceName);
+			loaded = data.some((m) => m.id === model.modelId && m.loaded);
+		} catch (error) {
+			logWarn(`Failed to list models of ${model.serviceName}:`, error);
+		}
+		this.availability.set(key, { loaded, at: Date.now() });
+		return loaded;
+	}
+
 	list(): string[] {
 		return Array.from(this.llms.keys());
 	}
@@ -367,6 +458,7 @@ export abstract class LLMServiceCore {
 
 	// Abstract methods that must be implemented by concrete classes
 	abstract get(name: string): Promise<BaseLLM | undefined>;
+	abstract modelsFor(name: string): Promise<ModelsResponse>;
 	abstract isReady(): boolean;
 	abstract ensureAllServices(): Promise<void>;
 }
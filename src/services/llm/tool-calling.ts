@@ -0,0 +1,321 @@
+import type {
+	ChatCompletionChunk,
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatMessage,
+	ChatToolCall,
+	ChatToolCallDelta,
+} from "@/types/openai";
+
+// Shared helpers for tool calling across LLM implementations.
+// OpenAI-compatible servers get native `tools`/`tool_calls`; in-browser runners
+// (wllama, webllm) fall back to a JSON-constrained prompt that we parse back.
+
+/**
+ * Convert a chat message to the OpenAI wire format
+ */
+export function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+	return {
+		role: message.role,
+		content: message.content,
+		...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+		...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+		...(message.name ? { name: message.name } : {}),
+	};
+}
+
+/**
+ * Tool fields for an OpenAI-compatible request body (empty when no tools)
+ */
+export function toOpenAIToolFields(
+	request: ChatCompletionRequest,
+): Record<string, unknown> {
+	if (!request.tools?.length) return {};
+	return {
+		tools: request.tools,
+		tool_choice: request.tool_choice ?? "auto",
+	};
+}
+
+/**
+ * Normalize tool calls returned by an OpenAI-compatible server
+ */
+export function parseOpenAIToolCalls(raw: unknown): ChatToolCall[] | undefined {
+	if (!Array.isArray(raw) || raw.length === 0) return undefined;
+	return raw.map((call: any) => ({
+		id: String(call?.id || crypto.randomUUID()),
+		type: "function" as const,
+		function: {
+			name: String(call?.function?.name ?? ""),
+			arguments:
+				typeof call?.function?.arguments === "string"
+					? call.function.arguments
+					: JSON.stringify(call?.function?.arguments ?? {}),
+		},
+	}));
+}
+
+/**
+ * Normalize streamed tool call deltas returned by an OpenAI-compatible server
+ */
+export function parseOpenAIToolCallDeltas(
+	raw: unknown,
+): ChatToolCallDelta[] | undefined {
+	if (!Array.isArray(raw) || raw.length === 0) return undefined;
+	return raw.map((delta: any, i: number) => ({
+		index: Number(delta?.index ?? i),
+		id: delta?.id ? String(delta.id) : undefined,
+		type: delta?.type ? ("function" as const) : undefined,
+		function: delta?.function
+			? {
+					name: delta.function.name ?? undefined,
+					arguments: delta.function.arguments ?? undefined,
+				}
+			: undefined,
+	}));
+}
+
+/**
+ * Accumulate streamed tool call deltas into complete tool calls
+ */
+export function mergeToolCallDeltas(
+	calls: ChatToolCall[],
+	deltas: ChatToolCallDelta[],
+): ChatToolCall[] {
+	for (const delta of deltas) {
+		const existing = calls[delta.index];
+		if (!existing) {
+			calls[delta.index] = {
+				id: delta.id || crypto.randomUUID(),
+				type: "function",
+				function: {
+					name: delta.function?.name || "",
+					arguments: delta.function?.arguments || "",
+				},
+			};
+			continue;
+		}
+		if (delta.id) existing.id = delta.id;
+		if (delta.function?.name) existing.function.name += delta.function.name;
+		if (delta.function?.arguments) {
+			existing.function.arguments += delta.function.arguments;
+		}
+	}
+	return calls;
+}
+
+function buildToolPrompt(request: ChatCompletionRequest): string {
+	const tools = (request.tools || [])
+		.map(
+			(tool) =>
+				`- ${tool.function.name}: ${tool.function.description || ""}\n  parameters (JSON schema): ${JSON.stringify(tool.function.parameters)}`,
+		)
+		.join("\n");
+
+	const choice = request.tool_choice;
+	const requirement =
+		choice === "required"
+			? "You MUST call at least one tool."
+			: typeof choice === "object"
+				? `You MUST call the tool "${choice.function.name}".`
+				: "Call tools only when they help answer the user.";
+
+	return `You can call the following tools:
+${tools}
+
+${requirement}
+Respond with a single JSON object and nothing else, in one of these formats:
+{"tool_calls": [{"name": "tool_name", "arguments": {"param": "value"}}]}
+{"content": "your final answer"}
+You may include several entries in "tool_calls" to call multiple tools at once.`;
+}
+
+/**
+ * Serialize tool traffic into plain text for runners without native tool support
+ */
+function flattenToolMessage(message: ChatMessage): ChatMessage {
+	if (message.role === "tool") {
+		return {
+			role: "user",
+			content: `Tool result${message.name ? ` from ${message.name}` : ""} (call ${message.tool_call_id ?? "unknown"}):\n${message.content}`,
+		};
+	}
+	if (message.role === "assistant" && message.tool_calls?.length) {
+		return {
+			role: "assistant",
+			content: JSON.stringify({
+				tool_calls: message.tool_calls.map((call) => ({
+					name: call.function.name,
+					arguments: safeParseArguments(call.function.arguments),
+				})),
+			}),
+		};
+	}
+	return { role: message.role, content: message.content };
+}
+
+function safeParseArguments(args: string): unknown {
+	try {
+		return JSON.parse(args || "{}");
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Whether a request offers tools or carries tool calls/results in its history
+ */
+export function hasToolTraffic(request: ChatCompletionRequest): boolean {
+	return (
+		!!request.tools?.length ||
+		request.messages.some(
+			(message) => message.role === "tool" || !!message.tool_calls?.length,
+		)
+	);
+}
+
+/**
+ * Rewrite a tool-enabled request into a JSON-constrained prompt request
+ */
+export function toJsonToolPromptRequest(
+	request: ChatCompletionRequest,
+	options: { jsonMode?: boolean } = {},
+): ChatCompletionRequest {
+	const { tools, tool_choice, ...rest } = request;
+	if (!tools?.length || tool_choice === "none") {
+		return {
+			...rest,
+			messages: request.messages.map(flattenToolMessage),
+		};
+	}
+
+	const toolPrompt = buildToolPrompt(request);
+	const messages = request.messages.map(flattenToolMessage);
+	const systemIndex = messages.findIndex((m) => m.role === "system");
+	if (systemIndex >= 0) {
+		messages[systemIndex] = {
+			...messages[systemIndex],
+			content: `${messages[systemIndex].content}\n\n${toolPrompt}`,
+		};
+	} else {
+		messages.unshift({ role: "system", content: toolPrompt });
+	}
+
+	return {
+		...rest,
+		messages,
+		stream: false,
+		...(options.jsonMode ? { response_format: { type: "json_object" } } : {}),
+	};
+}
+
+/**
+ * Extract the first balanced JSON object from model output
+ */
+function extractJsonObject(text: string): Record<string, unknown> | null {
+	const start = text.indexOf("{");
+	if (start < 0) return null;
+
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === "\\") escaped = true;
+			else if (char === '"') inString = false;
+			continue;
+		}
+		if (char === '"') inString = true;
+		else if (char === "{") depth++;
+		else if (char === "}") {
+			depth--;
+			if (depth === 0) {
+				try {
+					return JSON.parse(text.slice(start, i + 1));
+				} catch {
+					return null;
+				}
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Parse a JSON-constrained prompt response back into native tool calls
+ */
+export function fromJsonToolPromptResponse(
+	response: ChatCompletionResponse,
+): ChatCompletionResponse {
+	return {
+		...response,
+		choices: response.choices.map((choice) => {
+			const parsed = extractJsonObject(choice.message.content || "");
+			const rawCalls = Array.isArray(parsed?.tool_calls)
+				? (parsed.tool_calls as Array<Record<string, unknown>>)
+				: [];
+			const toolCalls: ChatToolCall[] = rawCalls
+				.filter((call) => typeof call?.name === "string")
+				.map((call) => ({
+					id: crypto.randomUUID(),
+					type: "function",
+					function: {
+						name: String(call.name),
+						arguments:
+							typeof call.arguments === "string"
+								? call.arguments
+								: JSON.stringify(call.arguments ?? {}),
+					},
+				}));
+
+			if (toolCalls.length > 0) {
+				return {
+					...choice,
+					message: { role: "assistant", content: "", tool_calls: toolCalls },
+					finish_reason: "tool_calls",
+				};
+			}
+
+			const content =
+				typeof parsed?.content === "string"
+					? parsed.content
+					: choice.message.content;
+			return {
+				...choice,
+				message: { role: "assistant", content },
+			};
+		}),
+	};
+}
+
+/**
+ * Replay a complete response as a single-chunk stream
+ */
+export async function* completionToChunks(
+	response: Promise<ChatCompletionResponse>,
+): AsyncIterableIterator<ChatCompletionChunk> {
+	const result = await response;
+	const choice = result.choices[0];
+	yield {
+		id: result.id,
+		object: "chat.completion.chunk",
+		created: result.created,
+		model: result.model,
+		choices: [
+			{
+				index: 0,
+				delta: {
+					role: "assistant",
+					content: choice?.message.content || undefined,
+					tool_calls: choice?.message.tool_calls?.map((call, index) => ({
+						index,
+						...call,
+					})),
+				},
+				finish_reason: choice?.finish_reason ?? "stop",
+			},
+		],
+	};
+}
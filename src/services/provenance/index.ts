@@ -0,0 +1,8 @@
+export {
+	ProvenanceService,
+	provenanceService,
+	provenanceFactor,
+	DOMAIN_TRUST_KEY,
+	MANUAL_SOURCE_TYPE,
+	type DomainTrust,
+} from "./provenance-service";
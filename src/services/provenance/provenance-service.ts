@@ -0,0 +1,165 @@
+import { eq, inArray, sql } from "drizzle-orm";
+import { serviceManager } from "@/services";
+import type { getDB } from "@/services/database/db";
+import { schema } from "@/services/database/db";
+import { logInfo } from "@/utils/logger";
+
+// Configuration row holding the trust weight per domain
+export const DOMAIN_TRUST_KEY = "provenance_domain_trust";
+
+// Trust weight per domain, e.g. { "wikipedia.org": 1.5, "example.com": 0.5 }.
+// Domains without an entry count as 1.
+export type DomainTrust = Record<string, number>;
+
+// Source type of manual graph edits. They record who changed a fact, not
+// evidence for it, so they are left out of the provenance caches.
+export const MANUAL_SOURCE_TYPE = "manual";
+
+// Single-source claims rank below facts several sources agree on
+const SINGLE_SOURCE_FACTOR = 0.75;
+const MIN_FACTOR = 0.25;
+const MAX_FACTOR = 2;
+
+type Database = Pick<ReturnType<typeof getDB>, "select" | "update">;
+
+/**
+ * Ranking multiplier for a fact from its provenance caches: 1 for a fact
+ * backed by one full-weight source, growing logarithmically with the weight
+ * of agreeing sources. Facts that were never scored, or that no source
+ * backs because they were added by hand, are left neutral.
+ */
+export function provenanceFactor(
+	weight: number | null | undefined,
+	count: number | null | undefined,
+): number {
+	if (weight == null || count == null || count === 0) return 1;
+	const factor =
+		Math.log2(Math.max(weight, 0) + 1) *
+		(count <= 1 ? SINGLE_SOURCE_FACTOR : 1);
+	return Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, factor));
+}
+
+/**
+ * Provenance scoring of knowledge graph edges. Every edge caches how many
+ * sources back it and their combined weight: the link weight times the
+ * source weight times the trust of the page's domain. Whatever adds or
+ * removes source links refreshes the edges it touched.
+ */
+export class ProvenanceService {
+	private static instance: ProvenanceService;
+
+	private constructor() {}
+
+	static getInstance(): ProvenanceService {
+		if (!ProvenanceService.instance) {
+			ProvenanceService.instance = new ProvenanceService();
+		}
+		return ProvenanceService.instance;
+	}
+
+	async getDomainTrust(): Promise<DomainTrust> {
+		return serviceManager.databaseService.use(async ({ db }) =>
+			this.loadDomainTrust(db),
+		);
+	}
+
+	/**
+	 * Save the domain trust weights and rescore every edge with them
+	 */
+	async setDomainTrust(trust: DomainTrust): Promise<number> {
+		const normalized = Object.fromEntries(
+			Object.entries(trust)
+				.map(([domain, weight]) => [
+					domain
+						.trim()
+						.toLowerCase()
+						.replace(/^www\./, ""),
+					weight,
+				])
+				.filter(([domain, weight]) => domain && Number.isFinite(weight)),
+		);
+
+		await serviceManager.databaseService.use(async ({ db, schema }) => {
+			await db
+				.insert(schema.configurations)
+				.values({
+					key: DOMAIN_TRUST_KEY,
+					data: normalized,
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				})
+				.onConflictDoUpdate({
+					target: schema.configurations.key,
+					set: { data: normalized, updatedAt: new Date() },
+				});
+		});
+
+		return this.refreshAll();
+	}
+
+	/**
+	 * Recompute the caches of the given edges, e.g. inside the transaction
+	 * that changed their source links
+	 */
+	async refreshEdges(db: Database, edgeIds: string[]): Promise<void> {
+		if (edgeIds.length === 0) return;
+		const trust = await this.loadDomainTrust(db);
+		await db
+			.update(schema.edges)
+			.set(this.cacheColumns(trust))
+			.where(inArray(schema.edges.id, [...new Set(edgeIds)]));
+	}
+
+	async refreshAll(): Promise<number> {
+		const updated = await serviceManager.databaseService.use(async ({ db }) => {
+			const trust = await this.loadDomainTrust(db);
+			return db
+				.update(schema.edges)
+				.set(this.cacheColumns(trust))
+				.returning({ id: schema.edges.id });
+		});
+
+		logInfo("⚖️ Rescored provenance of all edges", { edges: updated.length });
+		return updated.length;
+	}
+
+	private async loadDomainTrust(db: Database): Promise<DomainTrust> {
+		const [row] = await db
+			.select({ data: schema.configurations.data })
+			.from(schema.configurations)
+			.where(eq(schema.configurations.key, DOMAIN_TRUST_KEY))
+			.limit(1);
+		return (row?.data as DomainTrust) || {};
+	}
+
+	// Pages are matched on their host without "www.", then on its parent
+	// domain, so trusting "wikipedia.org" covers "en.wikipedia.org"
+	private cacheColumns(trust: DomainTrust) {
+		return {
+			provenanceCountCache: sql<number>`(
+				SELECT count(*) FROM source_edges se
+				JOIN sources s ON s.id = se.source_id
+				WHERE se.edge_id = edges.id AND s.type <> ${MANUAL_SOURCE_TYPE}
+			)::int`,
+			provenanceWeightCache: sql<number>`(
+				SELECT coalesce(sum(
+					coalesce(se.link_weight, 1) * coalesce(s.weight, 1) * coalesce(
+						(${JSON.stringify(trust)}::jsonb ->> d.host)::real,
+						(${JSON.stringify(trust)}::jsonb ->> regexp_replace(d.host, '^[^.]+\\.', ''))::real,
+						1
+					)
+				), 0)
+				FROM source_edges se
+				JOIN sources s ON s.id = se.source_id
+				LEFT JOIN remembered_contents rc
+					ON s.target_type = 'remembered_pages' AND rc.id::text = s.target_id
+				LEFT JOIN LATERAL (
+					SELECT lower(substring(rc.source_url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:www\\.)?([^/:?#]+)')) AS host
+				) d ON true
+				WHERE se.edge_id = edges.id AND s.type <> ${MANUAL_SOURCE_TYPE}
+			)`,
+		};
+	}
+}
+
+export const provenanceService = ProvenanceService.getInstance();
@@ -82,6 +82,7 @@
 
 import { logError, logInfo, logWarn } from "@/utils/logger";
 import type { IEmbeddingService } from "@/services/embedding";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
 import {
 	EmbeddingServiceMain,
 	EmbeddingServiceProxy,
@@ -291,12 +292,15 @@ export class ServiceManager {
 			await this.embeddingService.initialize();
 
 			if (!liteMode) {
-				// Full mode: Create default embedding model
-				await this.embeddingService.create("default", "local", {
-					type: "local",
-					modelName: "nomic-ai/nomic-embed-text-v1.5",
-				});
-				logInfo("✅ Embedding service initialized with local models");
+				// Full mode: Create the default embedding from the recorded model
+				const config = await embeddingModelService.getDefaultModelConfig();
+				try {
+					await this.embeddingService.create("default", config.type, config);
+					logInfo("✅ Embedding service initialized with local models");
+				} finally {
+					// Flags a model that failed to load or resumes a re-embed
+					await embeddingModelService.reconcile();
+				}
 			} else {
 				logInfo(
 					"✅ Embedding service initialized in lite mode (will use offscreen for operations)",
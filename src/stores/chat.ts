@@ -5,34 +5,76 @@ import {
 	type NewConversation,
 } from "@/services/database/db";
 import { serviceManager } from "@/services";
-import { eq, desc, asc } from "drizzle-orm";
+import { eq, desc, and, or, lt, ilike, exists } from "drizzle-orm";
 import { logError } from "@/utils/logger";
 import { v4 } from "@/utils/uuid";
 
+// Number of messages loaded per page when opening a conversation
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Title used until a conversation gets a generated one
+export const DEFAULT_CONVERSATION_TITLE = "New Chat";
+
 interface ChatStore {
 	// State
 	messages: Message[];
+	conversations: Conversation[];
 	currentConversation: Conversation | null;
+	hasMoreMessages: boolean;
 	isLoading: boolean;
 
 	// Actions
 	addMessage: (message: Partial<Message>) => Promise<Message>;
 	updateMessage: (id: string, message: Partial<Message>) => void;
 	finalizeMessage: (id: string, message: Partial<Message>) => Promise<void>;
+	loadConversations: (search?: string) => Promise<Conversation[]>;
 	loadConversation: (id: string) => Promise<void>;
+	loadOlderMessages: () => Promise<void>;
 	createNewConversation: (title?: string) => Promise<Conversation>;
-	ensureMainConversation: () => Promise<Conversation>;
+	openLatestConversation: () => Promise<Conversation | null>;
+	startNewConversation: () => void;
+	renameConversation: (id: string, title: string) => Promise<void>;
+	deleteConversation: (id: string) => Promise<void>;
 	clearMessages: () => void;
-	deleteMessages: () => void;
+	deleteMessages: () => Promise<void>;
 	setLoading: (loading: boolean) => void;
 
 	// Database sync
 	syncWithDB: () => Promise<void>;
 }
 
+// Load the newest page of messages of a conversation, oldest first
+async function loadMessagePage(
+	conversationId: string,
+	before?: Date,
+): Promise<{ messages: Message[]; hasMore: boolean }> {
+	const rows = await serviceManager.databaseService.use(({ db, schema }) =>
+		db
+			.select()
+			.from(schema.messages)
+			.where(
+				before
+					? and(
+							eq(schema.messages.conversationId, conversationId),
+							lt(schema.messages.createdAt, before),
+						)
+					: eq(schema.messages.conversationId, conversationId),
+			)
+			.orderBy(desc(schema.messages.createdAt))
+			.limit(MESSAGE_PAGE_SIZE + 1),
+	);
+
+	return {
+		messages: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+		hasMore: rows.length > MESSAGE_PAGE_SIZE,
+	};
+}
+
 export const useChatStore = create<ChatStore>((set, get) => ({
 	messages: [],
+	conversations: [],
 	currentConversation: null,
+	hasMoreMessages: false,
 	isLoading: false,
 
 	addMessage: async (messageData) => {
@@ -46,6 +88,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 		const message = {
 			id: v4(),
 			timestamp: new Date(),
+			createdAt: new Date(),
 			conversationId,
 			...messageData,
 		} as Message;
@@ -58,11 +101,31 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 			messages: [...state.messages, message],
 		}));
 
-		// Save to database
+		// Save to database and move the conversation to the top of the history
 		try {
-			await serviceManager.databaseService.use(({ db, schema }) =>
-				db.insert(schema.messages).values(message),
+			const conversation = await serviceManager.databaseService.use(
+				async ({ db, schema }) => {
+					await db.insert(schema.messages).values(message);
+					const [touched] = await db
+						.update(schema.conversations)
+						.set({ updatedAt: new Date() })
+						.where(eq(schema.conversations.id, message.conversationId))
+						.returning();
+					return touched;
+				},
 			);
+			if (conversation) {
+				set((state) => ({
+					currentConversation:
+						state.currentConversation?.id === conversation.id
+							? conversation
+							: state.currentConversation,
+					conversations: [
+						conversation,
+						...state.conversations.filter((c) => c.id !== conversation.id),
+					],
+				}));
+			}
 		} catch (error) {
 			logError("Failed to save message to database:", error);
 		}
@@ -121,16 +184,58 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 		}
 	},
 
+	loadConversations: async (search) => {
+		try {
+			const term = search?.trim();
+			const conversations = await serviceManager.databaseService.use(
+				({ db, schema }) =>
+					db
+						.select()
+						.from(schema.conversations)
+						.where(
+							term
+								? or(
+										ilike(schema.conversations.title, `%${term}%`),
+										exists(
+											db
+												.select({ id: schema.messages.id })
+												.from(schema.messages)
+												.where(
+													and(
+														eq(
+															schema.messages.conversationId,
+															schema.conversations.id,
+														),
+														ilike(schema.messages.content, `%${term}%`),
+													),
+												),
+										),
+									)
+								: undefined,
+						)
+						.orderBy(desc(schema.conversations.updatedAt)),
+			);
+
+			// Only the unfiltered list is kept as the sidebar history
+			if (!term) {
+				set({ conversations });
+			}
+			return conversations;
+		} catch (error) {
+			logError("Failed to load conversations:", error);
+			throw error;
+		}
+	},
+
 	createNewConversation: async (title?: string) => {
 		try {
 			const newConversation: NewConversation = {
-				title: title || "Main Chat",
+				title: title || DEFAULT_CONVERSATION_TITLE,
 				metadata: {
 					createdAt: new Date().toISOString(),
 				},
 			};
 
-			// Get or create the conversation
 			const conversation = await serviceManager.databaseService.use(
 				async ({ db, schema }) => {
 					const [created] = await db
@@ -141,7 +246,10 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 				},
 			);
 
-			set({ currentConversation: conversation });
+			set((state) => ({
+				currentConversation: conversation,
+				conversations: [conversation, ...state.conversations],
+			}));
 			return conversation;
 		} catch (error) {
 			logError("Failed to create conversation:", error);
@@ -149,37 +257,32 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 		}
 	},
 
-	ensureMainConversation: async () => {
+	openLatestConversation: async () => {
 		try {
-			// Pick the most recent conversation if exists; otherwise create one
-			const existing = await serviceManager.databaseService.use(
-				({ db, schema }) =>
-					db
-						.select()
-						.from(schema.conversations)
-						.orderBy(desc(schema.conversations.createdAt))
-						.limit(1),
-			);
-			const messages = await serviceManager.databaseService.use(
-				({ db, schema }) =>
-					db
-						.select()
-						.from(schema.messages)
-						.orderBy(asc(schema.messages.updatedAt)),
-			);
-
-			if (existing.length > 0) {
-				set({ currentConversation: existing[0], messages });
-				return existing[0];
+			// Reopen the most recently active conversation, if any. A new one is
+			// only created once the first message is sent.
+			const conversations = await get().loadConversations();
+			if (conversations.length === 0) {
+				set({
+					currentConversation: null,
+					messages: [],
+					hasMoreMessages: false,
+				});
+				return null;
 			}
 
-			return await get().createNewConversation("Main Chat");
+			await get().loadConversation(conversations[0].id);
+			return conversations[0];
 		} catch (error) {
-			logError("Failed to ensure main conversation:", error);
+			logError("Failed to open latest conversation:", error);
 			throw error;
 		}
 	},
 
+	startNewConversation: () => {
+		set({ currentConversation: null, messages: [], hasMoreMessages: false });
+	},
+
 	loadConversation: async (id: string) => {
 		try {
 			// Load conversation
@@ -197,19 +300,13 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 				throw new Error("Conversation not found");
 			}
 
-			// Load messages
-			const messages = await serviceManager.databaseService.use(
-				({ db, schema }) =>
-					db
-						.select()
-						.from(schema.messages)
-						.where(eq(schema.messages.conversationId, id))
-						.orderBy(schema.messages.createdAt),
-			);
+			// Load the latest page of messages
+			const { messages, hasMore } = await loadMessagePage(id);
 
 			set({
 				currentConversation: conversation,
 				messages,
+				hasMoreMessages: hasMore,
 			});
 		} catch (error) {
 			logError("Failed to load conversation:", error);
@@ -217,20 +314,97 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 		}
 	},
 
+	loadOlderMessages: async () => {
+		const { currentConversation, messages, hasMoreMessages } = get();
+		if (!currentConversation || !hasMoreMessages || messages.length === 0) {
+			return;
+		}
+
+		try {
+			const page = await loadMessagePage(
+				currentConversation.id,
+				messages[0].createdAt,
+			);
+
+			// Ignore the page if the user switched conversations meanwhile
+			if (get().currentConversation?.id !== currentConversation.id) return;
+
+			set((state) => ({
+				messages: [...page.messages, ...state.messages],
+				hasMoreMessages: page.hasMore,
+			}));
+		} catch (error) {
+			logError("Failed to load older messages:", error);
+		}
+	},
+
+	renameConversation: async (id, title) => {
+		try {
+			const [updated] = await serviceManager.databaseService.use(
+				({ db, schema }) =>
+					db
+						.update(schema.conversations)
+						.set({ title: title.trim() || DEFAULT_CONVERSATION_TITLE })
+						.where(eq(schema.conversations.id, id))
+						.returning(),
+			);
+			if (!updated) return;
+
+			set((state) => ({
+				conversations: state.conversations.map((c) =>
+					c.id === id ? updated : c,
+				),
+				currentConversation:
+					state.currentConversation?.id === id
+						? updated
+						: state.currentConversation,
+			}));
+		} catch (error) {
+			logError("Failed to rename conversation:", error);
+			throw error;
+		}
+	},
+
+	deleteConversation: async (id) => {
+		try {
+			await serviceManager.databaseService.use(async ({ db, schema }) => {
+				await db
+					.delete(schema.messages)
+					.where(eq(schema.messages.conversationId, id));
+				await db
+					.delete(schema.conversations)
+					.where(eq(schema.conversations.id, id));
+			});
+
+			set((state) => ({
+				conversations: state.conversations.filter((c) => c.id !== id),
+				...(state.currentConversation?.id === id
+					? { currentConversation: null, messages: [], hasMoreMessages: false }
+					: {}),
+			}));
+		} catch (error) {
+			logError("Failed to delete conversation:", error);
+			throw error;
+		}
+	},
+
 	clearMessages: () => {
 		set({
 			messages: [],
 			currentConversation: null,
+			hasMoreMessages: false,
 		});
 	},
 
 	deleteMessages: async () => {
-		await serviceManager.databaseService.use(({ db, schema }) =>
-			db.delete(schema.messages),
-		);
+		const conversation = get().currentConversation;
+		if (conversation) {
+			await get().deleteConversation(conversation.id);
+		}
 		set({
 			messages: [],
 			currentConversation: null,
+			hasMoreMessages: false,
 		});
 	},
 
@@ -244,17 +418,10 @@ export const useChatStore = create<ChatStore>((set, get) => ({
 
 			const conversationId = get().currentConversation!.id;
 
-			// Load latest messages from DB
-			const messages = await serviceManager.databaseService.use(
-				({ db, schema }) =>
-					db
-						.select()
-						.from(schema.messages)
-						.where(eq(schema.messages.conversationId, conversationId))
-						.orderBy(schema.messages.createdAt),
-			);
+			// Reload the latest page of messages from DB
+			const { messages, hasMore } = await loadMessagePage(conversationId);
 
-			set({ messages });
+			set({ messages, hasMoreMessages: hasMore });
 		} catch (error) {
 			logError("Failed to sync with database:", error);
 		}
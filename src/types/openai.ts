@@ -1,7 +1,44 @@
 // OpenAI-compatible types
+export interface ChatToolCall {
+	id: string;
+	type: "function";
+	function: {
+		name: string;
+		arguments: string; // JSON-encoded arguments
+	};
+}
+
+export interface ChatToolCallDelta {
+	index: number;
+	id?: string;
+	type?: "function";
+	function?: {
+		name?: string;
+		arguments?: string;
+	};
+}
+
+export interface ChatTool {
+	type: "function";
+	function: {
+		name: string;
+		description?: string;
+		parameters: Record<string, unknown>; // JSON schema
+	};
+}
+
+export type ChatToolChoice =
+	| "none"
+	| "auto"
+	| "required"
+	| { type: "function"; function: { name: string } };
+
 export interface ChatMessage {
-	role: "system" | "user" | "assistant";
+	role: "system" | "user" | "assistant" | "tool";
 	content: string;
+	tool_calls?: ChatToolCall[]; // assistant messages requesting tool execution
+	tool_call_id?: string; // tool messages answering a tool call
+	name?: string;
 }
 
 export interface ChatCompletionRequest {
@@ -13,9 +50,14 @@ export interface ChatCompletionRequest {
 	top_p?: number;
 	top_k?: number;
 	stop?: string | string[];
+	tools?: ChatTool[];
+	tool_choice?: ChatToolChoice;
+	response_format?: { type: "text" | "json_object" };
 	signal?: AbortSignal;
 }
 
+export type ChatFinishReason = "stop" | "length" | "tool_calls";
+
 export interface ChatCompletionResponse {
 	id: string;
 	object: "chat.completion";
@@ -26,8 +68,9 @@ export interface ChatCompletionResponse {
 		message: {
 			role: "assistant";
 			content: string;
+			tool_calls?: ChatToolCall[];
 		};
-		finish_reason: "stop" | "length";
+		finish_reason: ChatFinishReason;
 	}>;
 	usage: {
 		prompt_tokens: number;
@@ -46,7 +89,8 @@ export interface ChatCompletionChunk {
 		delta: {
 			role?: "assistant";
 			content?: string;
+			tool_calls?: ChatToolCallDelta[];
 		};
-		finish_reason: "stop" | "length" | null;
+		finish_reason: ChatFinishReason | null;
 	}>;
 }
@@ -11,14 +11,18 @@ function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
 	return out;
 }
 
-function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
 	const uint8Array =
 		bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
-	const binary = String.fromCharCode(...uint8Array);
+	// Spread in chunks; a whole file would overflow the argument limit
+	let binary = "";
+	for (let i = 0; i < uint8Array.length; i += 0x8000) {
+		binary += String.fromCharCode(...uint8Array.subarray(i, i + 0x8000));
+	}
 	return btoa(binary);
 }
 
-function base64ToBytes(b64: string): Uint8Array {
+export function base64ToBytes(b64: string): Uint8Array {
 	const binary = atob(b64);
 	const bytes = new Uint8Array(binary.length);
 	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
@@ -1,5 +1,8 @@
 import type { ChatMessage } from "@/types/openai";
-import type { ILLMService } from "@/services/llm/interfaces/llm-service.interface";
+import type {
+	CurrentModelInfo,
+	ILLMService,
+} from "@/services/llm/interfaces/llm-service.interface";
 import { logError } from "./logger";
 
 // Simple token estimator: ~4 chars per token heuristic
@@ -59,6 +62,9 @@ export function chunkByTokens(
 
 export interface MapRefineOptions<T> extends ChunkingOptions {
 	temperature?: number;
+	// Model to run on, e.g. the one routed to the caller's role; defaults to
+	// the current model
+	model?: CurrentModelInfo;
 	// Dedup and merge items after each chunk
 	dedupeBy?: (item: T) => string;
 	// Retry configuration
@@ -84,6 +90,7 @@ export async function mapRefine<T>(
 ): Promise<T[]> {
 	const {
 		temperature = 0.1,
+		model,
 		maxModelTokens,
 		maxResponseTokens = 512,
 		overlapTokens = 64,
@@ -158,7 +165,7 @@ export async function mapRefine<T>(
 								errorContext: string | null;
 								shouldRetry: boolean;
 							} = await processChunkWithRetry(
-								llm,
+								{ llm, model },
 								systemPrompt,
 								truncatedUserPrompt,
 								parse,
@@ -236,7 +243,7 @@ export async function mapRefine<T>(
 					errorContext: string | null;
 					shouldRetry: boolean;
 				} = await processChunkWithRetry(
-					llm,
+					{ llm, model },
 					systemPrompt,
 					userPrompt,
 					parse,
@@ -265,7 +272,7 @@ export async function mapRefine<T>(
 
 // Helper function to process a chunk with retry mechanism
 async function processChunkWithRetry<T>(
-	llm: ILLMService,
+	{ llm, model }: { llm: ILLMService; model?: CurrentModelInfo },
 	systemPrompt: string,
 	userPrompt: string,
 	parse: (assistantContent: string) => T[],
@@ -292,12 +299,18 @@ async function processChunkWithRetry<T>(
 				{ role: "user", content: userPrompt },
 			];
 
-			const response = await llm.chatCompletions({
+			const request = {
 				messages,
 				max_tokens: maxResponseTokens,
 				temperature,
 				stream: false,
-			});
+			};
+			const response = await (model
+				? llm.chatCompletionsFor(model.serviceName, {
+						...request,
+						model: model.modelId,
+					})
+				: llm.chatCompletions(request));
 
 			if ("choices" in response && response.choices[0]?.message?.content) {
 				const content = response.choices[0].message.content;
@@ -0,0 +1,56 @@
+/**
+ * Paragraph-level diff for re-remembered pages. Paragraphs are compared by
+ * their whitespace-normalized text, as a multiset: moving a paragraph is not
+ * a change, but adding, removing or editing one is.
+ */
+
+export interface ParagraphDiff {
+	added: string[];
+	removed: string[];
+	unchanged: number;
+}
+
+function normalize(paragraph: string): string {
+	return paragraph.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Split text into paragraphs on line breaks, dropping empty ones.
+ * Readability's textContent separates blocks with one or more newlines.
+ */
+export function splitParagraphs(text: string): string[] {
+	return text
+		.split(/\n+/)
+		.map(normalize)
+		.filter((paragraph) => paragraph.length > 0);
+}
+
+export function diffParagraphs(previous: string, next: string): ParagraphDiff {
+	const remaining = new Map<string, number>();
+	for (const paragraph of splitParagraphs(previous)) {
+		remaining.set(paragraph, (remaining.get(paragraph) ?? 0) + 1);
+	}
+
+	const added: string[] = [];
+	let unchanged = 0;
+	for (const paragraph of splitParagraphs(next)) {
+		const count = remaining.get(paragraph) ?? 0;
+		if (count > 0) {
+			remaining.set(paragraph, count - 1);
+			unchanged++;
+		} else {
+			added.push(paragraph);
+		}
+	}
+
+	const removed: string[] = [];
+	for (const [paragraph, count] of remaining) {
+		for (let i = 0; i < count; i++) removed.push(paragraph);
+	}
+
+	return { added, removed, unchanged };
+}
+
+export function hasChanges(diff: ParagraphDiff): boolean {
+	return diff.added.length > 0 || diff.removed.length > 0;
+}
@@ -8,6 +8,17 @@ export interface TrigramSearchResult<T> {
 
 export interface TrigramSearchParams {
 	threshold?: number; // Minimum similarity threshold (default: 0.1)
+	graph?: string; // Only rows of this graph (topic)
+}
+
+/**
+ * FROM clause over a trigram search function. With a graph the function
+ * returns every match so the limit applies after filtering by graph.
+ */
+function trigramSource(fn: string, graph?: string): string {
+	return graph
+		? `${fn}($1, $2, NULL) WHERE graph = $4 ORDER BY similarity_score DESC LIMIT $3`
+		: `${fn}($1, $2, $3)`;
 }
 
 /**
@@ -29,7 +40,7 @@ export async function trigramSearchNodes(
 	if (searchTerms.length === 0) return [];
 
 	try {
-		const { threshold = 0.1 } = params;
+		const { threshold = 0.1, graph } = params;
 		const searchText = prepareSearchText(searchTerms);
 
 		if (!searchText) return [];
@@ -46,8 +57,10 @@ export async function trigramSearchNodes(
 					created_at,
 					updated_at,
 					similarity_score
-				FROM search_nodes_trigram($1, $2, $3)`,
-				[searchText, threshold, limit],
+				FROM ${trigramSource("search_nodes_trigram", graph)}`,
+				graph
+					? [searchText, threshold, limit, graph]
+					: [searchText, threshold, limit],
 			);
 			const rows = (queryResult as { rows: [] })?.rows || [];
 			return rows as Array<
@@ -108,7 +121,7 @@ export async function trigramSearchEdges(
 	if (searchTerms.length === 0) return [];
 
 	try {
-		const { threshold = 0.1 } = params;
+		const { threshold = 0.1, graph } = params;
 		const searchText = prepareSearchText(searchTerms);
 
 		if (!searchText) return [];
@@ -128,8 +141,10 @@ export async function trigramSearchEdges(
 					created_at,
 					updated_at,
 					similarity_score
-				FROM search_edges_trigram($1, $2, $3)`,
-				[searchText, threshold, limit],
+				FROM ${trigramSource("search_edges_trigram", graph)}`,
+				graph
+					? [searchText, threshold, limit, graph]
+					: [searchText, threshold, limit],
 			);
 			const rows = (queryResult as { rows: [] })?.rows || [];
 			return rows as Array<
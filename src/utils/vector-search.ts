@@ -1,12 +1,21 @@
 import type { BaseEmbedding } from "@/services/embedding/interfaces/base-embedding";
+import { embeddingModelService } from "@/services/embedding/embedding-model-service";
 import type { DatabaseService } from "@/services/database/database-service";
-import type { Node, Edge } from "@/services/database/db";
+import type { Node, Edge, ContentChunk } from "@/services/database/db";
 
 export interface VectorSearchResult<T> {
 	item: T;
 	similarity: number;
 }
 
+export type ChunkSearchItem = Pick<
+	ContentChunk,
+	"id" | "contentId" | "ordinal" | "text" | "startOffset" | "endOffset"
+> & {
+	title: string;
+	sourceUrl: string | null;
+};
+
 export interface SearchWeights {
 	sqlPercentage: number;
 	vectorPercentage: number;
@@ -40,6 +49,7 @@ export async function vectorSearchNodes(
 	try {
 		// Create combined search text
 		const searchText = searchTerms.join(" ");
+		await embeddingModelService.assertSearchable(embeddingService);
 		const searchEmbedding = await embeddingService.textToVector(searchText);
 
 		const results = await databaseService.use(async ({ db, raw }) => {
@@ -117,6 +127,7 @@ export async function vectorSearchEdges(
 	try {
 		// Create combined search text
 		const searchText = searchTerms.join(" ");
+		await embeddingModelService.assertSearchable(embeddingService);
 		const searchEmbedding = await embeddingService.textToVector(searchText);
 
 		const results = await databaseService.use(async ({ raw }) => {
@@ -199,6 +210,89 @@ export async function vectorSearchEdges(
 	}
 }
 
+/**
+ * Performs vector similarity search for passages of remembered content
+ */
+export async function vectorSearchChunks(
+	databaseService: DatabaseService,
+	embeddingService: BaseEmbedding,
+	searchTerms: string[],
+	limit: number,
+	topicFilter?: string,
+): Promise<VectorSearchResult<ChunkSearchItem>[]> {
+	if (searchTerms.length === 0) return [];
+
+	try {
+		const searchText = searchTerms.join(" ");
+		await embeddingModelService.assertSearchable(embeddingService);
+		const searchEmbedding = await embeddingService.textToVector(searchText);
+
+		const results = await databaseService.use(async ({ raw }) => {
+			let query = `
+				SELECT c.id,
+					c.content_id,
+					c.ordinal,
+					c.text,
+					c.start_offset,
+					c.end_offset,
+					rc.title,
+					COALESCE(rc.source_url, rc.original_url) as source_url,
+					1 - (c.embedding <=> $1::vector) as similarity
+				FROM content_chunks c
+				JOIN remembered_contents rc ON rc.id = c.content_id
+				WHERE c.embedding IS NOT NULL`;
+
+			const params: (string | number)[] = [JSON.stringify(searchEmbedding)];
+
+			if (topicFilter) {
+				query += ` AND c.topic_id = $${params.length + 1}`;
+				params.push(topicFilter);
+			}
+
+			query += `
+				ORDER BY c.embedding <=> $1::vector
+				LIMIT $${params.length + 1}`;
+			params.push(limit);
+
+			const queryResult = await raw(query, params);
+			const rows = (queryResult as { rows: [] })?.rows || [];
+			return rows as Array<{
+				id: string;
+				content_id: string;
+				ordinal: number;
+				text: string;
+				start_offset: number;
+				end_offset: number;
+				title: string;
+				source_url: string | null;
+				similarity: number;
+			}>;
+		});
+
+		return (
+			results?.map((row) => ({
+				item: {
+					id: row.id,
+					contentId: row.content_id,
+					ordinal: row.ordinal,
+					text: row.text,
+					startOffset: row.start_offset,
+					endOffset: row.end_offset,
+					title: row.title,
+					sourceUrl: row.source_url,
+				},
+				similarity: Number(row.similarity),
+			})) || []
+		);
+	} catch (error) {
+		console.warn(
+			"Vector search for chunks failed, falling back to empty results:",
+			error,
+		);
+		return [];
+	}
+}
+
 /**
  * Combines and weights SQL and vector search results
  */